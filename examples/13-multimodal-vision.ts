@@ -3,7 +3,8 @@
 // =============================================================================
 //
 // Sends an image to a vision-capable model using the message array format.
-// The Agent supports multimodal content via the Message interface.
+// The native agent bindings carry text only, so the image goes in as a URL
+// in the text; `{ type: "image" }` parts are rejected with a CapabilityError.
 //
 // Usage: npx tsx examples/13-multimodal-vision.ts
 
@@ -1,3 +1,4 @@
 export { MiddlewareChain } from "./sdk/middleware.js";
+export type { MiddlewareLogger } from "./sdk/middleware.js";
 export { GuardrailChain } from "./sdk/guardrail.js";
 export { PluginRegistry } from "./sdk/plugin.js";
@@ -1,2 +1,7 @@
 export { Memory } from "./sdk/memory.js";
+export { JsonlMemoryBackend, SqliteMemoryBackend } from "./sdk/memory-backends.js";
 export { VectorStore } from "./sdk/vector-store.js";
+export { RagPipeline } from "./sdk/rag-pipeline.js";
+export { ProviderEmbedder, LocalEmbedder, CachedEmbedder } from "./sdk/embeddings.js";
+export { llmReranker, crossEncoderReranker, mmrReranker } from "./sdk/rerank.js";
+export { loadFile, loadDirectory } from "./sdk/document-loader.js";
@@ -0,0 +1,134 @@
+/**
+ * Tests for AbortSignal cancellation across Agent entry points and tool execution.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => 42),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async () => ({ text: "done", steps: 1, inputTokens: 10, outputTokens: 5 })),
+  agent_run_with_tool_executor: vi.fn(async () => ({ text: "done", steps: 1, inputTokens: 10, outputTokens: 5 })),
+  agent_stream_with_tool_executor: vi.fn(async () => ({ text: "done", steps: 1, inputTokens: 10, outputTokens: 5 })),
+  count_tokens: vi.fn((text: string) => text.split(/\s+/).length),
+  count_message_tokens: vi.fn(() => 12),
+}));
+
+import { Agent } from "../agent.js";
+import { tool } from "../tool.js";
+import { AbortError, GaussError } from "../errors.js";
+import type { StreamEvent } from "../stream-iter.js";
+import { agent_run, agent_run_with_tool_executor, agent_stream_with_tool_executor } from "gauss-napi";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("Agent cancellation", () => {
+  it("rejects before calling the provider when the signal is already aborted", async () => {
+    const agent = new Agent({ providerOptions: { apiKey: "k" } });
+    const controller = new AbortController();
+    controller.abort();
+
+    const err = await agent.run("hi", { signal: controller.signal }).catch((e) => e);
+    expect(err).toBeInstanceOf(AbortError);
+    expect(err).toBeInstanceOf(GaussError);
+    expect(err.code).toBe("ABORTED");
+    expect(agent_run).not.toHaveBeenCalled();
+
+    agent.destroy();
+  });
+
+  it("rejects mid-run without waiting for the native call and reports partial usage", async () => {
+    let finish: () => void = () => {};
+    vi.mocked(agent_run).mockImplementationOnce(() => new Promise((resolve) => {
+      finish = () => resolve({ text: "late", steps: 1, inputTokens: 10, outputTokens: 5 });
+    }));
+    const agent = new Agent({ providerOptions: { apiKey: "k" } });
+    const controller = new AbortController();
+
+    const pending = agent.run("hi", { signal: controller.signal });
+    await vi.waitFor(() => expect(agent_run).toHaveBeenCalled());
+    controller.abort("stop");
+
+    const err = await pending.catch((e) => e);
+    expect(err).toBeInstanceOf(AbortError);
+    expect(err.reason).toBe("stop");
+    expect(err.partialUsage).toEqual({ inputTokens: 12, outputTokens: 0, toolCalls: 0, estimated: true });
+    finish();
+
+    agent.destroy();
+  });
+
+  it("passes the signal to tools and fails later tool calls so the loop stops", async () => {
+    const controller = new AbortController();
+    const seen: Array<AbortSignal | undefined> = [];
+    const slow = tool({
+      name: "slow",
+      description: "A tool that triggers cancellation",
+      execute: async (_params, { signal }) => {
+        seen.push(signal);
+        controller.abort();
+        return { ok: true };
+      },
+    });
+    let loopError: unknown;
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (_n, _h, _t, _m, _o, exec) => {
+      try {
+        await exec?.(JSON.stringify({ tool: "slow", args: {} }));
+      } catch (e) {
+        loopError = e;
+      }
+      return { text: "done", steps: 1, inputTokens: 1, outputTokens: 1 };
+    });
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, tools: [slow] });
+
+    await expect(agent.run("go", { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(seen[0]).toBe(controller.signal);
+    expect(loopError).toBeInstanceOf(AbortError);
+
+    agent.destroy();
+  });
+
+  it("stops a streamIter, drops further events and uses reported usage", async () => {
+    const controller = new AbortController();
+    let emit: (json: string) => void = () => {};
+    vi.mocked(agent_stream_with_tool_executor).mockImplementationOnce((_n, _h, _t, _m, _o, onEvent) => {
+      emit = (json) => onEvent?.(json);
+      return new Promise(() => {});
+    });
+    const agent = new Agent({ providerOptions: { apiKey: "k" } });
+    const stream = agent.streamIter("hi", undefined, { signal: controller.signal });
+
+    const events: StreamEvent[] = [];
+    const consume = (async () => {
+      for await (const event of stream) {
+        events.push(event);
+        if (events.length === 1) {
+          controller.abort();
+          emit(JSON.stringify({ type: "text_delta", text: "ignored" }));
+        }
+      }
+    })();
+    await vi.waitFor(() => expect(agent_stream_with_tool_executor).toHaveBeenCalled());
+    emit(JSON.stringify({ type: "text_delta", text: "hello", usage: { inputTokens: 7, outputTokens: 1 } }));
+
+    const err = await consume.catch((e) => e);
+    expect(err).toBeInstanceOf(AbortError);
+    expect(err.partialUsage).toMatchObject({ inputTokens: 7, outputTokens: 1, estimated: false });
+    expect(events.map((e) => e.text)).toEqual(["hello"]);
+
+    agent.destroy();
+  });
+
+  it("accepts a signal in streamText", async () => {
+    const agent = new Agent({ providerOptions: { apiKey: "k" } });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(agent.streamText("hi", undefined, undefined, { signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+    expect(agent_stream_with_tool_executor).not.toHaveBeenCalled();
+
+    agent.destroy();
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Tests for human-in-the-loop tool approval — the ApprovalManager wait, approval-gated
+ * tool executors, and approval requests during agent runs and streams.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => {
+  let next = 0;
+  return {
+    create_approval_manager: vi.fn(() => 500),
+    approval_request: vi.fn(() => `req-${++next}`),
+    approval_approve: vi.fn(),
+    approval_deny: vi.fn(),
+    approval_list_pending: vi.fn(() => []),
+    destroy_approval_manager: vi.fn(),
+    create_provider: vi.fn(() => 10),
+    destroy_provider: vi.fn(),
+    agent_run: vi.fn(async () => ({ text: "ok", steps: 1, inputTokens: 1, outputTokens: 1 })),
+    // Both loops call "refund" once, then answer with its result
+    agent_run_with_tool_executor: vi.fn(async (...args: unknown[]) => {
+      const executor = args[5] as (call: string) => Promise<string>;
+      const result = await executor(JSON.stringify({ tool: "refund", id: "c1", args: { orderId: 42, amount: 100 } }));
+      return { text: result, steps: 2, inputTokens: 1, outputTokens: 1 };
+    }),
+    agent_stream_with_tool_executor: vi.fn(async (...args: unknown[]) => {
+      const onEvent = args[5] as (json: string) => void;
+      const executor = args[6] as (call: string) => Promise<string>;
+      const result = await executor(JSON.stringify({ tool: "refund", id: "c1", args: { orderId: 42, amount: 100 } }));
+      onEvent(JSON.stringify({ type: "text_delta", text: result }));
+      return { text: result, steps: 2, inputTokens: 1, outputTokens: 1 };
+    }),
+  };
+});
+
+import { ApprovalManager } from "../approval.js";
+import { Agent } from "../agent.js";
+import { tool, createToolExecutor } from "../tool.js";
+import { ValidationError } from "../errors.js";
+import type { ApprovalRequest } from "../types.js";
+import { approval_approve, approval_deny } from "gauss-napi";
+
+let executed: Array<Record<string, unknown>>;
+
+const refund = tool({
+  name: "refund",
+  description: "Refund an order",
+  parameters: { orderId: { type: "number" }, amount: { type: "number" } },
+  requiresApproval: true,
+  execute: async (params: { orderId: number; amount: number }) => {
+    executed.push(params);
+    return { refunded: params.amount };
+  },
+});
+
+const call = (args: Record<string, unknown>) => JSON.stringify({ tool: "refund", id: "c1", args });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  executed = [];
+});
+
+describe("ApprovalManager decisions", () => {
+  it("resolves a waiting request when it is approved or denied", async () => {
+    const manager = new ApprovalManager();
+    const first = manager.request("refund", { orderId: 1 }, "s");
+    const second = manager.request("refund", { orderId: 2 }, "s");
+    const decisions = Promise.all([manager.waitForDecision(first), manager.waitForDecision(second)]);
+
+    manager.approve(first, { orderId: 3 });
+    manager.deny(second, "too large");
+
+    expect(await decisions).toEqual([
+      { approved: true, modifiedArgs: { orderId: 3 } },
+      { approved: false, reason: "too large" },
+    ]);
+    expect(approval_approve).toHaveBeenCalledWith(500, first, '{"orderId":3}');
+    expect(approval_deny).toHaveBeenCalledWith(500, second, "too large");
+    await expect(manager.waitForDecision(first)).rejects.toThrow(ValidationError);
+  });
+
+  it("notifies listeners and denies waiting requests on destroy", async () => {
+    const manager = new ApprovalManager();
+    const seen: ApprovalRequest[] = [];
+    manager.onRequest((request) => seen.push(request));
+
+    const requestId = manager.request("refund", { orderId: 1 }, "s", "c9");
+    const decision = manager.waitForDecision(requestId);
+    await Promise.resolve();
+    expect(seen).toEqual([{ requestId, toolName: "refund", args: { orderId: 1 }, sessionId: "s", toolCallId: "c9" }]);
+
+    manager.destroy();
+    expect(await decision).toMatchObject({ approved: false });
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    const manager = new ApprovalManager();
+    const controller = new AbortController();
+    const decision = manager.waitForDecision(manager.request("refund", {}, "s"), { signal: controller.signal });
+
+    controller.abort(new Error("cancelled"));
+
+    await expect(decision).rejects.toThrow("cancelled");
+  });
+});
+
+describe("createToolExecutor with approvals", () => {
+  function setup() {
+    const manager = new ApprovalManager();
+    const requests: ApprovalRequest[] = [];
+    const executor = createToolExecutor([refund], undefined, {
+      approvals: { manager, sessionId: "s", onRequest: (request) => requests.push(request) },
+    });
+    return { manager, requests, executor };
+  }
+
+  it("runs the tool with the approved or modified arguments", async () => {
+    const { manager, requests, executor } = setup();
+
+    const pending = executor(call({ orderId: 42, amount: 100 }));
+    await Promise.resolve();
+    expect(executed).toEqual([]);
+    manager.approve(requests[0].requestId, { orderId: 42, amount: 50 });
+
+    expect(JSON.parse(await pending)).toEqual({ refunded: 50 });
+    expect(requests[0]).toMatchObject({ toolName: "refund", toolCallId: "c1", args: { orderId: 42, amount: 100 } });
+  });
+
+  it("returns the denial reason without running the tool", async () => {
+    const { manager, requests, executor } = setup();
+
+    const pending = executor(call({ orderId: 42, amount: 100 }));
+    await Promise.resolve();
+    manager.deny(requests[0].requestId, "over the refund limit");
+
+    expect(JSON.parse(await pending)).toEqual({ error: 'Tool "refund" was denied: over the refund limit' });
+    expect(executed).toEqual([]);
+  });
+
+  it("asks a predicate whether a call needs approval", async () => {
+    const manager = new ApprovalManager();
+    const gated = tool({
+      ...refund,
+      requiresApproval: (params: { orderId: number; amount: number }) => params.amount > 100,
+    });
+    const executor = createToolExecutor([gated], undefined, { approvals: { manager, sessionId: "s" } });
+
+    expect(JSON.parse(await executor(call({ orderId: 1, amount: 10 })))).toEqual({ refunded: 10 });
+    expect(executed).toHaveLength(1);
+  });
+
+  it("refuses gated calls without an approval manager", async () => {
+    const executor = createToolExecutor([refund]);
+
+    expect(JSON.parse(await executor(call({ orderId: 1, amount: 10 }))).error).toMatch(/requires approval/);
+    expect(executed).toEqual([]);
+  });
+});
+
+describe("Agent approvals", () => {
+  function setup() {
+    const approvals = new ApprovalManager();
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" }, tools: [refund] })
+      .withApprovals(approvals);
+    return { approvals, agent };
+  }
+
+  it("suspends run until the request is approved", async () => {
+    const { approvals, agent } = setup();
+    approvals.onRequest((request) => approvals.approve(request.requestId));
+
+    const result = await agent.run("Refund order 42");
+
+    expect(result.text).toBe('{"refunded":100}');
+    expect(executed).toEqual([{ orderId: 42, amount: 100 }]);
+  });
+
+  it("emits approval_required events from streamIter", async () => {
+    const { approvals, agent } = setup();
+    const events: Array<Record<string, unknown>> = [];
+
+    for await (const event of agent.streamIter("Refund order 42")) {
+      events.push(event);
+      if (event.type === "approval_required") approvals.deny(event.requestId as string, "needs a manager");
+    }
+
+    expect(events).toEqual([
+      { type: "approval_required", requestId: expect.any(String), toolName: "refund", toolCallId: "c1", args: { orderId: 42, amount: 100 } },
+      { type: "text_delta", text: '{"error":"Tool \\"refund\\" was denied: needs a manager"}' },
+    ]);
+    expect(executed).toEqual([]);
+  });
+
+  it("emits approval_required events from stream callbacks", async () => {
+    const { approvals, agent } = setup();
+    const types: string[] = [];
+
+    await agent.stream("Refund order 42", (json) => {
+      const event = JSON.parse(json);
+      types.push(event.type);
+      if (event.type === "approval_required") approvals.approve(event.requestId);
+    });
+
+    expect(types).toEqual(["approval_required", "text_delta"]);
+    expect(executed).toHaveLength(1);
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Tests for durable checkpoints — JSONL and SQLite backends, and resuming agent and graph runs.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("gauss-napi", () => ({
+  create_checkpoint_store: vi.fn(() => 1),
+  checkpoint_save: vi.fn(async () => undefined),
+  checkpoint_load: vi.fn(async () => null),
+  checkpoint_load_latest: vi.fn(async () => null),
+  destroy_checkpoint_store: vi.fn(),
+  create_provider: vi.fn(() => 10),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async (_name: string, _handle: number, _tools: unknown, messages: Array<{ content: string }>) =>
+    ({ text: `done: ${messages[messages.length - 1].content}`, steps: 1, inputTokens: 1, outputTokens: 1 })),
+  // Calls "fetch" for page 1 and page 2, then answers with both results
+  agent_run_with_tool_executor: vi.fn(async (...args: unknown[]) => {
+    const executor = args[5] as (call: string) => Promise<string>;
+    const first = await executor(JSON.stringify({ tool: "fetch", id: "c1", args: { page: 1 } }));
+    const second = await executor(JSON.stringify({ tool: "fetch", id: "c2", args: { page: 2 } }));
+    return { text: `${first} ${second}`, steps: 3, inputTokens: 1, outputTokens: 1 };
+  }),
+  create_graph: vi.fn(() => 20),
+  graph_add_node: vi.fn(),
+  graph_add_edge: vi.fn(),
+  graph_add_fork_node: vi.fn(),
+  graph_run: vi.fn(async () => ({ outputs: {}, final_text: "native" })),
+  destroy_graph: vi.fn(),
+}));
+
+import { CheckpointStore } from "../checkpoint.js";
+import { JsonlCheckpointBackend, SqliteCheckpointBackend } from "../checkpoint-backends.js";
+import { Agent } from "../agent.js";
+import { Graph } from "../graph.js";
+import { ValidationError } from "../errors.js";
+import { tool } from "../tool.js";
+import type { Checkpoint, CheckpointBackend } from "../types.js";
+import { agent_run, agent_run_with_tool_executor, destroy_checkpoint_store, graph_run } from "gauss-napi";
+
+function checkpoint(id: string, sessionId: string, minute: number, data: Record<string, unknown> = {}): Checkpoint {
+  return { id, sessionId, data, timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString() };
+}
+
+/** Behaviour every persistent backend shares. */
+async function exerciseBackend(backend: CheckpointBackend) {
+  await backend.save(checkpoint("a1", "a", 1));
+  await backend.save(checkpoint("a2", "a", 2));
+  await backend.save(checkpoint("b1", "b", 1));
+  await backend.save(checkpoint("a3", "a", 2, { last: true }));
+  await backend.save(checkpoint("a1", "a", 1, { edited: true }));
+
+  expect(await backend.load("a1")).toEqual(checkpoint("a1", "a", 1, { edited: true }));
+  expect(await backend.load("missing")).toBeNull();
+  // Equal timestamps: the one saved last is the latest
+  expect(await backend.loadLatest("a")).toEqual(checkpoint("a3", "a", 2, { last: true }));
+  expect(await backend.loadLatest("none")).toBeNull();
+  expect((await backend.list!("a")).map((cp) => cp.id)).toEqual(["a1", "a2", "a3"]);
+
+  expect(await backend.deleteSession!("a")).toBe(3);
+  expect(await backend.deleteSession!("a")).toBe(0);
+  expect(await backend.loadLatest("a")).toBeNull();
+  expect((await backend.list!("b")).map((cp) => cp.id)).toEqual(["b1"]);
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  dir = await mkdtemp(join(tmpdir(), "gauss-checkpoint-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("JsonlCheckpointBackend", () => {
+  it("implements the backend contract", async () => {
+    await exerciseBackend(new JsonlCheckpointBackend(join(dir, "cp.jsonl")));
+  });
+
+  it("survives restarts and erases deleted sessions from disk", async () => {
+    const path = join(dir, "nested", "cp.jsonl");
+    const first = new CheckpointStore({ backend: new JsonlCheckpointBackend(path) });
+    await first.save({ id: "a1", sessionId: "a", data: { secret: "Berlin" } });
+    await first.save({ id: "b1", sessionId: "b" });
+    first.destroy();
+
+    const second = new CheckpointStore({ backend: new JsonlCheckpointBackend(path) });
+    expect((await second.loadLatest("a"))?.data).toEqual({ secret: "Berlin" });
+    expect(await second.deleteSession("a")).toBe(1);
+    const file = await readFile(path, "utf8");
+    expect(file).not.toContain("Berlin");
+    expect(file.trim().split("\n")).toHaveLength(1);
+  });
+
+  it("picks up changes made by another process and skips torn lines", async () => {
+    const path = join(dir, "cp.jsonl");
+    await writeFile(path, `${JSON.stringify(checkpoint("a1", "a", 1))}\n{"id":"trunc`);
+    const backend = new JsonlCheckpointBackend(path);
+    expect(await backend.list("a")).toHaveLength(1);
+
+    await appendFile(path, `\n${JSON.stringify(checkpoint("a2", "a", 2))}\n`);
+    expect((await backend.loadLatest("a"))?.id).toBe("a2");
+  });
+});
+
+const sqlite = await SqliteCheckpointBackend.open(":memory:").catch((err) => err as Error);
+
+describe.skipIf(sqlite instanceof Error)("SqliteCheckpointBackend", () => {
+  it("implements the backend contract", async () => {
+    await exerciseBackend(sqlite as SqliteCheckpointBackend);
+  });
+
+  it("rejects table names that are not identifiers", () => {
+    expect(() => new SqliteCheckpointBackend((sqlite as SqliteCheckpointBackend).db, { table: "x; DROP" }))
+      .toThrow(ValidationError);
+  });
+});
+
+describe("CheckpointStore", () => {
+  it("defaults the session ID and timestamp", async () => {
+    const store = new CheckpointStore({ backend: new JsonlCheckpointBackend(join(dir, "cp.jsonl")) });
+    await store.save({ id: "x" });
+
+    expect(await store.load("x")).toMatchObject({ id: "x", sessionId: "x", data: {} });
+    expect(() => store.handle).toThrow(ValidationError);
+  });
+
+  it("rejects listing on backends that cannot list", async () => {
+    const store = new CheckpointStore();
+    await expect(store.list("s")).rejects.toThrow(ValidationError);
+    await expect(store.deleteSession("s")).rejects.toThrow(ValidationError);
+    store.destroy();
+  });
+
+  it("closes only the backend it created", () => {
+    const close = vi.fn();
+    new CheckpointStore({ backend: Object.assign(new JsonlCheckpointBackend(join(dir, "cp.jsonl")), { close }) }).destroy();
+    expect(close).not.toHaveBeenCalled();
+
+    new CheckpointStore().destroy();
+    expect(destroy_checkpoint_store).toHaveBeenCalledWith(1);
+  });
+});
+
+describe("Agent checkpoints", () => {
+  let executed: number[];
+  const fetchPage = tool({
+    name: "fetch",
+    description: "Fetch a page",
+    parameters: { page: { type: "number" } },
+    execute: async ({ page }: { page: number }) => {
+      executed.push(page);
+      return `page-${page}`;
+    },
+  });
+
+  beforeEach(() => {
+    executed = [];
+  });
+
+  function setup() {
+    const store = new CheckpointStore({ backend: new JsonlCheckpointBackend(join(dir, "cp.jsonl")) });
+    const agent = new Agent({
+      name: "crawler", provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" }, tools: [fetchPage],
+    }).withCheckpoints(store);
+    return { store, agent };
+  }
+
+  it("saves checkpoints under the run ID and reports the last one", async () => {
+    const { store, agent } = setup();
+
+    const result = await agent.run("Crawl", { runId: "job-1" });
+
+    const saved = await store.list("job-1");
+    expect(saved.map((cp) => cp.data.status)).toEqual(["running", "running", "running", "running", "running", "completed"]);
+    expect(result.checkpoint).toEqual({ runId: "job-1", checkpointId: saved[saved.length - 1].id });
+  });
+
+  it("resumes a crashed run from its last completed step", async () => {
+    const { store, agent } = setup();
+    // The process dies after the first tool step
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (...args: unknown[]) => {
+      await (args[5] as (call: string) => Promise<string>)(JSON.stringify({ tool: "fetch", id: "c1", args: { page: 1 } }));
+      throw new Error("worker crashed");
+    });
+    await expect(agent.run("Crawl", { runId: "job-2" })).rejects.toThrow("worker crashed");
+    expect(executed).toEqual([1]);
+
+    const latest = await store.loadLatest("job-2");
+    expect(latest?.data).toMatchObject({
+      status: "running",
+      contextMessages: 1,
+      messages: [
+        { role: "user", content: "Crawl" },
+        { role: "assistant", content: [{ type: "tool_call", id: "c1", name: "fetch", arguments: { page: 1 } }] },
+        { role: "tool", content: [{ type: "tool_result", toolCallId: "c1", content: "page-1" }] },
+      ],
+      toolCalls: [{ name: "fetch", arguments: { page: 1 }, result: "page-1" }],
+      pendingToolCalls: [],
+    });
+
+    // The model sees the completed call and picks a different next step than before the crash
+    let sent: Array<{ role: string; content: string }> = [];
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (...args: unknown[]) => {
+      sent = args[3] as typeof sent;
+      const next = await (args[5] as (call: string) => Promise<string>)(JSON.stringify({ tool: "fetch", args: { page: 3 } }));
+      return { text: `page-1 ${next}`, steps: 2, inputTokens: 1, outputTokens: 1 };
+    });
+    const result = await agent.resume(latest!.id);
+
+    expect(executed).toEqual([1, 3]);
+    expect(sent.map((m) => m.role)).toEqual(["user", "system"]);
+    expect(sent[1].content).toContain('fetch({"page":1}) → page-1');
+    expect(result.text).toBe("page-1 page-3");
+    expect(result.checkpoint?.runId).toBe("job-2");
+    const done = await store.loadLatest("job-2");
+    expect(done?.data).toMatchObject({ status: "completed", toolCalls: [{ arguments: { page: 1 } }, { arguments: { page: 3 } }] });
+    expect(result.checkpoint?.checkpointId).toBe(done?.id);
+  });
+
+  it("re-runs a tool call that was interrupted", async () => {
+    const { store, agent } = setup();
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (...args: unknown[]) => {
+      const executor = args[5] as (call: string) => Promise<string>;
+      await executor(JSON.stringify({ tool: "fetch", id: "a", args: { page: 1 } }));
+      await executor(JSON.stringify({ tool: "fetch", id: "b", args: { page: 2 } }));
+      await executor(JSON.stringify({ tool: "fetch", id: "c", args: { page: 3 } }));
+      throw new Error("worker crashed");
+    });
+    await expect(agent.run("Crawl", { runId: "job-5" })).rejects.toThrow("worker crashed");
+
+    // The checkpoint saved while the third call was running
+    const latest = (await store.list("job-5")).find((cp) => (cp.data.pendingToolCalls as Array<{ id?: string }>)[0]?.id === "c");
+    expect(latest?.data.messages).toHaveLength(5);
+    expect(latest?.data.pendingToolCalls).toEqual([{ name: "fetch", id: "c", arguments: { page: 3 } }]);
+
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (...args: unknown[]) => {
+      const again = await (args[5] as (call: string) => Promise<string>)(JSON.stringify({ tool: "fetch", args: { page: 3 } }));
+      return { text: again, steps: 2, inputTokens: 1, outputTokens: 1 };
+    });
+    await agent.resume(latest!.id);
+
+    // An interrupted call runs again, so tools should be idempotent
+    expect(executed).toEqual([1, 2, 3, 3]);
+  });
+
+  it("checkpoints concurrent tool calls one by one", async () => {
+    const { store, agent } = setup();
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (...args: unknown[]) => {
+      const executor = args[5] as (call: string) => Promise<string>;
+      const results = await Promise.all([
+        executor(JSON.stringify({ tool: "fetch", id: "a", args: { page: 1 } })),
+        executor(JSON.stringify({ tool: "fetch", id: "b", args: { page: 2 } })),
+      ]);
+      return { text: results.join(" "), steps: 2, inputTokens: 1, outputTokens: 1 };
+    });
+
+    const result = await agent.run("Crawl", { runId: "job-6" });
+
+    expect(result.text).toBe("page-1 page-2");
+    const saved = await store.list("job-6");
+    expect(saved.some((cp) => (cp.data.pendingToolCalls as unknown[]).length === 2)).toBe(true);
+    const done = saved[saved.length - 1].data;
+    expect(done.pendingToolCalls).toEqual([]);
+    expect((done.toolCalls as Array<{ id?: string }>).map((call) => call.id).sort()).toEqual(["a", "b"]);
+    expect(done.messages).toHaveLength(5);
+  });
+
+  it("returns the saved result for a completed checkpoint", async () => {
+    const { agent } = setup();
+    const first = await agent.run("Crawl", { runId: "job-3" });
+
+    const again = await agent.resume(first.checkpoint!.checkpointId);
+
+    expect(again.text).toBe(first.text);
+    expect(executed).toEqual([1, 2]);
+  });
+
+  it("rejects missing stores, missing checkpoints and other agents' checkpoints", async () => {
+    const { store, agent } = setup();
+    await agent.run("Crawl", { runId: "job-4" });
+    const other = new Agent({ name: "other", provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } });
+
+    await expect(other.resume("job-4:1")).rejects.toThrow(ValidationError);
+    await expect(agent.resume("nope")).rejects.toThrow(ValidationError);
+    await expect(other.withCheckpoints(store).resume("job-4:1")).rejects.toThrow(/crawler/);
+  });
+});
+
+describe("Graph checkpoints", () => {
+  const agent = (name: string) =>
+    new Agent({ name, provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } });
+
+  function setup() {
+    const store = new CheckpointStore({ backend: new JsonlCheckpointBackend(join(dir, "cp.jsonl")) });
+    const graph = new Graph()
+      .addNode({ nodeId: "research", agent: agent("researcher") })
+      .addNode({ nodeId: "write", agent: agent("writer") })
+      .addEdge("research", "write")
+      .withCheckpoints(store);
+    return { store, graph };
+  }
+
+  it("steps through the graph in the SDK and checkpoints after each node", async () => {
+    const { store, graph } = setup();
+
+    const result = await graph.run("Quantum", { runId: "article" });
+
+    expect(graph_run).not.toHaveBeenCalled();
+    expect(result.final_text).toBe("done: done: Quantum");
+    const saved = await store.list("article");
+    expect(saved.map((cp) => [cp.data.nextNodeId, cp.data.status])).toEqual([
+      ["research", "running"],
+      ["write", "running"],
+      [undefined, "completed"],
+    ]);
+    expect(result.checkpoint).toEqual({ runId: "article", checkpointId: "article:3" });
+  });
+
+  it("resumes from a checkpoint without re-running completed nodes", async () => {
+    const { graph } = setup();
+    await graph.run("Quantum", { runId: "article" });
+    vi.mocked(agent_run).mockClear();
+
+    const result = await graph.resume("article:2");
+
+    expect(agent_run).toHaveBeenCalledTimes(1);
+    expect(agent_run).toHaveBeenCalledWith("writer", 10, [], [{ role: "user", content: "done: Quantum" }], {});
+    expect(result.final_text).toBe("done: done: Quantum");
+    expect(Object.keys(result.outputs as object)).toEqual(["research", "write"]);
+    expect(result.checkpoint).toEqual({ runId: "article", checkpointId: "article:3" });
+  });
+
+  it("rejects checkpointing graphs with fork nodes", async () => {
+    const { graph } = setup();
+    graph.addFork({ nodeId: "vote", agents: [{ agent: agent("a") }] });
+
+    await expect(graph.run("Quantum")).rejects.toThrow(ValidationError);
+  });
+});
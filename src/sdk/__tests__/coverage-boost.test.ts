@@ -353,9 +353,11 @@ describe("resilience module", () => {
     const fallback1 = new Agent({ instructions: "fallback1" });
     const fallback2 = new Agent({ instructions: "fallback2" });
 
-    const h = createResilientAgent(primary, [fallback1, fallback2], true);
-    expect(h).toBe(1300);
+    const resilient = createResilientAgent(primary, [fallback1, fallback2], true);
+    expect(resilient).toBeInstanceOf(Agent);
+    expect(resilient.handle).toBe(1300);
 
+    resilient.destroy();
     primary.destroy();
     fallback1.destroy();
     fallback2.destroy();
@@ -365,9 +367,10 @@ describe("resilience module", () => {
     const primary = new Agent({ instructions: "p" });
     const fallback = new Agent({ instructions: "f" });
 
-    const h = createResilientAgent(primary, [fallback]);
-    expect(h).toBe(1300);
+    const resilient = createResilientAgent(primary, [fallback]);
+    expect(resilient.handle).toBe(1300);
 
+    resilient.destroy();
     primary.destroy();
     fallback.destroy();
   });
@@ -0,0 +1,260 @@
+/**
+ * Tests for document loaders — HTML, CSV, PDF, DOCX, directory crawling and file/string variants.
+ */
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  count_tokens_for_model: vi.fn((text: string) => text.split(/\s+/).filter(Boolean).length),
+}));
+
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { deflateRawSync, deflateSync } from "node:zlib";
+
+import {
+  csvLoader,
+  docxLoader,
+  htmlLoader,
+  loadDirectory,
+  loadJson,
+  loadText,
+  pdfLoader,
+  textLoader,
+} from "../document-loader.js";
+import { ValidationError } from "../errors.js";
+
+function pdf(pages: Array<{ content: string; compress?: boolean }>): Buffer {
+  const kids = pages.map((_, i) => `${3 + i * 2} 0 R`).join(" ");
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n")];
+  parts.push(Buffer.from(`2 0 obj << /Type /Pages /Kids [${kids}] /Count ${pages.length} >> endobj\n`));
+  pages.forEach((page, i) => {
+    const id = 3 + i * 2;
+    const data = page.compress ? deflateSync(page.content) : Buffer.from(page.content);
+    const filter = page.compress ? " /Filter /FlateDecode" : "";
+    parts.push(Buffer.from(`${id} 0 obj << /Type /Page /Parent 2 0 R /Contents ${id + 1} 0 R >> endobj\n`));
+    parts.push(Buffer.from(`${id + 1} 0 obj << /Length ${data.length}${filter} >>\nstream\n`), data);
+    parts.push(Buffer.from("\nendstream\nendobj\n"));
+  });
+  parts.push(Buffer.from("trailer << /Root 1 0 R >>\n%%EOF\n"));
+  return Buffer.concat(parts);
+}
+
+function zip(entries: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(entries)) {
+    const data = deflateRawSync(content);
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(Buffer.byteLength(content), 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(Buffer.byteLength(content), 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(entries).length, 8);
+  end.writeUInt16LE(Object.keys(entries).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const DOCUMENT_XML = `<?xml version="1.0"?><w:document><w:body>
+  <w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Install</w:t></w:r></w:p>
+  <w:p><w:r><w:t xml:space="preserve">Run the </w:t></w:r><w:r><w:t>installer &amp; reboot.</w:t></w:r></w:p>
+  <w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t>Linux</w:t></w:r></w:p>
+  <w:p><w:r><w:t>Use the tarball.</w:t></w:r></w:p>
+</w:body></w:document>`;
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "gauss-loaders-"));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("htmlLoader", () => {
+  it("strips boilerplate and records the heading path", async () => {
+    const html = `<html><head><title>Docs &amp; Guides</title><style>p{}</style></head><body>
+      <nav><a href="/">Home</a></nav>
+      <main><h1>Setup</h1><p>Intro&nbsp;text.</p><script>track()</script>
+      <h2>Linux</h2><ul><li>apt install</li></ul><h1>FAQ</h1><p>Ask us.</p></main>
+      <footer>© 2024</footer></body></html>`;
+
+    const doc = await htmlLoader.fromString(html, { documentId: "guide" });
+
+    expect(doc.chunks.map((c) => [c.content, c.metadata?.headings])).toEqual([
+      ["Setup\n\nIntro text.", ["Setup"]],
+      ["Linux\n\n- apt install", ["Setup", "Linux"]],
+      ["FAQ\n\nAsk us.", ["FAQ"]],
+    ]);
+    expect(doc.chunks[0].metadata?.title).toBe("Docs & Guides");
+    expect(doc.content).not.toMatch(/Home|track|2024/);
+  });
+});
+
+describe("csvLoader", () => {
+  it("makes one chunk per row with column metadata", async () => {
+    const csv = "sku,name,notes\nA1,Widget,\"Blue, large\"\nB2,Gadget,\"Says \"\"hi\"\"\nline two\"\n";
+
+    const doc = await csvLoader.fromString(csv, { documentId: "catalog" });
+
+    expect(doc.chunks).toHaveLength(2);
+    expect(doc.chunks[0]).toMatchObject({
+      id: "catalog-0",
+      content: "sku: A1\nname: Widget\nnotes: Blue, large",
+      metadata: { row: 1, columns: { sku: "A1", name: "Widget", notes: "Blue, large" } },
+    });
+    expect(doc.chunks[1].metadata?.columns).toMatchObject({ notes: "Says \"hi\"\nline two" });
+
+    const names = await csvLoader.fromString("a\tb\n1\t2", { delimiter: "\t", textColumns: ["b"] });
+    expect(names.chunks[0].content).toBe("2");
+  });
+});
+
+describe("pdfLoader", () => {
+  it("extracts text per page from plain and compressed streams", async () => {
+    const data = pdf([
+      { content: "BT /F1 12 Tf 72 700 Td (Hello) Tj 0 -14 Td [(Wor) -20 (ld) -400 (again)] TJ ET" },
+      { content: "BT (Page \\(two\\)) Tj ET", compress: true },
+    ]);
+
+    const doc = await pdfLoader.fromBuffer(data, { documentId: "report" });
+
+    expect(doc.chunks.map((c) => [c.content, c.metadata?.page])).toEqual([
+      ["Hello\nWorld again", 1],
+      ["Page (two)", 2],
+    ]);
+    expect(doc.metadata.pages).toBe(2);
+    await expect(pdfLoader.fromBuffer(Buffer.from("hello"))).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("skips unsupported or corrupt streams and rejects encrypted files", async () => {
+    const data = pdf([{ content: "BT (Hello) Tj ET", compress: true }]);
+    const patched = (from: string, to: string) => Buffer.from(data.toString("latin1").replace(from, to), "latin1");
+
+    const lzw = await pdfLoader.fromBuffer(patched("/FlateDecode", "/LZWDecode"));
+    expect(lzw.chunks).toEqual([]);
+    expect(lzw.metadata.pages).toBe(1);
+    expect((await pdfLoader.fromBuffer(data.subarray(0, data.length / 2))).chunks).toEqual([]);
+    await expect(pdfLoader.fromBuffer(patched("/Root 1 0 R", "/Root 1 0 R /Encrypt 9 0 R")))
+      .rejects.toThrow("encrypted PDFs are not supported");
+  });
+
+  it("uses a pluggable extractor", async () => {
+    const extractPages = vi.fn(async () => ["First page", "", "Third page"]);
+
+    const doc = await pdfLoader.fromBuffer(Buffer.from("%PDF-1.7"), { extractPages });
+
+    expect(doc.chunks.map((c) => [c.content, c.metadata?.page])).toEqual([["First page", 1], ["Third page", 3]]);
+    expect(doc.metadata.pages).toBe(3);
+  });
+});
+
+describe("docxLoader", () => {
+  it("reads paragraphs and heading styles from the archive", async () => {
+    const doc = await docxLoader.fromBuffer(zip({ "word/document.xml": DOCUMENT_XML }));
+
+    expect(doc.documentId).toBe("docx-document");
+    expect(doc.chunks.map((c) => [c.content, c.metadata?.headings])).toEqual([
+      ["Install\n\nRun the installer & reboot.", ["Install"]],
+      ["Linux\n\nUse the tarball.", ["Install", "Linux"]],
+    ]);
+    await expect(docxLoader.fromBuffer(zip({ "other.xml": "" }))).rejects.toThrow("word/document.xml");
+  });
+
+  it("rejects zip64, encrypted, truncated and corrupt archives", async () => {
+    const data = zip({ "word/document.xml": DOCUMENT_XML });
+    const eocd = data.length - 22;
+    const central = data.readUInt32LE(eocd + 16);
+    const patched = (offset: number, value: number, bytes: 2 | 4) => {
+      const copy = Buffer.from(data);
+      if (bytes === 2) copy.writeUInt16LE(value, offset);
+      else copy.writeUInt32LE(value, offset);
+      return copy;
+    };
+
+    await expect(docxLoader.fromBuffer(patched(eocd + 10, 0xffff, 2))).rejects.toThrow("zip64");
+    await expect(docxLoader.fromBuffer(patched(central + 8, 1, 2))).rejects.toThrow("encrypted");
+    await expect(docxLoader.fromBuffer(patched(central + 20, data.length, 4))).rejects.toThrow("truncated");
+    await expect(docxLoader.fromBuffer(patched(30 + "word/document.xml".length, 0xffffffff, 4)))
+      .rejects.toThrow("corrupt zip archive");
+    await expect(docxLoader.fromBuffer(data.subarray(0, 100))).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("uses a pluggable extractor", async () => {
+    const extractParagraphs = vi.fn(() => [{ text: "Intro", headingLevel: 1 }, { text: "Body." }]);
+
+    const doc = await docxLoader.fromBuffer(Buffer.from("PK"), { extractParagraphs });
+
+    expect(doc.chunks.map((c) => [c.content, c.metadata?.headings])).toEqual([["Intro\n\nBody.", ["Intro"]]]);
+    expect(extractParagraphs).toHaveBeenCalledWith(Buffer.from("PK"));
+  });
+});
+
+describe("file and directory loading", () => {
+  it("keeps fromString and fromFile explicit", async () => {
+    const path = join(dir, "notes.txt");
+    await writeFile(path, "file body");
+
+    const fromString = await textLoader.fromString(path);
+    expect(fromString.content).toBe(path);
+
+    const fromFile = await textLoader.fromFile(path);
+    expect(fromFile.documentId).toBe("notes.txt");
+    expect(fromFile.chunks[0].metadata).toMatchObject({ source: path, mtime: expect.any(String) });
+    await expect(textLoader.fromFile(join(dir, "missing.txt"))).rejects.toThrow();
+
+    // The path-or-content shorthand still falls back to inline content
+    expect((await loadText("no such file here")).content).toBe("no such file here");
+  });
+
+  it("keeps inline content that merely resembles a path in the shorthands", async () => {
+    const json = '{"url":"http://example.com"}';
+
+    expect((await loadJson(json)).chunks[0].content).toBe("http://example.com");
+    expect((await loadText("The total is 3.50")).content).toBe("The total is 3.50");
+    expect((await loadText("and/or")).content).toBe("and/or");
+    expect((await loadText(join(dir, "missing.txt"))).content).toBe(join(dir, "missing.txt"));
+  });
+
+  it("crawls a directory by glob and tags chunks with source and mtime", async () => {
+    const root = join(dir, "kb");
+    await mkdir(join(root, "guides", "deep"), { recursive: true });
+    await mkdir(join(root, ".git"));
+    await writeFile(join(root, "readme.md"), "# Readme\n\nHello.");
+    await writeFile(join(root, "guides", "setup.html"), "<h1>Setup</h1><p>Steps.</p>");
+    await writeFile(join(root, "guides", "deep", "prices.csv"), "plan,price\npro,10\n");
+    await writeFile(join(root, "guides", "image.png"), "binary");
+    await writeFile(join(root, ".git", "config.md"), "hidden");
+
+    const all = await loadDirectory(root);
+    expect(all.map((d) => d.documentId)).toEqual(["guides/deep/prices.csv", "guides/setup.html", "readme.md"]);
+    for (const doc of all) {
+      for (const chunk of doc.chunks) {
+        expect(chunk.metadata).toMatchObject({ source: join(root, doc.documentId), mtime: expect.any(String) });
+      }
+    }
+
+    const some = await loadDirectory(root, { glob: "guides/**/*.{html,csv}", ignore: ["**/deep/**"] });
+    expect(some.map((d) => d.documentId)).toEqual(["guides/setup.html"]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for embedders — provider batching, the local hashed embedder and caching.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_vector_store: vi.fn(() => 1),
+  vector_store_upsert: vi.fn(async () => undefined),
+  vector_store_search: vi.fn(async () => []),
+  destroy_vector_store: vi.fn(),
+  cosine_similarity: vi.fn(() => 1),
+}));
+
+import { CachedEmbedder, LocalEmbedder, ProviderEmbedder } from "../embeddings.js";
+import { RagPipeline } from "../rag-pipeline.js";
+import { VectorStore } from "../vector-store.js";
+import { ProviderError, ValidationError } from "../errors.js";
+import type { Embedder } from "../types.js";
+
+const fetchMock = vi.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => vi.unstubAllGlobals());
+
+function respond(body: unknown, status = 200) {
+  fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(body), { status }));
+}
+
+function requestBody(call: number) {
+  return JSON.parse(fetchMock.mock.calls[call][1].body);
+}
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe("ProviderEmbedder", () => {
+  it("batches OpenAI-compatible requests and keeps input order", async () => {
+    const embedder = new ProviderEmbedder({ provider: "openai", apiKey: "sk", batchSize: 2 });
+    respond({ data: [{ index: 1, embedding: [2] }, { index: 0, embedding: [1] }] });
+    respond({ data: [{ index: 0, embedding: [3] }] });
+
+    expect(await embedder.embed(["a", "b", "c"])).toEqual([[1], [2], [3]]);
+
+    expect(embedder.id).toBe("openai/text-embedding-3-small");
+    expect(fetchMock.mock.calls[0][0]).toBe("https://api.openai.com/v1/embeddings");
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe("Bearer sk");
+    expect(requestBody(0)).toEqual({ model: "text-embedding-3-small", input: ["a", "b"] });
+    expect(requestBody(1).input).toEqual(["c"]);
+  });
+
+  it("speaks the Google and Ollama formats and caps batches at the provider limit", async () => {
+    const google = new ProviderEmbedder({ provider: "google", apiKey: "g", batchSize: 500, dimensions: 8 });
+    const texts = Array.from({ length: 101 }, (_, i) => `t${i}`);
+    respond({ embeddings: texts.slice(0, 100).map(() => ({ values: [0] })) });
+    respond({ embeddings: [{ values: [1] }] });
+
+    const vectors = await google.embed(texts);
+
+    expect(vectors).toHaveLength(101);
+    expect(vectors[100]).toEqual([1]);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://generativelanguage.googleapis.com/v1beta/models/text-embedding-004:batchEmbedContents");
+    expect(requestBody(0).requests[0]).toEqual({
+      model: "models/text-embedding-004",
+      content: { parts: [{ text: "t0" }] },
+      outputDimensionality: 8,
+    });
+
+    const ollama = new ProviderEmbedder({ provider: "ollama", baseUrl: "http://gpu:11434/" });
+    respond({ embeddings: [[0.5]] });
+    expect(await ollama.embed(["x"])).toEqual([[0.5]]);
+    expect(fetchMock.mock.calls[2][0]).toBe("http://gpu:11434/api/embed");
+  });
+
+  it("surfaces API failures and rejects providers without embeddings", async () => {
+    const embedder = new ProviderEmbedder({ provider: "mistral", apiKey: "m" });
+    fetchMock.mockResolvedValueOnce(new Response("rate limited", { status: 429 }));
+    const err = await embedder.embed(["a"]).catch((e) => e);
+    expect(err).toBeInstanceOf(ProviderError);
+    expect(err.message).toContain("(429): rate limited");
+
+    expect(() => new ProviderEmbedder({ provider: "anthropic" })).toThrow(ValidationError);
+  });
+});
+
+describe("LocalEmbedder", () => {
+  it("is deterministic, normalized and similar for related texts", async () => {
+    const embedder = new LocalEmbedder({ dimensions: 64 });
+    const [refund, refunds, weather, empty] = await embedder.embed([
+      "How do I get a refund?", "Refunds policy for orders", "Sunny weather tomorrow", "",
+    ]);
+
+    expect(refund).toHaveLength(64);
+    expect(await new LocalEmbedder({ dimensions: 64 }).embed(["How do I get a refund?"])).toEqual([refund]);
+    expect(cosine(refund, refund)).toBeCloseTo(1);
+    expect(cosine(refund, refunds)).toBeGreaterThan(cosine(refund, weather));
+    expect(empty.every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe("CachedEmbedder", () => {
+  it("embeds each distinct text once and evicts the least recently used", async () => {
+    const inner: Embedder = { id: "fake", embed: vi.fn(async (texts: string[]) => texts.map((t) => [t.length])) };
+    const cached = new CachedEmbedder(inner, { maxEntries: 2 });
+
+    expect(await cached.embed(["aa", "b", "aa"])).toEqual([[2], [1], [2]]);
+    expect(await cached.embed(["b", "ccc"])).toEqual([[1], [3]]);
+    expect(inner.embed).toHaveBeenLastCalledWith(["ccc"], undefined);
+    expect(cached.stats()).toEqual({ hits: 2, misses: 3, size: 2 });
+
+    await cached.embed(["aa"]); // evicted by "ccc"
+    expect(inner.embed).toHaveBeenLastCalledWith(["aa"], undefined);
+    expect(cached.id).toBe("fake");
+  });
+
+  it("keeps hits taken before a concurrent call evicts them", async () => {
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => { release = resolve; });
+    const inner: Embedder = {
+      id: "fake",
+      embed: vi.fn(async (texts: string[]) => {
+        if (texts.includes("bb")) await held;
+        return texts.map((t) => [t.length]);
+      }),
+    };
+    const cached = new CachedEmbedder(inner, { maxEntries: 1 });
+    await cached.embed(["a"]);
+
+    const pending = cached.embed(["a", "bb"]);
+    await cached.embed(["ccc"]); // evicts "a" while the first call waits
+    release();
+
+    expect(await pending).toEqual([[1], [2]]);
+  });
+
+  it("plugs into RagPipeline and VectorStore.searchByText", async () => {
+    const embedder = new CachedEmbedder(new LocalEmbedder({ dimensions: 32 }));
+    const rag = new RagPipeline({ embed: embedder, filter: { op: "in", field: "lang", values: ["en"] } });
+    await rag.ingest({ documentId: "kb", content: "", metadata: {}, chunks: [
+      { id: "kb-0", documentId: "kb", content: "Refunds are issued within five days", index: 0, metadata: { lang: "en" } },
+      { id: "kb-1", documentId: "kb", content: "Our office dog is named Biscuit", index: 1, metadata: { lang: "en" } },
+    ] });
+
+    const [hit] = await rag.retrieve("refund timing", { topK: 1 });
+    expect(hit.id).toBe("kb-0");
+    expect(rag.store.dimensions).toBe(32);
+
+    const store = new VectorStore();
+    await store.searchByText("refund", 3, embedder);
+    expect(embedder.stats().misses).toBe(4);
+    store.destroy();
+    rag.destroy();
+  });
+});
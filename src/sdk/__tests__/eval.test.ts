@@ -0,0 +1,192 @@
+/**
+ * Tests for EvalRunner.run() — scoring, aggregation and report export.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => 42),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async (_n, _h, _t, messages: Array<{ content: string }>) => ({
+    text: messages[0].content === "capital of France?" ? "Paris" : "I don't know",
+    steps: 1,
+    inputTokens: 10,
+    outputTokens: 3,
+  })),
+  estimate_cost: vi.fn(() => ({ total_cost_usd: 0.5 })),
+  create_eval_runner: vi.fn(() => 4),
+  eval_add_scorer: vi.fn(),
+  load_dataset_jsonl: vi.fn(),
+  load_dataset_json: vi.fn(),
+  destroy_eval_runner: vi.fn(),
+}));
+
+import { Agent } from "../agent.js";
+import { EvalRunner, type EvalCaseResult } from "../eval.js";
+import { judgeScorer } from "../eval-judge.js";
+import { ValidationError } from "../errors.js";
+import { setPricing, clearPricing } from "../tokens.js";
+import { agent_run } from "gauss-napi";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  clearPricing();
+});
+
+describe("EvalRunner.run", () => {
+  it("scores each case with every scorer and aggregates the pass rate", async () => {
+    const runner = new EvalRunner(0.6).addScorer("exact_match").addScorer("contains");
+    const target = async (input: string) => (input === "2+2" ? "4" : "the answer is 5");
+
+    const report = await runner.run(target, [
+      { input: "2+2", expected: "4" },
+      { input: "2+3", expected: "5" },
+      { input: "2+4", expected: "6" },
+    ]);
+
+    expect(report.cases.map((c) => c.scores)).toEqual([
+      { exact_match: 1, contains: 1 },
+      { exact_match: 0, contains: 1 },
+      { exact_match: 0, contains: 0 },
+    ]);
+    expect(report.cases.map((c) => c.passed)).toEqual([true, false, false]);
+    expect(report.passed).toBe(1);
+    expect(report.passRate).toBeCloseTo(1 / 3);
+    expect(report.scorerMeans).toEqual({ exact_match: 1 / 3, contains: 2 / 3 });
+    runner.destroy();
+  });
+
+  it("scores length_ratio as the ratio of trimmed lengths", async () => {
+    const runner = new EvalRunner(0.5).addScorer("length_ratio");
+    const report = await runner.run(async () => "abcd", [{ input: "x", expected: "ab" }]);
+    expect(report.cases[0].score).toBe(0.5);
+    expect(report.cases[0].passed).toBe(true);
+    runner.destroy();
+  });
+
+  it("runs agents and totals tokens and cost", async () => {
+    setPricing("test-model", { inputPerToken: 0.01, outputPerToken: 0.1 });
+    const agent = new Agent({ model: "test-model", providerOptions: { apiKey: "k" } });
+    const runner = new EvalRunner(1).addScorer("exact_match");
+
+    const report = await runner.run(agent, { items: [
+      { input: "capital of France?", expected: "Paris" },
+      { input: "capital of Atlantis?", expected: "unknown" },
+    ] }, { concurrency: 2 });
+
+    expect(report.passed).toBe(1);
+    expect(report.usage.inputTokens).toBe(20);
+    expect(report.usage.outputTokens).toBe(6);
+    expect(report.usage.costUsd).toBeCloseTo(2 * (10 * 0.01 + 3 * 0.1));
+    expect(report.latency.p95Ms).toBeGreaterThanOrEqual(report.latency.p50Ms);
+    agent.destroy();
+    runner.destroy();
+  });
+
+  it("records target errors without aborting the run and respects concurrency", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const seen: EvalCaseResult[] = [];
+    const target = async (input: string) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+      if (input === "boom") throw new Error("provider down");
+      return input;
+    };
+    const runner = new EvalRunner().addScorer("exact_match");
+
+    const report = await runner.run(
+      target,
+      ["a", "boom", "c", "d"].map((input) => ({ input, expected: input })),
+      { concurrency: 2, onCase: (c) => seen.push(c) },
+    );
+
+    expect(maxActive).toBe(2);
+    expect(seen).toHaveLength(4);
+    expect(report.errored).toBe(1);
+    expect(report.failed).toBe(1);
+    expect(report.cases[1].error).toBe("provider down");
+    expect(report.cases[2].passed).toBe(true);
+    runner.destroy();
+  });
+
+  it("requires at least one scorer", async () => {
+    const runner = new EvalRunner();
+    await expect(runner.run(async () => "", [])).rejects.toBeInstanceOf(ValidationError);
+    runner.destroy();
+  });
+});
+
+describe("EvalRunner custom and judge scorers", () => {
+  it("mixes sync and async custom scorers with native ones", async () => {
+    const runner = new EvalRunner(0.5)
+      .addScorer("exact_match")
+      .addScorer({ name: "short", score: ({ output }) => (output.length <= 3 ? 1 : 0) })
+      .addScorer({ name: "polite", score: async ({ output }) => ({ score: 0.5, rationale: `checked ${output}` }) })
+      .addScorer({ name: "broken", score: () => { throw new Error("nope"); } });
+
+    const report = await runner.run(async () => "yes", [{ input: "q", expected: "yes" }, { input: "r" }]);
+
+    expect(report.scorers).toEqual(["exact_match", "short", "polite", "broken"]);
+    expect(report.cases[0].scores).toEqual({ exact_match: 1, short: 1, polite: 0.5, broken: 0 });
+    expect(report.cases[0].rationales).toEqual({ polite: "checked yes", broken: "scorer error: nope" });
+    // exact_match needs `expected`, so it is skipped for the second case
+    expect(report.cases[1].scores).toEqual({ short: 1, polite: 0.5, broken: 0 });
+    expect(report.scorerMeans.exact_match).toBe(1);
+    runner.destroy();
+  });
+
+  it("rejects duplicate custom scorer names", () => {
+    const runner = new EvalRunner().addScorer({ name: "x", score: () => 1 });
+    expect(() => runner.addScorer({ name: "x", score: () => 0 })).toThrow(ValidationError);
+    runner.destroy();
+  });
+
+  it("grades with a judge agent and keeps its rationale", async () => {
+    vi.mocked(agent_run).mockResolvedValueOnce({
+      text: '```json\n{"score": 4, "rationale": "Mostly matches the reference."}\n```',
+      steps: 1, inputTokens: 50, outputTokens: 12,
+    } as never);
+    const judge = new Agent({ providerOptions: { apiKey: "k" } });
+    const runner = new EvalRunner(0.7)
+      .addScorer(judgeScorer(judge, { criterion: "correctness" }))
+      .addScorer(judgeScorer(judge, { criterion: "faithfulness" }));
+
+    const report = await runner.run(async () => "Paris, France", [{ input: "capital?", expected: "Paris" }]);
+
+    const prompt = vi.mocked(agent_run).mock.calls[0][3][0].content as string;
+    expect(prompt).toContain("Reference answer:\nParis");
+    expect(prompt).toContain("Answer to grade:\nParis, France");
+    expect(report.cases[0].scores).toEqual({ judge_correctness: 0.75 });
+    expect(report.cases[0].rationales.judge_correctness).toBe("Mostly matches the reference.");
+    expect(report.cases[0].passed).toBe(true);
+    // faithfulness has no context on this case, so the judge is only called once
+    expect(agent_run).toHaveBeenCalledTimes(1);
+    judge.destroy();
+    runner.destroy();
+  });
+});
+
+describe("EvalRunner report export", () => {
+  it("exports JSON and JUnit XML with failures and errors", async () => {
+    const runner = new EvalRunner(1).addScorer("exact_match");
+    const report = await runner.run(async (input) => {
+      if (input === "err") throw new Error("bad <thing>");
+      return "yes";
+    }, [
+      { input: "ok", expected: "yes" },
+      { input: "nope", expected: "no" },
+      { input: "err", expected: "x" },
+    ]);
+
+    expect(JSON.parse(EvalRunner.toJson(report)).total).toBe(3);
+
+    const xml = EvalRunner.toJUnitXml(report, "prompts");
+    expect(xml).toContain('<testsuite name="prompts" tests="3" failures="1" errors="1"');
+    expect(xml).toContain('<failure message="score 0.000 &lt; threshold 1">exact_match=0.000</failure>');
+    expect(xml).toContain('<error message="bad &lt;thing&gt;"/>');
+    expect(xml.match(/<testcase /g)).toHaveLength(3);
+    runner.destroy();
+  });
+});
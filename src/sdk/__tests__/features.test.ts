@@ -53,8 +53,8 @@ vi.mock("gauss-napi", () => ({
 
   create_checkpoint_store: vi.fn(() => 7),
   checkpoint_save: vi.fn(async () => undefined),
-  checkpoint_load: vi.fn(async () => ({ id: "cp1", data: {} })),
-  checkpoint_load_latest: vi.fn(async () => ({ id: "cp2" })),
+  checkpoint_load: vi.fn(async () => ({ id: "cp1", session_id: "session-1", data: {}, timestamp: "t1" })),
+  checkpoint_load_latest: vi.fn(async () => ({ id: "cp2", session_id: "session-1", data: {}, timestamp: "t2" })),
   destroy_checkpoint_store: vi.fn(),
 
   // Resilience
@@ -174,9 +174,9 @@ describe("CheckpointStore", () => {
     const store = new CheckpointStore();
     await store.save({ id: "cp1", data: { step: 3 } });
     const cp = await store.load("cp1");
-    expect(cp).toEqual({ id: "cp1", data: {} });
+    expect(cp).toEqual({ id: "cp1", sessionId: "session-1", data: {}, timestamp: "t1" });
     const latest = await store.loadLatest("session-1");
-    expect(latest).toEqual({ id: "cp2" });
+    expect(latest).toEqual({ id: "cp2", sessionId: "session-1", data: {}, timestamp: "t2" });
     store.destroy();
   });
 });
@@ -0,0 +1,228 @@
+/**
+ * Tests for guardrail enforcement — GuardrailChain.check() and Agent wiring.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => 42),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async () => ({
+    text: "Contact me at jane@example.com",
+    steps: 1,
+    inputTokens: 10,
+    outputTokens: 5,
+  })),
+  agent_run_with_tool_executor: vi.fn(async () => ({
+    text: "tool response",
+    steps: 2,
+    inputTokens: 15,
+    outputTokens: 8,
+  })),
+  agent_stream_with_tool_executor: vi.fn(async () => ({
+    text: "streamed",
+    steps: 1,
+    inputTokens: 10,
+    outputTokens: 5,
+  })),
+  count_tokens: vi.fn((text: string) => text.split(/\s+/).length),
+  create_guardrail_chain: vi.fn(() => 88),
+  guardrail_chain_add_content_moderation: vi.fn(),
+  guardrail_chain_add_pii_detection: vi.fn(),
+  guardrail_chain_add_token_limit: vi.fn(),
+  guardrail_chain_add_regex_filter: vi.fn(),
+  guardrail_chain_add_schema: vi.fn(),
+  guardrail_chain_list: vi.fn(() => []),
+  destroy_guardrail_chain: vi.fn(),
+}));
+
+import { Agent } from "../agent.js";
+import { GuardrailChain, GuardrailStreamFilter } from "../guardrail.js";
+import { GuardrailError, GaussError } from "../errors.js";
+import type { StreamEvent } from "../stream-iter.js";
+import { agent_run, agent_stream_with_tool_executor } from "gauss-napi";
+
+/** Clean text longer than the stream filter's hold-back. */
+const SAFE = "This sentence is perfectly safe and long enough to be released before the rest arrives. ";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ─── GuardrailChain.check ──────────────────────────────────────────
+
+describe("GuardrailChain.check", () => {
+  it("allows clean text", () => {
+    const chain = new GuardrailChain().addPiiDetection("block");
+    const result = chain.check("hello world", "input");
+    expect(result.action).toBe("allow");
+    expect(result.violations).toEqual([]);
+    chain.destroy();
+  });
+
+  it("redacts PII when configured to redact", () => {
+    const chain = new GuardrailChain().addPiiDetection("redact");
+    const result = chain.check("mail jane@example.com or call 555-123-4567", "input");
+    expect(result.action).toBe("redact");
+    expect(result.text).toBe("mail [REDACTED_EMAIL] or call [REDACTED_PHONE]");
+    expect(result.violations.map((v) => v.rule)).toEqual(["email", "phone"]);
+    chain.destroy();
+  });
+
+  it("blocks and warns on content moderation patterns case-insensitively", () => {
+    const chain = new GuardrailChain().addContentModeration(["violence"], ["gossip"]);
+    expect(chain.check("Some GOSSIP here", "input").action).toBe("warn");
+    expect(chain.check("Graphic Violence and gossip", "input").action).toBe("block");
+    chain.destroy();
+  });
+
+  it("applies regex filters", () => {
+    const chain = new GuardrailChain().addRegexFilter(["sk-[a-z0-9]{8}"], ["TODO"]);
+    const result = chain.check("key sk-abcd1234", "output");
+    expect(result.action).toBe("block");
+    expect(result.violations[0]).toMatchObject({ guardrail: "regex_filter", action: "block" });
+    chain.destroy();
+  });
+
+  it("enforces token limits per stage", () => {
+    const chain = new GuardrailChain().addTokenLimit(3, 100);
+    expect(chain.check("one two three four", "input").action).toBe("block");
+    expect(chain.check("one two three four", "output").action).toBe("allow");
+    chain.destroy();
+  });
+
+  it("validates schema on final output only", () => {
+    const chain = new GuardrailChain().addSchema({ type: "object", required: ["answer"] });
+    expect(chain.check("not json", "input").action).toBe("allow");
+    expect(chain.check("not json", "output").action).toBe("block");
+    expect(chain.check('{"other":1}', "output").violations[0].message).toContain("answer");
+    expect(chain.check('{"answer":1}', "output").action).toBe("allow");
+    expect(chain.check('{"other', "output", { partial: true }).action).toBe("allow");
+    chain.destroy();
+  });
+});
+
+// ─── Agent enforcement ─────────────────────────────────────────────
+
+describe("Agent guardrail enforcement", () => {
+  it("redacts PII in outgoing messages and output, attaching a report", async () => {
+    const chain = new GuardrailChain().addPiiDetection("redact");
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, guardrails: chain });
+
+    const result = await agent.run("My SSN is 123-45-6789");
+
+    const sent = vi.mocked(agent_run).mock.calls[0][3];
+    expect(sent[0].content).toBe("My SSN is [REDACTED_SSN]");
+    expect(result.text).toBe("Contact me at [REDACTED_EMAIL]");
+    expect(result.guardrailReport?.action).toBe("redact");
+    expect(result.guardrailReport?.input?.violations[0].rule).toBe("ssn");
+    expect(result.guardrailReport?.output?.violations[0].rule).toBe("email");
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("rejects with GuardrailError before calling the provider when input is blocked", async () => {
+    const chain = new GuardrailChain().addContentModeration(["forbidden"]);
+    const agent = new Agent({ providerOptions: { apiKey: "k" } }).withGuardrails(chain);
+
+    const err = await agent.run("this is forbidden").catch((e) => e);
+    expect(err).toBeInstanceOf(GuardrailError);
+    expect(err).toBeInstanceOf(GaussError);
+    expect(err.code).toBe("GUARDRAIL_BLOCKED");
+    expect(err.stage).toBe("input");
+    expect(agent_run).not.toHaveBeenCalled();
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("rejects when the output is blocked", async () => {
+    const chain = new GuardrailChain().addPiiDetection("block");
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, guardrails: chain });
+
+    await expect(agent.run("hello")).rejects.toMatchObject({ name: "GuardrailError", stage: "output" });
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("leaves results untouched when no chain is attached", async () => {
+    const agent = new Agent({ providerOptions: { apiKey: "k" } });
+    const result = await agent.run("hello");
+    expect(result.text).toBe("Contact me at jane@example.com");
+    expect(result.guardrailReport).toBeUndefined();
+    agent.destroy();
+  });
+
+  it("redacts streamed deltas even when PII spans two chunks", async () => {
+    vi.mocked(agent_stream_with_tool_executor).mockImplementationOnce(
+      async (_n, _h, _t, _m, _o, onEvent) => {
+        for (const text of ["write to jane@exa", "mple.com today", "!"]) {
+          onEvent?.(JSON.stringify({ type: "text_delta", text }));
+        }
+        return { text: "write to jane@example.com today!", steps: 1, inputTokens: 1, outputTokens: 1 };
+      },
+    );
+    const chain = new GuardrailChain().addPiiDetection("redact");
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, guardrails: chain });
+
+    const events: StreamEvent[] = [];
+    const result = await agent.stream("hi", (json) => events.push(JSON.parse(json)));
+
+    const streamed = events.map((e) => e.text).join("");
+    expect(streamed).toBe("write to [REDACTED_EMAIL] today!");
+    expect(result.text).toBe("write to [REDACTED_EMAIL] today!");
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("redacts spaced phone and card numbers split across deltas without duplicating text", () => {
+    const chain = new GuardrailChain().addPiiDetection("redact");
+    const filter = new GuardrailStreamFilter(chain);
+    const text = `${SAFE}call 555 123 4567 or pay with 4111 1111 1111 1111, then mail a@b.io. ${SAFE}done`;
+
+    let streamed = "";
+    for (let i = 0; i < text.length; i += 3) streamed += filter.push(text.slice(i, i + 3));
+    streamed += filter.flush();
+
+    expect(streamed).toBe(chain.check(text, "output").text);
+    expect(streamed).toContain("call [REDACTED_PHONE] or pay with [REDACTED_CREDIT_CARD], then mail [REDACTED_EMAIL].");
+    chain.destroy();
+  });
+
+  it("enforces output token limits across the whole stream", () => {
+    const chain = new GuardrailChain().addTokenLimit(undefined, 30);
+    const filter = new GuardrailStreamFilter(chain);
+
+    for (let i = 0; i < 40 && !filter.blocked; i++) filter.push("word ");
+
+    expect(filter.blocked?.violations[0].guardrail).toBe("token_limit");
+    chain.destroy();
+  });
+
+  it("suppresses streamIter deltas after a block and throws at the end", async () => {
+    vi.mocked(agent_stream_with_tool_executor).mockImplementationOnce(
+      async (_n, _h, _t, _m, _o, onEvent) => {
+        onEvent?.(JSON.stringify({ type: "text_delta", text: SAFE }));
+        onEvent?.(JSON.stringify({ type: "text_delta", text: "then violence " }));
+        onEvent?.(JSON.stringify({ type: "text_delta", text: "more" }));
+        return { text: `${SAFE}then violence more`, steps: 1, inputTokens: 1, outputTokens: 1 };
+      },
+    );
+    const chain = new GuardrailChain().addContentModeration(["violence"]);
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, guardrails: chain });
+
+    const events: StreamEvent[] = [];
+    const consume = async () => {
+      for await (const event of agent.streamIter("hi")) events.push(event);
+    };
+
+    await expect(consume()).rejects.toBeInstanceOf(GuardrailError);
+    expect(events.map((e) => e.type)).toEqual(["text_delta", "guardrail"]);
+    expect(SAFE.startsWith(events[0].text as string)).toBe(true);
+
+    agent.destroy();
+    chain.destroy();
+  });
+});
@@ -34,6 +34,8 @@ vi.mock("gauss-napi", () => ({
   memory_clear: vi.fn(async () => {}),
   memory_stats: vi.fn(async () => ({})),
   destroy_memory: vi.fn(),
+  count_tokens: vi.fn((text: string) => text.split(/\s+/).length),
+  get_context_window_size: vi.fn(() => 128000),
   create_middleware_chain: vi.fn(() => 77),
   middleware_use_logging: vi.fn(),
   middleware_use_caching: vi.fn(),
@@ -59,6 +61,7 @@ import {
   agent_run_with_tool_executor,
   memory_store,
   memory_recall,
+  get_context_window_size,
 } from "gauss-napi";
 
 // ─── M36: Typed Tool System ─────────────────────────────────────────
@@ -234,6 +237,27 @@ describe("Agent.withMemory", () => {
     agent.destroy();
     memory.destroy();
   });
+
+  it("keeps recalled context within a share of the context window, without archived entries", async () => {
+    vi.mocked(get_context_window_size).mockReturnValueOnce(40);
+    vi.mocked(memory_recall).mockResolvedValue([
+      { id: "1", content: "a b c d e f g h", entryType: "conversation", timestamp: "2024-01-01", tier: "archive" },
+      { id: "2", content: "one two three four five six seven eight nine", entryType: "conversation", timestamp: "2024-01-02" },
+      { id: "3", content: "likes cats", entryType: "fact", timestamp: "2024-01-03" },
+    ]);
+
+    const agent = new Agent({ providerOptions: { apiKey: "k" } });
+    const memory = new Memory();
+    agent.withMemory(memory, "s", { contextFraction: 0.2 });
+
+    await agent.run("What do I like?");
+
+    const messages = vi.mocked(agent_run).mock.calls[0]?.[3] ?? [];
+    expect(messages[0]).toEqual({ role: "system", content: "Previous context:\nlikes cats" });
+
+    agent.destroy();
+    memory.destroy();
+  });
 });
 
 describe("Agent with typed tools", () => {
@@ -0,0 +1,403 @@
+/**
+ * Tests for Memory backends — JSONL and SQLite persistence, session listing and erasure —
+ * for filtered, ranked and budgeted recall, consolidation, and memory across agent entry points.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { appendFile, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("gauss-napi", () => ({
+  create_memory: vi.fn(() => 1),
+  memory_store: vi.fn(async () => undefined),
+  memory_recall: vi.fn(async () => [
+    { id: "a", content: "hi", entryType: "conversation", timestamp: "2024-01-01T00:00:00Z", sessionId: "s1" },
+    { id: "b", content: "yo", entryType: "conversation", timestamp: "2024-01-02T00:00:00Z", sessionId: "s1" },
+  ]),
+  memory_clear: vi.fn(async () => undefined),
+  memory_stats: vi.fn(async () => ({ totalEntries: 2 })),
+  destroy_memory: vi.fn(),
+  // One token per word
+  count_tokens: vi.fn((text: string) => text.split(/\s+/).filter(Boolean).length),
+  get_context_window_size: vi.fn(() => 1000),
+  create_provider: vi.fn(() => 10),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async () => ({ text: "ok", steps: 1, inputTokens: 1, outputTokens: 1 })),
+  // Both loops call one tool, then answer
+  agent_run_with_tool_executor: vi.fn(async (...args: unknown[]) => {
+    const executor = args[5] as (call: string) => Promise<string>;
+    const result = await executor(JSON.stringify({ tool: "weather", id: "c1", args: { city: "Rome" } }));
+    return { text: `It is ${JSON.parse(result).temp} degrees`, steps: 2, inputTokens: 1, outputTokens: 1 };
+  }),
+  agent_stream_with_tool_executor: vi.fn(async (...args: unknown[]) => {
+    const onEvent = args[5] as (json: string) => void;
+    const executor = args[6] as (call: string) => Promise<string>;
+    await executor(JSON.stringify({ tool: "weather", id: "c1", args: { city: "Rome" } }));
+    onEvent(JSON.stringify({ type: "text_delta", text: "Sunny" }));
+    return { text: "Sunny", steps: 2, inputTokens: 1, outputTokens: 1 };
+  }),
+}));
+
+import { Memory, type MemoryOptions } from "../memory.js";
+import { JsonlMemoryBackend, SqliteMemoryBackend } from "../memory-backends.js";
+import { LocalEmbedder } from "../embeddings.js";
+import { Agent } from "../agent.js";
+import { ValidationError } from "../errors.js";
+import type { MemoryBackend, MemoryEntry } from "../types.js";
+import { agent_run, agent_stream_with_tool_executor, destroy_memory, memory_clear } from "gauss-napi";
+import { tool } from "../tool.js";
+
+function entry(id: string, sessionId: string | undefined, minute: number, content = `message ${id}`): MemoryEntry {
+  return {
+    id,
+    content,
+    entryType: "conversation",
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, minute)).toISOString(),
+    sessionId,
+  };
+}
+
+/** Behaviour every persistent backend shares. */
+async function exerciseBackend(backend: MemoryBackend) {
+  await backend.store(entry("1", "alice", 1));
+  await backend.store(entry("3", "alice", 3, "I live in Berlin"));
+  await backend.store(entry("2", "bob", 2));
+  await backend.store(entry("4", undefined, 4));
+  await backend.store({ ...entry("1", "alice", 1), content: "edited" });
+
+  expect((await backend.recall({ sessionId: "alice" })).map((e) => e.content)).toEqual(["edited", "I live in Berlin"]);
+  expect((await backend.recall({ limit: 2 })).map((e) => e.id)).toEqual(["3", "4"]);
+  expect(await backend.stats()).toMatchObject({ totalEntries: 4, sessions: 2 });
+  expect(await backend.listSessions()).toEqual([
+    { sessionId: "alice", entries: 2, firstTimestamp: entry("1", "", 1).timestamp, lastTimestamp: entry("3", "", 3).timestamp },
+    { sessionId: "bob", entries: 1, firstTimestamp: entry("2", "", 2).timestamp, lastTimestamp: entry("2", "", 2).timestamp },
+  ]);
+
+  expect(await backend.deleteSession("alice")).toBe(2);
+  expect(await backend.deleteSession("alice")).toBe(0);
+  expect((await backend.recall()).map((e) => e.id)).toEqual(["2", "4"]);
+
+  await backend.clear("bob");
+  expect((await backend.recall()).map((e) => e.id)).toEqual(["4"]);
+  await backend.clear();
+  expect(await backend.recall()).toEqual([]);
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
+  dir = await mkdtemp(join(tmpdir(), "gauss-memory-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("JsonlMemoryBackend", () => {
+  it("implements the backend contract", async () => {
+    await exerciseBackend(new JsonlMemoryBackend(join(dir, "memory.jsonl")));
+  });
+
+  it("survives restarts and erases deleted sessions from disk", async () => {
+    const path = join(dir, "nested", "memory.jsonl");
+    const first = new Memory({ backend: new JsonlMemoryBackend(path) });
+    await first.store(entry("1", "alice", 1, "I live in Berlin"));
+    await first.store(entry("2", "bob", 2));
+    first.destroy();
+
+    const second = new Memory({ backend: new JsonlMemoryBackend(path) });
+    expect((await second.recall({ sessionId: "alice" }))[0].content).toBe("I live in Berlin");
+
+    expect(await second.deleteSession("alice")).toBe(1);
+    const file = await readFile(path, "utf8");
+    expect(file).not.toContain("Berlin");
+    expect(file.trim().split("\n")).toHaveLength(1);
+  });
+
+  it("picks up changes made by another process and skips torn lines", async () => {
+    const path = join(dir, "memory.jsonl");
+    await writeFile(path, `${JSON.stringify(entry("1", "s", 1))}\n{"id":"trunc`);
+    const backend = new JsonlMemoryBackend(path);
+    expect(await backend.recall()).toHaveLength(1);
+
+    await appendFile(path, `\n${JSON.stringify(entry("2", "s", 2))}\n`);
+    expect((await backend.recall()).map((e) => e.id)).toEqual(["1", "2"]);
+  });
+});
+
+const sqlite = await SqliteMemoryBackend.open(":memory:").catch((err) => err as Error);
+
+describe.skipIf(sqlite instanceof Error)("SqliteMemoryBackend", () => {
+  it("implements the backend contract", async () => {
+    await exerciseBackend(sqlite as SqliteMemoryBackend);
+  });
+
+  it("rejects table names that are not identifiers", async () => {
+    expect(() => new SqliteMemoryBackend((sqlite as SqliteMemoryBackend).db, { table: "x; DROP" }))
+      .toThrow(ValidationError);
+  });
+});
+
+describe("Memory with backends", () => {
+  it("delegates to the native backend by default", async () => {
+    const memory = new Memory();
+
+    expect(memory.handle).toBe(1);
+    expect(await memory.listSessions()).toMatchObject([{ sessionId: "s1", entries: 2 }]);
+    expect(await memory.deleteSession("s1")).toBe(2);
+    expect(memory_clear).toHaveBeenCalledWith(1, "s1");
+    memory.destroy();
+  });
+
+  it("has no native handle with a custom backend", () => {
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "m.jsonl")) });
+    expect(() => memory.handle).toThrow(ValidationError);
+  });
+
+  it("closes only the backend it created", () => {
+    const shared = new JsonlMemoryBackend(join(dir, "m.jsonl"));
+    const close = vi.fn();
+    new Memory({ backend: Object.assign(shared, { close }) }).destroy();
+    expect(close).not.toHaveBeenCalled();
+
+    new Memory().destroy();
+    expect(destroy_memory).toHaveBeenCalledWith(1);
+  });
+});
+
+describe("Memory recall ranking", () => {
+  const hoursAgo = (h: number) => new Date(Date.now() - h * 3_600_000).toISOString();
+
+  async function seeded(options: MemoryOptions = {}) {
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "ranked.jsonl")), ...options });
+    const entries: MemoryEntry[] = [
+      { id: "cat", content: "The user has a cat named Miso", entryType: "fact", timestamp: hoursAgo(50) },
+      { id: "tz", content: "The user prefers replies in German", entryType: "preference", timestamp: hoursAgo(40), tier: "core" },
+      { id: "old", content: "We talked about the weather forecast today", entryType: "conversation", timestamp: hoursAgo(30), tier: "archive" },
+      { id: "bike", content: "The user rides a bike to work every day", entryType: "fact", timestamp: hoursAgo(20) },
+      { id: "hi", content: "hello there", entryType: "conversation", timestamp: hoursAgo(1) },
+    ];
+    for (const e of entries) await memory.store(e);
+    return memory;
+  }
+
+  it("filters by entry type and tier, treating untiered entries as active", async () => {
+    const memory = await seeded();
+
+    expect((await memory.recall({ entryTypes: ["fact"] })).map((e) => e.id)).toEqual(["cat", "bike"]);
+    expect((await memory.recall({ tiers: ["active"] })).map((e) => e.id)).toEqual(["cat", "bike", "hi"]);
+    expect((await memory.recall({ tiers: ["core", "archive"], limit: 1 })).map((e) => e.id)).toEqual(["old"]);
+  });
+
+  it("embeds entries on store and ranks by similarity, keeping chronological order", async () => {
+    const memory = await seeded({ embed: new LocalEmbedder(), ranking: { recencyWeight: 0 } });
+
+    expect((await memory.recall({ entryTypes: ["fact"] }))[0].embedding).toHaveLength(256);
+    const ranked = await memory.recall({ query: "what is the name of the cat?", limit: 2 });
+    expect(ranked.map((e) => e.id)).toEqual(["cat", "tz"]); // core pinned, then the most similar
+  });
+
+  it("weighs recency and importance without an embedder", async () => {
+    const memory = await seeded();
+    await memory.store({
+      id: "vip", content: "Allergic to peanuts", entryType: "fact", timestamp: hoursAgo(30), importance: 1,
+    });
+
+    expect((await memory.recall({ query: "ignored", tiers: ["active"], limit: 2 })).map((e) => e.id))
+      .toEqual(["vip", "hi"]);
+  });
+
+  it("stays within the token budget, skipping entries that do not fit", async () => {
+    const memory = await seeded({ embed: new LocalEmbedder() });
+
+    const recalled = await memory.recall({ query: "bike", maxTokens: 12, tiers: ["core", "active"] });
+    expect(recalled.map((e) => e.id)).toEqual(["tz", "hi"]);
+    expect(recalled.reduce((n, e) => n + e.content.split(" ").length, 0)).toBeLessThanOrEqual(12);
+  });
+});
+
+describe("Memory consolidation", () => {
+  const summarizer = () => new Agent({ provider: "openai", model: "gpt-4o-mini", providerOptions: { apiKey: "k" } });
+  const promptOf = (call: number) => (vi.mocked(agent_run).mock.calls[call][3] as Array<{ content: string }>)
+    .map((m) => m.content).join("\n");
+
+  function reply(summary: string, facts: string[] = [], preferences: string[] = []) {
+    vi.mocked(agent_run).mockImplementation(async (_name, _provider, _tools, messages) => {
+      const prompt = (messages as Array<{ content: string }>).map((m) => m.content).join("\n");
+      const text = prompt.includes("Summarize this conversation") ? JSON.stringify({ summary, facts, preferences }) : "ok";
+      return { text, steps: 1, inputTokens: 1, outputTokens: 1 };
+    });
+  }
+
+  async function converse(memory: Memory, from: number, turns: string[]) {
+    for (const [i, content] of turns.entries()) {
+      const role = i % 2 === 0 ? "user" : "assistant";
+      await memory.store({ ...entry(`t${from + i}`, "s", from + i, content), metadata: { role } });
+    }
+  }
+
+  it("summarizes older turns, extracts facts and archives the originals", async () => {
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "c.jsonl")) });
+    await converse(memory, 1, ["I live in Berlin", "Nice!", "Book me a train to Munich", "Done.", "Thanks", "Welcome"]);
+    reply("Booked a Berlin–Munich train.", ["The user lives in Berlin"], ["Prefers trains"]);
+
+    const result = await memory.consolidate("s", { agent: summarizer(), keepRecent: 2 });
+
+    expect(result.archived).toBe(4);
+    expect(result.summary).toMatchObject({ entryType: "summary", tier: "active", timestamp: entry("", "", 4).timestamp });
+    expect(result.extracted.map((e) => [e.entryType, e.content])).toEqual([
+      ["fact", "The user lives in Berlin"],
+      ["preference", "Prefers trains"],
+    ]);
+    expect(promptOf(0)).toContain("user: I live in Berlin\nassistant: Nice!");
+    expect(promptOf(0)).not.toContain("Thanks");
+
+    const active = await memory.recall({ sessionId: "s", tiers: ["active"] });
+    expect(active.map((e) => e.content)).toEqual([
+      "Booked a Berlin–Munich train.", "The user lives in Berlin", "Prefers trains", "Thanks", "Welcome",
+    ]);
+    expect((await memory.recall({ sessionId: "s", tiers: ["archive"] })).map((e) => e.id)).toEqual(["t1", "t2", "t3", "t4"]);
+  });
+
+  it("folds the previous summary into the next one", async () => {
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "c.jsonl")) });
+    await converse(memory, 1, ["I live in Berlin", "Nice!", "Hi", "Hello"]);
+    reply("Lives in Berlin.", ["The user lives in Berlin"]);
+    const first = await memory.consolidate("s", { agent: summarizer(), keepRecent: 0 });
+
+    await converse(memory, 10, ["I moved to Rome", "Congrats!"]);
+    reply("Moved from Berlin to Rome.", ["The user lives in Rome"]);
+    const second = await memory.consolidate("s", { agent: summarizer(), keepRecent: 0 });
+
+    expect(promptOf(1)).toContain("Summary of the conversation before it:\nLives in Berlin.");
+    expect(promptOf(1)).toContain("Already known (do not repeat):\n- The user lives in Berlin");
+    expect(second.archived).toBe(3);
+    expect((await memory.recall({ tiers: ["archive"] })).map((e) => e.id)).toContain(first.summary!.id);
+  });
+
+  it("does nothing below the threshold and needs an agent", async () => {
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "c.jsonl")) });
+    await converse(memory, 1, ["one two", "three four", "five six"]);
+
+    expect(await memory.consolidate("s", { agent: summarizer(), keepRecent: 1, thresholdTokens: 6 }))
+      .toEqual({ extracted: [], archived: 0 });
+    expect(agent_run).not.toHaveBeenCalled();
+    await expect(memory.consolidate("s")).rejects.toThrow(ValidationError);
+  });
+
+  it("runs after each agent run once the session outgrows the threshold", async () => {
+    reply("Small talk.");
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "c.jsonl")) });
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } })
+      .withMemory(memory, "s", { consolidation: { agent: summarizer(), keepRecent: 2, thresholdTokens: 3 } });
+
+    await agent.run("hello there");
+    expect(await memory.recall({ tiers: ["archive"] })).toEqual([]);
+
+    await agent.run("how are you");
+    const active = await memory.recall({ sessionId: "s", tiers: ["active"] });
+    expect(active.map((e) => e.content)).toEqual(["Small talk.", "how are you", "ok"]);
+    expect(() => agent.withMemory(memory, "s", { consolidation: { agent } })).toThrow(ValidationError);
+  });
+
+  it("reports a failed consolidation without failing the run, and forwards the run's signal", async () => {
+    reply("  ");
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "c.jsonl")) });
+    const consolidator = summarizer();
+    const summarize = vi.spyOn(consolidator, "run");
+    const onConsolidationError = vi.fn();
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } })
+      .withMemory(memory, "s", { consolidation: { agent: consolidator, keepRecent: 0, thresholdTokens: 0 }, onConsolidationError });
+    const controller = new AbortController();
+
+    const result = await agent.run("hello there", { signal: controller.signal });
+
+    expect(result.text).toBe("ok");
+    expect(onConsolidationError).toHaveBeenCalledWith(expect.any(ValidationError));
+    expect(summarize).toHaveBeenCalledWith(expect.any(String), { signal: controller.signal });
+    expect((await memory.recall({ sessionId: "s" })).map((e) => e.content)).toEqual(["hello there", "ok"]);
+  });
+});
+
+describe("Memory across agent entry points", () => {
+  const weather = tool({
+    name: "weather",
+    description: "Current weather",
+    parameters: { city: { type: "string" } },
+    execute: async () => ({ temp: 21 }),
+  });
+
+  async function setup() {
+    const memory = new Memory({ backend: new JsonlMemoryBackend(join(dir, "e.jsonl")) });
+    await memory.store({ ...entry("old", "s", 1, "I live in Rome"), metadata: { role: "user" } });
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" }, tools: [weather] })
+      .withMemory(memory, "s");
+    return { memory, agent };
+  }
+  const turn = async (memory: Memory) => (await memory.recall({ sessionId: "s" })).slice(1)
+    .map((e) => [e.metadata?.role, e.content]);
+  const streamedPrompt = () => JSON.stringify(vi.mocked(agent_stream_with_tool_executor).mock.calls[0][3]);
+
+  it("stores tool calls as structured entries from run", async () => {
+    const { memory, agent } = await setup();
+
+    await agent.run("Weather?");
+
+    const entries = await memory.recall({ sessionId: "s" });
+    expect(entries.map((e) => [e.metadata?.role, e.content])).toEqual([
+      ["user", "I live in Rome"],
+      ["user", "Weather?"],
+      ["tool", 'weather({"city":"Rome"}) → {"temp":21}'],
+      ["assistant", "It is 21 degrees"],
+    ]);
+    expect(entries[2].metadata).toMatchObject({
+      toolName: "weather", toolCallId: "c1", arguments: { city: "Rome" }, result: '{"temp":21}',
+    });
+  });
+
+  it("recalls and stores from stream", async () => {
+    const { memory, agent } = await setup();
+
+    await agent.stream("Weather?", () => {});
+
+    expect(streamedPrompt()).toContain("Previous context:\\nI live in Rome");
+    expect(await turn(memory)).toEqual([
+      ["user", "Weather?"], ["tool", 'weather({"city":"Rome"}) → {"temp":21}'], ["assistant", "Sunny"],
+    ]);
+  });
+
+  it("recalls and stores from streamIter and streamText", async () => {
+    const { memory, agent } = await setup();
+
+    const stream = agent.streamIter("Weather?");
+    for await (const _event of stream) { /* drain */ }
+    expect(streamedPrompt()).toContain("I live in Rome");
+    expect((await turn(memory)).at(-1)).toEqual(["assistant", "Sunny"]);
+
+    expect(await agent.streamText("And now?")).toBe("Sunny");
+    expect((await turn(memory)).slice(-3).map(([role]) => role)).toEqual(["user", "tool", "assistant"]);
+  });
+
+  it("recalls and stores from runWithTools", async () => {
+    const { memory, agent } = await setup();
+
+    await agent.runWithTools("Weather?", async () => "{}");
+
+    expect(await turn(memory)).toEqual([
+      ["user", "Weather?"], ["tool", 'weather({"city":"Rome"}) → {"temp":21}'], ["assistant", "It is 21 degrees"],
+    ]);
+  });
+
+  it("lets a call opt out of memory", async () => {
+    const { memory, agent } = await setup();
+
+    await agent.stream("Weather?", () => {}, undefined, { memory: false });
+    expect(streamedPrompt()).not.toContain("Previous context");
+    await agent.run("Secret question", { memory: { store: false } });
+    expect(await turn(memory)).toEqual([]);
+
+    await agent.run("Remember this", { memory: { recall: false } });
+    expect(await turn(memory)).toContainEqual(["user", "Remember this"]);
+  });
+});
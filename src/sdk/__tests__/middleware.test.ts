@@ -0,0 +1,232 @@
+/**
+ * Tests for middleware enforcement — caching, rate limiting, logging and user hooks in the Agent.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => 42),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async () => ({
+    text: "fresh answer",
+    steps: 1,
+    inputTokens: 10,
+    outputTokens: 5,
+  })),
+  agent_run_with_tool_executor: vi.fn(async () => ({
+    text: "tool response",
+    steps: 2,
+    inputTokens: 15,
+    outputTokens: 8,
+  })),
+  agent_stream_with_tool_executor: vi.fn(async (_n, _h, _t, _m, _o, onEvent) => {
+    onEvent?.(JSON.stringify({ type: "text_delta", text: "streamed" }));
+    return { text: "streamed", steps: 1, inputTokens: 10, outputTokens: 5 };
+  }),
+  generate: vi.fn(async () => ({ text: "generated" })),
+  create_middleware_chain: vi.fn(() => 77),
+  middleware_use_logging: vi.fn(),
+  middleware_use_caching: vi.fn(),
+  middleware_use_rate_limit: vi.fn(),
+  destroy_middleware_chain: vi.fn(),
+  create_telemetry: vi.fn(() => 90),
+  telemetry_record_span: vi.fn(),
+  destroy_telemetry: vi.fn(),
+}));
+
+import { Agent } from "../agent.js";
+import { MiddlewareChain } from "../middleware.js";
+import { Telemetry } from "../telemetry.js";
+import { tool } from "../tool.js";
+import type { MiddlewareLogEntry } from "../types.js";
+import type { StreamEvent } from "../stream-iter.js";
+import {
+  agent_run,
+  agent_run_with_tool_executor,
+  agent_stream_with_tool_executor,
+  generate,
+  telemetry_record_span,
+} from "gauss-napi";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("Agent middleware", () => {
+  it("serves repeated runs from cache and reports the hit", async () => {
+    const chain = new MiddlewareChain().useCaching(60_000);
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain });
+
+    const first = await agent.run("hello");
+    const second = await agent.run("hello");
+    const other = await agent.run("something else");
+
+    expect(agent_run).toHaveBeenCalledTimes(2);
+    expect(first.middleware).toEqual({ cacheHit: false, rateLimitWaitMs: 0 });
+    expect(second.middleware?.cacheHit).toBe(true);
+    expect(second.text).toBe("fresh answer");
+    expect(other.middleware?.cacheHit).toBe(false);
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("expires cached entries after the TTL", async () => {
+    vi.useFakeTimers();
+    try {
+      const chain = new MiddlewareChain().useCaching(1_000);
+      const agent = new Agent({ providerOptions: { apiKey: "k" } }).withMiddleware(chain);
+
+      await agent.run("hello");
+      vi.advanceTimersByTime(1_500);
+      const result = await agent.run("hello");
+
+      expect(agent_run).toHaveBeenCalledTimes(2);
+      expect(result.middleware?.cacheHit).toBe(false);
+      agent.destroy();
+      chain.destroy();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("evicts the least recently used response past maxEntries", async () => {
+    const chain = new MiddlewareChain().useCaching(60_000, { maxEntries: 2 });
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain });
+
+    await agent.run("a");
+    await agent.run("b");
+    expect((await agent.run("a")).middleware?.cacheHit).toBe(true);
+    await agent.run("c");
+
+    expect((await agent.run("a")).middleware?.cacheHit).toBe(true);
+    expect((await agent.run("b")).middleware?.cacheHit).toBe(false);
+    expect(agent_run).toHaveBeenCalledTimes(4);
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("waits on the rate limiter once the burst is spent", async () => {
+    const chain = new MiddlewareChain().useRateLimit(1200, 1);
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain });
+
+    const first = await agent.run("a");
+    const second = await agent.run("b");
+
+    expect(first.middleware?.rateLimitWaitMs).toBe(0);
+    expect(second.middleware?.rateLimitWaitMs).toBeGreaterThan(0);
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("runs before hooks in order and after hooks in reverse", async () => {
+    const order: string[] = [];
+    const chain = new MiddlewareChain()
+      .use({
+        name: "outer",
+        before: (ctx) => {
+          order.push("before:outer");
+          return [{ role: "system", content: "be brief" }, ...ctx.messages];
+        },
+        after: (_ctx, result) => {
+          order.push("after:outer");
+          return { ...result, text: result.text.toUpperCase() };
+        },
+      })
+      .use({
+        name: "inner",
+        before: () => { order.push("before:inner"); },
+        after: () => { order.push("after:inner"); },
+      });
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain });
+
+    const result = await agent.run("hello");
+
+    expect(order).toEqual(["before:outer", "before:inner", "after:inner", "after:outer"]);
+    expect(vi.mocked(agent_run).mock.calls[0][3][0]).toEqual({ role: "system", content: "be brief" });
+    expect(result.text).toBe("FRESH ANSWER");
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("logs each request through a custom logger", async () => {
+    const entries: MiddlewareLogEntry[] = [];
+    const chain = new MiddlewareChain().useLogging((e) => entries.push(e));
+    const agent = new Agent({ name: "logger-test", providerOptions: { apiKey: "k" }, middleware: chain });
+
+    await agent.run("hello");
+    vi.mocked(agent_run).mockRejectedValueOnce(new Error("provider down"));
+    await expect(agent.run("again")).rejects.toThrow("provider down");
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({ entry: "run", agent: "logger-test", inputTokens: 10, outputTokens: 5 });
+    expect(entries[1].error).toBe("provider down");
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("records log entries as telemetry spans, tagging streamText requests", async () => {
+    const telemetry = new Telemetry();
+    const chain = new MiddlewareChain().useLogging(telemetry);
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain });
+
+    await agent.streamText("hi");
+
+    const span = JSON.parse(vi.mocked(telemetry_record_span).mock.calls[0][1] as string);
+    expect(span).toMatchObject({ name: "gauss.streamText", attributes: { cacheHit: false, outputTokens: 5 } });
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("never serves tool-using runs from cache", async () => {
+    const chain = new MiddlewareChain().useCaching(60_000);
+    const lookup = tool({ name: "lookup", description: "Look up", execute: () => "found" });
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain, tools: [lookup] });
+
+    await agent.run("hello");
+    const second = await agent.run("hello");
+
+    expect(agent_run_with_tool_executor).toHaveBeenCalledTimes(2);
+    expect(second.middleware?.cacheHit).toBe(false);
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("replays cached text as a delta for streamIter", async () => {
+    const chain = new MiddlewareChain().useCaching(60_000);
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain });
+
+    await agent.streamText("hi");
+    const stream = agent.streamIter("hi");
+    const events: StreamEvent[] = [];
+    for await (const event of stream) events.push(event);
+
+    expect(agent_stream_with_tool_executor).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([{ type: "text_delta", text: "streamed" }]);
+    expect(stream.result?.middleware?.cacheHit).toBe(true);
+
+    agent.destroy();
+    chain.destroy();
+  });
+
+  it("caches raw generate calls separately from agent runs", async () => {
+    const chain = new MiddlewareChain().useCaching(60_000);
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, middleware: chain });
+
+    await agent.generate("hello", { temperature: 0 });
+    const again = await agent.generate("hello", { temperature: 0 });
+    await agent.run("hello");
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(again).toEqual({ text: "generated" });
+    expect(agent_run).toHaveBeenCalledTimes(1);
+
+    agent.destroy();
+    chain.destroy();
+  });
+});
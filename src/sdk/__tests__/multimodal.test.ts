@@ -0,0 +1,152 @@
+/**
+ * Tests for multimodal message content parts — Agent, Memory and token counting.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const capabilities = {
+  streaming: true,
+  toolUse: true,
+  vision: true,
+  audio: false,
+  extendedThinking: false,
+  citations: false,
+  cacheControl: false,
+  structuredOutput: true,
+  reasoningEffort: false,
+  imageGeneration: false,
+  grounding: false,
+  codeExecution: false,
+  webSearch: false,
+};
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => 42),
+  destroy_provider: vi.fn(),
+  get_provider_capabilities: vi.fn(() => capabilities),
+  agent_run: vi.fn(async () => ({ text: "a cat", steps: 1, inputTokens: 10, outputTokens: 2 })),
+  count_message_tokens: vi.fn(() => 7),
+  create_memory: vi.fn(() => 5),
+  memory_store: vi.fn(async () => undefined),
+  memory_recall: vi.fn(async () => []),
+  destroy_memory: vi.fn(),
+  create_guardrail_chain: vi.fn(() => 88),
+  guardrail_chain_add_pii_detection: vi.fn(),
+  destroy_guardrail_chain: vi.fn(),
+}));
+
+import { Agent } from "../agent.js";
+import { Memory } from "../memory.js";
+import { GuardrailChain } from "../guardrail.js";
+import { CapabilityError } from "../errors.js";
+import { countMessageTokens } from "../tokens.js";
+import { contentToText } from "../content.js";
+import type { Message } from "../types.js";
+import { agent_run, count_message_tokens, memory_store, memory_recall } from "gauss-napi";
+
+const visionMessage: Message = {
+  role: "user",
+  content: [
+    { type: "text", text: "What is this?" },
+    { type: "image", url: "https://example.com/cat.jpg" },
+  ],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("content parts", () => {
+  it("extracts text and tool results, skipping media", () => {
+    expect(contentToText([
+      { type: "text", text: "hello" },
+      { type: "image", data: "AAAA", mimeType: "image/png" },
+      { type: "tool_result", toolCallId: "c1", content: { ok: true } },
+    ])).toBe('hello\n{"ok":true}');
+  });
+
+  it("counts only text content", () => {
+    expect(countMessageTokens([visionMessage])).toBe(7);
+    expect(vi.mocked(count_message_tokens).mock.calls[0][0]).toEqual([{ role: "user", content: "What is this?" }]);
+  });
+});
+
+describe("Agent with content parts", () => {
+  it("rejects media parts the native bindings cannot carry, even for a vision model", async () => {
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } });
+
+    for (const part of [
+      { type: "image", url: "https://example.com/cat.jpg" },
+      { type: "document", data: "JVBER", mimeType: "application/pdf" },
+    ] as const) {
+      const err = await agent.run([{ role: "user", content: [part] }]).catch((e) => e);
+      expect(err).toBeInstanceOf(CapabilityError);
+      expect(err.capability).toBe(`${part.type} input`);
+    }
+    await expect(agent.generate([visionMessage])).rejects.toBeInstanceOf(CapabilityError);
+    expect(agent_run).not.toHaveBeenCalled();
+    agent.destroy();
+  });
+
+  it("sends every message as { role, content: string }, keeping tool calls", async () => {
+    const agent = new Agent({ providerOptions: { apiKey: "k" } });
+    await agent.run([
+      { role: "system", content: "be brief" },
+      { role: "user", content: [{ type: "text", text: "a" }, { type: "text", text: "b" }] },
+      { role: "assistant", content: [{ type: "tool_call", id: "c1", name: "lookup", arguments: { q: "x" } }] },
+      { role: "tool", content: [{ type: "tool_result", toolCallId: "c1", content: { ok: true } }] },
+    ]);
+    expect(vi.mocked(agent_run).mock.calls[0][3]).toEqual([
+      { role: "system", content: "be brief" },
+      { role: "user", content: "a\nb" },
+      { role: "assistant", content: '{"tool":"lookup","id":"c1","args":{"q":"x"}}' },
+      { role: "tool", content: '{"ok":true}' },
+    ]);
+    agent.destroy();
+  });
+
+  it("raises CapabilityError for audio when the model lacks audio input", async () => {
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } });
+    const err = await agent.run([
+      { role: "user", content: [{ type: "audio", data: "UklGR", mimeType: "audio/wav" }] },
+    ]).catch((e) => e);
+    expect(err).toBeInstanceOf(CapabilityError);
+    expect(err.capability).toBe("audio");
+    expect(err.message).toContain("openai/gpt-4o does not support audio");
+    expect(agent_run).not.toHaveBeenCalled();
+    agent.destroy();
+  });
+
+  it("applies input guardrails to text parts only", async () => {
+    const chain = new GuardrailChain().addPiiDetection("redact");
+    const agent = new Agent({ providerOptions: { apiKey: "k" }, guardrails: chain });
+    await agent.run([{
+      role: "user",
+      content: [
+        { type: "text", text: "mail jane@example.com" },
+        { type: "tool_result", toolCallId: "c1", content: "jane@example.com" },
+      ],
+    }]);
+    expect(vi.mocked(agent_run).mock.calls[0][3][0].content).toBe("mail [REDACTED_EMAIL]\njane@example.com");
+    agent.destroy();
+    chain.destroy();
+  });
+});
+
+describe("Memory with content parts", () => {
+  it("stores text with the original parts and restores them on recall", async () => {
+    const memory = new Memory();
+    await memory.store("conversation", visionMessage.content, "s1");
+
+    const stored = JSON.parse(vi.mocked(memory_store).mock.calls[0][1]);
+    expect(stored.content).toBe("What is this?");
+    expect(stored.metadata.parts).toEqual(visionMessage.content);
+
+    vi.mocked(memory_recall).mockResolvedValueOnce([
+      { id: "1", content: "What is this?", entryType: "conversation", timestamp: "t", metadata: { parts: visionMessage.content, k: 1 } },
+    ] as never);
+    const [entry] = await memory.recall();
+    expect(entry.parts).toEqual(visionMessage.content);
+    expect(entry.metadata).toEqual({ k: 1 });
+    memory.destroy();
+  });
+});
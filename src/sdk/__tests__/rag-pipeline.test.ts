@@ -0,0 +1,107 @@
+/**
+ * Tests for RagPipeline — ingestion, retrieval, the search tool and agent attachment.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("gauss-napi", () => ({
+  create_vector_store: vi.fn(() => 1),
+  vector_store_upsert: vi.fn(async () => undefined),
+  vector_store_search: vi.fn(async () => []),
+  destroy_vector_store: vi.fn(),
+  cosine_similarity: vi.fn(() => 1),
+  create_provider: vi.fn(() => 10),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async () => ({ text: "Refunds take 5 days [2].", steps: 1, inputTokens: 1, outputTokens: 1 })),
+}));
+
+import { RagPipeline } from "../rag-pipeline.js";
+import { Agent } from "../agent.js";
+import { VectorStore } from "../vector-store.js";
+import { DisposedError, ValidationError } from "../errors.js";
+import { agent_run, destroy_vector_store } from "gauss-napi";
+
+/** Toy embedding: one dimension per keyword. */
+const keywords = ["refund", "shipping", "password"];
+const embed = vi.fn(async (text: string) => keywords.map((k) => (text.toLowerCase().includes(k) ? 1 : 0)));
+
+beforeEach(() => vi.clearAllMocks());
+
+describe("RagPipeline", () => {
+  it("ingests files and documents, replacing documents on re-ingest", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "gauss-rag-"));
+    const path = join(dir, "refunds.txt");
+    await writeFile(path, "Refund requests are processed within 5 days.");
+    const rag = new RagPipeline({ embed });
+
+    expect(await rag.ingest([path, "Shipping is free over $50."])).toMatchObject({ documentIds: [path, expect.stringMatching(/^text-/)], chunks: 2 });
+    expect(rag.store.getChunk(`${path}-0`)).toMatchObject({ embedding: [1, 0, 0], metadata: { source: path } });
+
+    await writeFile(path, "Refunds are no longer offered.");
+    await rag.ingest(path);
+    expect(rag.store.stats()).toMatchObject({ chunks: 2, documents: 2 });
+    expect(rag.store.getChunk(`${path}-0`)?.content).toBe("Refunds are no longer offered.");
+
+    rag.destroy();
+    expect(() => rag.store.stats()).toThrow(DisposedError);
+  });
+
+  it("rejects path-shaped sources that name no file instead of indexing them as text", async () => {
+    const rag = new RagPipeline({ embed });
+
+    await expect(rag.ingest("./docs/faq.md")).rejects.toThrow(ValidationError);
+    await expect(rag.ingest("notes.pdf")).rejects.toThrow("no such file: notes.pdf");
+    expect(await rag.ingest(["and/or", "The total is 3.50"])).toMatchObject({ chunks: 2 });
+    rag.destroy();
+  });
+
+  it("retrieves attributed chunks and exposes them as a tool", async () => {
+    const rag = new RagPipeline({ embed, hybrid: { alpha: 0 } });
+    await rag.ingest([
+      { documentId: "faq", content: "", metadata: {}, chunks: [
+        { id: "faq-0", documentId: "faq", content: "Reset your password from settings.", index: 0, metadata: { source: "faq.md" } },
+        { id: "faq-1", documentId: "faq", content: "Shipping takes two days.", index: 1 },
+      ] },
+    ]);
+
+    const [hit] = await rag.retrieve("forgot password", { topK: 1 });
+    expect(hit).toMatchObject({ id: "faq-0", documentId: "faq", source: "faq.md", text: "Reset your password from settings." });
+
+    const search = rag.asTool();
+    expect(search.name).toBe("search_knowledge_base");
+    const output = await search.execute({ query: "shipping", topK: 1 }, {} as never);
+    expect(output).toEqual({ results: [{ id: "faq-1", source: "faq", text: "Shipping takes two days.", score: 1 }] });
+    rag.destroy();
+  });
+
+  it("injects numbered sources into Agent.run and reports the cited chunks", async () => {
+    const store = new VectorStore();
+    const rag = new RagPipeline({ embed, store });
+    await rag.ingest({ documentId: "policy", content: "", metadata: {}, chunks: [
+      { id: "policy-0", documentId: "policy", content: "Shipping is free over $50.", index: 0 },
+      { id: "policy-1", documentId: "policy", content: "Refunds take 5 days.", index: 1 },
+    ] });
+    const agent = rag.attachTo(new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } }));
+    vi.spyOn(rag, "retrieve").mockResolvedValueOnce([
+      { id: "policy-0", documentId: "policy", source: "policy", text: "Shipping is free over $50.", score: 0.4 },
+      { id: "policy-1", documentId: "policy", source: "policy", text: "Refunds take 5 days.", score: 0.9 },
+    ]);
+
+    const result = await agent.run("How long do refunds take?");
+
+    const messages = JSON.parse(JSON.stringify(vi.mocked(agent_run).mock.calls[0][3]));
+    expect(messages[0].role).toBe("system");
+    expect(messages[0].content).toContain("[2] policy (chunk policy-1)\nRefunds take 5 days.");
+    expect(result.retrieval?.chunks).toHaveLength(2);
+    expect(result.retrieval?.usedChunkIds).toEqual(["policy-1"]);
+    expect(rag.usedChunkIds("See [2, 1] and [9].", { prompt: "", chunks: result.retrieval!.chunks }))
+      .toEqual(["policy-1", "policy-0"]);
+
+    agent.destroy();
+    rag.destroy();
+    expect(destroy_vector_store).not.toHaveBeenCalled();
+    store.destroy();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for rerankers — LLM listwise, cross-encoder hook, MMR and RagPipeline integration.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_vector_store: vi.fn(() => 1),
+  vector_store_upsert: vi.fn(async () => undefined),
+  vector_store_search: vi.fn(async () => []),
+  destroy_vector_store: vi.fn(),
+  cosine_similarity: vi.fn(() => 1),
+  create_provider: vi.fn(() => 10),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async () => ({ text: '{"ranking": [3, 1, 3, 9]}', steps: 1, inputTokens: 1, outputTokens: 1 })),
+}));
+
+import { crossEncoderReranker, llmReranker, mmrReranker, rerank } from "../rerank.js";
+import { RagPipeline } from "../rag-pipeline.js";
+import { Agent } from "../agent.js";
+import { AbortError, ValidationError } from "../errors.js";
+import type { Reranker, SearchResult } from "../types.js";
+import { agent_run } from "gauss-napi";
+
+const results: SearchResult[] = [
+  { id: "a", text: "cats purr", score: 0.9, embedding: [1, 0] },
+  { id: "b", text: "cats meow", score: 0.8, embedding: [0.99, 0.14] },
+  { id: "c", text: "dogs bark", score: 0.7, embedding: [0.6, 0.8] },
+];
+
+beforeEach(() => vi.clearAllMocks());
+
+describe("rerankers", () => {
+  it("orders by the LLM's ranking and keeps omitted passages last", async () => {
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } });
+
+    const ranked = await llmReranker(agent).rerank("what do dogs say?", results, { topK: 3 });
+
+    expect(ranked.map((r) => [r.id, r.rerankScore])).toEqual([["c", 1], ["a", 0.5], ["b", 0]]);
+    expect(ranked[0].score).toBe(1);
+    const prompt = vi.mocked(agent_run).mock.calls[0][3] as Array<{ content: string }>;
+    expect(prompt.at(-1)!.content).toContain("Query:\nwhat do dogs say?");
+    expect(prompt.at(-1)!.content).toContain("[3] dogs bark");
+    agent.destroy();
+  });
+
+  it("scores pairs with a cross-encoder hook in batches", async () => {
+    const score = vi.fn(async (_q: string, passages: string[]) => passages.map((p) => (p.includes("bark") ? 5 : 1)));
+    const ranked = await crossEncoderReranker(score, { batchSize: 2 }).rerank("dogs", results, { topK: 2 });
+
+    expect(ranked.map((r) => r.id)).toEqual(["c", "a"]);
+    expect(score).toHaveBeenCalledTimes(2);
+
+    const broken = crossEncoderReranker(async () => [1]);
+    await expect(broken.rerank("dogs", results, { topK: 1 })).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("diversifies with MMR", async () => {
+    const relevanceOnly = await mmrReranker({ lambda: 1 }).rerank("q", results, { topK: 2, queryEmbedding: [1, 0] });
+    expect(relevanceOnly.map((r) => r.id)).toEqual(["a", "b"]);
+
+    const diverse = await mmrReranker({ lambda: 0.3 }).rerank("q", results, { topK: 2, queryEmbedding: [1, 0] });
+    expect(diverse.map((r) => r.id)).toEqual(["a", "c"]);
+
+    await expect(mmrReranker().rerank("q", results, { topK: 1 })).rejects.toThrow("query embedding");
+    await expect(mmrReranker().rerank("q", [{ id: "x", text: "", score: 1 }], { topK: 1, queryEmbedding: [1] }))
+      .rejects.toThrow("includeEmbeddings");
+    expect(() => mmrReranker({ lambda: 2 })).toThrow(ValidationError);
+  });
+
+  it("chains rerankers, cutting to topK only at the end", async () => {
+    const seen: number[] = [];
+    const spy: Reranker = {
+      name: "spy",
+      rerank: async (_q, rs, { topK }) => { seen.push(topK); return [...rs].reverse(); },
+    };
+    const out = await rerank("q", results, [spy, mmrReranker({ lambda: 1 })], { topK: 1, queryEmbedding: [0, 1] });
+    expect(seen).toEqual([3]);
+    expect(out.map((r) => r.id)).toEqual(["c"]);
+  });
+
+  it("over-fetches candidates in RagPipeline and returns the reranked topK", async () => {
+    const embed = vi.fn(async (text: string) => (text.includes("dog") ? [0.6, 0.8] : [1, 0]));
+    const spy: Reranker = { name: "spy", rerank: vi.fn(async (_q, rs, { topK }) => rs.slice(-topK)) };
+    const rag = new RagPipeline({ embed, topK: 1, candidates: 10, rerank: spy, filter: { op: "eq", field: "k", value: 1 } });
+    await rag.ingest({ documentId: "pets", content: "", metadata: {}, chunks: results.map((r, index) => ({
+      id: r.id, documentId: "pets", content: r.text, index, metadata: { k: 1 },
+    })) });
+
+    const [hit] = await rag.retrieve("cats");
+
+    const [, candidates, options] = vi.mocked(spy.rerank).mock.calls[0];
+    expect(candidates).toHaveLength(3);
+    expect(candidates[0].embedding).toEqual([1, 0]);
+    expect(options).toMatchObject({ topK: 1, queryEmbedding: [1, 0] });
+    expect(hit.id).toBe("c");
+    expect(hit.embedding).toBeUndefined();
+    rag.destroy();
+  });
+
+  it("passes the caller's signal from augment to the embedder and rerankers", async () => {
+    const embed = vi.fn(async (texts: string[]) => texts.map(() => [1, 0]));
+    const spy: Reranker = { name: "spy", rerank: vi.fn(async (_q, rs) => rs) };
+    const rag = new RagPipeline({ embed: { id: "test", embed }, rerank: spy });
+    const controller = new AbortController();
+
+    await rag.augment("cats", { signal: controller.signal });
+
+    expect(embed).toHaveBeenCalledWith(["cats"], { signal: controller.signal });
+    expect(vi.mocked(spy.rerank).mock.calls[0][2].signal).toBe(controller.signal);
+    rag.destroy();
+  });
+
+  it("stops the LLM reranker once the signal is aborted", async () => {
+    const agent = new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(llmReranker(agent).rerank("q", results, { topK: 3, signal: controller.signal }))
+      .rejects.toBeInstanceOf(AbortError);
+    expect(agent_run).not.toHaveBeenCalled();
+    agent.destroy();
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for resilient agents — provider fallback, circuit breaking and events.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+let nextHandle = 10;
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => nextHandle++),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(async () => ({ text: "ok", steps: 1, inputTokens: 1, outputTokens: 1 })),
+  agent_stream_with_tool_executor: vi.fn(async () => ({ text: "ok", steps: 1, inputTokens: 1, outputTokens: 1 })),
+  generate: vi.fn(async () => ({ text: "raw" })),
+  count_tokens: vi.fn(() => 1),
+  count_message_tokens: vi.fn(() => 1),
+  create_fallback_provider: vi.fn(() => 900),
+  create_circuit_breaker: vi.fn(() => 901),
+  create_resilient_provider: vi.fn(() => 902),
+  create_team: vi.fn(() => 700),
+  team_add_agent: vi.fn(),
+  destroy_team: vi.fn(),
+}));
+
+import { Agent } from "../agent.js";
+import { Team } from "../team.js";
+import { AbortError, FallbackExhaustedError } from "../errors.js";
+import { createCircuitBreaker, createFallbackProvider, createResilientAgent } from "../resilience.js";
+import type { ResilienceEvent } from "../types.js";
+import {
+  agent_run,
+  agent_stream_with_tool_executor,
+  generate,
+  create_circuit_breaker,
+  create_provider,
+  create_resilient_provider,
+  destroy_provider,
+  team_add_agent,
+} from "gauss-napi";
+
+const agents: Agent[] = [];
+function makeAgent(provider: "openai" | "anthropic" | "groq", model: string): Agent {
+  const agent = new Agent({ provider, model, providerOptions: { apiKey: "k" } });
+  agents.push(agent);
+  return agent;
+}
+
+/** Fail every call except those made against `handle`. */
+function serveOnly(handle: number) {
+  vi.mocked(agent_run).mockImplementation(async (_n, h) => {
+    if (h !== handle) throw new Error("provider down");
+    return { text: `served by ${h}`, steps: 1, inputTokens: 1, outputTokens: 1 };
+  });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(agent_run).mockImplementation(async () => ({ text: "ok", steps: 1, inputTokens: 1, outputTokens: 1 }));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  for (const agent of agents.splice(0)) agent.destroy();
+});
+
+describe("resilient agents", () => {
+  it("falls back to the next provider and reports who served the run", async () => {
+    const primary = makeAgent("openai", "gpt-4o");
+    const backup = makeAgent("anthropic", "claude-sonnet-4-20250514");
+    const agent = createResilientAgent(primary, [backup], false);
+    agents.push(agent);
+    const events: ResilienceEvent[] = [];
+    agent.onResilienceEvent((e) => events.push(e));
+    serveOnly(backup.handle);
+
+    const result = await agent.run("hi");
+
+    expect(result.text).toBe(`served by ${backup.handle}`);
+    expect(result.resilience).toEqual({
+      provider: "anthropic",
+      model: "claude-sonnet-4-20250514",
+      attempts: 2,
+      fallbacks: 1,
+      failures: [{ provider: "openai", model: "gpt-4o", error: "provider down" }],
+    });
+    expect(events).toEqual([{
+      type: "fallback",
+      agent: "agent",
+      from: { provider: "openai", model: "gpt-4o" },
+      to: { provider: "anthropic", model: "claude-sonnet-4-20250514" },
+      error: "provider down",
+    }]);
+  });
+
+  it("serves from the primary when it is healthy", async () => {
+    const agent = createFallbackProvider([makeAgent("openai", "gpt-4o"), makeAgent("groq", "llama")]);
+    agents.push(agent);
+
+    const result = await agent.run("hi");
+
+    expect(agent_run).toHaveBeenCalledTimes(1);
+    expect(result.resilience).toEqual({ provider: "openai", model: "gpt-4o", attempts: 1, fallbacks: 0, failures: [] });
+  });
+
+  it("throws FallbackExhaustedError when every provider fails", async () => {
+    const primary = makeAgent("openai", "gpt-4o");
+    const backup = makeAgent("groq", "llama");
+    const agent = createResilientAgent(primary, [backup], false);
+    agents.push(agent);
+    vi.mocked(agent_run).mockRejectedValue(new Error("down"));
+
+    const err = await agent.run("hi").catch((e) => e);
+    expect(err).toBeInstanceOf(FallbackExhaustedError);
+    expect(err.code).toBe("FALLBACK_EXHAUSTED");
+    expect(err.failures.map((f: { provider: string }) => f.provider)).toEqual(["openai", "groq"]);
+  });
+
+  it("opens, half-opens and closes circuits and emits each transition", async () => {
+    vi.useFakeTimers();
+    const base = makeAgent("openai", "gpt-4o");
+    const agent = createCircuitBreaker(base, 2, 1000);
+    agents.push(agent);
+    const transitions: string[] = [];
+    agent.onResilienceEvent((e) => { if (e.type === "circuit") transitions.push(`${e.from}->${e.to}`); });
+    vi.mocked(agent_run).mockRejectedValue(new Error("down"));
+
+    await agent.run("1").catch(() => {});
+    await agent.run("2").catch(() => {});
+    expect(transitions).toEqual(["closed->open"]);
+
+    const callsBefore = vi.mocked(agent_run).mock.calls.length;
+    const skipped = await agent.run("3").catch((e) => e);
+    expect(skipped.failures).toEqual([{ provider: "openai", model: "gpt-4o", error: "circuit open" }]);
+    expect(agent_run).toHaveBeenCalledTimes(callsBefore);
+
+    vi.advanceTimersByTime(1000);
+    vi.mocked(agent_run).mockResolvedValue({ text: "back", steps: 1, inputTokens: 1, outputTokens: 1 });
+    expect((await agent.run("4")).text).toBe("back");
+    expect(transitions).toEqual(["closed->open", "open->half-open", "half-open->closed"]);
+  });
+
+  it("does not fall back when the run is aborted", async () => {
+    const primary = makeAgent("openai", "gpt-4o");
+    const agent = createResilientAgent(primary, [makeAgent("groq", "llama")], false);
+    agents.push(agent);
+    const controller = new AbortController();
+    vi.mocked(agent_run).mockImplementationOnce(async () => {
+      controller.abort();
+      throw new Error("cancelled");
+    });
+
+    await expect(agent.run("hi", { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(agent_run).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails over streams and raw generation too", async () => {
+    const primary = makeAgent("openai", "gpt-4o");
+    const backup = makeAgent("groq", "llama");
+    const agent = createResilientAgent(primary, [backup], false);
+    agents.push(agent);
+    vi.mocked(agent_stream_with_tool_executor).mockRejectedValueOnce(new Error("stream down"));
+    vi.mocked(generate).mockRejectedValueOnce(new Error("generate down"));
+
+    const stream = agent.streamIter("hi");
+    for await (const _ of stream) { /* drain */ }
+    expect(stream.result?.resilience?.provider).toBe("groq");
+    expect(vi.mocked(agent_stream_with_tool_executor).mock.calls[1][1]).toBe(backup.handle);
+
+    await expect(agent.generate("hi")).resolves.toEqual({ text: "raw" });
+    expect(vi.mocked(generate).mock.calls[1][0]).toBe(backup.handle);
+  });
+
+  it("plugs into Team with a native resilient handle and destroys it", () => {
+    const primary = makeAgent("openai", "gpt-4o");
+    const backup = makeAgent("groq", "llama");
+    const agent = createResilientAgent(primary, [backup]);
+    const team = new Team("t").add(agent);
+
+    expect(create_resilient_provider).toHaveBeenCalledWith(expect.any(Number), [backup.handle], true);
+    expect(vi.mocked(team_add_agent).mock.calls[0][2]).toBe(902);
+
+    team.destroy();
+    agent.destroy();
+    expect(destroy_provider).toHaveBeenCalledWith(902);
+  });
+
+  it("hands subsystems the primary handle when there is nothing to wrap", () => {
+    const primary = makeAgent("openai", "gpt-4o");
+    const agent = primary.withResilience({ circuitBreaker: false });
+    const team = new Team("t").add(agent);
+
+    expect(vi.mocked(team_add_agent).mock.calls[0][2]).toBe(vi.mocked(create_provider).mock.results.at(-1)!.value);
+    expect(create_circuit_breaker).not.toHaveBeenCalled();
+    expect(create_resilient_provider).not.toHaveBeenCalled();
+    team.destroy();
+    agent.destroy();
+  });
+});
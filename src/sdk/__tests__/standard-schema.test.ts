@@ -0,0 +1,124 @@
+/**
+ * Tests for Standard Schema (Zod, Valibot, ArkType, …) support in typed tools
+ * and structured output, using a minimal hand-written Standard Schema.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => 10),
+  destroy_provider: vi.fn(),
+  agent_run: vi.fn(),
+}));
+
+import { tool, createToolExecutor } from "../tool.js";
+import { structured } from "../structured.js";
+import { isStandardSchema } from "../standard-schema.js";
+import { Agent } from "../agent.js";
+import { ValidationError } from "../errors.js";
+import type { StandardSchemaV1 } from "../types.js";
+import { agent_run } from "gauss-napi";
+
+type Field = "string" | "number";
+
+/** A tiny object schema library implementing Standard Schema and Standard JSON Schema. */
+function object<T extends Record<string, Field>>(
+  shape: T,
+  options: { jsonSchema?: boolean } = {}
+): StandardSchemaV1<unknown, { [K in keyof T]: T[K] extends "string" ? string : number }> {
+  const jsonSchema = () => ({
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    properties: Object.fromEntries(Object.entries(shape).map(([k, t]) => [k, { type: t }])),
+    required: Object.keys(shape),
+  });
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "mini",
+      validate: (value) => {
+        const record = (value ?? {}) as Record<string, unknown>;
+        const issues = Object.entries(shape)
+          .filter(([k, t]) => typeof record[k] !== t)
+          .map(([k, t]) => ({ message: `expected ${t}`, path: [{ key: k }] }));
+        return issues.length > 0
+          ? { issues }
+          : { value: record as { [K in keyof T]: T[K] extends "string" ? string : number } };
+      },
+      ...(options.jsonSchema === false ? {} : { jsonSchema: { input: jsonSchema, output: jsonSchema } }),
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("tool() with a Standard Schema", () => {
+  it("infers parameter types, sends JSON Schema and validates arguments", async () => {
+    const seen: string[] = [];
+    const weather = tool({
+      name: "weather",
+      description: "Current weather",
+      parameters: object({ city: "string", days: "number" }),
+      execute: async ({ city, days }) => {
+        seen.push(city.toUpperCase());
+        return { city, days: days + 1 };
+      },
+    });
+
+    expect(weather.parameters).toEqual({
+      type: "object",
+      properties: { city: { type: "string" }, days: { type: "number" } },
+      required: ["city", "days"],
+    });
+
+    const executor = createToolExecutor([weather]);
+    const ok = await executor(JSON.stringify({ tool: "weather", args: { city: "Rome", days: 2 } }));
+    const bad = await executor(JSON.stringify({ tool: "weather", args: { city: 7 } }));
+
+    expect(JSON.parse(ok)).toEqual({ city: "Rome", days: 3 });
+    expect(seen).toEqual(["ROME"]);
+    expect(JSON.parse(bad).issues).toEqual([
+      { path: "$.city", message: "expected string" },
+      { path: "$.days", message: "expected number" },
+    ]);
+  });
+
+  it("needs a JSON Schema when the library cannot produce one", () => {
+    const schema = object({ city: "string" }, { jsonSchema: false });
+    const config = { name: "weather", description: "Weather", parameters: schema, execute: () => "sunny" };
+
+    expect(() => tool(config)).toThrow(ValidationError);
+    expect(tool({ ...config, jsonSchema: { type: "object" } }).parameters).toEqual({ type: "object" });
+  });
+
+  it("recognizes Standard Schemas", () => {
+    expect(isStandardSchema(object({}))).toBe(true);
+    expect(isStandardSchema({ type: "object" })).toBe(false);
+  });
+});
+
+describe("structured() with a Standard Schema", () => {
+  const agent = () => new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" } });
+
+  it("returns validated data typed by the schema", async () => {
+    vi.mocked(agent_run).mockResolvedValueOnce({ text: '{"name":"Ada","age":36}', steps: 1, inputTokens: 1, outputTokens: 1 });
+
+    const { data } = await structured(agent(), "Who?", { schema: object({ name: "string", age: "number" }) });
+
+    expect(data.name.toUpperCase()).toBe("ADA");
+    expect(data.age + 1).toBe(37);
+    expect(JSON.stringify(vi.mocked(agent_run).mock.calls[0][3])).toContain('\\"required\\": [\\n    \\"name\\"');
+  });
+
+  it("retries with the validation issues when the output does not match", async () => {
+    vi.mocked(agent_run)
+      .mockResolvedValueOnce({ text: '{"name":"Ada","age":"old"}', steps: 1, inputTokens: 1, outputTokens: 1 })
+      .mockResolvedValueOnce({ text: '{"name":"Ada","age":36}', steps: 1, inputTokens: 1, outputTokens: 1 });
+
+    const { data } = await structured(agent(), "Who?", { schema: object({ name: "string", age: "number" }) });
+
+    expect(data.age).toBe(36);
+    expect(JSON.stringify(vi.mocked(agent_run).mock.calls[1][3])).toContain("$.age expected number");
+  });
+});
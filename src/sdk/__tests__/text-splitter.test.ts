@@ -0,0 +1,136 @@
+/**
+ * Tests for splitters — character offsets, token budgets, Markdown heading paths and code boundaries.
+ */
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  // One token per word keeps budgets easy to reason about
+  count_tokens_for_model: vi.fn((text: string) => text.split(/\s+/).filter(Boolean).length),
+}));
+
+import { CodeSplitter, MarkdownSplitter, TextSplitter, TokenTextSplitter } from "../text-splitter.js";
+import { markdownLoader } from "../document-loader.js";
+import { count_tokens_for_model } from "gauss-napi";
+import type { TextChunk } from "../text-splitter.js";
+
+function expectOffsets(text: string, chunks: TextChunk[]) {
+  for (const chunk of chunks) expect(text.slice(chunk.start, chunk.end)).toBe(chunk.content);
+}
+
+describe("offsets", () => {
+  it("points every TextSplitter chunk back into the source", () => {
+    const text = Array.from({ length: 30 }, (_, i) => `Sentence number ${i}.`).join(" ");
+    const chunks = new TextSplitter({ chunkSize: 80, chunkOverlap: 20 }).split(text);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    expectOffsets(text, chunks);
+    expect(chunks[1].start).toBeLessThan(chunks[0].end); // overlap
+  });
+});
+
+describe("TokenTextSplitter", () => {
+  it("keeps chunks within the token budget with word-aligned overlap", () => {
+    const text = Array.from({ length: 40 }, (_, i) => `w${i}`).join(" ");
+    const chunks = new TokenTextSplitter({ model: "text-embedding-3-small", chunkSize: 10, chunkOverlap: 3 }).split(text);
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) expect(chunk.content.split(" ").length).toBeLessThanOrEqual(10);
+    expect(chunks[1].content.startsWith("w7 w8 w9 ")).toBe(true);
+    expectOffsets(text, chunks);
+    expect(count_tokens_for_model).toHaveBeenCalledWith(expect.any(String), "text-embedding-3-small");
+  });
+});
+
+describe("MarkdownSplitter", () => {
+  const md = [
+    "Preface.",
+    "",
+    "# Guide",
+    "",
+    "## Install",
+    "",
+    "Run the installer.",
+    "",
+    "```sh",
+    "# not a heading",
+    "```",
+    "",
+    "### Linux",
+    "",
+    "Use apt.",
+    "",
+    "## Usage",
+    "",
+    "Start it.",
+  ].join("\n");
+
+  it("records the heading path and skips heading-only sections", () => {
+    const chunks = new MarkdownSplitter().split(md);
+
+    expect(chunks.map((c) => [c.index, c.metadata?.headingPath])).toEqual([
+      [0, undefined],
+      [1, "# Guide > ## Install"],
+      [2, "# Guide > ## Install > ### Linux"],
+      [3, "# Guide > ## Usage"],
+    ]);
+    expect(chunks[1].content).toContain("# not a heading");
+    expect(chunks[2].metadata?.headings).toEqual(["Guide", "Install", "Linux"]);
+    expectOffsets(md, chunks);
+  });
+
+  it("is the default for markdownLoader, with offsets into the document", async () => {
+    const doc = await markdownLoader.fromString(`---\ntitle: x\n---\n${md}`, { documentId: "guide" });
+
+    const linux = doc.chunks.find((c) => c.content.includes("Use apt."))!;
+    expect(linux.metadata).toMatchObject({ headingPath: "# Guide > ## Install > ### Linux" });
+    expect(doc.content.slice(linux.metadata!.start as number, linux.metadata!.end as number)).toBe(linux.content);
+  });
+});
+
+describe("CodeSplitter", () => {
+  it("keeps TypeScript declarations whole, with their comments", () => {
+    const code = [
+      "import { x } from \"./x\";",
+      "",
+      "/** Adds. */",
+      "export function add(a: number, b: number) {",
+      "  return a + b;",
+      "}",
+      "",
+      "export class Counter {",
+      "  private n = 0;",
+      "",
+      "  increment(): number {",
+      "    if (this.n > 10) {",
+      "      reset(this.n);",
+      "    }",
+      "    return ++this.n;",
+      "  }",
+      "",
+      "  reset(): void {",
+      "    this.n = 0;",
+      "  }",
+      "}",
+      "",
+    ].join("\n");
+
+    const chunks = new CodeSplitter({ language: "typescript", chunkSize: 120 }).split(code);
+
+    expect(chunks.map((c) => c.metadata?.symbols)).toEqual([["add"], ["Counter"], ["increment"], ["reset"]]);
+    expect(chunks[0].content).toContain("\n\n/** Adds. */\nexport function add");
+    expect(chunks[2].content).toMatch(/^  increment\(\): number \{[\s\S]*return \+\+this\.n;\n  \}\n\n$/);
+    expectOffsets(code, chunks);
+  });
+
+  it("splits Python at def and class, packing small ones together", () => {
+    const code = "import os\n\n@cache\ndef a():\n    return 1\n\ndef b():\n    return 2\n\nclass C:\n    pass\n";
+
+    const chunks = new CodeSplitter({ language: "python", chunkSize: 50 }).split(code);
+
+    expect(chunks.map((c) => c.content)).toEqual([
+      "import os\n\n@cache\ndef a():\n    return 1\n\n",
+      "def b():\n    return 2\n\nclass C:\n    pass\n",
+    ]);
+    expect(chunks[1].metadata?.symbols).toEqual(["b", "C"]);
+  });
+});
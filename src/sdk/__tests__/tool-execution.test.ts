@@ -0,0 +1,116 @@
+/**
+ * Tests for tool run limits — per-tool timeouts, retries and concurrency.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_provider: vi.fn(() => 10),
+  destroy_provider: vi.fn(),
+}));
+
+import { tool, createToolExecutor } from "../tool.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const call = (name: string, args: Record<string, unknown> = {}) => JSON.stringify({ tool: name, args });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("tool timeouts", () => {
+  it("aborts the call's signal and tells the model it timed out", async () => {
+    let signal: AbortSignal | undefined;
+    const hang = tool({
+      name: "hang",
+      description: "Never returns",
+      timeoutMs: 20,
+      execute: (_params, context) => {
+        signal = context.signal;
+        return new Promise(() => {});
+      },
+    });
+
+    const result = JSON.parse(await createToolExecutor([hang])(call("hang")));
+
+    expect(result).toEqual({ error: 'Tool "hang" failed: timed out after 20ms' });
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("retries timed-out calls only for idempotent tools", async () => {
+    let attempts = 0;
+    const slowThenFast = (idempotent: boolean) => tool({
+      name: "lookup",
+      description: "Slow at first",
+      timeoutMs: 20,
+      retries: { maxRetries: 2, baseDelayMs: 0 },
+      idempotent,
+      execute: async () => {
+        attempts++;
+        if (attempts === 1) await sleep(100);
+        return "found";
+      },
+    });
+
+    expect(await createToolExecutor([slowThenFast(true)])(call("lookup"))).toBe("found");
+    expect(attempts).toBe(2);
+
+    attempts = 0;
+    expect(JSON.parse(await createToolExecutor([slowThenFast(false)])(call("lookup"))).error).toMatch(/timed out/);
+    expect(attempts).toBe(1);
+  });
+});
+
+describe("tool retries", () => {
+  it("retries failures up to the configured count", async () => {
+    let attempts = 0;
+    const flaky = tool({
+      name: "flaky",
+      description: "Fails twice",
+      retries: { maxRetries: 2, baseDelayMs: 0 },
+      execute: async () => {
+        if (++attempts < 3) throw new Error("503");
+        return { ok: true };
+      },
+    });
+
+    expect(JSON.parse(await createToolExecutor([flaky])(call("flaky")))).toEqual({ ok: true });
+    expect(attempts).toBe(3);
+  });
+
+  it("reports the last error once retries run out", async () => {
+    const broken = tool({
+      name: "broken",
+      description: "Always fails",
+      retries: { maxRetries: 1, baseDelayMs: 0 },
+      execute: async () => { throw new Error("down"); },
+    });
+
+    expect(JSON.parse(await createToolExecutor([broken])(call("broken")))).toEqual({ error: 'Tool "broken" failed: down' });
+  });
+});
+
+describe("tool concurrency", () => {
+  it("limits running calls across executors", async () => {
+    let running = 0;
+    let peak = 0;
+    const fetchPage = tool({
+      name: "fetch",
+      description: "Fetch a page",
+      maxConcurrency: 2,
+      execute: async ({ page }: { page: number }) => {
+        peak = Math.max(peak, ++running);
+        await sleep(30 - page * 5);
+        running--;
+        return `page-${page}`;
+      },
+    });
+
+    const first = createToolExecutor([fetchPage]);
+    const second = createToolExecutor([fetchPage]);
+    const results = await Promise.all([1, 2, 3, 4, 5].map((page) =>
+      (page % 2 ? first : second)(call("fetch", { page }))));
+
+    expect(results).toEqual(["page-1", "page-2", "page-3", "page-4", "page-5"]);
+    expect(peak).toBe(2);
+  });
+});
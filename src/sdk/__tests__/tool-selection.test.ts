@@ -0,0 +1,144 @@
+/**
+ * Tests for tool selection — selectors over a ToolRegistry and the per-call
+ * tools, search_tools and call_tool offered by agents using one.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => {
+  const registries = new Map<number, Array<{ name: string; description: string; tags?: string[] }>>();
+  let next = 0;
+  const summary = ({ name, description, tags }: { name: string; description: string; tags?: string[] }) =>
+    ({ name, description, tags: tags ?? [] });
+  return {
+    createToolRegistry: vi.fn(() => {
+      registries.set(++next, []);
+      return next;
+    }),
+    toolRegistryAdd: vi.fn((h: number, json: string) => registries.get(h)!.push(JSON.parse(json))),
+    toolRegistryList: vi.fn((h: number) => registries.get(h)!),
+    toolRegistryByTag: vi.fn((h: number, tag: string) =>
+      registries.get(h)!.filter((e) => e.tags?.includes(tag)).map(summary)),
+    toolRegistrySearch: vi.fn(() => []),
+    destroyToolRegistry: vi.fn(),
+    create_provider: vi.fn(() => 10),
+    destroy_provider: vi.fn(),
+    agent_run_with_tool_executor: vi.fn(async () => ({ text: "ok", steps: 1, inputTokens: 1, outputTokens: 1 })),
+    agent_stream_with_tool_executor: vi.fn(async () => ({ text: "ok", steps: 1, inputTokens: 1, outputTokens: 1 })),
+  };
+});
+
+import { ToolRegistry } from "../tool-registry.js";
+import { keywordToolSelector, tagToolSelector, embeddingToolSelector } from "../tool-selection.js";
+import { tool } from "../tool.js";
+import { Agent } from "../agent.js";
+import type { ToolDef } from "../types.js";
+import { agent_run_with_tool_executor, agent_stream_with_tool_executor } from "gauss-napi";
+
+const refund = tool({
+  name: "refund_order",
+  description: "Refund a customer order",
+  parameters: { orderId: { type: "number" } },
+  execute: async ({ orderId }: { orderId: number }) => ({ refunded: orderId }),
+});
+const forecast = tool({ name: "weather_forecast", description: "Weather forecast for a city", execute: () => "sunny" });
+const invoice = tool({ name: "send_invoice", description: "Email an invoice for an order", execute: () => "sent" });
+
+function registry(): ToolRegistry {
+  return new ToolRegistry()
+    .addTool(refund, { tags: ["billing"] })
+    .addTool(forecast, { tags: ["weather"] })
+    .addTool(invoice, { tags: ["billing"] });
+}
+
+const names = (call: unknown[]) => (call[2] as ToolDef[]).map((t) => t.name);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("tool selectors", () => {
+  it("ranks tools by keyword overlap", async () => {
+    const selected = await keywordToolSelector()("Please refund my order", { registry: registry(), topK: 2 });
+
+    expect(selected).toEqual(["refund_order", "send_invoice"]);
+  });
+
+  it("selects tools by tag, with tags derived from the query", async () => {
+    const byQuery = tagToolSelector((query) => (query.includes("rain") ? ["weather"] : ["billing"]));
+
+    expect(await byQuery("Will it rain?", { registry: registry(), topK: 5 })).toEqual(["weather_forecast"]);
+    expect(await byQuery("My bill", { registry: registry(), topK: 1 })).toEqual(["refund_order"]);
+  });
+
+  it("ranks tools by embedding similarity and embeds each tool once", async () => {
+    const embed = vi.fn(async (texts: string[]) => texts.map((text) =>
+      [/weather|rain/i.test(text) ? 1 : 0, /order|refund/i.test(text) ? 1 : 0]));
+    const selector = embeddingToolSelector({ id: "test", embed });
+    const reg = registry();
+
+    expect(await selector("Is rain coming?", { registry: reg, topK: 1 })).toEqual(["weather_forecast"]);
+    expect(await selector("Refund please", { registry: reg, topK: 1 })).toEqual(["refund_order"]);
+    expect(embed).toHaveBeenCalledTimes(2);
+    expect(embed.mock.calls[1][0]).toEqual(["Refund please"]);
+  });
+});
+
+describe("Agent tool selection", () => {
+  const lookup = tool({ name: "lookup_customer", description: "Find a customer", execute: () => "Ada" });
+  const agent = (searchTool?: boolean) =>
+    new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" }, tools: [lookup] })
+      .withToolSelection({ registry: registry(), topK: 1, searchTool });
+
+  it("offers the agent's tools, the selected registry tools and the meta-tools", async () => {
+    await agent().run("Refund order 42");
+    await agent(false).run("What's the weather forecast?");
+
+    const [first, second] = vi.mocked(agent_run_with_tool_executor).mock.calls;
+    expect(names(first)).toEqual(["lookup_customer", "refund_order", "search_tools", "call_tool"]);
+    expect(names(second)).toEqual(["lookup_customer", "weather_forecast"]);
+  });
+
+  it("lets the model search for hidden tools and call them", async () => {
+    let results: unknown[] = [];
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (...args: unknown[]) => {
+      const executor = args[5] as (call: string) => Promise<string>;
+      results = await Promise.all([
+        executor(JSON.stringify({ tool: "search_tools", args: { query: "invoice" } })),
+        executor(JSON.stringify({ tool: "call_tool", args: { name: "refund_order", arguments: { orderId: 7 } } })),
+        executor(JSON.stringify({ tool: "call_tool", args: { name: "refund_order", arguments: { orderId: "x" } } })),
+        executor(JSON.stringify({ tool: "call_tool", args: { name: "drop_tables" } })),
+      ]).then((all) => all.map((r) => JSON.parse(r)));
+      return { text: "ok", steps: 2, inputTokens: 1, outputTokens: 1 };
+    });
+
+    await agent().run("What's the weather forecast?");
+
+    expect(results[0]).toEqual([{ name: "send_invoice", description: "Email an invoice for an order", parameters: undefined }]);
+    expect(results[1]).toEqual({ refunded: 7 });
+    expect((results[2] as { error: string }).error).toMatch(/Invalid arguments for tool "refund_order"/);
+    expect(results[3]).toEqual({ error: "Unknown tool: drop_tables. Use search_tools to find one." });
+  });
+
+  it("selects once per call, for every step of it", async () => {
+    const selector = vi.fn(() => ["refund_order"]);
+    vi.mocked(agent_run_with_tool_executor).mockImplementationOnce(async (...args: unknown[]) => {
+      const executor = args[5] as (call: string) => Promise<string>;
+      await executor(JSON.stringify({ tool: "lookup_customer", args: {} }));
+      await executor(JSON.stringify({ tool: "refund_order", args: { orderId: 7 } }));
+      return { text: "ok", steps: 3, inputTokens: 1, outputTokens: 1 };
+    });
+
+    await new Agent({ provider: "openai", model: "gpt-4o", providerOptions: { apiKey: "k" }, tools: [lookup] })
+      .withToolSelection({ registry: registry(), selector, topK: 1 })
+      .run("Refund the order of Ada");
+
+    expect(selector).toHaveBeenCalledTimes(1);
+    expect(selector).toHaveBeenCalledWith("Refund the order of Ada", expect.objectContaining({ topK: 1 }));
+  });
+
+  it("selects tools for streamIter", async () => {
+    for await (const _event of agent(false).streamIter("Send the invoice")) { /* drain */ }
+
+    expect(names(vi.mocked(agent_stream_with_tool_executor).mock.calls[0])).toEqual(["lookup_customer", "send_invoice"]);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for tool argument validation and coercion — validateToolArguments and
+ * the checks createToolExecutor runs before every tool call.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("gauss-napi", () => ({
+  create_tool_validator: vi.fn(() => 200),
+  tool_validator_validate: vi.fn(),
+  destroy_tool_validator: vi.fn(),
+  create_provider: vi.fn(() => 10),
+  destroy_provider: vi.fn(),
+  agent_run_with_tool_executor: vi.fn(async (...args: unknown[]) => {
+    const executor = args[5] as (call: string) => Promise<string>;
+    const result = await executor(JSON.stringify({ tool: "order", id: "c1", args: { sku: "A1", qty: "2" } }));
+    return { text: result, steps: 2, inputTokens: 1, outputTokens: 1 };
+  }),
+}));
+
+import { validateToolArguments } from "../tool-validator.js";
+import { tool, createToolExecutor } from "../tool.js";
+import { Agent } from "../agent.js";
+
+const ORDER_SCHEMA = {
+  type: "object",
+  properties: {
+    sku: { type: "string", pattern: "^[A-Z]\\d+$" },
+    qty: { type: "integer", minimum: 1, default: 1 },
+    express: { type: "boolean" },
+    tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+    address: {
+      type: "object",
+      properties: { city: { type: "string" }, country: { type: "string", enum: ["DE", "IT"] } },
+      required: ["city"],
+    },
+  },
+  required: ["sku"],
+  additionalProperties: false,
+};
+
+let executed: Array<Record<string, unknown>>;
+
+const order = tool({
+  name: "order",
+  description: "Place an order",
+  parameters: ORDER_SCHEMA,
+  execute: async (params: Record<string, unknown>) => {
+    executed.push(params);
+    return { ok: true };
+  },
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  executed = [];
+});
+
+describe("validateToolArguments", () => {
+  it("accepts valid arguments unchanged", () => {
+    const args = { sku: "A1", qty: 2, tags: ["gift"], address: { city: "Rome", country: "IT" } };
+    expect(validateToolArguments(args, ORDER_SCHEMA)).toEqual({ ok: true, value: args });
+  });
+
+  it("reports every issue with its path", () => {
+    const check = validateToolArguments(
+      { qty: 0, express: "yes", tags: ["a", 2, "c"], address: { country: "FR" }, coupon: "X" },
+      ORDER_SCHEMA
+    );
+
+    expect(check).toEqual({
+      ok: false,
+      issues: [
+        { path: "$.qty", message: "must be >= 1" },
+        { path: "$.express", message: "expected boolean, got string" },
+        { path: "$.tags", message: "must have at most 2 items" },
+        { path: "$.tags[1]", message: "expected string, got number" },
+        { path: "$.address.country", message: 'must be one of "DE", "IT"' },
+        { path: "$.address.city", message: "is required" },
+        { path: "$.sku", message: "is required" },
+        { path: "$.coupon", message: "is not an allowed property" },
+      ],
+    });
+  });
+
+  it("applies the configured coercion strategies", () => {
+    const args = { sku: "A1", qty: "3", express: "true", tags: '["gift"]', address: null };
+
+    expect(validateToolArguments(args, ORDER_SCHEMA).ok).toBe(false);
+    expect(validateToolArguments(args, ORDER_SCHEMA, ["type_cast", "json_parse", "strip_null"])).toEqual({
+      ok: true,
+      value: { sku: "A1", qty: 3, express: true, tags: ["gift"] },
+    });
+    expect(validateToolArguments({ sku: "A1", qty: null }, ORDER_SCHEMA, ["null_to_default"]))
+      .toEqual({ ok: true, value: { sku: "A1", qty: 1 } });
+    expect(validateToolArguments({ sku: "A1", qty: "2.5" }, ORDER_SCHEMA, ["type_cast"]).ok).toBe(false);
+  });
+
+  it("treats a properties map as an object schema without required keys", () => {
+    const parameters = { city: { type: "string" } };
+
+    expect(validateToolArguments({}, parameters).ok).toBe(true);
+    expect(validateToolArguments({ city: 7 }, parameters)).toMatchObject({ ok: false, issues: [{ path: "$.city" }] });
+    expect(validateToolArguments("Rome", parameters)).toMatchObject({ ok: false, issues: [{ path: "$" }] });
+  });
+});
+
+describe("createToolExecutor validation", () => {
+  const call = (args: unknown) => JSON.stringify({ tool: "order", id: "c1", args });
+
+  it("answers invalid calls with a model-readable error instead of running the tool", async () => {
+    const executor = createToolExecutor([order]);
+
+    const result = JSON.parse(await executor(call({ qty: 2 })));
+
+    expect(result.error).toBe('Invalid arguments for tool "order": $.sku is required. Call it again with corrected arguments.');
+    expect(result.issues).toEqual([{ path: "$.sku", message: "is required" }]);
+    expect(executed).toEqual([]);
+  });
+
+  it("passes coerced arguments to execute", async () => {
+    const executor = createToolExecutor([order], undefined, { validation: { coerce: ["type_cast"] } });
+
+    await executor(call({ sku: "A1", qty: "2" }));
+
+    expect(executed).toEqual([{ sku: "A1", qty: 2 }]);
+  });
+
+  it("skips validation when disabled", async () => {
+    const executor = createToolExecutor([order], undefined, { validation: false });
+
+    await executor(call({ qty: "lots" }));
+
+    expect(executed).toEqual([{ qty: "lots" }]);
+  });
+
+  it("uses the agent's tool validation options", async () => {
+    const agent = new Agent({
+      provider: "openai",
+      model: "gpt-4o",
+      providerOptions: { apiKey: "k" },
+      tools: [order],
+      toolValidation: { coerce: ["type_cast"] },
+    });
+
+    const result = await agent.run("Order two A1");
+
+    expect(result.text).toBe('{"ok":true}');
+    expect(executed).toEqual([{ sku: "A1", qty: 2 }]);
+  });
+});
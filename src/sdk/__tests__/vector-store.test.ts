@@ -0,0 +1,262 @@
+/**
+ * Tests for VectorStore deletion, document management, stats, metadata filters,
+ * persistence and BM25 / hybrid search.
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mkdtemp, readFile, appendFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+let nextHandle = 1;
+
+vi.mock("gauss-napi", () => ({
+  create_vector_store: vi.fn(() => nextHandle++),
+  vector_store_upsert: vi.fn(async () => undefined),
+  vector_store_search: vi.fn(async () => []),
+  destroy_vector_store: vi.fn(),
+  cosine_similarity: vi.fn(() => 1),
+}));
+
+import { VectorStore } from "../vector-store.js";
+import { tokenize } from "../bm25.js";
+import { ValidationError } from "../errors.js";
+import type { VectorChunk, MetadataFilter } from "../types.js";
+import { create_vector_store, vector_store_upsert, vector_store_search, destroy_vector_store } from "gauss-napi";
+
+const chunks: VectorChunk[] = [
+  { id: "a1", documentId: "a", content: "alpha one", index: 0, embedding: [1, 0], metadata: { tenant: "acme", year: 2023 } },
+  { id: "a2", documentId: "a", content: "alpha two", index: 1, embedding: [0.9, 0.1], metadata: { tenant: "acme", year: 2024 } },
+  { id: "b1", documentId: "b", content: "beta", index: 0, embedding: [0, 1], metadata: { tenant: "globex", year: 2024, source: { kind: "web" } } },
+];
+
+beforeEach(() => vi.clearAllMocks());
+
+async function seeded(): Promise<VectorStore> {
+  const store = new VectorStore();
+  await store.upsert(chunks);
+  return store;
+}
+
+describe("VectorStore document management", () => {
+  it("reports stats and lists documents", async () => {
+    const store = await seeded();
+    expect(store.stats()).toEqual({ chunks: 3, documents: 2, dimensions: 2 });
+    expect(store.listDocuments()).toEqual([{ documentId: "a", chunks: 2 }, { documentId: "b", chunks: 1 }]);
+    store.destroy();
+  });
+
+  it("deletes chunks by rebuilding the native store with what remains", async () => {
+    const store = await seeded();
+    const oldHandle = store.handle;
+
+    expect(await store.delete(["a1", "missing"])).toBe(1);
+
+    expect(create_vector_store).toHaveBeenCalledTimes(2);
+    expect(destroy_vector_store).toHaveBeenCalledWith(oldHandle);
+    expect(store.handle).not.toBe(oldHandle);
+    const rebuilt = JSON.parse(vi.mocked(vector_store_upsert).mock.calls[1][1]);
+    expect(rebuilt.map((c: { id: string }) => c.id)).toEqual(["a2", "b1"]);
+    expect(rebuilt[0].document_id).toBe("a");
+
+    await store.search([1, 0], 3);
+    expect(vi.mocked(vector_store_search).mock.calls[0][0]).toBe(store.handle);
+    store.destroy();
+  });
+
+  it("deletes a whole document so it can be re-indexed", async () => {
+    const store = await seeded();
+    expect(await store.deleteDocument("a")).toBe(2);
+    expect(store.stats()).toMatchObject({ chunks: 1, documents: 1 });
+    expect(await store.deleteDocument("a")).toBe(0);
+    expect(create_vector_store).toHaveBeenCalledTimes(2);
+    store.destroy();
+  });
+
+  it("waits for pending writes before searching the native store", async () => {
+    const store = await seeded();
+    const oldHandle = store.handle;
+
+    const deleting = store.delete(["a1"]);
+    await store.search([1, 0], 3);
+
+    expect(vi.mocked(vector_store_search).mock.calls[0][0]).not.toBe(oldHandle);
+    expect(vi.mocked(vector_store_search).mock.calls[0][0]).toBe(store.handle);
+    await deleting;
+    store.destroy();
+  });
+});
+
+describe("VectorStore metadata filters", () => {
+  const ids = async (store: VectorStore, filter: MetadataFilter) =>
+    (await store.search([1, 0], 10, { filter })).map((r) => r.id);
+
+  it("filters with eq, in, range, and/or and nested fields", async () => {
+    const store = await seeded();
+    expect(await ids(store, { op: "eq", field: "tenant", value: "acme" })).toEqual(["a1", "a2"]);
+    expect(await ids(store, { op: "in", field: "tenant", values: ["globex"] })).toEqual(["b1"]);
+    expect(await ids(store, { op: "range", field: "year", gte: 2024 })).toEqual(["a2", "b1"]);
+    expect(await ids(store, { op: "range", field: "year", gte: "2024" })).toEqual([]);
+    expect(await ids(store, { op: "eq", field: "source.kind", value: "web" })).toEqual(["b1"]);
+    expect(await ids(store, {
+      op: "or",
+      filters: [
+        { op: "and", filters: [{ op: "eq", field: "tenant", value: "acme" }, { op: "range", field: "year", lt: 2024 }] },
+        { op: "eq", field: "tenant", value: "globex" },
+      ],
+    })).toEqual(["a1", "b1"]);
+    expect(vector_store_search).not.toHaveBeenCalled();
+    store.destroy();
+  });
+
+  it("ranks filtered results by cosine similarity and applies topK", async () => {
+    const store = await seeded();
+    const results = await store.search([0, 1], 1, { filter: { op: "range", field: "year", gte: 2024 } });
+    expect(results).toEqual([{ id: "b1", text: "beta", score: 1, metadata: chunks[2].metadata }]);
+    store.destroy();
+  });
+
+  it("rejects malformed filters", async () => {
+    const store = await seeded();
+    await expect(store.search([1, 0], 1, { filter: { op: "near" } as never })).rejects.toBeInstanceOf(ValidationError);
+    store.destroy();
+  });
+});
+
+describe("VectorStore persistence", () => {
+  it("validates dimensions on upsert without storing anything", async () => {
+    const store = new VectorStore({ dimensions: 2 });
+    await expect(store.upsert([chunks[0], { ...chunks[1], embedding: [1, 2, 3] }]))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect(store.stats().chunks).toBe(0);
+    expect(vector_store_upsert).not.toHaveBeenCalled();
+    store.destroy();
+
+    const inferred = new VectorStore();
+    await inferred.upsert([chunks[0]]);
+    expect(inferred.dimensions).toBe(2);
+    await expect(inferred.upsert([{ ...chunks[1], embedding: [1] }])).rejects.toThrow("expected 2");
+    inferred.destroy();
+  });
+
+  it("saves a versioned snapshot and loads it back", async () => {
+    const path = join(await mkdtemp(join(tmpdir(), "gauss-vs-")), "index.jsonl");
+    const store = await seeded();
+    await store.save(path);
+    store.destroy();
+
+    const lines = (await readFile(path, "utf8")).trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines[0]).toEqual({ format: "gauss-vector-store", version: 1, dimensions: 2 });
+    expect(lines).toHaveLength(4);
+
+    const loaded = await VectorStore.load(path);
+    expect(loaded.stats()).toEqual({ chunks: 3, documents: 2, dimensions: 2 });
+    expect(JSON.parse(vi.mocked(vector_store_upsert).mock.calls.at(-1)![1])).toHaveLength(3);
+    loaded.destroy();
+  });
+
+  it("appends changes when persisting and replays them on load", async () => {
+    const path = join(await mkdtemp(join(tmpdir(), "gauss-vs-")), "index.jsonl");
+    const store = new VectorStore({ persistPath: path });
+    await store.upsert(chunks);
+    await store.deleteDocument("a");
+    await store.upsert([{ ...chunks[0], id: "a3" }]);
+    store.destroy();
+    // A crash mid-append leaves a truncated last line behind
+    await appendFile(path, '{"op":"upsert","chu');
+
+    const loaded = await VectorStore.load(path, { persist: true });
+    expect(loaded.listDocuments()).toEqual([{ documentId: "b", chunks: 1 }, { documentId: "a", chunks: 1 }]);
+    await loaded.delete(["b1"]);
+    loaded.destroy();
+
+    const again = await VectorStore.load(path);
+    expect(again.stats().chunks).toBe(1);
+    again.destroy();
+  });
+
+  it("rejects unsupported files and mismatched dimensions", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "gauss-vs-"));
+    const future = join(dir, "future.jsonl");
+    await writeFile(future, '{"format":"gauss-vector-store","version":2,"dimensions":2}\n');
+    await expect(VectorStore.load(future)).rejects.toThrow("unsupported snapshot version 2");
+
+    const other = join(dir, "other.jsonl");
+    await writeFile(other, '{"hello":"world"}\n');
+    await expect(VectorStore.load(other)).rejects.toBeInstanceOf(ValidationError);
+
+    const saved = join(dir, "saved.jsonl");
+    const store = await seeded();
+    await store.save(saved);
+    store.destroy();
+    await expect(VectorStore.load(saved, { dimensions: 3 })).rejects.toThrow("expected 3");
+  });
+});
+
+describe("VectorStore keyword and hybrid search", () => {
+  const docs: VectorChunk[] = [
+    { id: "e1", documentId: "errors", content: "Checkout fails with E_CONN_RESET when the gateway times out", index: 0, embedding: [0.2, 0.8] },
+    { id: "e2", documentId: "errors", content: "Connection resets are retried three times", index: 1, embedding: [0.9, 0.1] },
+    { id: "p1", documentId: "catalog", content: "SKU AB-1234 is the blue kettle", index: 0, embedding: [0.5, 0.5] },
+  ];
+
+  it("tokenizes identifiers whole and by parts", () => {
+    expect(tokenize("E_CONN_RESET AB-1234 getUserById")).toEqual([
+      "e_conn_reset", "e", "conn", "reset",
+      "ab-1234", "ab", "1234",
+      "getuserbyid", "get", "user", "by", "id",
+    ]);
+  });
+
+  it("ranks exact codes with BM25 and keeps the index in sync with deletes", async () => {
+    const store = new VectorStore();
+    await store.upsert(docs);
+
+    const [hit] = await store.lexicalSearch("ab-1234", 3);
+    expect(hit).toMatchObject({ id: "p1", text: "SKU AB-1234 is the blue kettle" });
+    expect(hit.lexicalScore).toBe(hit.score);
+    expect((await store.lexicalSearch("E_CONN_RESET", 3)).map((r) => r.id)).toEqual(["e1"]);
+
+    await store.deleteDocument("catalog");
+    expect(await store.lexicalSearch("ab-1234", 3)).toEqual([]);
+    store.destroy();
+  });
+
+  it("fuses rankings with reciprocal-rank fusion and reports both scores", async () => {
+    const store = new VectorStore();
+    await store.upsert(docs);
+    vi.mocked(vector_store_search).mockResolvedValueOnce([
+      { id: "e2", text: docs[1].content, score: 0.9 },
+      { id: "e1", text: docs[0].content, score: 0.7 },
+    ]);
+
+    const results = await store.hybridSearch("E_CONN_RESET", [1, 0], { topK: 2 });
+
+    expect(results.map((r) => r.id)).toEqual(["e1", "e2"]);
+    expect(results[0].score).toBeCloseTo(1 / 61 + 1 / 62);
+    expect(results[0]).toMatchObject({ semanticScore: 0.7 });
+    expect(results[0].lexicalScore).toBeGreaterThan(0);
+    expect(results[1]).toMatchObject({ score: 1 / 61, semanticScore: 0.9 });
+    expect(results[1].lexicalScore).toBeUndefined();
+    expect(vi.mocked(vector_store_search).mock.calls[0][2]).toBe(8);
+    store.destroy();
+  });
+
+  it("supports weighted fusion with alpha and metadata filters", async () => {
+    const store = new VectorStore();
+    await store.upsert(docs.map((d) => ({ ...d, metadata: { doc: d.documentId } })));
+
+    const semanticOnly = await store.hybridSearch("kettle", [1, 0], {
+      alpha: 1,
+      filter: { op: "eq", field: "doc", value: "errors" },
+    });
+    expect(semanticOnly.map((r) => r.id)).toEqual(["e2", "e1"]);
+    expect(semanticOnly[0].score).toBe(1);
+
+    const lexicalOnly = await store.hybridSearch("kettle", [1, 0], { alpha: 0 });
+    expect(lexicalOnly[0].id).toBe("p1");
+
+    await expect(store.hybridSearch("x", [1, 0], { alpha: 0.5, rrfK: 10 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(store.hybridSearch("x", [1, 0], { alpha: 2 })).rejects.toBeInstanceOf(ValidationError);
+    store.destroy();
+  });
+});
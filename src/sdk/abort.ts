@@ -0,0 +1,132 @@
+/**
+ * Cancellation support — ties an `AbortSignal` to a single agent run.
+ *
+ * The native agent loop cannot be interrupted mid-request, so a run is
+ * cancelled by rejecting the caller immediately, refusing to start further
+ * provider requests or tool calls, and failing any tool call the loop makes
+ * afterwards so it stops at the next step.
+ *
+ * @internal
+ */
+import type { Message, PartialUsage, ToolExecutor } from "./types.js";
+import type { StreamEvent } from "./stream-iter.js";
+import { AbortError } from "./errors.js";
+import { countTokens, countMessageTokens } from "./tokens.js";
+
+function readUsage(event: StreamEvent): { input?: number; output?: number } {
+  const src = (event.usage && typeof event.usage === "object" ? event.usage : event) as Record<string, unknown>;
+  const num = (...keys: string[]) => {
+    for (const k of keys) if (typeof src[k] === "number") return src[k] as number;
+    return undefined;
+  };
+  return {
+    input: num("inputTokens", "input_tokens"),
+    output: num("outputTokens", "output_tokens"),
+  };
+}
+
+/**
+ * Tracks a single run against an optional `AbortSignal`.
+ *
+ * Without a signal every method is a cheap pass-through.
+ *
+ * @internal
+ */
+export class AbortScope {
+  private sent: Message[] | null = null;
+  private streamed = "";
+  private reportedInput = 0;
+  private reportedOutput = 0;
+  private reported = false;
+  private toolCalls = 0;
+
+  constructor(readonly signal?: AbortSignal) {}
+
+  get aborted(): boolean {
+    return this.signal?.aborted ?? false;
+  }
+
+  /** Record that a provider request is about to be sent with these messages. */
+  begin(messages: Message[]): void {
+    this.throwIfAborted();
+    this.sent = messages;
+  }
+
+  /** Accumulate streamed text and any provider-reported usage. */
+  observe(event: StreamEvent): void {
+    if (event.type === "text_delta") {
+      const delta = typeof event.text === "string" ? event.text : event.delta;
+      if (typeof delta === "string") this.streamed += delta;
+    }
+    const { input, output } = readUsage(event);
+    if (input !== undefined || output !== undefined) {
+      this.reported = true;
+      this.reportedInput += input ?? 0;
+      this.reportedOutput += output ?? 0;
+    }
+  }
+
+  /** Best-effort usage consumed so far. */
+  usage(): PartialUsage {
+    if (this.reported) {
+      return {
+        inputTokens: this.reportedInput,
+        outputTokens: this.reportedOutput,
+        toolCalls: this.toolCalls,
+        estimated: false,
+      };
+    }
+    return {
+      inputTokens: this.sent ? countMessageTokens(this.sent) : 0,
+      outputTokens: this.streamed ? countTokens(this.streamed) : 0,
+      toolCalls: this.toolCalls,
+      estimated: true,
+    };
+  }
+
+  /** Build the {@link AbortError} for this run. */
+  error(): AbortError {
+    return new AbortError("Agent run aborted", this.usage(), this.signal?.reason);
+  }
+
+  throwIfAborted(): void {
+    if (this.aborted) throw this.error();
+  }
+
+  /** Reject as soon as the signal fires, without waiting for `promise` to settle. */
+  race<T>(promise: Promise<T>): Promise<T> {
+    const signal = this.signal;
+    if (!signal) return promise;
+    if (signal.aborted) {
+      promise.catch(() => {});
+      return Promise.reject(this.error());
+    }
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(this.error());
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          if (signal.aborted) reject(this.error());
+          else resolve(value);
+        },
+        (err: unknown) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(signal.aborted ? this.error() : err);
+        },
+      );
+    });
+  }
+
+  /** Fail tool calls once aborted so the native loop stops at its next step. */
+  wrapExecutor(executor: ToolExecutor): ToolExecutor {
+    if (!this.signal) return executor;
+    return async (callJson) => {
+      this.throwIfAborted();
+      const result = await executor(callJson);
+      this.throwIfAborted();
+      this.toolCalls++;
+      return result;
+    };
+  }
+}
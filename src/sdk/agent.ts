@@ -17,6 +17,7 @@
  *     maxSteps: 10,
  *   });
  */
+import { randomUUID } from "node:crypto";
 import {
   create_provider,
   destroy_provider,
@@ -33,6 +34,7 @@ import type {
   ProviderType,
   ToolDef,
   Message,
+  ContentPart,
   AgentOptions,
   AgentResult,
   CostEstimate,
@@ -41,20 +43,53 @@ import type {
   Handle,
   Disposable,
   GroundingMetadata,
+  GuardrailAction,
+  GuardrailCheckResult,
+  GuardrailViolation,
+  MiddlewareEntry,
+  MiddlewareReport,
+  ResilienceReport,
+  AgentRetriever,
+  RetrievalContext,
+  ApprovalRequest,
+  CheckpointReport,
+  MemoryEntry,
+  MemoryEntryType,
+  MemoryTier,
+  RecallOptions,
 } from "./types.js";
 
-import { DisposedError } from "./errors.js";
+import { DisposedError, GuardrailError, ValidationError } from "./errors.js";
 
 import { resolveApiKey, detectProvider } from "./types.js";
 import { OPENAI_DEFAULT } from "./models.js";
 import type { ResolveRoutingTargetOptions, RoutingPolicy } from "./routing-policy.js";
 import { resolveRoutingTarget } from "./routing-policy.js";
-import { AgentStream } from "./stream-iter.js";
-import { tool as toolFn, isTypedTool, createToolExecutor, type TypedToolDef } from "./tool.js";
+import { AgentStream, createGuardrailEventFilter, type StreamEvent } from "./stream-iter.js";
+import { AbortScope } from "./abort.js";
+import { getContextWindowSize } from "./tokens.js";
+import {
+  contentToText,
+  mapTextContent,
+  toNativeMessages,
+  assertContentCapabilities,
+} from "./content.js";
+import {
+  tool as toolFn,
+  isTypedTool,
+  createToolExecutor,
+  type ToolApprovalOptions,
+  type ToolValidationOptions,
+  type TypedToolDef,
+} from "./tool.js";
 import type { MiddlewareChain } from "./middleware.js";
-import type { GuardrailChain } from "./guardrail.js";
-import type { Memory } from "./memory.js";
+import { maxGuardrailAction, type GuardrailChain } from "./guardrail.js";
+import type { ConsolidationOptions, Memory } from "./memory.js";
+import { RunCheckpointer, type CheckpointStore } from "./checkpoint.js";
+import type { ApprovalManager } from "./approval.js";
+import { selectTools, toolSearchTools, type ToolSelectionOptions } from "./tool-selection.js";
 import type { McpClient } from "./mcp-client.js";
+import { ProviderFailover, type ResilienceListener, type ResilienceOptions } from "./resilience.js";
 
 /**
  * Transform a raw NAPI result into the public {@link AgentResult} shape.
@@ -111,9 +146,162 @@ function stripToolDef(t: ToolDef): ToolDef {
   return { name: t.name, description: t.description, parameters: t.parameters };
 }
 
-/** Extract the content field from a memory entry or message. */
+/** Extract the textual content from a memory entry or message. */
 function extractContent(item: { content: string | unknown }): string {
-  return String(item.content);
+  return Array.isArray(item.content)
+    ? contentToText(item.content as ContentPart[])
+    : String(item.content);
+}
+
+/** A tool call made during one agent call, kept for memory. */
+interface ToolCallRecord {
+  name: string;
+  id?: string;
+  arguments: unknown;
+  result: string;
+}
+
+/** Characters of a tool result kept in a memory entry's `content`; the full result stays in metadata. */
+const TOOL_RESULT_PREVIEW_CHARS = 2000;
+
+/** Name, ID and arguments of a JSON-encoded tool call; unparsable calls have no name. */
+function parseToolCall(callJson: string): Omit<ToolCallRecord, "result"> {
+  let call: { tool?: string; name?: string; id?: string; args?: unknown; arguments?: unknown } = {};
+  try {
+    call = JSON.parse(callJson) ?? {};
+  } catch {
+    // Recorded without a name
+  }
+  return { name: call.tool ?? call.name ?? "", id: call.id, arguments: call.args ?? call.arguments ?? {} };
+}
+
+/** Wrap an executor so every call and its result are appended to `calls`. */
+function recordToolCalls(executor: ToolExecutor, calls: ToolCallRecord[]): ToolExecutor {
+  return async (callJson) => {
+    const result = await executor(callJson);
+    calls.push({ ...parseToolCall(callJson), result });
+    return result;
+  };
+}
+
+/** State of an agent run, as saved in its checkpoints. */
+interface AgentCheckpointData {
+  kind: "agent";
+  agent: string;
+  input: string | Message[];
+  /**
+   * The run's messages: those sent to the model (after memory and retrieval
+   * context), then an assistant `tool_call` message and a `tool` result message
+   * for each completed tool call.
+   */
+  messages: Message[];
+  /** How many of `messages` were sent to the model at the start. */
+  contextMessages: number;
+  status: "running" | "completed";
+  /** The completed tool calls, in the order they finished. */
+  toolCalls: ToolCallRecord[];
+  /** Calls still running when the checkpoint was saved. */
+  pendingToolCalls: Array<Omit<ToolCallRecord, "result">>;
+  result?: AgentResult;
+  step: number;
+}
+
+/** Checkpoints one agent run at its start, around each tool call and at its end. */
+class AgentRunTracker {
+  private readonly toolCalls: ToolCallRecord[];
+  private pending: Array<Omit<ToolCallRecord, "result">> = [];
+  private messages: Message[];
+  private contextMessages: number;
+
+  constructor(
+    private readonly checkpointer: RunCheckpointer<Omit<AgentCheckpointData, "step">>,
+    private readonly agent: string,
+    private readonly input: string | Message[],
+    resumed?: AgentCheckpointData,
+  ) {
+    this.toolCalls = [...(resumed?.toolCalls ?? [])];
+    this.messages = [...(resumed?.messages ?? [])];
+    this.contextMessages = resumed?.contextMessages ?? 0;
+  }
+
+  async start(messages: Message[]): Promise<void> {
+    this.messages = messages;
+    this.contextMessages = messages.length;
+    await this.save("running");
+  }
+
+  /** Wrap an executor so each tool call is checkpointed before and after it runs. */
+  wrap(executor: ToolExecutor): ToolExecutor {
+    return async (callJson) => {
+      const call = parseToolCall(callJson);
+      this.pending = [...this.pending, call];
+      await this.save("running");
+      const result = await executor(callJson);
+      this.completeCall(call, result);
+      await this.save("running");
+      return result;
+    };
+  }
+
+  async complete(result: AgentResult): Promise<CheckpointReport> {
+    const checkpointId = await this.save("completed", result);
+    return { runId: this.checkpointer.runId, checkpointId };
+  }
+
+  private completeCall(call: Omit<ToolCallRecord, "result">, result: string): void {
+    const id = call.id ?? `call_${this.toolCalls.length + 1}`;
+    this.messages = [
+      ...this.messages,
+      {
+        role: "assistant",
+        content: [{ type: "tool_call", id, name: call.name, arguments: call.arguments as Record<string, unknown> }],
+      },
+      { role: "tool", content: [{ type: "tool_result", toolCallId: id, content: result }] },
+    ];
+    this.toolCalls.push({ ...call, result });
+    this.pending = this.pending.filter((running) => running !== call);
+  }
+
+  private save(status: AgentCheckpointData["status"], result?: AgentResult): Promise<string> {
+    const data: Omit<AgentCheckpointData, "step"> = {
+      kind: "agent",
+      agent: this.agent,
+      input: this.input,
+      messages: this.messages,
+      contextMessages: this.contextMessages,
+      status,
+      toolCalls: [...this.toolCalls],
+      pendingToolCalls: [...this.pending],
+      result,
+    };
+    return this.checkpointer.save(data);
+  }
+}
+
+/**
+ * Messages that continue a checkpointed run. Native messages carry text only, so
+ * the completed tool calls are passed as a system note listing each call and result.
+ */
+function resumedMessages(data: AgentCheckpointData): Message[] {
+  const context = data.messages.slice(0, data.contextMessages);
+  if (data.toolCalls.length === 0) return context;
+  const calls = data.toolCalls.map((call) => `- ${call.name}(${JSON.stringify(call.arguments)}) → ${call.result}`);
+  return [...context, {
+    role: "system",
+    content: "This run was interrupted and is being resumed. These tool calls already completed; " +
+      `use their results instead of calling them again:\n${calls.join("\n")}`,
+  }];
+}
+
+/** The stream event announcing an approval request. */
+function approvalEvent(request: ApprovalRequest): StreamEvent {
+  return {
+    type: "approval_required",
+    requestId: request.requestId,
+    toolName: request.toolName,
+    toolCallId: request.toolCallId,
+    args: request.args,
+  };
 }
 
 /** A single span within an agent trace. */
@@ -133,6 +321,48 @@ export interface AgentTrace {
 
 // ─── Config ────────────────────────────────────────────────────────
 
+/** Per-call options for `run`, `runWithTools`, `stream`, `streamIter` and `streamText`. */
+export interface AgentCallOptions {
+  /** Cancels the call (see {@link Agent.run}). */
+  signal?: AbortSignal;
+  /**
+   * Whether the attached memory is used for this call (default: `true`). Pass
+   * `false` to neither recall nor store, or `{ store: false }` for a call that
+   * reads history but leaves no trace.
+   */
+  memory?: boolean | { recall?: boolean; store?: boolean };
+  /**
+   * Session ID for this call's checkpoints when a checkpoint store is attached
+   * (default: a random UUID). Choose it up front to find the run after a crash.
+   */
+  runId?: string;
+}
+
+/** How an `Agent` recalls and consolidates memory (see {@link Agent.withMemory}). */
+export interface AgentMemoryOptions {
+  /**
+   * Share of the model's context window the recalled entries may fill
+   * (default: 0.25).
+   */
+  contextFraction?: number;
+  /** At most this many entries. */
+  limit?: number;
+  /** Only entries of these types (default: all). */
+  entryTypes?: MemoryEntryType[];
+  /** Only entries in these tiers (default: all but `"archive"`). */
+  tiers?: MemoryTier[];
+  /**
+   * Consolidate the session after each run once its conversation exceeds
+   * `thresholdTokens` (default: the recall budget). See {@link Memory.consolidate}.
+   */
+  consolidation?: ConsolidationOptions;
+  /**
+   * Called when consolidating after a run fails. The run still resolves with its
+   * answer and the turns stay unconsolidated until a later run succeeds.
+   */
+  onConsolidationError?: (error: Error) => void;
+}
+
 /**
  * Configuration object for creating an {@link Agent} instance.
  *
@@ -185,9 +415,33 @@ export interface AgentConfig {
   /** Session ID for memory scoping (default: auto-generated). */
   sessionId?: string;
 
+  /** How memory is recalled before each run (see {@link Agent.withMemory}). */
+  memoryOptions?: AgentMemoryOptions;
+
+  /** Where `run` saves checkpoints (see {@link Agent.withCheckpoints}). */
+  checkpoints?: CheckpointStore;
+
+  /** Decides calls to tools with `requiresApproval` (see {@link Agent.withApprovals}). */
+  approvals?: ApprovalManager;
+
+  /**
+   * How typed tool arguments are checked against their `parameters` before
+   * `execute`; `false` passes them through unchecked (default: checked, no coercion).
+   */
+  toolValidation?: ToolValidationOptions | false;
+
+  /** Offer only the registry tools relevant to each request (see {@link Agent.withToolSelection}). */
+  toolSelection?: ToolSelectionOptions;
+
+  /** Retriever whose context is injected into every `run` (see {@link Agent.withRetriever}). */
+  retriever?: AgentRetriever;
+
   /** MCP clients to consume tools from external MCP servers. */
   mcpClients?: McpClient[];
 
+  /** Provider fallbacks and circuit breaking (see {@link Agent.withResilience}). */
+  resilience?: ResilienceOptions;
+
   /** Sampling temperature (0–2). Higher values produce more creative output. */
   temperature?: number;
 
@@ -274,11 +528,18 @@ export class Agent implements Disposable {
   private _guardrails: GuardrailChain | null = null;
   private _memory: Memory | null = null;
   private _sessionId: string = "";
+  private _memoryOptions: AgentMemoryOptions = {};
+  private _checkpoints: CheckpointStore | null = null;
+  private _approvals: ApprovalManager | null = null;
+  private _toolValidation: ToolValidationOptions | false = {};
+  private _toolSelection: ToolSelectionOptions | null = null;
+  private _retriever: AgentRetriever | null = null;
   private _mcpClients: McpClient[] = [];
   private _mcpToolsLoaded = false;
   private _cachedToolDefs: ToolDef[] | null = null;
   private _cachedToolExecutor: ToolExecutor | null = null;
   private _toolsDirty = true;
+  private _resilience: ProviderFailover | null = null;
 
   // ─── Cost & Trace Tracking (M90) ─────────────────────────────────
   private _lastRunCost: CostEstimate | null = null;
@@ -329,7 +590,14 @@ export class Agent implements Disposable {
     if (config.guardrails) this._guardrails = config.guardrails;
     if (config.memory) this._memory = config.memory;
     if (config.sessionId) this._sessionId = config.sessionId;
+    if (config.memoryOptions) this.setMemoryOptions(config.memoryOptions);
+    if (config.checkpoints) this._checkpoints = config.checkpoints;
+    if (config.approvals) this._approvals = config.approvals;
+    if (config.toolValidation !== undefined) this._toolValidation = config.toolValidation;
+    if (config.toolSelection) this._toolSelection = config.toolSelection;
+    if (config.retriever) this._retriever = config.retriever;
     if (config.mcpClients) this._mcpClients = [...config.mcpClients];
+    if (config.resilience) this._resilience = new ProviderFailover(this._name, config.resilience);
 
     const ceOpt = config.codeExecution;
     const codeExecution = ceOpt === true
@@ -400,10 +668,13 @@ export class Agent implements Disposable {
 
   /**
    * @description Native provider handle. Used internally by Network, Graph, and other subsystems.
+   * With {@link Agent.withResilience}, this is a native resilient provider over the same chain.
    * @since 1.0.0
    * @internal
    */
-  get handle(): Handle { return this.providerHandle; }
+  get handle(): Handle {
+    return this._resilience ? this._resilience.resolveNativeHandle(this.providerHandle) : this.providerHandle;
+  }
 
   /**
    * @description Query what features this provider/model combination supports.
@@ -556,11 +827,60 @@ export class Agent implements Disposable {
     });
   }
 
+  /**
+   * Clone this agent with provider fallbacks and/or circuit breaking.
+   *
+   * @description Every provider request made by the clone is sent to this agent's provider
+   * first, then to each fallback agent's provider in order until one succeeds. Providers
+   * whose circuit is open are skipped. The serving provider, attempts and failures are
+   * reported on `result.resilience`; subscribe with {@link Agent.onResilienceEvent} for
+   * fallback and circuit transitions. A stream that fails mid-way is restarted on the next
+   * provider, so consumers may see events from more than one attempt.
+   *
+   * @param options - Fallback agents (used for their provider/model only) and circuit breaker settings.
+   * @returns A new {@link Agent}. Fallback agents stay owned by the caller and must outlive it.
+   * @throws {FallbackExhaustedError} From runs where every provider failed or was skipped.
+   *
+   * @example
+   * ```ts
+   * const agent = primary.withResilience({ fallbacks: [backup], circuitBreaker: { failureThreshold: 3 } });
+   * const result = await agent.run("Hello");
+   * console.log(result.resilience?.provider);
+   * ```
+   */
+  withResilience(options: ResilienceOptions): Agent {
+    this.assertNotDisposed();
+    return new Agent({
+      ...this.toConfig(),
+      resilience: options,
+    });
+  }
+
+  /**
+   * Subscribe to fallback and circuit breaker events of this agent.
+   *
+   * @param listener - Called with each {@link ResilienceEvent}.
+   * @returns A function that removes the listener.
+   * @throws {ValidationError} If the agent has no resilience configured.
+   */
+  onResilienceEvent(listener: ResilienceListener): () => void {
+    if (!this._resilience) {
+      throw new ValidationError("agent has no fallbacks or circuit breaker; use withResilience()", "resilience");
+    }
+    return this._resilience.on(listener);
+  }
+
   // ─── Integration Glue (M35) ────────────────────────────────────
 
   /**
    * Attach a middleware chain (logging, caching, rate limiting). Chainable.
    *
+   * @description The chain wraps every provider request made by `run`, `runWithTools`,
+   * `stream`, `streamIter`, `streamText`, `generate` and `generateWithTools`. Cache hits
+   * and rate-limit waits are reported on `result.middleware`. `before` hooks run for every
+   * entry point; `after` hooks only for those returning an {@link AgentResult} (not the
+   * raw `generate` calls). Agent-loop requests that offer tools are never cached.
+   *
    * @param chain - A configured {@link MiddlewareChain} instance.
    * @returns `this` for fluent chaining.
    *
@@ -581,6 +901,11 @@ export class Agent implements Disposable {
   /**
    * Attach a guardrail chain (content moderation, PII, schema validation). Chainable.
    *
+   * @description The chain is evaluated on outgoing user messages and on the assistant
+   * output of `run`, `runWithTools`, `stream` and `streamIter`. Block outcomes reject with
+   * a {@link GuardrailError}; redactions are applied to the text, and every outcome is
+   * recorded on `result.guardrailReport`.
+   *
    * @param chain - A configured {@link GuardrailChain} instance.
    * @returns `this` for fluent chaining.
    *
@@ -601,12 +926,23 @@ export class Agent implements Disposable {
   /**
    * Attach memory for automatic conversation history. Chainable.
    *
-   * @description When memory is attached, the agent automatically:
-   * - Recalls recent entries before each run (prepended as context)
-   * - Stores the conversation (input + output) after each run
+   * @description When memory is attached, `run`, `runWithTools` and the streaming
+   * methods automatically:
+   * - Recall the entries most relevant to the latest user message (prepended as
+   *   context), within a share of the model's context window
+   * - Store the conversation — input, tool calls with their results, and output —
+   *   once the call completes
+   *
+   * Pass `{ memory: false }` to a call to skip both.
+   *
+   * Archived entries are not recalled unless `options.tiers` includes `"archive"`.
+   * With `options.consolidation`, older turns are summarized after a run once the
+   * session outgrows the recall budget. A failed consolidation does not fail the
+   * run; it is reported to `options.onConsolidationError`.
    *
    * @param memory - A {@link Memory} instance.
    * @param sessionId - Optional session ID for scoping memory entries.
+   * @param options - Recall budget and filters.
    * @returns `this` for fluent chaining.
    *
    * @example
@@ -619,9 +955,115 @@ export class Agent implements Disposable {
    *
    * @since 1.2.0
    */
-  withMemory(memory: Memory, sessionId?: string): this {
+  withMemory(memory: Memory, sessionId?: string, options?: AgentMemoryOptions): this {
     this._memory = memory;
     if (sessionId) this._sessionId = sessionId;
+    if (options) this.setMemoryOptions(options);
+    return this;
+  }
+
+  /**
+   * Save checkpoints of every `run` so it can be resumed. Chainable.
+   *
+   * @description A checkpoint is saved when the run starts, before and after each
+   * tool call and when it completes, with the messages so far. {@link Agent.resume}
+   * continues after the last completed call; calls that were interrupted run
+   * again, so tools should be idempotent.
+   *
+   * Only `run` is checkpointed: `runWithTools`, `stream`, `streamIter` and
+   * `streamText` save no checkpoints.
+   *
+   * @param store - A {@link CheckpointStore}, typically with a durable backend.
+   * @returns `this` for fluent chaining.
+   *
+   * @example
+   * ```ts
+   * agent.withCheckpoints(new CheckpointStore({ backend: new JsonlCheckpointBackend("data/cp.jsonl") }));
+   * const result = await agent.run("Migrate the reports", { runId: "job-7" });
+   * console.log(result.checkpoint); // { runId: "job-7", checkpointId: "job-7:9" }
+   * ```
+   */
+  withCheckpoints(store: CheckpointStore): this {
+    this._checkpoints = store;
+    return this;
+  }
+
+  /**
+   * Route calls to tools with `requiresApproval` through an approval manager. Chainable.
+   *
+   * @description Such a call suspends the agent loop until the request is approved
+   * (optionally with modified arguments) or denied; a denial reason is sent back to
+   * the model as the tool result. Requests use the memory session ID, or the agent
+   * name without one. Streaming entry points emit an `approval_required` event
+   * (`{ requestId, toolName, toolCallId, args }`) when a request is created.
+   *
+   * @param manager - The {@link ApprovalManager} to request decisions from.
+   * @returns `this` for fluent chaining.
+   *
+   * @example
+   * ```ts
+   * const approvals = new ApprovalManager();
+   * agent.addTool(tool({ name: "refund", description: "Refund an order", requiresApproval: true, execute: refund }));
+   * agent.withApprovals(approvals);
+   * for await (const event of agent.streamIter("Refund order 42")) {
+   *   if (event.type === "approval_required") approvals.approve(event.requestId as string);
+   * }
+   * ```
+   */
+  withApprovals(manager: ApprovalManager): this {
+    this._approvals = manager;
+    this._toolsDirty = true;
+    return this;
+  }
+
+  /**
+   * Offer the model only the registry tools relevant to each request. Chainable.
+   *
+   * @description At the start of every call, the selector ranks the registry's tools
+   * against the latest user message and the top `topK` are offered alongside the
+   * agent's own tools; the rest stay hidden. The selection holds for every step of
+   * the call, since the native loop takes one tool list. Unless `searchTool` is
+   * `false`, the model also gets `search_tools` and `call_tool` to find and run
+   * hidden tools itself, e.g. when a later step needs a tool the request did not suggest.
+   * Registry tools are those added with `registry.addTool`, or agent tools whose
+   * names are registered with `registry.add`.
+   *
+   * @param options - Registry, selector (default: keyword) and `topK` (default: 5).
+   * @returns `this` for fluent chaining.
+   *
+   * @example
+   * ```ts
+   * const registry = new ToolRegistry();
+   * for (const t of allTools) registry.addTool(t);
+   * agent.withToolSelection({ registry, selector: embeddingToolSelector(embedder), topK: 8 });
+   * ```
+   */
+  withToolSelection(options: ToolSelectionOptions): this {
+    this._toolSelection = options;
+    this._toolsDirty = true;
+    return this;
+  }
+
+  /**
+   * Attach a retriever for retrieval-augmented runs. Chainable.
+   *
+   * @description Before each `run`, the retriever is queried with the latest user
+   * message and its context is prepended as a system message. The injected chunks
+   * and the ones the answer cited are reported on `result.retrieval`.
+   *
+   * @param retriever - An {@link AgentRetriever}, typically a `RagPipeline`.
+   * @returns `this` for fluent chaining.
+   *
+   * @example
+   * ```ts
+   * const rag = new RagPipeline({ embed });
+   * await rag.ingest(["./docs/faq.md"]);
+   * const result = await agent.withRetriever(rag).run("How do I reset my password?");
+   * console.log(result.retrieval?.usedChunkIds);
+   * ```
+   */
+  withRetriever(retriever: AgentRetriever): this {
+    this._retriever = retriever;
     return this;
   }
 
@@ -659,8 +1101,12 @@ export class Agent implements Disposable {
    * and returns the final result. Accepts either a plain string prompt or a pre-built message array.
    *
    * @param input - A string prompt or an array of {@link Message} objects.
+   * @param options.signal - Cancels the run. The returned promise rejects right away, no further
+   * provider requests or tool calls are started, and in-flight tools receive the signal.
+   * @param options.memory - Opt this call out of recalling from or storing to the attached memory.
    * @returns The completed {@link AgentResult} containing the response text, token counts, and optional structured output.
    * @throws {Error} If the agent has been destroyed.
+   * @throws {AbortError} If `options.signal` fires; `partialUsage` reports what was consumed.
    *
    * @example
    * ```ts
@@ -671,77 +1117,135 @@ export class Agent implements Disposable {
    *
    * @since 1.0.0
    */
-  async run(input: string | Message[], options?: { signal?: AbortSignal }): Promise<AgentResult> {
+  async run(input: string | Message[], options?: AgentCallOptions): Promise<AgentResult> {
     this.assertNotDisposed();
-    options?.signal?.throwIfAborted();
+    return this.execute(input, options);
+  }
+
+  /**
+   * Resume a checkpointed {@link Agent.run}, e.g. after a crash.
+   *
+   * @description The run continues under the same run ID from the checkpoint's
+   * messages, without recalling memory or retrieving again. Tool calls completed
+   * before the checkpoint are passed to the model with their results instead of
+   * executing again; calls still pending run again. A completed checkpoint
+   * returns its saved result.
+   *
+   * @param checkpointId - A checkpoint ID, e.g. from `result.checkpoint` or
+   * `CheckpointStore.loadLatest(runId)`.
+   * @param options.signal - Cancels the run (see {@link Agent.run}).
+   * @param options.memory - Memory opt-out (see {@link Agent.run}).
+   * @returns The completed {@link AgentResult}.
+   * @throws {ValidationError} If no checkpoint store is attached, or the checkpoint is
+   * missing or belongs to another agent.
+   *
+   * @example
+   * ```ts
+   * const latest = await checkpoints.loadLatest("job-7");
+   * if (latest) console.log((await agent.resume(latest.id)).text);
+   * ```
+   */
+  async resume(checkpointId: string, options?: Omit<AgentCallOptions, "runId">): Promise<AgentResult> {
+    this.assertNotDisposed();
+    if (!this._checkpoints) {
+      throw new ValidationError("agent has no checkpoint store; use withCheckpoints()", "checkpoints");
+    }
+    const checkpoint = await this._checkpoints.load(checkpointId);
+    const data = checkpoint?.data as AgentCheckpointData | undefined;
+    if (!checkpoint || data?.kind !== "agent") {
+      throw new ValidationError(`no agent checkpoint "${checkpointId}"`, "checkpointId");
+    }
+    if (data.agent !== this._name) {
+      throw new ValidationError(`checkpoint belongs to agent "${data.agent}"`, "checkpointId");
+    }
+    if (data.status === "completed" && data.result) {
+      return { ...data.result, checkpoint: { runId: checkpoint.sessionId, checkpointId } };
+    }
+    return this.execute(data.input, { ...options, runId: checkpoint.sessionId }, data);
+  }
+
+  /** `run`, optionally continuing a checkpointed run. @internal */
+  private async execute(
+    input: string | Message[],
+    options: AgentCallOptions | undefined,
+    resumed?: AgentCheckpointData,
+  ): Promise<AgentResult> {
+    const abort = new AbortScope(options?.signal);
+    abort.throwIfAborted();
+    const memory = this.memoryModes(options?.memory);
 
     // Load MCP tools if needed
-    await this.ensureMcpTools();
+    await abort.race(this.ensureMcpTools());
 
-    let messages: Message[] = typeof input === "string"
-      ? [{ role: "user" as const, content: input }]
-      : input as Message[];
-
-    // Memory recall: inject context
-    if (this._memory) {
-      const recalled = await this._memory.recall(
-        this._sessionId ? { sessionId: this._sessionId } : undefined
-      );
-      if (recalled.length > 0) {
-        const contextText = recalled.map(extractContent).join("\n");
-        messages = [
-          { role: "system" as const, content: `Previous context:\n${contextText}` },
-          ...messages,
-        ];
+    // Input guardrails and capability checks run before anything leaves the process
+    const guardedInput = this.prepareInput(input);
+    let messages = guardedInput.messages;
+
+    // A resumed run continues from its saved messages, which already hold the recalled and retrieved context
+    const retriever = this._retriever;
+    let retrieved: RetrievalContext | null = null;
+    if (resumed) {
+      messages = resumedMessages(resumed);
+    } else {
+      // Memory recall: inject the most relevant context that fits the budget
+      if (memory.recall) messages = await this.recallInto(messages, abort);
+
+      // Retrieval: inject context for the latest user message
+      const lastUser = [...guardedInput.messages].reverse().find((m) => m.role === "user");
+      retrieved = retriever && lastUser
+        ? await abort.race(retriever.augment(extractContent(lastUser), { signal: options?.signal }))
+        : null;
+      if (retrieved && retrieved.chunks.length > 0) {
+        messages = [{ role: "system" as const, content: retrieved.prompt }, ...messages];
       }
     }
 
-    // Extract tool definitions (strip execute callbacks for NAPI)
-    const { toolDefs, executor } = this.resolveToolsAndExecutor();
+    // Checkpoints: at the start, around each tool call and at the end
+    const tracker = this._checkpoints
+      ? new AgentRunTracker(
+          new RunCheckpointer(this._checkpoints, options?.runId ?? randomUUID(), resumed?.step),
+          this._name,
+          input,
+          resumed,
+        )
+      : null;
+    if (!resumed) await tracker?.start(messages);
 
-    let result: AgentResult;
-    if (executor) {
-      result = toSdkResult(await agent_run_with_tool_executor(
-        this._name,
-        this.providerHandle,
-        toolDefs,
-        messages,
-        this._options,
-        executor
-      ));
-    } else {
-      result = toSdkResult(await agent_run(
-        this._name,
-        this.providerHandle,
-        toolDefs,
-        messages,
-        this._options
-      ));
+    // Extract tool definitions (strip execute callbacks for NAPI)
+    const selected = await abort.race(this.selectToolNames(guardedInput.messages, options?.signal));
+    const { toolDefs, executor: resolvedExecutor } = this.resolveToolsAndExecutor(options?.signal, undefined, selected);
+    const toolCalls: ToolCallRecord[] = [...(resumed?.toolCalls ?? [])];
+    const stepExecutor = resolvedExecutor && memory.store ? recordToolCalls(resolvedExecutor, toolCalls) : resolvedExecutor;
+    const executor = stepExecutor ? abort.wrapExecutor(tracker ? tracker.wrap(stepExecutor) : stepExecutor) : null;
+
+    let result = await abort.race(this.runMiddleware("run", messages, toolDefs, abort, async (msgs, handle) => executor
+      ? toSdkResult(await agent_run_with_tool_executor(
+          this._name,
+          handle,
+          toolDefs,
+          toNativeMessages(msgs),
+          this._options,
+          executor
+        ))
+      : toSdkResult(await agent_run(
+          this._name,
+          handle,
+          toolDefs,
+          toNativeMessages(msgs),
+          this._options
+        ))));
+    result = this.guardOutput(result, guardedInput.check);
+    if (retriever && retrieved) {
+      result.retrieval = {
+        chunks: retrieved.chunks,
+        usedChunkIds: retrieved.chunks.length > 0 ? retriever.usedChunkIds(result.text, retrieved) : [],
+      };
     }
 
-    // Memory store: save conversation (parallel — entries are independent)
-    if (this._memory) {
-      const userText = typeof input === "string" ? input : input.map(extractContent).join("\n");
-      const now = Date.now();
-      const sessionId = this._sessionId || undefined;
-      await Promise.all([
-        this._memory.store({
-          id: `${now}-user`,
-          content: userText,
-          entryType: "conversation",
-          timestamp: new Date(now).toISOString(),
-          sessionId,
-        }),
-        this._memory.store({
-          id: `${now}-assistant`,
-          content: result.text,
-          entryType: "conversation",
-          timestamp: new Date(now).toISOString(),
-          sessionId,
-        }),
-      ]);
-    }
+    // Memory store: save the turn, including tool calls
+    if (memory.store) await this.remember(input, guardedInput, result, toolCalls, options?.signal);
 
+    if (tracker) result.checkpoint = await tracker.complete(result);
     this.captureRunMetadata(result);
     return result;
   }
@@ -755,8 +1259,11 @@ export class Agent implements Disposable {
    *
    * @param input - A string prompt or an array of {@link Message} objects.
    * @param toolExecutor - Async callback that receives a JSON-encoded tool call and returns a JSON-encoded result.
+   * @param options.signal - Cancels the run (see {@link Agent.run}).
+   * @param options.memory - Memory opt-out (see {@link Agent.run}).
    * @returns The completed {@link AgentResult}.
    * @throws {Error} If the agent has been destroyed.
+   * @throws {AbortError} If `options.signal` fires before the run completes.
    *
    * @example
    * ```ts
@@ -770,20 +1277,27 @@ export class Agent implements Disposable {
    */
   async runWithTools(
     input: string | Message[],
-    toolExecutor: ToolExecutor
+    toolExecutor: ToolExecutor,
+    options?: AgentCallOptions
   ): Promise<AgentResult> {
     this.assertNotDisposed();
+    const abort = new AbortScope(options?.signal);
+    abort.throwIfAborted();
+    const memory = this.memoryModes(options?.memory);
 
-    await this.ensureMcpTools();
+    await abort.race(this.ensureMcpTools());
 
-    const messages = typeof input === "string"
-      ? [{ role: "user" as const, content: input }]
-      : input;
+    const guardedInput = this.prepareInput(input);
+    const messages = memory.recall
+      ? await this.recallInto(guardedInput.messages, abort)
+      : guardedInput.messages;
 
-    const { toolDefs, executor: typedExecutor } = this.resolveToolsAndExecutor();
+    const selected = await abort.race(this.selectToolNames(guardedInput.messages, options?.signal));
+    const { toolDefs, executor: typedExecutor } = this.resolveToolsAndExecutor(options?.signal, undefined, selected);
 
     // Compose typed tool executor with user-provided executor
-    const composedExecutor: ToolExecutor = async (callJson: string) => {
+    const toolCalls: ToolCallRecord[] = [];
+    const resolveCall: ToolExecutor = async (callJson: string) => {
       // Try typed tools first, then fall back to user executor
       if (typedExecutor) {
         const result = await typedExecutor(callJson);
@@ -792,15 +1306,19 @@ export class Agent implements Disposable {
       }
       return toolExecutor(callJson);
     };
+    const composedExecutor = abort.wrapExecutor(memory.store ? recordToolCalls(resolveCall, toolCalls) : resolveCall);
 
-    const result = toSdkResult(await agent_run_with_tool_executor(
-      this._name,
-      this.providerHandle,
-      toolDefs,
-      messages,
-      this._options,
-      composedExecutor
-    ));
+    const raw = await abort.race(this.runMiddleware("runWithTools", messages, toolDefs, abort, async (msgs, handle) =>
+      toSdkResult(await agent_run_with_tool_executor(
+        this._name,
+        handle,
+        toolDefs,
+        toNativeMessages(msgs),
+        this._options,
+        composedExecutor
+      ))));
+    const result = this.guardOutput(raw, guardedInput.check);
+    if (memory.store) await this.remember(input, guardedInput, result, toolCalls, options?.signal);
     this.captureRunMetadata(result);
     return result;
   }
@@ -814,8 +1332,11 @@ export class Agent implements Disposable {
    * @param input - A string prompt or an array of {@link Message} objects.
    * @param onEvent - Callback invoked with each JSON-encoded stream event.
    * @param toolExecutor - Optional async callback for handling tool invocations.
+   * @param options.signal - Cancels the stream; no further events are delivered once it fires.
+   * @param options.memory - Memory opt-out (see {@link Agent.run}).
    * @returns The completed {@link AgentResult}.
    * @throws {Error} If the agent has been destroyed.
+   * @throws {AbortError} If `options.signal` fires before the stream completes.
    *
    * @example
    * ```ts
@@ -831,29 +1352,69 @@ export class Agent implements Disposable {
     input: string | Message[],
     onEvent: StreamCallback,
     toolExecutor?: ToolExecutor,
-    options?: { signal?: AbortSignal }
+    options?: AgentCallOptions
   ): Promise<AgentResult> {
     this.assertNotDisposed();
-    options?.signal?.throwIfAborted();
+    const abort = new AbortScope(options?.signal);
+    abort.throwIfAborted();
+    const memory = this.memoryModes(options?.memory);
 
-    await this.ensureMcpTools();
+    await abort.race(this.ensureMcpTools());
 
-    const messages = typeof input === "string"
-      ? [{ role: "user" as const, content: input }]
-      : input;
-
-    const { toolDefs, executor: typedExecutor } = this.resolveToolsAndExecutor();
-    const finalExecutor = toolExecutor ?? typedExecutor ?? NOOP_TOOL_EXECUTOR;
+    const guardedInput = this.prepareInput(input);
+    const messages = memory.recall
+      ? await this.recallInto(guardedInput.messages, abort)
+      : guardedInput.messages;
 
-    const result = toSdkResult(await agent_stream_with_tool_executor(
-      this._name,
-      this.providerHandle,
-      toolDefs,
+    const { toolDefs, executor: typedExecutor } = this.resolveToolsAndExecutor(
+      options?.signal,
+      this._approvals ? (request) => { if (!abort.aborted) onEvent(JSON.stringify(approvalEvent(request))); } : undefined,
+      await abort.race(this.selectToolNames(guardedInput.messages, options?.signal))
+    );
+    const toolCalls: ToolCallRecord[] = [];
+    const resolveCall = toolExecutor ?? typedExecutor ?? NOOP_TOOL_EXECUTOR;
+    const finalExecutor = abort.wrapExecutor(memory.store ? recordToolCalls(resolveCall, toolCalls) : resolveCall);
+
+    // Streamed text deltas pass through the guardrail filter before reaching the caller;
+    // nothing is delivered once the run has been aborted
+    const guard = this._guardrails ? createGuardrailEventFilter(this._guardrails) : null;
+    const emit = (event: StreamEvent | null) => { if (event) onEvent(JSON.stringify(event)); };
+    const guardedOnEvent: StreamCallback = guard || abort.signal
+      ? (eventJson: string) => {
+          if (abort.aborted) return;
+          let event: StreamEvent;
+          try {
+            event = JSON.parse(eventJson) as StreamEvent;
+          } catch {
+            onEvent(eventJson);
+            return;
+          }
+          abort.observe(event);
+          if (guard) emit(guard.apply(event));
+          else onEvent(eventJson);
+        }
+      : onEvent;
+
+    const raw = await abort.race(this.runMiddleware(
+      "stream",
       messages,
-      this._options,
-      onEvent,
-      finalExecutor
+      toolDefs,
+      abort,
+      async (msgs, handle) => toSdkResult(await agent_stream_with_tool_executor(
+        this._name,
+        handle,
+        toolDefs,
+        toNativeMessages(msgs),
+        this._options,
+        guardedOnEvent,
+        finalExecutor
+      )),
+      // Cache hits never reach the provider: replay the cached text as a single delta
+      (cached) => guardedOnEvent(JSON.stringify({ type: "text_delta", text: cached.text })),
     ));
+    if (guard) emit(guard.flush());
+    const result = this.guardOutput(raw, guardedInput.check);
+    if (memory.store) await this.remember(input, guardedInput, result, toolCalls, options?.signal);
     this.captureRunMetadata(result);
     return result;
   }
@@ -867,6 +1428,8 @@ export class Agent implements Disposable {
    *
    * @param input - A string prompt or an array of {@link Message} objects.
    * @param toolExecutor - Optional async callback for handling tool invocations.
+   * @param options.signal - Cancels the stream; iteration ends by throwing an {@link AbortError}.
+   * @param options.memory - Memory opt-out (see {@link Agent.run}).
    * @returns An {@link AgentStream} async iterable of {@link StreamEvent} objects.
    * @throws {Error} If the agent has been destroyed.
    *
@@ -883,23 +1446,71 @@ export class Agent implements Disposable {
    */
   streamIter(
     input: string | Message[],
-    toolExecutor?: ToolExecutor
+    toolExecutor?: ToolExecutor,
+    options?: AgentCallOptions
   ): AgentStream {
-    this.assertNotDisposed();
-    const messages = typeof input === "string"
-      ? [{ role: "user" as const, content: input }]
-      : input;
+    return this.openStream("streamIter", input, toolExecutor, options);
+  }
 
-    const { toolDefs, executor: typedExecutor } = this.resolveToolsAndExecutor();
-    const finalExecutor = toolExecutor ?? typedExecutor ?? NOOP_TOOL_EXECUTOR;
+  /**
+   * Build the {@link AgentStream} behind `streamIter` and `streamText`.
+   * @internal
+   */
+  private openStream(
+    entry: MiddlewareEntry,
+    input: string | Message[],
+    toolExecutor?: ToolExecutor,
+    options?: AgentCallOptions
+  ): AgentStream {
+    this.assertNotDisposed();
+    const abort = new AbortScope(options?.signal);
+    abort.throwIfAborted();
+    const memory = this.memoryModes(options?.memory);
+    const guardedInput = this.prepareInput(input);
+
+    // Approval requests become stream events once the stream has bound its sink
+    let emit: ((json: string) => void) | undefined;
+    const { toolDefs, executor: typedExecutor } = this.resolveToolsAndExecutor(
+      options?.signal,
+      this._approvals ? (request) => emit?.(JSON.stringify(approvalEvent(request))) : undefined
+    );
+    const toolCalls: ToolCallRecord[] = [];
+    const resolveCall = toolExecutor ?? typedExecutor ?? NOOP_TOOL_EXECUTOR;
+    const finalExecutor = abort.wrapExecutor(memory.store ? recordToolCalls(resolveCall, toolCalls) : resolveCall);
+    const wrapped = this._middleware || this._resilience;
 
     return new AgentStream(
       this._name,
       this.providerHandle,
       toolDefs,
-      messages,
+      guardedInput.messages,
       this._options,
-      finalExecutor
+      finalExecutor,
+      {
+        guardrails: this._guardrails ?? undefined,
+        onResult: this._guardrails
+          ? (result) => this.guardOutput(result, guardedInput.check)
+          : undefined,
+        onComplete: memory.store
+          ? (result) => this.remember(input, guardedInput, result, toolCalls, options?.signal)
+          : undefined,
+        wrap: wrapped || memory.recall
+          ? async (invoke, onEvent) => {
+              const messages = memory.recall
+                ? await this.recallInto(guardedInput.messages, abort)
+                : guardedInput.messages;
+              return wrapped
+                ? this.runMiddleware(entry, messages, toolDefs, abort, invoke,
+                    (cached) => onEvent(JSON.stringify({ type: "text_delta", text: cached.text })))
+                : invoke(messages, this.providerHandle);
+            }
+          : undefined,
+        abort: abort.signal ? abort : undefined,
+        bindEvents: (onEvent) => { emit = onEvent; },
+        selectTools: this._toolSelection
+          ? async (messages) => this.offeredToolDefs(await this.selectToolNames(messages, options?.signal))
+          : undefined,
+      }
     );
   }
 
@@ -912,15 +1523,19 @@ export class Agent implements Disposable {
    * @param input - A string prompt or an array of {@link Message} objects.
    * @param onDelta - Optional callback invoked for each text delta.
    * @param toolExecutor - Optional async callback for handling tool invocations.
+   * @param options.signal - Cancels the stream (see {@link Agent.streamIter}).
+   * @param options.memory - Memory opt-out (see {@link Agent.run}).
    * @returns The final response text.
+   * @throws {AbortError} If `options.signal` fires before the stream completes.
    */
   async streamText(
     input: string | Message[],
     onDelta?: (delta: string) => void,
-    toolExecutor?: ToolExecutor
+    toolExecutor?: ToolExecutor,
+    options?: AgentCallOptions
   ): Promise<string> {
     this.assertNotDisposed();
-    const stream = this.streamIter(input, toolExecutor);
+    const stream = this.openStream("streamText", input, toolExecutor, options);
     let aggregated = "";
 
     for await (const event of stream) {
@@ -964,15 +1579,17 @@ export class Agent implements Disposable {
     options?: { temperature?: number; maxTokens?: number }
   ): Promise<unknown> {
     this.assertNotDisposed();
-    const messages = typeof input === "string"
+    const messages: Message[] = typeof input === "string"
       ? [{ role: "user" as const, content: input }]
       : input;
-    return generate(
-      this.providerHandle,
+    assertContentCapabilities(messages, () => this.capabilities, this._provider, this._model);
+    const { value } = await this.applyMiddleware(
+      "generate",
       messages,
-      options?.temperature,
-      options?.maxTokens
+      { temperature: options?.temperature, maxTokens: options?.maxTokens },
+      (msgs, handle) => generate(handle, toNativeMessages(msgs), options?.temperature, options?.maxTokens),
     );
+    return value;
   }
 
   /**
@@ -1005,16 +1622,23 @@ export class Agent implements Disposable {
     options?: { temperature?: number; maxTokens?: number }
   ): Promise<unknown> {
     this.assertNotDisposed();
-    const messages = typeof input === "string"
+    const messages: Message[] = typeof input === "string"
       ? [{ role: "user" as const, content: input }]
       : input;
-    return generate_with_tools(
-      this.providerHandle,
+    assertContentCapabilities(messages, () => this.capabilities, this._provider, this._model);
+    const { value } = await this.applyMiddleware(
+      "generateWithTools",
       messages,
-      tools,
-      options?.temperature,
-      options?.maxTokens
+      { tools, temperature: options?.temperature, maxTokens: options?.maxTokens },
+      (msgs, handle) => generate_with_tools(
+        handle,
+        toNativeMessages(msgs),
+        tools,
+        options?.temperature,
+        options?.maxTokens
+      ),
     );
+    return value;
   }
 
   // ─── Lifecycle ──────────────────────────────────────────────────
@@ -1040,6 +1664,10 @@ export class Agent implements Disposable {
       } catch {
         // Already destroyed — safe to ignore.
       }
+      const resilientHandle = this._resilience?.createdHandle;
+      if (resilientHandle != null) {
+        try { destroy_provider(resilientHandle); } catch { /* ignore */ }
+      }
     }
   }
 
@@ -1066,23 +1694,296 @@ export class Agent implements Disposable {
     }
   }
 
+  /**
+   * Normalise run input to messages, apply input guardrails and check that the
+   * provider supports any media parts.
+   *
+   * @throws {GuardrailError} If any user message trips a block rule.
+   * @throws {CapabilityError} If the messages carry media the model cannot accept.
+   * @internal
+   */
+  private prepareInput(input: string | Message[]): { messages: Message[]; check?: GuardrailCheckResult } {
+    const guarded = this.guardInput(typeof input === "string"
+      ? [{ role: "user" as const, content: input }]
+      : input);
+    assertContentCapabilities(guarded.messages, () => this.capabilities, this._provider, this._model);
+    return guarded;
+  }
+
+  /**
+   * Evaluate input guardrails over outgoing user messages.
+   *
+   * @description Each user message is checked individually; redactions are applied in place
+   * (on a copy) and a combined check result is returned for the run's guardrail report.
+   *
+   * @throws {GuardrailError} If any user message trips a block rule.
+   * @internal
+   */
+  private guardInput(messages: Message[]): { messages: Message[]; check?: GuardrailCheckResult } {
+    const chain = this._guardrails;
+    if (!chain) return { messages };
+
+    let action = "allow" as GuardrailAction;
+    const violations: GuardrailViolation[] = [];
+    const texts: string[] = [];
+    const guarded: Message[] = [];
+    for (const m of messages) {
+      if (m.role !== "user") {
+        guarded.push(m);
+        continue;
+      }
+      // Text parts are checked individually; media parts pass through untouched
+      const content = mapTextContent(m.content, (text) => {
+        const check = chain.check(text, "input");
+        action = maxGuardrailAction(action, check.action);
+        violations.push(...check.violations);
+        texts.push(check.text);
+        return check.text;
+      });
+      guarded.push(content === m.content ? m : { ...m, content });
+    }
+
+    if (action === "block") throw new GuardrailError("input", violations);
+    return {
+      messages: guarded,
+      check: { stage: "input", action, text: texts.join("\n"), violations },
+    };
+  }
+
+  /**
+   * Evaluate output guardrails on a completed result and attach the guardrail report.
+   *
+   * @throws {GuardrailError} If the assistant output trips a block rule.
+   * @internal
+   */
+  private guardOutput(result: AgentResult, input?: GuardrailCheckResult): AgentResult {
+    const chain = this._guardrails;
+    if (!chain) return result;
+
+    const output = chain.check(result.text, "output");
+    if (output.action === "block") throw new GuardrailError("output", output.violations);
+
+    result.text = output.text;
+    result.guardrailReport = {
+      action: maxGuardrailAction(input?.action ?? "allow", output.action),
+      input,
+      output,
+    };
+    return result;
+  }
+
+  /**
+   * Send a provider request through the attached middleware chain, if any, and
+   * across the fallback chain when resilience is configured.
+   * @internal
+   */
+  private async applyMiddleware<T>(
+    entry: MiddlewareEntry,
+    messages: Message[],
+    options: Record<string, unknown>,
+    invoke: (messages: Message[], providerHandle: Handle) => Promise<T>,
+    onCacheHit?: (value: T) => void,
+    tools?: string[],
+  ): Promise<{ value: T; report?: MiddlewareReport; resilience?: ResilienceReport }> {
+    let resilience: ResilienceReport | undefined;
+    const failover = this._resilience;
+    const call = failover
+      ? async (msgs: Message[]) => {
+          const primary = { provider: this._provider, model: this._model, handle: this.providerHandle };
+          const outcome = await failover.execute(primary, (handle) => invoke(msgs, handle));
+          resilience = outcome.report;
+          return outcome.value;
+        }
+      : (msgs: Message[]) => invoke(msgs, this.providerHandle);
+
+    const chain = this._middleware;
+    if (!chain) return { value: await call(messages), resilience };
+    const { value, report } = await chain.execute(
+      { entry, agent: this._name, model: this._model, messages, options, tools },
+      call,
+      onCacheHit,
+    );
+    return { value, report, resilience };
+  }
+
+  /**
+   * Run an agent-loop request through middleware and attach the middleware report.
+   * @internal
+   */
+  private async runMiddleware(
+    entry: MiddlewareEntry,
+    messages: Message[],
+    tools: ToolDef[],
+    abort: AbortScope,
+    invoke: (messages: Message[], providerHandle: Handle) => Promise<AgentResult>,
+    onCacheHit?: (cached: AgentResult) => void,
+  ): Promise<AgentResult> {
+    const options = { ...this._options } as Record<string, unknown>;
+    // Re-check the signal right before each provider request (e.g. after a rate-limit wait)
+    const guardedInvoke = (msgs: Message[], handle: Handle) => {
+      abort.begin(msgs);
+      return invoke(msgs, handle);
+    };
+    const { value, report, resilience } = await this.applyMiddleware(
+      entry, messages, options, guardedInvoke, onCacheHit, tools.map((t) => t.name));
+    if (report) value.middleware = report;
+    if (resilience) value.resilience = resilience;
+    return value;
+  }
+
+  /** Which memory steps a call performs. @internal */
+  private memoryModes(option: AgentCallOptions["memory"]): { recall: boolean; store: boolean } {
+    if (!this._memory || option === false) return { recall: false, store: false };
+    if (option === undefined || option === true) return { recall: true, store: true };
+    return { recall: option.recall ?? true, store: option.store ?? true };
+  }
+
+  /**
+   * Prepend the recalled memory for the latest user message as a system message.
+   * @internal
+   */
+  private async recallInto(messages: Message[], abort: AbortScope): Promise<Message[]> {
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    const recalled = await abort.race(this._memory!.recall(
+      this.memoryRecallOptions(lastUser ? extractContent(lastUser) : undefined)
+    ));
+    if (recalled.length === 0) return messages;
+    const contextText = recalled.map(extractContent).join("\n");
+    return [{ role: "system" as const, content: `Previous context:\n${contextText}` }, ...messages];
+  }
+
+  /**
+   * Store a completed call — input, tool calls and answer — then consolidate if configured.
+   *
+   * Tool calls become `conversation` entries with `metadata.role` `"tool"` and the
+   * tool name, call ID, arguments and full result in metadata. Consolidation
+   * failures go to `onConsolidationError` instead of failing the call.
+   * @internal
+   */
+  private async remember(
+    input: string | Message[],
+    guardedInput: { messages: Message[]; check?: GuardrailCheckResult },
+    result: AgentResult,
+    toolCalls: ToolCallRecord[],
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const memory = this._memory!;
+    const userText = guardedInput.check
+      ? guardedInput.check.text
+      : typeof input === "string" ? input : input.map(extractContent).join("\n");
+    const userParts = guardedInput.messages.flatMap((m) =>
+      m.role === "user" && typeof m.content !== "string" ? m.content : []);
+    const now = Date.now();
+    const timestamp = new Date(now).toISOString();
+    const sessionId = this._sessionId || undefined;
+    const entries: MemoryEntry[] = [
+      {
+        id: `${now}-user`,
+        content: userText,
+        parts: userParts.length > 0 ? userParts : undefined,
+        entryType: "conversation",
+        timestamp,
+        metadata: { role: "user" },
+        sessionId,
+      },
+      ...toolCalls.map((call, i): MemoryEntry => {
+        const preview = call.result.length > TOOL_RESULT_PREVIEW_CHARS
+          ? `${call.result.slice(0, TOOL_RESULT_PREVIEW_CHARS)}…`
+          : call.result;
+        return {
+          id: `${now}-tool-${i}`,
+          content: `${call.name}(${JSON.stringify(call.arguments)}) → ${preview}`,
+          entryType: "conversation",
+          timestamp,
+          metadata: { role: "tool", toolName: call.name, toolCallId: call.id, arguments: call.arguments, result: call.result },
+          sessionId,
+        };
+      }),
+      {
+        id: `${now}-assistant`,
+        content: result.text,
+        entryType: "conversation",
+        timestamp,
+        metadata: { role: "assistant" },
+        sessionId,
+      },
+    ];
+    // One at a time: the entries share a timestamp, so backends keep them in insertion order
+    for (const entry of entries) await memory.store(entry);
+
+    const { consolidation, onConsolidationError } = this._memoryOptions;
+    if (consolidation) {
+      try {
+        await memory.consolidate(sessionId, {
+          ...consolidation,
+          thresholdTokens: consolidation.thresholdTokens ?? this.memoryBudget() ?? 0,
+          signal: consolidation.signal ?? signal,
+        });
+      } catch (err) {
+        onConsolidationError?.(err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  }
+
+  /**
+   * Recall options for a run: ranked against the latest user message, within
+   * `contextFraction` of the model's context window, archive excluded.
+   * @internal
+   */
+  private memoryRecallOptions(query: string | undefined): RecallOptions {
+    const { limit, entryTypes, tiers = ["core", "active", "background"] } = this._memoryOptions;
+    return {
+      sessionId: this._sessionId || undefined,
+      query,
+      limit,
+      entryTypes,
+      tiers,
+      maxTokens: this.memoryBudget(),
+    };
+  }
+
+  /** Tokens recalled memory may take: `contextFraction` of the context window, if known. @internal */
+  private memoryBudget(): number | undefined {
+    const window = getContextWindowSize(this._model);
+    return window > 0 ? Math.floor(window * (this._memoryOptions.contextFraction ?? 0.25)) : undefined;
+  }
+
+  /** @internal */
+  private setMemoryOptions(options: AgentMemoryOptions): void {
+    if (options.consolidation?.agent === this) {
+      throw new ValidationError("an agent cannot consolidate its own memory; use a separate agent", "consolidation.agent");
+    }
+    this._memoryOptions = options;
+  }
+
   /**
    * Resolve typed tools into plain ToolDefs + a ToolExecutor.
+   *
+   * When a signal is given, a fresh executor is built that forwards it to each
+   * tool's execute callback; otherwise the cached executor is reused. With tool
+   * selection, `selected` names the registry tools offered to the model.
    * @internal
    */
-  private resolveToolsAndExecutor(): { toolDefs: ToolDef[]; executor: ToolExecutor | null } {
-    if (!this._toolsDirty && this._cachedToolDefs) {
+  private resolveToolsAndExecutor(
+    signal?: AbortSignal,
+    onApproval?: (request: ApprovalRequest) => void,
+    selected?: string[]
+  ): { toolDefs: ToolDef[]; executor: ToolExecutor | null } {
+    if (signal || onApproval || selected) {
+      const { toolDefs, executor } = this.resolveToolsAndExecutor();
+      return {
+        toolDefs: selected ? this.offeredToolDefs(selected) : toolDefs,
+        executor: executor && (signal || onApproval) ? this.buildToolExecutor(signal, onApproval) : executor,
+      };
+    }
+    // Registries can change after they are attached: never cache their tools
+    if (!this._toolsDirty && this._cachedToolDefs && !this._toolSelection) {
       return { toolDefs: this._cachedToolDefs, executor: this._cachedToolExecutor };
     }
 
-    const typedTools = this._tools.filter(isTypedTool);
-
     // Strip execute callbacks for the NAPI layer
-    const toolDefs: ToolDef[] = this._tools.map(stripToolDef);
-
-    const executor = typedTools.length > 0
-      ? createToolExecutor(typedTools)
-      : null;
+    const toolDefs = this.offeredToolDefs();
+    const executor = this.buildToolExecutor();
 
     this._cachedToolDefs = toolDefs;
     this._cachedToolExecutor = executor;
@@ -1091,6 +1992,64 @@ export class Agent implements Disposable {
     return { toolDefs, executor };
   }
 
+  /** Executor over every runnable tool, or `null` when none has an execute callback. */
+  private buildToolExecutor(
+    signal?: AbortSignal,
+    onApproval?: (request: ApprovalRequest) => void
+  ): ToolExecutor | null {
+    let executor: ToolExecutor | null = null;
+    // call_tool runs through this same executor, with its validation and approvals
+    const typedTools = this.runnableTools((callJson) => executor!(callJson)).filter(isTypedTool);
+    executor = typedTools.length > 0
+      ? createToolExecutor(typedTools, undefined, {
+          signal,
+          approvals: this.toolApprovals(onApproval),
+          validation: this._toolValidation,
+        })
+      : null;
+    return executor;
+  }
+
+  /**
+   * The agent's tools plus, with tool selection, the registry's runnable tools
+   * and the search meta-tools.
+   */
+  private runnableTools(execute: ToolExecutor): (ToolDef | TypedToolDef)[] {
+    const selection = this._toolSelection;
+    if (!selection) return this._tools;
+    const tools = new Map(this._tools.map((t) => [t.name, t]));
+    for (const entry of selection.registry.list()) {
+      const registered = selection.registry.getTool(entry.name);
+      if (registered && !tools.has(entry.name)) tools.set(entry.name, registered);
+    }
+    const runnable = [...tools.values()];
+    return selection.searchTool === false
+      ? runnable
+      : [...runnable, ...toolSearchTools(selection, (name) => tools.get(name), execute)];
+  }
+
+  /** Tool definitions sent to the model: registry tools only when `selected`. */
+  private offeredToolDefs(selected: string[] = []): ToolDef[] {
+    const tools = this.runnableTools(NOOP_TOOL_EXECUTOR);
+    if (!this._toolSelection) return tools.map(stripToolDef);
+    const registered = new Set(this._toolSelection.registry.list().map((entry) => entry.name));
+    const offered = new Set(selected);
+    return tools.filter((t) => !registered.has(t.name) || offered.has(t.name)).map(stripToolDef);
+  }
+
+  /** With tool selection, the registry tools picked for the latest user message. */
+  private async selectToolNames(messages: Message[], signal?: AbortSignal): Promise<string[] | undefined> {
+    if (!this._toolSelection) return undefined;
+    const lastUser = [...messages].reverse().find((m) => m.role === "user");
+    return lastUser ? selectTools(extractContent(lastUser), this._toolSelection, signal) : [];
+  }
+
+  private toolApprovals(onRequest?: (request: ApprovalRequest) => void): ToolApprovalOptions | undefined {
+    return this._approvals
+      ? { manager: this._approvals, sessionId: this._sessionId || this._name, onRequest }
+      : undefined;
+  }
+
   /**
    * Load tools from all connected MCP clients (lazy, once).
    * @internal
@@ -1105,9 +2064,9 @@ export class Agent implements Disposable {
       for (const t of tools) {
         const mcpTool: TypedToolDef = {
           ...t,
-          execute: async (params: Record<string, unknown>) => {
+          execute: async (params: Record<string, unknown>, context) => {
             const callJson = JSON.stringify({ tool: t.name, args: params });
-            const resultJson = await executor(callJson);
+            const resultJson = await executor(callJson, context?.signal);
             return JSON.parse(resultJson);
           },
         };
@@ -1133,7 +2092,14 @@ export class Agent implements Disposable {
       guardrails: this._guardrails ?? undefined,
       memory: this._memory ?? undefined,
       sessionId: this._sessionId || undefined,
+      memoryOptions: this._memoryOptions,
+      checkpoints: this._checkpoints ?? undefined,
+      approvals: this._approvals ?? undefined,
+      toolValidation: this._toolValidation,
+      toolSelection: this._toolSelection ?? undefined,
+      retriever: this._retriever ?? undefined,
       mcpClients: [...this._mcpClients],
+      resilience: this._resilience?.options,
       temperature: this._options.temperature,
       maxSteps: this._options.maxSteps,
       topP: this._options.topP,
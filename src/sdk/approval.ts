@@ -1,5 +1,11 @@
 /**
  * HITL — Approval Manager SDK wrapper, backed by Rust core.
+ *
+ * @example
+ *   // Gate a tool behind a human decision
+ *   const approvals = new ApprovalManager();
+ *   approvals.onRequest((req) => ui.ask(req));   // later: approvals.approve(req.requestId)
+ *   agent.withApprovals(approvals);
  */
 import {
   create_approval_manager,
@@ -10,12 +16,18 @@ import {
   destroy_approval_manager,
 } from "gauss-napi";
 
-import type { Handle, Disposable } from "./types.js";
-import { DisposedError } from "./errors.js";
+import type { Handle, Disposable, ApprovalDecision, ApprovalRequest } from "./types.js";
+import { DisposedError, ValidationError } from "./errors.js";
 
 export class ApprovalManager implements Disposable {
   private readonly _handle: Handle;
   private disposed = false;
+  /** Requests made through this manager that are still undecided. */
+  private readonly pending = new Map<string, {
+    decision: Promise<ApprovalDecision>;
+    resolve: (decision: ApprovalDecision) => void;
+  }>();
+  private readonly listeners = new Set<(request: ApprovalRequest) => void>();
 
   constructor() {
     this._handle = create_approval_manager();
@@ -25,18 +37,33 @@ export class ApprovalManager implements Disposable {
     return this._handle;
   }
 
+  /**
+   * Create an approval request. Listeners registered with {@link ApprovalManager.onRequest}
+   * are notified on the next microtask.
+   *
+   * @returns The request ID.
+   */
   request(
     toolName: string,
     args: Record<string, unknown>,
-    sessionId: string
+    sessionId: string,
+    toolCallId?: string
   ): string {
     this.assertNotDisposed();
-    return approval_request(
+    const requestId = approval_request(
       this._handle,
       toolName,
       JSON.stringify(args),
       sessionId
     );
+    let resolve!: (decision: ApprovalDecision) => void;
+    const decision = new Promise<ApprovalDecision>((r) => { resolve = r; });
+    this.pending.set(requestId, { decision, resolve });
+    const request: ApprovalRequest = { requestId, toolName, args, sessionId, toolCallId };
+    queueMicrotask(() => {
+      for (const listener of this.listeners) listener(request);
+    });
+    return requestId;
   }
 
   approve(
@@ -49,11 +76,13 @@ export class ApprovalManager implements Disposable {
       requestId,
       modifiedArgs ? JSON.stringify(modifiedArgs) : undefined
     );
+    this.settle(requestId, { approved: true, modifiedArgs });
   }
 
   deny(requestId: string, reason?: string): void {
     this.assertNotDisposed();
     approval_deny(this._handle, requestId, reason);
+    this.settle(requestId, { approved: false, reason });
   }
 
   listPending(): unknown {
@@ -61,9 +90,46 @@ export class ApprovalManager implements Disposable {
     return approval_list_pending(this._handle);
   }
 
+  /**
+   * Wait until a request made through this manager is approved or denied.
+   *
+   * @param options.signal - Stops waiting; the promise rejects with the signal's reason.
+   * @throws {ValidationError} If the request is unknown or already decided.
+   */
+  waitForDecision(requestId: string, options: { signal?: AbortSignal } = {}): Promise<ApprovalDecision> {
+    this.assertNotDisposed();
+    const entry = this.pending.get(requestId);
+    if (!entry) {
+      return Promise.reject(new ValidationError(`no pending approval request "${requestId}"`, "requestId"));
+    }
+    const { signal } = options;
+    if (!signal) return entry.decision;
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener("abort", onAbort, { once: true });
+      entry.decision.then(resolve).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /**
+   * Call `listener` for every new request, e.g. to show approve/deny buttons.
+   *
+   * @returns A function that removes the listener.
+   */
+  onRequest(listener: (request: ApprovalRequest) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
+      // Nobody can decide any more: release waiting tool calls
+      for (const requestId of [...this.pending.keys()]) {
+        this.settle(requestId, { approved: false, reason: "approval manager was destroyed" });
+      }
+      this.listeners.clear();
       try {
         destroy_approval_manager(this._handle);
       } catch {
@@ -76,6 +142,11 @@ export class ApprovalManager implements Disposable {
     this.destroy();
   }
 
+  private settle(requestId: string, decision: ApprovalDecision): void {
+    this.pending.get(requestId)?.resolve(decision);
+    this.pending.delete(requestId);
+  }
+
   private assertNotDisposed(): void {
     if (this.disposed) {
       throw new DisposedError("ApprovalManager", "approvalManager");
@@ -0,0 +1,95 @@
+/**
+ * BM25 keyword index used by {@link VectorStore} for lexical and hybrid search.
+ *
+ * The tokenizer keeps identifiers intact (`AB-1234`, `E_CONN_RESET`, `user.id`)
+ * and also indexes their parts, so both exact codes and fragments match.
+ *
+ * @internal
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+/** Split text into lowercase terms: whole identifiers plus their sub-words. */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}_]+(?:[-.:/#][\p{L}\p{N}_]+)*/gu)) {
+    const word = match[0];
+    terms.push(word.toLowerCase());
+    const parts = word
+      .split(/[-.:/#_]+/)
+      .flatMap((part) => part.split(/(?<=\p{Ll})(?=\p{Lu})|(?<=\p{L})(?=\p{N})|(?<=\p{N})(?=\p{L})/u))
+      .filter((part) => part.length > 0);
+    if (parts.length > 1) terms.push(...parts.map((part) => part.toLowerCase()));
+  }
+  return terms;
+}
+
+interface IndexedDoc {
+  length: number;
+  termFreq: Map<string, number>;
+}
+
+export class Bm25Index {
+  private readonly docs = new Map<string, IndexedDoc>();
+  private readonly docFreq = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  /** Index `text` under `id`, replacing any previous entry. */
+  add(id: string, text: string): void {
+    this.remove(id);
+    const termFreq = new Map<string, number>();
+    const terms = tokenize(text);
+    for (const term of terms) termFreq.set(term, (termFreq.get(term) ?? 0) + 1);
+    for (const term of termFreq.keys()) this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+    this.docs.set(id, { length: terms.length, termFreq });
+    this.totalLength += terms.length;
+  }
+
+  remove(id: string): void {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+    for (const term of doc.termFreq.keys()) {
+      const df = (this.docFreq.get(term) ?? 1) - 1;
+      if (df > 0) this.docFreq.set(term, df);
+      else this.docFreq.delete(term);
+    }
+    this.totalLength -= doc.length;
+    this.docs.delete(id);
+  }
+
+  clear(): void {
+    this.docs.clear();
+    this.docFreq.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Score documents against `query`, best first. Documents without any query
+   * term are omitted.
+   */
+  search(query: string, topK: number, accept?: (id: string) => boolean): Array<{ id: string; score: number }> {
+    const terms = [...new Set(tokenize(query))];
+    const n = this.docs.size;
+    if (terms.length === 0 || n === 0) return [];
+    const avgLength = this.totalLength / n || 1;
+
+    const results: Array<{ id: string; score: number }> = [];
+    for (const [id, doc] of this.docs) {
+      let score = 0;
+      for (const term of terms) {
+        const tf = doc.termFreq.get(term);
+        if (!tf) continue;
+        const df = this.docFreq.get(term) ?? 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+      }
+      if (score > 0 && (!accept || accept(id))) results.push({ id, score });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Persistent {@link CheckpointBackend}s — checkpoints that survive crashes and deploys.
+ *
+ * - `JsonlCheckpointBackend` — one JSON Lines file; simple, good for a single worker.
+ * - `SqliteCheckpointBackend` — a SQLite table; safe to share between processes on one host.
+ *
+ * When several checkpoints of a session share a timestamp, the one saved last is the latest.
+ *
+ * @example
+ *   const store = new CheckpointStore({ backend: new JsonlCheckpointBackend("data/checkpoints.jsonl") });
+ *   const graph = new Graph().withCheckpoints(store);
+ */
+import { appendFile, mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { Checkpoint, CheckpointBackend } from "./types.js";
+import { ValidationError } from "./errors.js";
+import { openDatabase, type SqliteDatabase } from "./memory-backends.js";
+
+// ─── JSONL ─────────────────────────────────────────────────────────
+
+/**
+ * Checkpoints kept in a JSON Lines file, one checkpoint per line.
+ *
+ * @description Saves append to the file (a checkpoint saved again under the same ID
+ * replaces the earlier line when read); deleting a session rewrites it through a
+ * temporary sibling. The file is re-read when another process changed it, but
+ * concurrent writers are not coordinated — use {@link SqliteCheckpointBackend} for
+ * several workers. Unparsable lines (e.g. a write cut short by a crash) are skipped.
+ */
+export class JsonlCheckpointBackend implements CheckpointBackend {
+  /** In save order, so the last of equal timestamps wins. */
+  private checkpoints = new Map<string, Checkpoint>();
+  /** Size and mtime of the file as last read or written, to notice outside changes. */
+  private version: string | undefined;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    await this.enqueue(async () => {
+      await this.sync();
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(checkpoint)}\n`, "utf8");
+      this.checkpoints.delete(checkpoint.id);
+      this.checkpoints.set(checkpoint.id, checkpoint);
+      this.version = await this.fileVersion();
+    });
+  }
+
+  async load(checkpointId: string): Promise<Checkpoint | null> {
+    await this.enqueue(() => this.sync());
+    return this.checkpoints.get(checkpointId) ?? null;
+  }
+
+  async loadLatest(sessionId: string): Promise<Checkpoint | null> {
+    const checkpoints = await this.list(sessionId);
+    return checkpoints[checkpoints.length - 1] ?? null;
+  }
+
+  async list(sessionId: string): Promise<Checkpoint[]> {
+    await this.enqueue(() => this.sync());
+    return [...this.checkpoints.values()]
+      .filter((cp) => cp.sessionId === sessionId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  }
+
+  async deleteSession(sessionId: string): Promise<number> {
+    return this.enqueue(async () => {
+      await this.sync();
+      const kept = [...this.checkpoints.values()].filter((cp) => cp.sessionId !== sessionId);
+      const removed = this.checkpoints.size - kept.length;
+      if (removed === 0) return 0;
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tmp, kept.map((cp) => `${JSON.stringify(cp)}\n`).join(""), "utf8");
+      await rename(tmp, this.path);
+      this.checkpoints = new Map(kept.map((cp) => [cp.id, cp]));
+      this.version = await this.fileVersion();
+      return removed;
+    });
+  }
+
+  /** Reload the file if it changed since this backend last read or wrote it. */
+  private async sync(): Promise<void> {
+    const version = await this.fileVersion();
+    if (version === this.version) return;
+    const checkpoints = new Map<string, Checkpoint>();
+    const text = version ? await readFile(this.path, "utf8") : "";
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const checkpoint = JSON.parse(line) as Checkpoint;
+        if (typeof checkpoint?.id !== "string") continue;
+        checkpoints.delete(checkpoint.id);
+        checkpoints.set(checkpoint.id, checkpoint);
+      } catch {
+        // Torn write
+      }
+    }
+    this.checkpoints = checkpoints;
+    this.version = version;
+  }
+
+  private async fileVersion(): Promise<string | undefined> {
+    try {
+      const { size, mtimeMs } = await stat(this.path);
+      return `${size}:${mtimeMs}`;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  private enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const next = this.writes.then(work);
+    this.writes = next.catch(() => {});
+    return next;
+  }
+}
+
+// ─── SQLite ────────────────────────────────────────────────────────
+
+export interface SqliteCheckpointBackendOptions {
+  /** Table holding the checkpoints (default: `"checkpoints"`). Created if missing. */
+  table?: string;
+}
+
+/**
+ * Checkpoints kept in a SQLite table, one row per checkpoint.
+ *
+ * @description Pass an open connection (see `SqliteDatabase`), or use
+ * {@link SqliteCheckpointBackend.open} to open a file with `node:sqlite` (Node 22.5+)
+ * or the `better-sqlite3` package.
+ */
+export class SqliteCheckpointBackend implements CheckpointBackend {
+  private readonly table: string;
+
+  constructor(readonly db: SqliteDatabase, options: SqliteCheckpointBackendOptions = {}) {
+    this.table = options.table ?? "checkpoints";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new ValidationError("must be a plain SQL identifier", "table");
+    }
+    db.exec(`CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        checkpoint TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_session ON ${this.table} (session_id, timestamp);`);
+  }
+
+  /**
+   * Open (or create) a database file.
+   *
+   * @throws {ValidationError} If neither `node:sqlite` nor `better-sqlite3` is available.
+   */
+  static async open(path: string, options?: SqliteCheckpointBackendOptions): Promise<SqliteCheckpointBackend> {
+    return new SqliteCheckpointBackend(await openDatabase(path), options);
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    this.db
+      .prepare(`INSERT OR REPLACE INTO ${this.table} (id, session_id, timestamp, checkpoint) VALUES (?, ?, ?, ?)`)
+      .run(checkpoint.id, checkpoint.sessionId, checkpoint.timestamp, JSON.stringify(checkpoint));
+  }
+
+  async load(checkpointId: string): Promise<Checkpoint | null> {
+    const [row] = this.db
+      .prepare(`SELECT checkpoint FROM ${this.table} WHERE id = ?`)
+      .all(checkpointId) as Array<{ checkpoint: string }>;
+    return row ? JSON.parse(row.checkpoint) as Checkpoint : null;
+  }
+
+  async loadLatest(sessionId: string): Promise<Checkpoint | null> {
+    const [row] = this.db
+      .prepare(`SELECT checkpoint FROM ${this.table} WHERE session_id = ? ORDER BY timestamp DESC, rowid DESC LIMIT 1`)
+      .all(sessionId) as Array<{ checkpoint: string }>;
+    return row ? JSON.parse(row.checkpoint) as Checkpoint : null;
+  }
+
+  async list(sessionId: string): Promise<Checkpoint[]> {
+    const rows = this.db
+      .prepare(`SELECT checkpoint FROM ${this.table} WHERE session_id = ? ORDER BY timestamp, rowid`)
+      .all(sessionId) as Array<{ checkpoint: string }>;
+    return rows.map((row) => JSON.parse(row.checkpoint) as Checkpoint);
+  }
+
+  async deleteSession(sessionId: string): Promise<number> {
+    const { changes } = this.db.prepare(`DELETE FROM ${this.table} WHERE session_id = ?`).run(sessionId);
+    return Number(changes);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
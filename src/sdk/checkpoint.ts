@@ -1,5 +1,9 @@
 /**
- * HITL — Checkpoint Store SDK wrapper, backed by Rust core.
+ * HITL — Checkpoint Store SDK wrapper.
+ *
+ * Checkpoints live in the in-process Rust store by default; pass a
+ * {@link CheckpointBackend} (e.g. `JsonlCheckpointBackend`, `SqliteCheckpointBackend`)
+ * so that runs can be resumed after a crash or deploy.
  */
 import {
   create_checkpoint_store,
@@ -9,44 +13,99 @@ import {
   destroy_checkpoint_store,
 } from "gauss-napi";
 
-import type { Handle, Disposable } from "./types.js";
-import { DisposedError } from "./errors.js";
+import type { Handle, Disposable, Checkpoint, CheckpointBackend } from "./types.js";
+import { DisposedError, ValidationError } from "./errors.js";
 
+export interface CheckpointStoreOptions {
+  /**
+   * Where checkpoints are kept (default: a {@link NativeCheckpointBackend}). A
+   * backend passed in is not closed by `destroy`; close it when you are done with it.
+   */
+  backend?: CheckpointBackend;
+}
+
+/**
+ * Checkpoint store, by default backed by Rust core.
+ *
+ * @example
+ *   // Durable: an agent run that crashed can be resumed from its last step
+ *   const checkpoints = new CheckpointStore({ backend: await SqliteCheckpointBackend.open("data/checkpoints.db") });
+ *   agent.withCheckpoints(checkpoints);
+ *   await agent.run("Migrate the reports", { runId: "job-7" });
+ *   // after a restart:
+ *   const latest = await checkpoints.loadLatest("job-7");
+ *   if (latest) await agent.resume(latest.id);
+ */
 export class CheckpointStore implements Disposable {
-  private readonly _handle: Handle;
+  readonly backend: CheckpointBackend;
+  private readonly ownsBackend: boolean;
   private disposed = false;
 
-  constructor() {
-    this._handle = create_checkpoint_store();
+  constructor(options: CheckpointStoreOptions = {}) {
+    this.ownsBackend = !options.backend;
+    this.backend = options.backend ?? new NativeCheckpointBackend();
   }
 
+  /**
+   * Native handle of the default backend.
+   *
+   * @throws {ValidationError} If the store uses another backend.
+   */
   get handle(): Handle {
-    return this._handle;
+    if (!(this.backend instanceof NativeCheckpointBackend)) {
+      throw new ValidationError("checkpoint store with a custom backend has no native handle", "backend");
+    }
+    return this.backend.handle;
   }
 
-  async save(checkpoint: Record<string, unknown>): Promise<void> {
+  /** Save a checkpoint. `sessionId` defaults to the ID, `timestamp` to now. */
+  async save(checkpoint: Pick<Checkpoint, "id"> & Partial<Checkpoint>): Promise<void> {
     this.assertNotDisposed();
-    return checkpoint_save(this._handle, JSON.stringify(checkpoint));
+    return this.backend.save({
+      id: checkpoint.id,
+      sessionId: checkpoint.sessionId ?? checkpoint.id,
+      data: checkpoint.data ?? {},
+      timestamp: checkpoint.timestamp ?? new Date().toISOString(),
+    });
   }
 
-  async load(checkpointId: string): Promise<unknown> {
+  async load(checkpointId: string): Promise<Checkpoint | null> {
     this.assertNotDisposed();
-    return checkpoint_load(this._handle, checkpointId);
+    return this.backend.load(checkpointId);
   }
 
-  async loadLatest(sessionId: string): Promise<unknown> {
+  async loadLatest(sessionId: string): Promise<Checkpoint | null> {
     this.assertNotDisposed();
-    return checkpoint_load_latest(this._handle, sessionId);
+    return this.backend.loadLatest(sessionId);
+  }
+
+  /**
+   * Checkpoints of a session, oldest first.
+   *
+   * @throws {ValidationError} If the backend cannot list checkpoints.
+   */
+  async list(sessionId: string): Promise<Checkpoint[]> {
+    this.assertNotDisposed();
+    if (!this.backend.list) throw new ValidationError("backend cannot list checkpoints", "backend");
+    return this.backend.list(sessionId);
+  }
+
+  /**
+   * Remove a session's checkpoints, e.g. once a run completed.
+   *
+   * @returns The number of checkpoints removed.
+   * @throws {ValidationError} If the backend cannot delete checkpoints.
+   */
+  async deleteSession(sessionId: string): Promise<number> {
+    this.assertNotDisposed();
+    if (!this.backend.deleteSession) throw new ValidationError("backend cannot delete checkpoints", "backend");
+    return this.backend.deleteSession(sessionId);
   }
 
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
-      try {
-        destroy_checkpoint_store(this._handle);
-      } catch {
-        // Already destroyed.
-      }
+      if (this.ownsBackend) this.backend.close?.();
     }
   }
 
@@ -60,3 +119,78 @@ export class CheckpointStore implements Disposable {
     }
   }
 }
+
+/**
+ * Saves the checkpoints of one run in order, with IDs `<runId>:<step>`.
+ *
+ * Saves are serialized, so concurrent tool calls cannot reorder them.
+ * @internal
+ */
+export class RunCheckpointer<T extends Record<string, unknown> = Record<string, unknown>> {
+  private saves: Promise<unknown> = Promise.resolve();
+  /** ID of the most recent checkpoint. */
+  lastId: string | undefined;
+
+  constructor(private readonly store: CheckpointStore, readonly runId: string, private step = 0) {}
+
+  /** Save `data` (with its `step`) as the next checkpoint; resolves to its ID. */
+  save(data: T): Promise<string> {
+    const step = ++this.step;
+    const id = `${this.runId}:${step}`;
+    this.lastId = id;
+    const next = this.saves.then(() => this.store.save({ id, sessionId: this.runId, data: { ...data, step } }));
+    this.saves = next.catch(() => {});
+    return next.then(() => id);
+  }
+}
+
+/**
+ * The in-process Rust store. Checkpoints are lost when the process exits.
+ */
+export class NativeCheckpointBackend implements CheckpointBackend {
+  readonly handle: Handle;
+  private closed = false;
+
+  constructor() {
+    this.handle = create_checkpoint_store();
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    // Convert to snake_case for Rust serde
+    return checkpoint_save(this.handle, JSON.stringify({
+      id: checkpoint.id,
+      session_id: checkpoint.sessionId,
+      data: checkpoint.data,
+      timestamp: checkpoint.timestamp,
+    }));
+  }
+
+  async load(checkpointId: string): Promise<Checkpoint | null> {
+    return fromNative(await checkpoint_load(this.handle, checkpointId));
+  }
+
+  async loadLatest(sessionId: string): Promise<Checkpoint | null> {
+    return fromNative(await checkpoint_load_latest(this.handle, sessionId));
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      destroy_checkpoint_store(this.handle);
+    } catch {
+      // Already destroyed.
+    }
+  }
+}
+
+function fromNative(raw: unknown): Checkpoint | null {
+  if (!raw || typeof raw !== "object") return null;
+  const cp = raw as Record<string, unknown>;
+  return {
+    id: String(cp.id),
+    sessionId: String(cp.session_id ?? cp.sessionId ?? ""),
+    data: (cp.data ?? {}) as Record<string, unknown>,
+    timestamp: String(cp.timestamp ?? ""),
+  };
+}
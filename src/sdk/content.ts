@@ -0,0 +1,131 @@
+/**
+ * Multimodal message content — helpers shared by Agent, Memory and token counting.
+ *
+ * `Message.content` is either a plain string or an ordered list of
+ * {@link ContentPart}s (text, image, audio, document, tool call, tool result).
+ *
+ * The native agent bindings take text-only messages (`JsMessage.content: string`),
+ * so part lists are sent as their text, with tool calls in the tool executor's
+ * `{ tool, id, args }` JSON. Image, audio and document parts are typed and can be
+ * stored in and recalled from `Memory`, but `Agent` rejects them with a
+ * {@link CapabilityError}, even on vision and audio models, until the bindings
+ * can carry them. Pass media by URL in the text meanwhile.
+ *
+ * @example
+ *   await agent.run([
+ *     {
+ *       role: "user",
+ *       content: [
+ *         { type: "text", text: "Summarize the tool output." },
+ *         { type: "tool_result", toolCallId: "c1", content: { rows: 3 } },
+ *       ],
+ *     },
+ *   ]);
+ *
+ * @since 2.24.0
+ */
+import type {
+  ContentPart,
+  Message,
+  MessageContent,
+  ProviderCapabilities,
+} from "./types.js";
+import { CapabilityError, ValidationError } from "./errors.js";
+
+/** Part types the native bindings cannot carry. */
+const MEDIA_PARTS = ["image", "audio", "document"] as const;
+
+/**
+ * Extract the textual content of a message: text parts and tool results,
+ * joined by newlines. Media parts are skipped.
+ */
+export function contentToText(content: MessageContent): string {
+  if (typeof content === "string") return content;
+  const texts: string[] = [];
+  for (const part of content) {
+    if (part.type === "text") texts.push(part.text);
+    else if (part.type === "tool_result") {
+      texts.push(typeof part.content === "string" ? part.content : JSON.stringify(part.content));
+    }
+  }
+  return texts.join("\n");
+}
+
+/** Apply `fn` to every text part, leaving other parts untouched. */
+export function mapTextContent(content: MessageContent, fn: (text: string) => string): MessageContent {
+  if (typeof content === "string") return fn(content);
+  return content.map((part) => (part.type === "text" ? { ...part, text: fn(part.text) } : part));
+}
+
+/** Whether any message carries a part of the given type. */
+export function hasContentPart(messages: Message[], type: ContentPart["type"]): boolean {
+  return messages.some((m) => typeof m.content !== "string" && m.content.some((p) => p.type === type));
+}
+
+/** Message shape declared by the native bindings (`JsMessage`). */
+interface NativeMessage {
+  role: string;
+  content: string;
+}
+
+/** Text of a part list for the native layer: tool calls are kept as call JSON. */
+function nativeText(parts: ContentPart[]): string {
+  return parts
+    .map((part) => part.type === "tool_call"
+      ? JSON.stringify({ tool: part.name, id: part.id, args: part.arguments })
+      : contentToText([part]))
+    .filter((text) => text !== "")
+    .join("\n");
+}
+
+/**
+ * Prepare messages for the native layer: part lists are collapsed to their
+ * text (see {@link contentToText}), with tool calls serialized as call JSON.
+ *
+ * @throws {ValidationError} If a message still carries media parts; entry points
+ *   reject those earlier with {@link assertContentCapabilities}.
+ * @internal
+ */
+export function toNativeMessages(messages: Message[]): NativeMessage[] {
+  return messages.map((m, i) => {
+    if (typeof m.content === "string") return { role: m.role, content: m.content };
+    const media = m.content.find((p) => (MEDIA_PARTS as readonly string[]).includes(p.type));
+    if (media) {
+      throw new ValidationError(`${media.type} parts cannot be sent: native messages are text-only`, `messages[${i}]`);
+    }
+    return { role: m.role, content: nativeText(m.content) };
+  });
+}
+
+/**
+ * Check that the media in `messages` can be sent.
+ *
+ * Model capabilities are checked first, so a model without vision reports
+ * `vision`. Media the model does support is still rejected, because the native
+ * bindings only carry text.
+ *
+ * @throws {CapabilityError} If messages contain image, audio or document parts.
+ * @internal
+ */
+export function assertContentCapabilities(
+  messages: Message[],
+  capabilities: () => ProviderCapabilities,
+  provider: string,
+  model: string
+): void {
+  const media = MEDIA_PARTS.filter((type) => hasContentPart(messages, type));
+  if (media.length === 0) return;
+  const caps = capabilities();
+  if (media.includes("image") && !caps.vision) {
+    throw new CapabilityError("vision", provider, model, "messages contain image parts");
+  }
+  if (media.includes("audio") && !caps.audio) {
+    throw new CapabilityError("audio", provider, model, "messages contain audio parts");
+  }
+  throw new CapabilityError(
+    `${media[0]} input`,
+    provider,
+    model,
+    `messages contain ${media[0]} parts, but the native bindings only accept text messages`
+  );
+}
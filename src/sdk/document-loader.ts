@@ -1,17 +1,40 @@
 /**
  * Document loaders for RAG pipeline.
  * Load documents from various sources and split into chunks.
+ *
+ * Every format has a loader with explicit `fromFile` and `fromString` entry points
+ * (`fromBuffer` for the binary PDF and DOCX formats). Documents loaded from a file
+ * tag every chunk with `source` (the path) and `mtime` (ISO timestamp). Split chunks
+ * record `start`/`end` character offsets into the document content.
+ *
+ * @example
+ *   const faq = await markdownLoader.fromFile("docs/faq.md");
+ *   const page = await htmlLoader.fromString(html, { documentId: "pricing" });
+ *   const docs = await loadDirectory("docs", { glob: "**\/*.{md,pdf}" });
  */
-import { readFile } from "node:fs/promises";
-import { basename } from "node:path";
+import { readFile, readdir, stat } from "node:fs/promises";
+import { basename, extname, join, relative, sep } from "node:path";
 import type { VectorChunk } from "./types.js";
-import { TextSplitter, type TextSplitterOptions } from "./text-splitter.js";
+import {
+  MarkdownSplitter,
+  TextSplitter,
+  formatHeadingPath,
+  type Heading,
+  type Splitter,
+  type TextSplitterOptions,
+} from "./text-splitter.js";
+import { extractPdfText } from "./pdf-text.js";
+import { extractDocxParagraphs, type DocxParagraph } from "./docx-text.js";
+
+export type { DocxParagraph } from "./docx-text.js";
 
 export interface DocumentLoaderOptions extends TextSplitterOptions {
   /** Document ID (auto-generated from filename if omitted). */
   documentId?: string;
   /** Additional metadata to attach to every chunk. */
   metadata?: Record<string, unknown>;
+  /** Splitter for the text (default: a TextSplitter from these options; Markdown uses a MarkdownSplitter). */
+  splitter?: Splitter;
 }
 
 export interface LoadedDocument {
@@ -21,83 +44,187 @@ export interface LoadedDocument {
   metadata: Record<string, unknown>;
 }
 
-/**
- * Load a plain text file and split into chunks.
- */
-export async function loadText(
-  pathOrContent: string,
-  options: DocumentLoaderOptions = {}
-): Promise<LoadedDocument> {
-  const isPath = !pathOrContent.includes("\n") && pathOrContent.length < 500;
-  let content: string;
-  let docId: string;
+/** Loads a text format from a file or from a string already in memory. */
+export interface TextDocumentLoader<O extends DocumentLoaderOptions = DocumentLoaderOptions> {
+  fromFile(path: string, options?: O): Promise<LoadedDocument>;
+  fromString(content: string, options?: O): Promise<LoadedDocument>;
+}
 
-  if (isPath) {
-    try {
-      content = await readFile(pathOrContent, "utf-8");
-      docId = options.documentId ?? basename(pathOrContent);
-    } catch {
-      content = pathOrContent;
-      docId = options.documentId ?? "text-document";
-    }
-  } else {
-    content = pathOrContent;
-    docId = options.documentId ?? "text-document";
-  }
+/** Loads a binary format from a file or from bytes already in memory. */
+export interface BinaryDocumentLoader<O extends DocumentLoaderOptions = DocumentLoaderOptions> {
+  fromFile(path: string, options?: O): Promise<LoadedDocument>;
+  fromBuffer(data: Uint8Array, options?: O): Promise<LoadedDocument>;
+}
 
-  const splitter = new TextSplitter(options);
-  const textChunks = splitter.split(content);
-  const chunks: VectorChunk[] = textChunks.map((tc) => ({
-    id: `${docId}-${tc.index}`,
-    documentId: docId,
-    content: tc.content,
-    index: tc.index,
-    metadata: { ...options.metadata, ...tc.metadata },
-  }));
+export type DocumentLoader = TextDocumentLoader | BinaryDocumentLoader;
 
-  return { documentId: docId, content, chunks, metadata: options.metadata ?? {} };
+export interface JsonLoaderOptions extends DocumentLoaderOptions {
+  /** For arrays of objects: the field holding each item's text (default: the whole item as JSON). */
+  textField?: string;
 }
 
-/**
- * Load a Markdown file — strips frontmatter, splits on headings.
- */
-export async function loadMarkdown(
-  pathOrContent: string,
-  options: DocumentLoaderOptions = {}
-): Promise<LoadedDocument> {
-  const result = await loadText(pathOrContent, {
-    ...options,
-    separators: ["\n## ", "\n### ", "\n\n", "\n", ". ", " "],
+export interface HtmlLoaderOptions extends DocumentLoaderOptions {
+  /** Keep `<nav>`, `<header>`, `<footer>`, `<aside>` and `<form>` content (default: false). */
+  keepBoilerplate?: boolean;
+}
+
+export interface CsvLoaderOptions extends DocumentLoaderOptions {
+  /** Field delimiter (default: `","`, or tab for `.tsv` files). */
+  delimiter?: string;
+  /** Columns whose values form each chunk's text (default: all, as `column: value` lines). */
+  textColumns?: string[];
+}
+
+export interface PdfLoaderOptions extends DocumentLoaderOptions {
+  /**
+   * Replaces the built-in extractor, e.g. with one backed by `pdfjs-dist`.
+   * Returns the text of each page, in page order.
+   */
+  extractPages?: (data: Uint8Array) => string[] | Promise<string[]>;
+}
+
+export interface DocxLoaderOptions extends DocumentLoaderOptions {
+  /**
+   * Replaces the built-in extractor, e.g. with one backed by `mammoth`.
+   * Returns the body paragraphs, in document order.
+   */
+  extractParagraphs?: (data: Uint8Array) => DocxParagraph[] | Promise<DocxParagraph[]>;
+}
+
+// ─── Shared ────────────────────────────────────────────────────────
+
+/** A slice of a document that is split on its own, with metadata for its chunks. */
+interface Section {
+  text: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Join sections into the document content, noting where each one starts. */
+function joinSections(sections: Section[]): { content: string; offsets: number[] } {
+  const offsets: number[] = [];
+  let content = "";
+  for (const section of sections) {
+    if (content) content += "\n\n";
+    offsets.push(content.length);
+    content += section.text;
+  }
+  return { content, offsets };
+}
+
+function buildDocument(
+  documentId: string,
+  sections: Section[],
+  options: DocumentLoaderOptions,
+  defaultSplitter: () => Splitter = () => new TextSplitter(options),
+): LoadedDocument {
+  const splitter = options.splitter ?? defaultSplitter();
+  const { content, offsets } = joinSections(sections);
+  const chunks: VectorChunk[] = [];
+  sections.forEach((section, i) => {
+    for (const tc of splitter.split(section.text)) {
+      const index = chunks.length;
+      chunks.push({
+        id: `${documentId}-${index}`,
+        documentId,
+        content: tc.content,
+        index,
+        metadata: {
+          ...options.metadata,
+          ...section.metadata,
+          ...tc.metadata,
+          start: offsets[i] + tc.start,
+          end: offsets[i] + tc.end,
+        },
+      });
+    }
   });
-  // Strip YAML frontmatter
-  result.content = result.content.replace(/^---[\s\S]*?---\n?/, "");
-  return result;
+  return { documentId, content, chunks, metadata: options.metadata ?? {} };
 }
 
-/**
- * Load a JSON file — each top-level key or array item becomes a chunk.
- */
-export async function loadJson(
-  pathOrContent: string,
-  options: DocumentLoaderOptions & { textField?: string } = {}
-): Promise<LoadedDocument> {
-  let raw: string;
-  let docId: string;
+/** Options for a file load: ID from the filename, `source` and `mtime` metadata. */
+async function fileOptions<O extends DocumentLoaderOptions>(path: string, options: O): Promise<O> {
+  const { mtime } = await stat(path);
+  return {
+    ...options,
+    documentId: options.documentId ?? basename(path),
+    metadata: { source: path, mtime: mtime.toISOString(), ...options.metadata },
+  };
+}
 
-  const isPath = !pathOrContent.includes("\n") && pathOrContent.length < 500;
-  if (isPath) {
-    try {
-      raw = await readFile(pathOrContent, "utf-8");
-      docId = options.documentId ?? basename(pathOrContent);
-    } catch {
-      raw = pathOrContent;
-      docId = options.documentId ?? "json-document";
+function textLoaderOf<O extends DocumentLoaderOptions>(
+  fromString: (content: string, options: O) => LoadedDocument,
+): TextDocumentLoader<O> {
+  return {
+    async fromFile(path, options = {} as O) {
+      const resolved = await fileOptions(path, options);
+      return fromString(await readFile(path, "utf-8"), resolved);
+    },
+    async fromString(content, options = {} as O) {
+      return fromString(content, options);
+    },
+  };
+}
+
+function binaryLoaderOf<O extends DocumentLoaderOptions>(
+  fromBuffer: (data: Uint8Array, options: O) => LoadedDocument | Promise<LoadedDocument>,
+): BinaryDocumentLoader<O> {
+  return {
+    async fromFile(path, options = {} as O) {
+      const resolved = await fileOptions(path, options);
+      return fromBuffer(await readFile(path), resolved);
+    },
+    async fromBuffer(data, options = {} as O) {
+      return fromBuffer(data, options);
+    },
+  };
+}
+
+/** Group blocks into sections under their heading path, as the MarkdownSplitter does. */
+function headingSections(blocks: Array<{ text: string; level?: number }>): Section[] {
+  const sections: Section[] = [];
+  const path: Heading[] = [];
+  let lines: string[] = [];
+  const flush = () => {
+    const text = lines.join("\n\n").trim();
+    if (!text) return;
+    sections.push(path.length
+      ? { text, metadata: { headings: path.map((h) => h.text), headingPath: formatHeadingPath(path) } }
+      : { text });
+    lines = [];
+  };
+  for (const block of blocks) {
+    if (block.level) {
+      flush();
+      while (path.length && path[path.length - 1].level >= block.level) path.pop();
+      path.push({ level: block.level, text: block.text });
     }
-  } else {
-    raw = pathOrContent;
-    docId = options.documentId ?? "json-document";
+    lines.push(block.text);
   }
+  flush();
+  return sections;
+}
+
+// ─── Text & Markdown ───────────────────────────────────────────────
+
+/** Plain text. */
+export const textLoader: TextDocumentLoader = textLoaderOf((content, options) =>
+  buildDocument(options.documentId ?? "text-document", [{ text: content }], options));
+
+/**
+ * Markdown — strips YAML frontmatter and splits by heading; chunks carry their heading
+ * path as `metadata.headings` and `metadata.headingPath` (see {@link MarkdownSplitter}).
+ */
+export const markdownLoader: TextDocumentLoader = textLoaderOf((content, options) => {
+  const body = content.replace(/^---[\s\S]*?---\n?/, "");
+  return buildDocument(options.documentId ?? "text-document", [{ text: body }], options,
+    () => new MarkdownSplitter(options));
+});
+
+// ─── JSON ──────────────────────────────────────────────────────────
 
+/** JSON — each top-level key or array item becomes a chunk. */
+export const jsonLoader: TextDocumentLoader<JsonLoaderOptions> = textLoaderOf((raw, options) => {
+  const docId = options.documentId ?? "json-document";
   const parsed = JSON.parse(raw);
   const items: Array<{ key: string; text: string }> = [];
 
@@ -122,4 +249,353 @@ export async function loadJson(
   }));
 
   return { documentId: docId, content: raw, chunks, metadata: options.metadata ?? {} };
+});
+
+// ─── HTML ──────────────────────────────────────────────────────────
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", ndash: "–", mdash: "—",
+  hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", copy: "©", reg: "®", trade: "™",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripElements(html: string, tags: string[]): string {
+  const pattern = new RegExp(`<(${tags.join("|")})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, "gi");
+  return html.replace(pattern, " ");
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<\/?(p|div|section|article|main|ul|ol|table|tr|blockquote|pre|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, "\n\n")
+      .replace(/<\/t[dh]\s*>/gi, "\t")
+      .replace(/<[^>]+>/g, ""),
+  )
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * HTML — drops scripts, styles and page chrome (navigation, header, footer), keeps
+ * `<main>` or `<article>` when present, and splits by heading. Chunks carry their
+ * heading path as `metadata.headings`; the page `<title>` becomes `metadata.title`.
+ */
+export const htmlLoader: TextDocumentLoader<HtmlLoaderOptions> = textLoaderOf((html, options) => {
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(html)?.[1];
+  let body = stripElements(html.replace(/<!--[\s\S]*?-->/g, ""), [
+    "head", "script", "style", "noscript", "template", "svg", "iframe",
+  ]);
+  if (!options.keepBoilerplate) body = stripElements(body, ["nav", "header", "footer", "aside", "form"]);
+  body = /<main\b[^>]*>([\s\S]*?)<\/main\s*>/i.exec(body)?.[1]
+    ?? /<article\b[^>]*>([\s\S]*?)<\/article\s*>/i.exec(body)?.[1]
+    ?? body;
+
+  const blocks: Array<{ text: string; level?: number }> = [];
+  const heading = /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi;
+  let last = 0;
+  for (const match of body.matchAll(heading)) {
+    blocks.push({ text: htmlToText(body.slice(last, match.index)) });
+    blocks.push({ text: htmlToText(match[2]), level: Number(match[1]) });
+    last = match.index! + match[0].length;
+  }
+  blocks.push({ text: htmlToText(body.slice(last)) });
+
+  const sections = headingSections(blocks.filter((b) => b.text));
+  const resolved = title ? { ...options, metadata: { title: htmlToText(title), ...options.metadata } } : options;
+  return buildDocument(options.documentId ?? "html-document", sections, resolved);
+});
+
+// ─── CSV ───────────────────────────────────────────────────────────
+
+/** RFC 4180 parsing: quoted fields may contain delimiters, `""` and newlines. */
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (c === "\"") {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === "\"" && field === "") {
+      quoted = true;
+    } else if (text.startsWith(delimiter, i)) {
+      row.push(field);
+      field = "";
+      i += delimiter.length - 1;
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * CSV — the first row names the columns and every following row becomes one chunk.
+ * Chunks carry `metadata.row` (1-based, header excluded) and `metadata.columns`
+ * (column name → value), so rows can be filtered on `columns.<name>`.
+ */
+export const csvLoader: TextDocumentLoader<CsvLoaderOptions> = {
+  async fromFile(path, options = {}) {
+    const delimiter = options.delimiter ?? (extname(path).toLowerCase() === ".tsv" ? "\t" : ",");
+    return textLoaderOf(csvDocument).fromFile(path, { ...options, delimiter });
+  },
+  async fromString(content, options = {}) {
+    return csvDocument(content, options);
+  },
+};
+
+function csvDocument(content: string, options: CsvLoaderOptions): LoadedDocument {
+  const docId = options.documentId ?? "csv-document";
+  const [header = [], ...rows] = parseCsv(content.replace(/^\uFEFF/, ""), options.delimiter ?? ",");
+  const columns = header.map((name) => name.trim());
+  const chunks: VectorChunk[] = rows.map((values, index) => {
+    const record = Object.fromEntries(columns.map((name, i) => [name, values[i] ?? ""]));
+    const text = options.textColumns
+      ? options.textColumns.map((name) => record[name] ?? "").filter(Boolean).join("\n")
+      : columns.map((name) => `${name}: ${record[name]}`).join("\n");
+    return {
+      id: `${docId}-${index}`,
+      documentId: docId,
+      content: text,
+      index,
+      metadata: { ...options.metadata, row: index + 1, columns: record },
+    };
+  });
+  return { documentId: docId, content, chunks, metadata: options.metadata ?? {} };
+}
+
+// ─── PDF & DOCX ────────────────────────────────────────────────────
+
+/**
+ * PDF — text of each page, with `metadata.page` (1-based) on its chunks.
+ *
+ * @description The built-in extractor reads the page content streams: it decodes
+ * FlateDecode streams only, returns nothing for scanned pages without a text layer
+ * and rejects encrypted PDFs with a ValidationError. Pass `extractPages` to use a
+ * full PDF library instead.
+ */
+export const pdfLoader: BinaryDocumentLoader<PdfLoaderOptions> = binaryLoaderOf(async (data, options) => {
+  const pages = await (options.extractPages ?? extractPdfText)(data);
+  const sections = pages
+    .map((text, i): Section => ({ text, metadata: { page: i + 1 } }))
+    .filter((section) => section.text);
+  return buildDocument(options.documentId ?? "pdf-document", sections, {
+    ...options,
+    metadata: { pages: pages.length, ...options.metadata },
+  });
+});
+
+/**
+ * DOCX — body paragraphs, split by heading with the heading path as `metadata.headings`.
+ *
+ * @description The built-in extractor rejects zip64 and encrypted archives with a
+ * ValidationError and skips footnotes, headers and footers. Pass `extractParagraphs`
+ * to use a full DOCX library instead.
+ */
+export const docxLoader: BinaryDocumentLoader<DocxLoaderOptions> = binaryLoaderOf(async (data, options) => {
+  const paragraphs = await (options.extractParagraphs ?? extractDocxParagraphs)(data);
+  const sections = headingSections(paragraphs.map((p) => ({ text: p.text, level: p.headingLevel })));
+  return buildDocument(options.documentId ?? "docx-document", sections, options);
+});
+
+// ─── By extension ──────────────────────────────────────────────────
+
+const LOADERS_BY_EXTENSION: Record<string, DocumentLoader> = {
+  ".txt": textLoader,
+  ".text": textLoader,
+  ".log": textLoader,
+  ".md": markdownLoader,
+  ".markdown": markdownLoader,
+  ".mdx": markdownLoader,
+  ".json": jsonLoader,
+  ".html": htmlLoader,
+  ".htm": htmlLoader,
+  ".csv": csvLoader,
+  ".tsv": csvLoader,
+  ".pdf": pdfLoader,
+  ".docx": docxLoader,
+};
+
+/** The loader for a file extension (with or without the dot), or `undefined`. */
+export function loaderForExtension(extension: string): DocumentLoader | undefined {
+  const ext = extension.startsWith(".") ? extension : `.${extension}`;
+  return LOADERS_BY_EXTENSION[ext.toLowerCase()];
+}
+
+/** Load a file with the loader for its extension, falling back to plain text. */
+export async function loadFile(path: string, options: DocumentLoaderOptions = {}): Promise<LoadedDocument> {
+  const loader = loaderForExtension(extname(path)) ?? textLoader;
+  return loader.fromFile(path, options);
+}
+
+// ─── Directory ─────────────────────────────────────────────────────
+
+export interface LoadDirectoryOptions extends DocumentLoaderOptions {
+  /** Glob(s) relative to the directory: `*`, `?`, `**` and `{a,b}` (default: `"**\/*"`). */
+  glob?: string | string[];
+  /** Globs to skip, matched the same way. */
+  ignore?: string[];
+  /** Loaders by extension, overriding or extending the built-in ones (e.g. `{ ".rst": textLoader }`). */
+  loaders?: Record<string, DocumentLoader>;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      out += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") {
+      out += "[^/]*";
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "{") {
+      out += "(?:";
+    } else if (c === "}") {
+      out += ")";
+    } else if (c === ",") {
+      out += out.lastIndexOf("(?:") > out.lastIndexOf(")") ? "|" : ",";
+    } else {
+      out += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${out}$`);
+}
+
+async function walk(root: string, dir = root): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...await walk(root, path));
+    else if (entry.isFile()) files.push(relative(root, path).split(sep).join("/"));
+  }
+  return files;
+}
+
+/**
+ * Load every matching file under `dir`, picking the loader by extension.
+ *
+ * @description Files without a known loader are skipped, as are dotfiles and
+ * `node_modules`. Document IDs are the paths relative to `dir` (with `/`
+ * separators), and every chunk carries `source` and `mtime` metadata.
+ */
+export async function loadDirectory(dir: string, options: LoadDirectoryOptions = {}): Promise<LoadedDocument[]> {
+  const { glob = "**/*", ignore = [], loaders = {}, ...loaderOptions } = options;
+  const include = [glob].flat().map(globToRegExp);
+  const exclude = ignore.map(globToRegExp);
+  const docs: LoadedDocument[] = [];
+  for (const file of await walk(dir)) {
+    if (!include.some((re) => re.test(file)) || exclude.some((re) => re.test(file))) continue;
+    const ext = extname(file).toLowerCase();
+    const loader = loaders[ext] ?? loaderForExtension(ext);
+    if (!loader) continue;
+    docs.push(await loader.fromFile(join(dir, file), { ...loaderOptions, documentId: file }));
+  }
+  return docs;
+}
+
+// ─── Path-or-content shorthands ────────────────────────────────────
+
+/** Guess whether a string names a file; prefer the explicit `fromFile`/`fromString`. */
+function looksLikePath(value: string): boolean {
+  return !value.includes("\n") && value.length < 500;
+}
+
+/**
+ * Whether a string has the shape of a file path rather than of inline text: no
+ * whitespace, and a leading `/`, `./`, `../`, `~/` or drive letter, or the
+ * extension of a known loader.
+ * @internal
+ */
+export function isPathShaped(value: string): boolean {
+  if (!looksLikePath(value) || /\s/.test(value)) return false;
+  return /^(\.{0,2}[\\/]|~[\\/]|[a-z]:[\\/])/i.test(value) || loaderForExtension(extname(value)) !== undefined;
+}
+
+/**
+ * Load `pathOrContent` as a file, falling back to inline content when it cannot
+ * be read. Use the loader's `fromFile` to get file errors instead.
+ */
+async function fromPathOrContent<O extends DocumentLoaderOptions>(
+  loader: TextDocumentLoader<O>,
+  pathOrContent: string,
+  options: O,
+): Promise<LoadedDocument> {
+  if (looksLikePath(pathOrContent)) {
+    try {
+      return await loader.fromFile(pathOrContent, options);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === undefined) throw err;
+    }
+  }
+  return loader.fromString(pathOrContent, options);
+}
+
+/**
+ * Load a plain text file and split into chunks.
+ * Short single-line strings are tried as a path first; use {@link textLoader} to be explicit.
+ */
+export async function loadText(
+  pathOrContent: string,
+  options: DocumentLoaderOptions = {}
+): Promise<LoadedDocument> {
+  return fromPathOrContent(textLoader, pathOrContent, options);
+}
+
+/**
+ * Load a Markdown file — strips frontmatter, splits on headings.
+ * Short single-line strings are tried as a path first; use {@link markdownLoader} to be explicit.
+ */
+export async function loadMarkdown(
+  pathOrContent: string,
+  options: DocumentLoaderOptions = {}
+): Promise<LoadedDocument> {
+  return fromPathOrContent(markdownLoader, pathOrContent, options);
+}
+
+/**
+ * Load a JSON file — each top-level key or array item becomes a chunk.
+ * Short single-line strings are tried as a path first; use {@link jsonLoader} to be explicit.
+ */
+export async function loadJson(
+  pathOrContent: string,
+  options: JsonLoaderOptions = {}
+): Promise<LoadedDocument> {
+  return fromPathOrContent(jsonLoader, pathOrContent, options);
 }
@@ -0,0 +1,126 @@
+/**
+ * Minimal DOCX text extraction for `docxLoader`.
+ *
+ * Reads `word/document.xml` out of the zip container and returns its paragraphs
+ * with heading levels taken from the paragraph style (`Heading1`…) or outline
+ * level.
+ *
+ * Known limits — pass `extractParagraphs` to `docxLoader` for anything beyond them:
+ * - Zip64 archives, encrypted entries and compression other than deflate are
+ *   rejected with a ValidationError.
+ * - The XML is matched with regular expressions, not parsed: paragraphs nested
+ *   in text boxes may be merged into their container.
+ * - Custom heading styles are not resolved through `styles.xml`; footnotes,
+ *   comments, headers and footers are not included.
+ *
+ * @internal
+ */
+import { inflateRawSync } from "node:zlib";
+
+import { ValidationError } from "./errors.js";
+
+export interface DocxParagraph {
+  text: string;
+  /** 1-based heading level, if the paragraph is a heading. */
+  headingLevel?: number;
+}
+
+// ─── Zip ───────────────────────────────────────────────────────────
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** Read one entry from a zip archive, or `undefined` if it is absent. */
+export function readZipEntry(data: Uint8Array, name: string): Buffer | undefined {
+  const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ValidationError("not a zip archive", "data");
+
+  const count = buf.readUInt16LE(eocd + 10);
+  let pos = buf.readUInt32LE(eocd + 16);
+  if (count === 0xffff || pos === 0xffffffff) throw new ValidationError("zip64 archives are not supported", "data");
+  for (let i = 0; i < count && pos + 46 <= buf.length; i++) {
+    if (buf.readUInt32LE(pos) !== CENTRAL_SIGNATURE) break;
+    const flags = buf.readUInt16LE(pos + 8);
+    const method = buf.readUInt16LE(pos + 10);
+    const compressedSize = buf.readUInt32LE(pos + 20);
+    const nameLength = buf.readUInt16LE(pos + 28);
+    const extraLength = buf.readUInt16LE(pos + 30);
+    const commentLength = buf.readUInt16LE(pos + 32);
+    const localOffset = buf.readUInt32LE(pos + 42);
+    const entryName = buf.toString("utf-8", pos + 46, pos + 46 + nameLength);
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) continue;
+
+    if (flags & 1) throw new ValidationError("encrypted zip entries are not supported", "data");
+    if (localOffset + 30 > buf.length || buf.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+      throw new ValidationError("corrupt zip archive", "data");
+    }
+    const start = localOffset + 30 + buf.readUInt16LE(localOffset + 26) + buf.readUInt16LE(localOffset + 28);
+    if (start + compressedSize > buf.length) throw new ValidationError("truncated zip archive", "data");
+    const raw = buf.subarray(start, start + compressedSize);
+    if (method === 0) return raw;
+    if (method !== 8) throw new ValidationError(`unsupported zip compression method ${method}`, "data");
+    try {
+      return inflateRawSync(raw);
+    } catch {
+      throw new ValidationError("corrupt zip archive", "data");
+    }
+  }
+  return undefined;
+}
+
+// ─── Document XML ──────────────────────────────────────────────────
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith("#")) return String.fromCodePoint(Number(entity.slice(1)));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function headingLevel(properties: string): number | undefined {
+  const outline = /<w:outlineLvl\s+w:val="(\d)"/.exec(properties);
+  if (outline) return Number(outline[1]) + 1;
+  const style = /<w:pStyle\s+w:val="([^"]*)"/.exec(properties)?.[1];
+  if (!style) return undefined;
+  if (/^title$/i.test(style)) return 1;
+  const heading = /^heading\s*(\d)$/i.exec(style);
+  return heading ? Number(heading[1]) : undefined;
+}
+
+/**
+ * Extract the body paragraphs of a DOCX file, skipping empty ones.
+ *
+ * @throws {ValidationError} If the data is not a DOCX archive.
+ */
+export function extractDocxParagraphs(data: Uint8Array): DocxParagraph[] {
+  const xml = readZipEntry(data, "word/document.xml")?.toString("utf-8");
+  if (xml === undefined) throw new ValidationError("not a DOCX file: word/document.xml is missing", "data");
+
+  const paragraphs: DocxParagraph[] = [];
+  for (const match of xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>|<w:p\/>/g)) {
+    const paragraph = match[0];
+    const properties = /<w:pPr>[\s\S]*?<\/w:pPr>/.exec(paragraph)?.[0] ?? "";
+    let text = "";
+    for (const run of paragraph.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g)) {
+      if (run[2] === "tab") text += "\t";
+      else if (run[2]) text += "\n";
+      else text += decodeXml(run[1]);
+    }
+    if (!text.trim()) continue;
+    const level = headingLevel(properties);
+    paragraphs.push(level ? { text: text.trim(), headingLevel: level } : { text });
+  }
+  return paragraphs;
+}
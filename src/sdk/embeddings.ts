@@ -0,0 +1,317 @@
+/**
+ * Embedders — turn text into vectors for {@link VectorStore} and `RagPipeline`.
+ *
+ * `ProviderEmbedder` calls a provider's embeddings API, splitting large inputs
+ * into batches the provider accepts. `LocalEmbedder` hashes word and character
+ * n-grams into a fixed-size vector, so RAG code and tests run offline and
+ * deterministically. `CachedEmbedder` skips texts it has already embedded.
+ *
+ * @example
+ *   const embedder = new CachedEmbedder(new ProviderEmbedder({ provider: "openai" }));
+ *   const [vector] = await embedder.embed(["How do refunds work?"]);
+ *
+ * @example
+ *   // Offline: no network, same input always yields the same vector
+ *   const rag = new RagPipeline({ embed: new LocalEmbedder({ dimensions: 256 }) });
+ */
+import { createHash } from "node:crypto";
+
+import type { Embedder, ProviderType } from "./types.js";
+import { resolveApiKey } from "./types.js";
+import { EMBEDDING_DEFAULTS } from "./models.js";
+import { ProviderError, ValidationError } from "./errors.js";
+import { tokenize } from "./bm25.js";
+
+// ─── Provider embedder ─────────────────────────────────────────────
+
+export interface ProviderEmbedderOptions {
+  provider: ProviderType;
+  /** Embedding model (default: per provider, see `EMBEDDING_DEFAULTS`). */
+  model?: string;
+  /** API key. Auto-resolved from environment if omitted. */
+  apiKey?: string;
+  baseUrl?: string;
+  /** Requested vector size, for models that support shortening (OpenAI v3, Google, Ollama). */
+  dimensions?: number;
+  /** Texts per request, capped at the provider's limit. */
+  batchSize?: number;
+}
+
+type WireFormat = "openai" | "google" | "ollama";
+
+interface EmbeddingApi {
+  format: WireFormat;
+  baseUrl: string;
+  /** Maximum number of inputs accepted by one request. */
+  maxBatch: number;
+}
+
+const EMBEDDING_APIS: Partial<Record<ProviderType, EmbeddingApi>> = {
+  openai: { format: "openai", baseUrl: "https://api.openai.com/v1", maxBatch: 2048 },
+  mistral: { format: "openai", baseUrl: "https://api.mistral.ai/v1", maxBatch: 128 },
+  together: { format: "openai", baseUrl: "https://api.together.xyz/v1", maxBatch: 128 },
+  fireworks: { format: "openai", baseUrl: "https://api.fireworks.ai/inference/v1", maxBatch: 256 },
+  google: { format: "google", baseUrl: "https://generativelanguage.googleapis.com/v1beta", maxBatch: 100 },
+  ollama: { format: "ollama", baseUrl: "http://localhost:11434", maxBatch: 512 },
+};
+
+/**
+ * Embedder backed by a provider's embeddings API.
+ *
+ * Inputs are sent in sequential batches of at most `batchSize` texts (and never
+ * more than the provider accepts per request), and results keep input order.
+ *
+ * @throws {ValidationError} From the constructor if the provider has no embeddings API.
+ */
+export class ProviderEmbedder implements Embedder {
+  readonly id: string;
+  readonly provider: ProviderType;
+  readonly model: string;
+  readonly dimensions?: number;
+  private readonly api: EmbeddingApi;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly batchSize: number;
+
+  constructor(options: ProviderEmbedderOptions) {
+    const api = EMBEDDING_APIS[options.provider];
+    if (!api) {
+      throw new ValidationError(`provider "${options.provider}" has no embeddings API`, "provider");
+    }
+    this.api = api;
+    this.provider = options.provider;
+    this.model = options.model ?? EMBEDDING_DEFAULTS[options.provider];
+    this.id = `${this.provider}/${this.model}`;
+    this.dimensions = options.dimensions;
+    this.apiKey = options.apiKey ?? resolveApiKey(options.provider);
+    this.baseUrl = (options.baseUrl ?? api.baseUrl).replace(/\/+$/, "");
+    this.batchSize = Math.max(1, Math.min(options.batchSize ?? api.maxBatch, api.maxBatch));
+  }
+
+  async embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize);
+      const embedded = await this.request(batch, options?.signal);
+      if (embedded.length !== batch.length) {
+        throw new ProviderError(this.provider, `expected ${batch.length} embeddings, got ${embedded.length}`);
+      }
+      vectors.push(...embedded);
+    }
+    return vectors;
+  }
+
+  private async request(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const { url, headers, body } = this.buildRequest(texts);
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => "")).slice(0, 200);
+      throw new ProviderError(this.provider, `embeddings request failed (${response.status})${detail ? `: ${detail}` : ""}`);
+    }
+    const payload = await response.json() as Record<string, unknown>;
+    switch (this.api.format) {
+      case "openai":
+        return (payload.data as Array<{ index: number; embedding: number[] }>)
+          .sort((a, b) => a.index - b.index)
+          .map((d) => d.embedding);
+      case "google":
+        return (payload.embeddings as Array<{ values: number[] }>).map((e) => e.values);
+      case "ollama":
+        return payload.embeddings as number[][];
+    }
+  }
+
+  private buildRequest(texts: string[]): { url: string; headers: Record<string, string>; body: unknown } {
+    switch (this.api.format) {
+      case "openai":
+        return {
+          url: `${this.baseUrl}/embeddings`,
+          headers: { Authorization: `Bearer ${this.apiKey}` },
+          body: { model: this.model, input: texts, dimensions: this.dimensions },
+        };
+      case "google":
+        return {
+          url: `${this.baseUrl}/models/${this.model}:batchEmbedContents`,
+          headers: { "x-goog-api-key": this.apiKey },
+          body: {
+            requests: texts.map((text) => ({
+              model: `models/${this.model}`,
+              content: { parts: [{ text }] },
+              outputDimensionality: this.dimensions,
+            })),
+          },
+        };
+      case "ollama":
+        return {
+          url: `${this.baseUrl}/api/embed`,
+          headers: {},
+          body: { model: this.model, input: texts, dimensions: this.dimensions },
+        };
+    }
+  }
+}
+
+// ─── Local embedder ────────────────────────────────────────────────
+
+export interface LocalEmbedderOptions {
+  /** Vector size (default: 256). */
+  dimensions?: number;
+  /** Character n-gram length (default: 3). */
+  ngram?: number;
+}
+
+/**
+ * Deterministic offline embedder using feature hashing.
+ *
+ * Each word and each character n-gram of a word is hashed to a signed bucket;
+ * vectors are L2-normalized, so texts sharing words or word fragments have a
+ * positive cosine similarity. Good for tests and small offline corpora — not a
+ * substitute for a semantic model.
+ */
+export class LocalEmbedder implements Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+  private readonly ngram: number;
+
+  constructor(options: LocalEmbedderOptions = {}) {
+    this.dimensions = Math.max(1, options.dimensions ?? 256);
+    this.ngram = Math.max(1, options.ngram ?? 3);
+    this.id = `local/hashed-ngram-${this.ngram}-${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const word of tokenize(text)) {
+      this.add(vector, `w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + this.ngram <= padded.length; i++) {
+        this.add(vector, `g:${padded.slice(i, i + this.ngram)}`, 0.5);
+      }
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+
+  private add(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+  }
+}
+
+/** 32-bit FNV-1a hash as an unsigned integer. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ─── Cache ─────────────────────────────────────────────────────────
+
+export interface EmbeddingCacheOptions {
+  /** Vectors kept before the least recently used are evicted (default: 10000). */
+  maxEntries?: number;
+}
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+/**
+ * Wraps an embedder with an in-memory LRU cache keyed by a SHA-256 of each text.
+ *
+ * Only texts missing from the cache are sent to the wrapped embedder, and
+ * duplicates within one call are embedded once.
+ */
+export class CachedEmbedder implements Embedder {
+  private readonly cache = new Map<string, number[]>();
+  private readonly maxEntries: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly inner: Embedder, options: EmbeddingCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 10_000);
+  }
+
+  get id(): string { return this.inner.id; }
+
+  get dimensions(): number | undefined { return this.inner.dimensions; }
+
+  async embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]> {
+    const keys = texts.map((text) => createHash("sha256").update(text).digest("hex"));
+    // Take hits before awaiting: concurrent calls may evict them meanwhile
+    const cached = new Map<string, number[]>();
+    const missing = new Map<string, string>();
+    keys.forEach((key, i) => {
+      if (cached.has(key) || missing.has(key)) return;
+      const vector = this.touch(key);
+      if (vector) cached.set(key, vector);
+      else missing.set(key, texts[i]);
+    });
+    this.misses += missing.size;
+    this.hits += texts.length - missing.size;
+
+    const fresh = new Map<string, number[]>();
+    if (missing.size > 0) {
+      const vectors = await this.inner.embed([...missing.values()], options);
+      [...missing.keys()].forEach((key, i) => fresh.set(key, vectors[i]));
+    }
+    for (const [key, vector] of fresh) this.store(key, vector);
+    return keys.map((key) => cached.get(key) ?? fresh.get(key)!);
+  }
+
+  stats(): EmbeddingCacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.cache.size };
+  }
+
+  clear(): void {
+    this.cache.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /** Read a cached vector, if any, and mark it most recently used. */
+  private touch(key: string): number[] | undefined {
+    const vector = this.cache.get(key);
+    if (vector) {
+      this.cache.delete(key);
+      this.cache.set(key, vector);
+    }
+    return vector;
+  }
+
+  private store(key: string, vector: number[]): void {
+    this.cache.delete(key);
+    this.cache.set(key, vector);
+    if (this.cache.size > this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────
+
+/** Single-text embed callback, as accepted by {@link VectorStore.searchByText}. */
+export type EmbedFn = (text: string) => Promise<number[]>;
+
+/**
+ * Adapt a single-text callback to the {@link Embedder} interface.
+ * @internal
+ */
+export function toEmbedder(embed: Embedder | EmbedFn): Embedder {
+  if (typeof embed !== "function") return embed;
+  return { id: "custom", embed: (texts) => Promise.all(texts.map((text) => embed(text))) };
+}
@@ -16,6 +16,8 @@
  * @since 2.1.0
  */
 
+import type { GuardrailStage, GuardrailViolation, PartialUsage, ProviderFailure } from "./types.js";
+
 /** Base error for all Gauss SDK errors. Includes an error code for programmatic matching. */
 export class GaussError extends Error {
   readonly code: string;
@@ -48,6 +50,19 @@ export class ProviderError extends GaussError {
   }
 }
 
+/** Thrown when every provider in a fallback chain failed or had an open circuit. */
+export class FallbackExhaustedError extends GaussError {
+  readonly failures: ProviderFailure[];
+  readonly cause?: Error;
+  constructor(failures: ProviderFailure[], cause?: Error) {
+    const detail = failures.map((f) => `${f.provider}/${f.model}: ${f.error}`).join("; ");
+    super("FALLBACK_EXHAUSTED", `All providers failed (${detail})`);
+    this.name = "FallbackExhaustedError";
+    this.failures = failures;
+    this.cause = cause;
+  }
+}
+
 /** Thrown when tool execution fails. */
 export class ToolExecutionError extends GaussError {
   readonly toolName: string;
@@ -69,3 +84,47 @@ export class ValidationError extends GaussError {
     this.field = field;
   }
 }
+
+/** Thrown when a guardrail blocks an agent's input or output. */
+export class GuardrailError extends GaussError {
+  readonly stage: GuardrailStage;
+  readonly violations: GuardrailViolation[];
+  constructor(stage: GuardrailStage, violations: GuardrailViolation[]) {
+    const reasons = violations.filter((v) => v.action === "block").map((v) => v.message);
+    super("GUARDRAIL_BLOCKED", `Guardrail blocked ${stage}: ${reasons.join("; ") || "policy violation"}`);
+    this.name = "GuardrailError";
+    this.stage = stage;
+    this.violations = violations;
+  }
+}
+
+/** Thrown when an operation is cancelled through an `AbortSignal`. */
+export class AbortError extends GaussError {
+  /** Best-effort usage consumed before cancellation (set for agent runs). */
+  readonly partialUsage?: PartialUsage;
+  /** The signal's abort reason, if any. */
+  readonly reason?: unknown;
+  constructor(message: string, partialUsage?: PartialUsage, reason?: unknown) {
+    super("ABORTED", message);
+    this.name = "AbortError";
+    this.partialUsage = partialUsage;
+    this.reason = reason;
+  }
+}
+
+/** Thrown when a request needs a feature (e.g. vision) the provider/model does not support. */
+export class CapabilityError extends GaussError {
+  readonly capability: string;
+  readonly provider: string;
+  readonly model: string;
+  constructor(capability: string, provider: string, model: string, detail?: string) {
+    super(
+      "UNSUPPORTED_CAPABILITY",
+      `${provider}/${model} does not support ${capability}${detail ? `: ${detail}` : ""}`
+    );
+    this.name = "CapabilityError";
+    this.capability = capability;
+    this.provider = provider;
+    this.model = model;
+  }
+}
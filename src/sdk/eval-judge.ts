@@ -0,0 +1,109 @@
+/**
+ * LLM-as-judge scorers for {@link EvalRunner}.
+ *
+ * A second agent grades each output against a rubric and returns a structured
+ * verdict (`score` 1–5 plus a rationale). Scores are normalized to [0, 1] and
+ * the rationale is kept on the case result.
+ *
+ * @example
+ *   const judge = new Agent({ model: "gpt-4o", instructions: "You are a strict grader." });
+ *   const runner = new EvalRunner(0.7)
+ *     .addScorer(judgeScorer(judge, { criterion: "correctness" }))
+ *     .addScorer(judgeScorer(judge, { criterion: "faithfulness" }));
+ *   const report = await runner.run(agent, dataset);
+ *   report.cases[0].rationales["judge_correctness"];
+ */
+import type { Agent } from "./agent.js";
+import type { EvalScore, EvalScorer, EvalScorerContext } from "./eval.js";
+import { structured, type JsonSchema } from "./structured.js";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** What the judge grades. */
+export type JudgeCriterion = "faithfulness" | "relevance" | "correctness";
+
+export interface JudgeScorerOptions {
+  criterion: JudgeCriterion;
+  /** Replaces the built-in rubric for the criterion. */
+  rubric?: string;
+  /** Scorer name in reports (default: `judge_<criterion>`). */
+  name?: string;
+  /**
+   * Source context for faithfulness. Defaults to `metadata.context`
+   * (a string or string array) on the case.
+   */
+  context?: (ctx: EvalScorerContext) => string | string[] | undefined;
+  /** Parse retries passed to {@link structured} (default: 2). */
+  maxParseRetries?: number;
+}
+
+/** Structured verdict returned by the judge. */
+export interface JudgeVerdict {
+  score: number;
+  rationale: string;
+}
+
+// ─── Implementation ────────────────────────────────────────────────
+
+const RUBRICS: Record<JudgeCriterion, string> = {
+  faithfulness:
+    "Is every claim in the answer supported by the context? " +
+    "5 = fully supported, 3 = some unsupported details, 1 = contradicts or invents facts.",
+  relevance:
+    "Does the answer address the question directly and completely? " +
+    "5 = fully on point, 3 = partially relevant, 1 = off-topic.",
+  correctness:
+    "Does the answer agree with the reference answer? " +
+    "5 = equivalent, 3 = partially correct, 1 = wrong.",
+};
+
+const VERDICT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    score: { type: "integer", minimum: 1, maximum: 5, description: "Grade from 1 (worst) to 5 (best)" },
+    rationale: { type: "string", description: "One or two sentences justifying the grade" },
+  },
+  required: ["score", "rationale"],
+};
+
+function resolveContext(ctx: EvalScorerContext, options: JudgeScorerOptions): string | undefined {
+  const raw = options.context ? options.context(ctx) : ctx.metadata?.context;
+  if (typeof raw === "string") return raw;
+  if (Array.isArray(raw)) return raw.map(String).join("\n\n");
+  return undefined;
+}
+
+/**
+ * Create a scorer that asks `judge` to grade outputs on one criterion.
+ *
+ * Not applicable (skipped) when the criterion's inputs are missing:
+ * correctness needs `expected`, faithfulness needs context.
+ */
+export function judgeScorer(judge: Agent, options: JudgeScorerOptions): EvalScorer {
+  const { criterion } = options;
+  const rubric = options.rubric ?? RUBRICS[criterion];
+
+  return {
+    name: options.name ?? `judge_${criterion}`,
+    async score(ctx): Promise<EvalScore | null> {
+      const sections = [`Criterion: ${criterion}`, `Rubric: ${rubric}`, `Question:\n${ctx.input}`];
+      if (criterion === "correctness") {
+        if (ctx.expected === undefined) return null;
+        sections.push(`Reference answer:\n${ctx.expected}`);
+      } else if (criterion === "faithfulness") {
+        const context = resolveContext(ctx, options);
+        if (context === undefined) return null;
+        sections.push(`Context:\n${context}`);
+      }
+      sections.push(`Answer to grade:\n${ctx.output}`);
+
+      const { data } = await structured<JudgeVerdict>(judge, sections.join("\n\n"), {
+        schema: VERDICT_SCHEMA,
+        maxParseRetries: options.maxParseRetries ?? 2,
+      });
+      const grade = Math.min(5, Math.max(1, Number(data.score)));
+      if (!Number.isFinite(grade)) throw new Error(`judge returned a non-numeric score: ${String(data.score)}`);
+      return { score: (grade - 1) / 4, rationale: String(data.rationale ?? "") };
+    },
+  };
+}
@@ -1,35 +1,250 @@
 /**
  * Eval SDK wrapper — evaluation runner backed by Rust core.
+ *
+ * @example
+ *   const runner = new EvalRunner(0.8).addScorer("exact_match").addScorer("contains");
+ *   const dataset = EvalRunner.loadDatasetJsonl(jsonl);
+ *   const report = await runner.run(agent, dataset, { concurrency: 4 });
+ *   fs.writeFileSync("eval.xml", EvalRunner.toJUnitXml(report));
  */
 import {
   create_eval_runner,
-  eval_add_scorer,
   load_dataset_jsonl,
   load_dataset_json,
   destroy_eval_runner,
 } from "gauss-napi";
 
 import type { Handle, Disposable, EvalScorerType } from "./types.js";
-import { DisposedError } from "./errors.js";
+import { DisposedError, ValidationError } from "./errors.js";
+import { Agent } from "./agent.js";
+import { estimateCost } from "./tokens.js";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** A single evaluation case. */
+export interface EvalCase {
+  input: string;
+  /** Reference answer. Cases without one are only checked for errors. */
+  expected?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** A dataset as returned by {@link EvalRunner.loadDatasetJsonl} or a plain case list. */
+export type EvalDataset = EvalCase[] | { items: EvalCase[] };
+
+/** Output of a function target: plain text, or text with usage. */
+export type EvalTargetOutput =
+  | string
+  | { text: string; inputTokens?: number; outputTokens?: number; costUsd?: number };
+
+/** Anything that can be evaluated: an {@link Agent} or an async function. */
+export type EvalTarget = Agent | ((input: string) => Promise<EvalTargetOutput>);
+
+/** What a scorer sees for one case. */
+export interface EvalScorerContext {
+  input: string;
+  output: string;
+  expected?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** A score in [0, 1], optionally with an explanation (e.g. a judge's rationale). */
+export interface EvalScore {
+  score: number;
+  rationale?: string;
+}
+
+/**
+ * A TypeScript scorer. Return `null` when the scorer does not apply to a case
+ * (e.g. it needs an `expected` value the case lacks).
+ *
+ * @example
+ *   runner.addScorer({
+ *     name: "no_apologies",
+ *     score: ({ output }) => (/sorry/i.test(output) ? 0 : 1),
+ *   });
+ */
+export interface EvalScorer {
+  name: string;
+  score: (
+    ctx: EvalScorerContext
+  ) => number | EvalScore | null | Promise<number | EvalScore | null>;
+}
+
+/** Options for {@link EvalRunner.run}. */
+export interface EvalRunOptions {
+  /** Maximum number of cases evaluated in parallel (default: 1). */
+  concurrency?: number;
+  /** Called after each case completes, in completion order. */
+  onCase?: (result: EvalCaseResult) => void;
+}
+
+/** Outcome of one evaluation case. */
+export interface EvalCaseResult {
+  /** Position of the case in the dataset. */
+  index: number;
+  input: string;
+  expected?: string;
+  output: string;
+  /** Score per applicable scorer name, in [0, 1]. */
+  scores: Record<string, number>;
+  /** Explanations keyed by scorer name (judge rationales, scorer errors). */
+  rationales: Record<string, string>;
+  /** Mean of `scores` (1 when there is nothing to score and no error). */
+  score: number;
+  passed: boolean;
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  error?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Aggregate results of an evaluation run. */
+export interface EvalReport {
+  threshold: number;
+  /** Names of the configured scorers. */
+  scorers: string[];
+  total: number;
+  passed: number;
+  failed: number;
+  /** Cases that threw instead of producing output (counted in `failed`). */
+  errored: number;
+  /** `passed / total`, or 0 for an empty dataset. */
+  passRate: number;
+  meanScore: number;
+  /** Mean score per scorer across the cases it applied to. */
+  scorerMeans: Record<string, number>;
+  latency: { totalMs: number; meanMs: number; p50Ms: number; p95Ms: number };
+  usage: { inputTokens: number; outputTokens: number; costUsd: number };
+  startedAt: string;
+  durationMs: number;
+  cases: EvalCaseResult[];
+}
+
+// ─── Scorers ────────────────────────────────────────────────────────
+
+const SCORERS: Record<EvalScorerType, (output: string, expected: string) => number> = {
+  exact_match: (output, expected) => (output.trim() === expected.trim() ? 1 : 0),
+  contains: (output, expected) =>
+    output.toLowerCase().includes(expected.trim().toLowerCase()) ? 1 : 0,
+  length_ratio: (output, expected) => {
+    const a = output.trim().length;
+    const b = expected.trim().length;
+    return a === 0 && b === 0 ? 1 : Math.min(a, b) / Math.max(a, b);
+  },
+};
+
+/** Wrap a native scorer type as an {@link EvalScorer} that needs `expected`. */
+function builtinScorer(type: EvalScorerType): EvalScorer {
+  return {
+    name: type,
+    score: ({ output, expected }) => (expected === undefined ? null : SCORERS[type](output, expected)),
+  };
+}
+
+function clampScore(n: number): number {
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+// ─── EvalRunner ─────────────────────────────────────────────────────
 
 export class EvalRunner implements Disposable {
   private readonly _handle: Handle;
+  private readonly _threshold: number;
+  private readonly _scorers: EvalScorer[] = [];
   private disposed = false;
 
+  /** @param threshold - Minimum mean score for a case to pass (default: 0.5). */
   constructor(threshold?: number) {
     this._handle = create_eval_runner(threshold);
+    this._threshold = threshold ?? 0.5;
   }
 
   get handle(): Handle {
     return this._handle;
   }
 
-  addScorer(scorerType: EvalScorerType): this {
+  get threshold(): number {
+    return this._threshold;
+  }
+
+  /**
+   * Add a scorer: a built-in type (`"exact_match"`, `"contains"`, `"length_ratio"`)
+   * or a custom {@link EvalScorer} such as {@link judgeScorer}. All scorers run in
+   * {@link run}; the core runner has no scoring entry point, so none are registered natively.
+   *
+   * @throws {ValidationError} If a different scorer with the same name was already added.
+   */
+  addScorer(scorer: EvalScorerType | EvalScorer): this {
     this.assertNotDisposed();
-    eval_add_scorer(this._handle, scorerType);
+    const name = typeof scorer === "string" ? scorer : scorer.name;
+    if (this._scorers.some((s) => s.name === name)) {
+      if (typeof scorer === "string") return this;
+      throw new ValidationError(`a scorer named "${name}" is already registered`, "scorer");
+    }
+    this._scorers.push(typeof scorer === "string" ? builtinScorer(scorer) : scorer);
     return this;
   }
 
+  /**
+   * Evaluate a dataset against an agent or async function.
+   *
+   * @description Each case is run through the target, scored by every configured
+   * scorer and marked passed when its mean score reaches the runner threshold.
+   * Target errors are recorded on the case (which then fails) rather than
+   * aborting the run.
+   *
+   * @param target - An {@link Agent} or `(input) => Promise<string | { text, ... }>`.
+   * @param dataset - Cases to evaluate.
+   * @param options - Concurrency and progress callback.
+   * @returns An {@link EvalReport} with per-case results and aggregates.
+   * @throws {ValidationError} If no scorer has been added.
+   */
+  async run(target: EvalTarget, dataset: EvalDataset, options: EvalRunOptions = {}): Promise<EvalReport> {
+    this.assertNotDisposed();
+    if (this._scorers.length === 0) {
+      throw new ValidationError("add at least one scorer before calling run()", "scorers");
+    }
+    const cases = Array.isArray(dataset) ? dataset : dataset.items;
+    const concurrency = Math.max(1, options.concurrency ?? 1);
+    const startedAt = new Date();
+    const results: EvalCaseResult[] = new Array(cases.length);
+
+    const queue = [...cases.entries()];
+    const workers = Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+      while (queue.length > 0) {
+        const entry = queue.shift();
+        if (!entry) break;
+        const [index, evalCase] = entry;
+        results[index] = await this.runCase(target, evalCase, index);
+        options.onCase?.(results[index]);
+      }
+    });
+    await Promise.all(workers);
+
+    return this.summarize(results, startedAt);
+  }
+
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
@@ -45,17 +260,182 @@ export class EvalRunner implements Disposable {
     this.destroy();
   }
 
+  private async runCase(target: EvalTarget, evalCase: EvalCase, index: number): Promise<EvalCaseResult> {
+    const base = {
+      index,
+      input: evalCase.input,
+      expected: evalCase.expected,
+      metadata: evalCase.metadata,
+    };
+    const start = performance.now();
+    let output: { text: string; inputTokens: number; outputTokens: number; costUsd: number };
+    try {
+      output = await this.invoke(target, evalCase.input);
+    } catch (err) {
+      return {
+        ...base,
+        output: "",
+        scores: {},
+        rationales: {},
+        score: 0,
+        passed: false,
+        latencyMs: performance.now() - start,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+    const latencyMs = performance.now() - start;
+
+    const ctx: EvalScorerContext = { ...base, output: output.text };
+    const scores: Record<string, number> = {};
+    const rationales: Record<string, string> = {};
+    const outcomes = await Promise.all(this._scorers.map(async (scorer) => {
+      try {
+        return await scorer.score(ctx);
+      } catch (err) {
+        // A crashing scorer counts as a zero for that scorer, not a failed target
+        return { score: 0, rationale: `scorer error: ${err instanceof Error ? err.message : String(err)}` };
+      }
+    }));
+    this._scorers.forEach((scorer, i) => {
+      const outcome = outcomes[i];
+      if (outcome === null || outcome === undefined) return;
+      if (typeof outcome === "number") {
+        scores[scorer.name] = clampScore(outcome);
+      } else {
+        scores[scorer.name] = clampScore(outcome.score);
+        if (outcome.rationale) rationales[scorer.name] = outcome.rationale;
+      }
+    });
+    const values = Object.values(scores);
+    const score = values.length > 0 ? mean(values) : 1;
+
+    return {
+      ...base,
+      output: output.text,
+      scores,
+      rationales,
+      score,
+      passed: score >= this._threshold,
+      latencyMs,
+      inputTokens: output.inputTokens,
+      outputTokens: output.outputTokens,
+      costUsd: output.costUsd,
+    };
+  }
+
+  private async invoke(
+    target: EvalTarget,
+    input: string
+  ): Promise<{ text: string; inputTokens: number; outputTokens: number; costUsd: number }> {
+    if (target instanceof Agent) {
+      const result = await target.run(input);
+      const usage = { inputTokens: result.inputTokens ?? 0, outputTokens: result.outputTokens ?? 0 };
+      let costUsd = 0;
+      try {
+        costUsd = estimateCost(target.model, usage).totalCostUsd;
+      } catch {
+        // Unknown model pricing — report zero cost.
+      }
+      return { text: result.text, ...usage, costUsd };
+    }
+    const out = await target(input);
+    if (typeof out === "string") return { text: out, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    return {
+      text: out.text,
+      inputTokens: out.inputTokens ?? 0,
+      outputTokens: out.outputTokens ?? 0,
+      costUsd: out.costUsd ?? 0,
+    };
+  }
+
+  private summarize(cases: EvalCaseResult[], startedAt: Date): EvalReport {
+    const passed = cases.filter((c) => c.passed).length;
+    const latencies = cases.map((c) => c.latencyMs).sort((a, b) => a - b);
+    const scorerMeans: Record<string, number> = {};
+    for (const { name } of this._scorers) {
+      const values = cases.flatMap((c) => (c.scores[name] === undefined ? [] : [c.scores[name]]));
+      if (values.length > 0) scorerMeans[name] = mean(values);
+    }
+    const totalMs = latencies.reduce((a, b) => a + b, 0);
+
+    return {
+      threshold: this._threshold,
+      scorers: this._scorers.map((s) => s.name),
+      total: cases.length,
+      passed,
+      failed: cases.length - passed,
+      errored: cases.filter((c) => c.error !== undefined).length,
+      passRate: cases.length === 0 ? 0 : passed / cases.length,
+      meanScore: mean(cases.map((c) => c.score)),
+      scorerMeans,
+      latency: {
+        totalMs,
+        meanMs: mean(latencies),
+        p50Ms: percentile(latencies, 50),
+        p95Ms: percentile(latencies, 95),
+      },
+      usage: {
+        inputTokens: cases.reduce((a, c) => a + c.inputTokens, 0),
+        outputTokens: cases.reduce((a, c) => a + c.outputTokens, 0),
+        costUsd: cases.reduce((a, c) => a + c.costUsd, 0),
+      },
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      cases,
+    };
+  }
+
   private assertNotDisposed(): void {
     if (this.disposed) {
       throw new DisposedError("EvalRunner", "evalRunner");
     }
   }
 
-  static loadDatasetJsonl(jsonl: string): unknown {
+  static loadDatasetJsonl(jsonl: string): EvalDataset {
     return load_dataset_jsonl(jsonl);
   }
 
-  static loadDatasetJson(jsonStr: string): unknown {
+  static loadDatasetJson(jsonStr: string): EvalDataset {
     return load_dataset_json(jsonStr);
   }
+
+  /** Serialise a report as pretty-printed JSON. */
+  static toJson(report: EvalReport): string {
+    return JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Serialise a report as JUnit XML for CI test reporters.
+   *
+   * Each case becomes a `<testcase>`; failing scores map to `<failure>` and
+   * target errors to `<error>`.
+   */
+  static toJUnitXml(report: EvalReport, suiteName = "gauss-eval"): string {
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+    const failures = report.failed - report.errored;
+    const lines = [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites name="${escapeXml(suiteName)}" tests="${report.total}" failures="${failures}" errors="${report.errored}" time="${seconds(report.durationMs)}">`,
+      `  <testsuite name="${escapeXml(suiteName)}" tests="${report.total}" failures="${failures}" errors="${report.errored}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+    ];
+    for (const c of report.cases) {
+      const label = c.input.length > 80 ? `${c.input.slice(0, 77)}...` : c.input;
+      lines.push(`    <testcase classname="${escapeXml(suiteName)}" name="${escapeXml(`#${c.index + 1} ${label}`)}" time="${seconds(c.latencyMs)}">`);
+      if (c.error !== undefined) {
+        lines.push(`      <error message="${escapeXml(c.error)}"/>`);
+      } else if (!c.passed) {
+        const detail = Object.entries(c.scores)
+          .map(([k, v]) => `${k}=${v.toFixed(3)}${c.rationales[k] ? ` (${c.rationales[k]})` : ""}`)
+          .join("\n");
+        lines.push(`      <failure message="${escapeXml(`score ${c.score.toFixed(3)} < threshold ${report.threshold}`)}">${escapeXml(detail)}</failure>`);
+      }
+      lines.push(`      <system-out>${escapeXml(c.output)}</system-out>`);
+      lines.push(`    </testcase>`);
+    }
+    lines.push(`  </testsuite>`, `</testsuites>`, "");
+    return lines.join("\n");
+  }
 }
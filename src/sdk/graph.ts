@@ -12,7 +12,16 @@
  *
  *   const result = await graph.run("Write about quantum computing");
  *   graph.destroy();
+ *
+ * @example
+ *   // Checkpoint after every node; continue after a crash
+ *   const checkpoints = new CheckpointStore({ backend: new JsonlCheckpointBackend("data/cp.jsonl") });
+ *   graph.withCheckpoints(checkpoints);
+ *   await graph.run("Write about quantum computing", { runId: "article-1" });
+ *   const latest = await checkpoints.loadLatest("article-1");
+ *   if (latest) await graph.resume(latest.id);
  */
+import { randomUUID } from "node:crypto";
 import {
   create_graph,
   graph_add_node,
@@ -25,6 +34,7 @@ import {
 import type { Handle, Disposable, ToolDef } from "./types.js";
 import type { Agent } from "./agent.js";
 import { DisposedError, ValidationError } from "./errors.js";
+import { RunCheckpointer, type CheckpointStore } from "./checkpoint.js";
 
 /** Map a fork agent spec to the shape expected by the NAPI layer. */
 function toNapiForkAgent(a: { agent: Agent; instructions?: string }) {
@@ -49,6 +59,28 @@ export interface ForkNodeConfig {
   consensus?: ConsensusStrategy;
 }
 
+export interface GraphRunOptions {
+  /**
+   * Session ID for this run's checkpoints when a checkpoint store is attached
+   * (default: a random UUID).
+   */
+  runId?: string;
+}
+
+/** State of a stepped graph run, as saved in its checkpoints. */
+interface GraphCheckpointData {
+  kind: "graph";
+  prompt: string;
+  outputs: Record<string, Record<string, unknown>>;
+  /** Node to run next; undefined once the run is complete. */
+  nextNodeId?: string;
+  /** Prompt for the next node: the previous node's text. */
+  nextPrompt: string;
+  lastNodeId: string;
+  status: "running" | "completed";
+  step: number;
+}
+
 export class Graph implements Disposable {
   /**
    * Quick graph builder — create a linear pipeline from agents.
@@ -81,6 +113,9 @@ export class Graph implements Disposable {
   private readonly _edges = new Map<string, string>();
   /** Conditional edges: source node → router function. */
   private readonly _conditionalEdges = new Map<string, RouterFn>();
+  /** Fork nodes, which only the Rust core can run. */
+  private readonly _forkNodes = new Set<string>();
+  private _checkpoints: CheckpointStore | null = null;
 
   constructor() {
     this._handle = create_graph();
@@ -116,6 +151,7 @@ export class Graph implements Disposable {
       config.agents.map(toNapiForkAgent),
       config.consensus ?? "concat"
     );
+    this._forkNodes.add(config.nodeId);
     return this;
   }
 
@@ -136,15 +172,66 @@ export class Graph implements Disposable {
     return this;
   }
 
-  async run(prompt: string): Promise<Record<string, unknown>> {
+  /**
+   * Checkpoint every run after each node, so it can be resumed. Chainable.
+   *
+   * Checkpointed graphs run node by node in the SDK, like graphs with
+   * conditional edges; fork nodes are not supported there.
+   */
+  withCheckpoints(store: CheckpointStore): this {
+    this._checkpoints = store;
+    return this;
+  }
+
+  /**
+   * Run the graph. With checkpoints, the result also carries `checkpoint`
+   * (`{ runId, checkpointId }`).
+   *
+   * @throws {ValidationError} If checkpoints are attached and the graph has fork nodes.
+   */
+  async run(prompt: string, options: GraphRunOptions = {}): Promise<Record<string, unknown>> {
     this.assertNotDisposed();
 
     // Fast path: no conditional edges → delegate entirely to Rust core.
-    if (this._conditionalEdges.size === 0) {
+    if (this._conditionalEdges.size === 0 && !this._checkpoints) {
       return graph_run(this._handle, prompt) as Promise<Record<string, unknown>>;
     }
+    if (this._checkpoints && this._forkNodes.size > 0) {
+      throw new ValidationError("graphs with fork nodes cannot be checkpointed", "checkpoints");
+    }
 
-    return this._runWithConditionals(prompt);
+    const checkpointer = this._checkpoints
+      ? new RunCheckpointer(this._checkpoints, options.runId ?? randomUUID())
+      : undefined;
+    return this._runWithConditionals(prompt, undefined, checkpointer);
+  }
+
+  /**
+   * Continue a checkpointed run from a checkpoint, e.g. after a crash. Nodes that
+   * completed before it do not run again; a completed run returns its result.
+   *
+   * @throws {ValidationError} If no checkpoint store is attached or the checkpoint
+   * is missing or not a graph checkpoint.
+   */
+  async resume(checkpointId: string): Promise<Record<string, unknown>> {
+    this.assertNotDisposed();
+    if (!this._checkpoints) {
+      throw new ValidationError("graph has no checkpoint store; use withCheckpoints()", "checkpoints");
+    }
+    const checkpoint = await this._checkpoints.load(checkpointId);
+    const data = checkpoint?.data as GraphCheckpointData | undefined;
+    if (!checkpoint || data?.kind !== "graph") {
+      throw new ValidationError(`no graph checkpoint "${checkpointId}"`, "checkpointId");
+    }
+    const checkpointer = new RunCheckpointer(this._checkpoints, checkpoint.sessionId, data.step);
+    if (data.status === "completed") {
+      return {
+        outputs: data.outputs,
+        final_text: (data.outputs[data.lastNodeId]?.text as string) ?? "",
+        checkpoint: { runId: checkpoint.sessionId, checkpointId },
+      };
+    }
+    return this._runWithConditionals(data.prompt, data, checkpointer);
   }
 
   destroy(): void {
@@ -160,8 +247,15 @@ export class Graph implements Disposable {
 
   // ── Private ──────────────────────────────────────────────────────
 
-  /** SDK-level step-through execution when conditional edges are present. */
-  private async _runWithConditionals(prompt: string): Promise<Record<string, unknown>> {
+  /**
+   * SDK-level step-through execution when conditional edges are present or the
+   * run is checkpointed, optionally continuing from a checkpoint.
+   */
+  private async _runWithConditionals(
+    prompt: string,
+    resumed?: GraphCheckpointData,
+    checkpointer?: RunCheckpointer,
+  ): Promise<Record<string, unknown>> {
     // Determine entry node: a node with no incoming edges.
     const targets = new Set<string>([
       ...this._edges.values(),
@@ -171,10 +265,20 @@ export class Graph implements Disposable {
       throw new ValidationError("Graph has no entry node (every node has an incoming edge)");
     }
 
-    const outputs: Record<string, Record<string, unknown>> = {};
-    let currentNodeId: string | undefined = entryNodes[0];
-    let lastNodeId: string = currentNodeId!;
-    let currentPrompt = prompt;
+    const outputs: Record<string, Record<string, unknown>> = { ...resumed?.outputs };
+    let currentNodeId: string | undefined = resumed ? resumed.nextNodeId : entryNodes[0];
+    let lastNodeId: string = resumed?.lastNodeId ?? currentNodeId!;
+    let currentPrompt = resumed?.nextPrompt ?? prompt;
+    const save = (status: GraphCheckpointData["status"]) => checkpointer?.save({
+      kind: "graph",
+      prompt,
+      outputs,
+      nextNodeId: currentNodeId,
+      nextPrompt: currentPrompt,
+      lastNodeId,
+      status,
+    } satisfies Omit<GraphCheckpointData, "step">);
+    if (!resumed) await save("running");
 
     while (currentNodeId) {
       const nodeCfg = this._nodes.get(currentNodeId);
@@ -204,12 +308,15 @@ export class Graph implements Disposable {
 
       // Feed previous output as prompt for the next node.
       currentPrompt = result.text;
+      if (currentNodeId) await save("running");
     }
+    await save("completed");
 
     // Build result envelope matching graph_run shape.
     return {
       outputs,
       final_text: (outputs[lastNodeId]?.text as string) ?? "",
+      ...(checkpointer ? { checkpoint: { runId: checkpointer.runId, checkpointId: checkpointer.lastId } } : {}),
     };
   }
 
@@ -1,5 +1,8 @@
 /**
  * GuardrailChain SDK wrapper — content safety and validation backed by Rust core.
+ *
+ * Rules are registered with the native chain and mirrored locally so the
+ * Agent can evaluate them on outgoing messages and assistant output.
  */
 import {
   create_guardrail_chain,
@@ -12,11 +15,66 @@ import {
   destroy_guardrail_chain,
 } from "gauss-napi";
 
-import type { Handle, Disposable, PiiAction } from "./types.js";
+import type {
+  Handle,
+  Disposable,
+  PiiAction,
+  GuardrailAction,
+  GuardrailStage,
+  GuardrailViolation,
+  GuardrailCheckResult,
+} from "./types.js";
 import { DisposedError } from "./errors.js";
+import { countTokens } from "./tokens.js";
+
+// ─── Rules ─────────────────────────────────────────────────────────
+
+type GuardrailRule =
+  | { kind: "content_moderation"; block: string[]; warn: string[] }
+  | { kind: "pii_detection"; action: PiiAction }
+  | { kind: "token_limit"; maxInput?: number; maxOutput?: number }
+  | { kind: "regex_filter"; block: RegExp[]; warn: RegExp[] }
+  | { kind: "schema"; schema: Record<string, unknown> };
+
+/** PII detectors, applied in order (card before phone so long digit runs are labelled correctly). */
+const PII_PATTERNS: Array<{ kind: string; pattern: RegExp }> = [
+  { kind: "email", pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  { kind: "credit_card", pattern: /\b(?:\d[ -]?){12,15}\d\b/g },
+  { kind: "ssn", pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { kind: "phone", pattern: /(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/g },
+  { kind: "ip_address", pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g },
+];
+
+const SEVERITY: Record<GuardrailAction, number> = { allow: 0, warn: 1, redact: 2, block: 3 };
+
+/** Return the more severe of two guardrail actions. */
+export function maxGuardrailAction(a: GuardrailAction, b: GuardrailAction): GuardrailAction {
+  return SEVERITY[b] > SEVERITY[a] ? b : a;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Check a parsed JSON value against the top-level `type` and `required` keys of a schema. */
+function schemaMismatch(value: unknown, schema: Record<string, unknown>): string | undefined {
+  const type = schema.type;
+  if (type === "object") {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) return "expected a JSON object";
+    const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+    const missing = required.filter((k) => !(k in (value as Record<string, unknown>)));
+    if (missing.length > 0) return `missing required field(s): ${missing.join(", ")}`;
+  } else if (type === "array" && !Array.isArray(value)) {
+    return "expected a JSON array";
+  }
+  return undefined;
+}
+
+// ─── GuardrailChain ────────────────────────────────────────────────
 
 export class GuardrailChain implements Disposable {
   private readonly _handle: Handle;
+  private readonly _rules: GuardrailRule[] = [];
   private disposed = false;
 
   constructor() {
@@ -37,30 +95,39 @@ export class GuardrailChain implements Disposable {
       blockPatterns,
       warnPatterns
     );
+    this._rules.push({ kind: "content_moderation", block: blockPatterns, warn: warnPatterns });
     return this;
   }
 
   addPiiDetection(action: PiiAction): this {
     this.assertNotDisposed();
     guardrail_chain_add_pii_detection(this._handle, action);
+    this._rules.push({ kind: "pii_detection", action });
     return this;
   }
 
   addTokenLimit(maxInput?: number, maxOutput?: number): this {
     this.assertNotDisposed();
     guardrail_chain_add_token_limit(this._handle, maxInput, maxOutput);
+    this._rules.push({ kind: "token_limit", maxInput, maxOutput });
     return this;
   }
 
   addRegexFilter(blockRules: string[], warnRules: string[] = []): this {
     this.assertNotDisposed();
     guardrail_chain_add_regex_filter(this._handle, blockRules, warnRules);
+    this._rules.push({
+      kind: "regex_filter",
+      block: blockRules.map((r) => new RegExp(r)),
+      warn: warnRules.map((r) => new RegExp(r)),
+    });
     return this;
   }
 
   addSchema(schema: Record<string, unknown>): this {
     this.assertNotDisposed();
     guardrail_chain_add_schema(this._handle, JSON.stringify(schema));
+    this._rules.push({ kind: "schema", schema });
     return this;
   }
 
@@ -69,6 +136,95 @@ export class GuardrailChain implements Disposable {
     return guardrail_chain_list(this._handle);
   }
 
+  /**
+   * Evaluate every rule in the chain against a piece of text.
+   *
+   * Token limits apply to the matching stage (`maxInput` / `maxOutput`) and
+   * schema rules only to final output. Redactions are applied to the returned
+   * `text`; blocking never throws here — callers decide how to surface it.
+   *
+   * @param text - Text to check.
+   * @param stage - Whether the text is outgoing input or model output.
+   * @param options.partial - Skip whole-document rules (schema) for streamed fragments.
+   * @param options.priorTokens - Tokens before `text` that count toward the token limit (streamed fragments).
+   */
+  check(
+    text: string,
+    stage: GuardrailStage,
+    options: { partial?: boolean; priorTokens?: number } = {}
+  ): GuardrailCheckResult {
+    this.assertNotDisposed();
+    const violations: GuardrailViolation[] = [];
+    let output = text;
+
+    for (const rule of this._rules) {
+      switch (rule.kind) {
+        case "content_moderation": {
+          for (const [patterns, action] of [[rule.block, "block"], [rule.warn, "warn"]] as const) {
+            for (const p of patterns) {
+              if (new RegExp(escapeRegExp(p), "i").test(output)) {
+                violations.push({ guardrail: rule.kind, action, rule: p, message: `content matches "${p}"` });
+              }
+            }
+          }
+          break;
+        }
+        case "pii_detection": {
+          for (const { kind, pattern } of PII_PATTERNS) {
+            pattern.lastIndex = 0;
+            if (!pattern.test(output)) continue;
+            violations.push({ guardrail: rule.kind, action: rule.action, rule: kind, message: `${kind} detected` });
+            if (rule.action === "redact") {
+              output = output.replace(pattern, `[REDACTED_${kind.toUpperCase()}]`);
+            }
+          }
+          break;
+        }
+        case "token_limit": {
+          const limit = stage === "input" ? rule.maxInput : rule.maxOutput;
+          if (limit === undefined) break;
+          const tokens = (options.priorTokens ?? 0) + countTokens(output);
+          if (tokens > limit) {
+            violations.push({
+              guardrail: rule.kind,
+              action: "block",
+              rule: String(limit),
+              message: `${stage} has ${tokens} tokens (limit ${limit})`,
+            });
+          }
+          break;
+        }
+        case "regex_filter": {
+          for (const [patterns, action] of [[rule.block, "block"], [rule.warn, "warn"]] as const) {
+            for (const re of patterns) {
+              re.lastIndex = 0;
+              if (re.test(output)) {
+                violations.push({ guardrail: rule.kind, action, rule: re.source, message: `content matches /${re.source}/` });
+              }
+            }
+          }
+          break;
+        }
+        case "schema": {
+          if (stage !== "output" || options.partial) break;
+          let problem: string | undefined;
+          try {
+            problem = schemaMismatch(JSON.parse(output), rule.schema);
+          } catch {
+            problem = "output is not valid JSON";
+          }
+          if (problem) {
+            violations.push({ guardrail: rule.kind, action: "block", message: `schema validation failed: ${problem}` });
+          }
+          break;
+        }
+      }
+    }
+
+    const action = violations.reduce<GuardrailAction>((acc, v) => maxGuardrailAction(acc, v.action), "allow");
+    return { stage, action, text: output, violations };
+  }
+
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
@@ -90,3 +246,105 @@ export class GuardrailChain implements Disposable {
     }
   }
 }
+
+// ─── Streaming ─────────────────────────────────────────────────────
+
+/**
+ * Characters held back at the end of a stream: longer than any PII match
+ * except unusually long emails, which are kept whole by the word boundary rule.
+ */
+const STREAM_HOLD = 64;
+
+/** Already released text kept as context so block rules match across the cut. */
+const STREAM_OVERLAP = 256;
+
+/**
+ * Applies a guardrail chain to streamed text deltas.
+ *
+ * The last {@link STREAM_HOLD} characters are held back, and never a partial
+ * word or PII match is released, so PII split across deltas ("555 123", " 4567")
+ * is redacted before it reaches the caller. Each delta only re-checks the
+ * held-back text plus a fixed overlap of released text; block patterns longer
+ * than the overlap can slip through. Once a block rule fires, all further
+ * text is suppressed.
+ *
+ * @internal
+ */
+export class GuardrailStreamFilter {
+  /** Raw text received but not yet released. */
+  private pending = "";
+  /** Tail of the released raw text, for block rules spanning the cut. */
+  private context = "";
+  /** Tokens in released raw text, for output token limits. */
+  private releasedTokens = 0;
+  private _blocked: GuardrailCheckResult | undefined;
+
+  constructor(private readonly chain: GuardrailChain) {}
+
+  /** The blocking check result, once a block rule has fired. */
+  get blocked(): GuardrailCheckResult | undefined { return this._blocked; }
+
+  /** Feed a delta; returns the text that is safe to emit now (possibly empty). */
+  push(delta: string): string {
+    if (this._blocked) return "";
+    this.pending += delta;
+    return this.release(false);
+  }
+
+  /** Release any held-back text at the end of the stream. */
+  flush(): string {
+    if (this._blocked) return "";
+    return this.release(true);
+  }
+
+  private release(final: boolean): string {
+    const contextTokens = this.context ? countTokens(this.context) : 0;
+    const window = this.chain.check(this.context + this.pending, "output", {
+      partial: true,
+      priorTokens: this.releasedTokens - contextTokens,
+    });
+    if (window.action === "block") {
+      this._blocked = window;
+      return "";
+    }
+    const end = final ? this.pending.length : releasableEnd(this.pending);
+    if (end <= 0) return "";
+
+    // Redact the released raw prefix on its own: no match crosses `end`
+    const raw = this.pending.slice(0, end);
+    const check = this.chain.check(raw, "output", { partial: true, priorTokens: this.releasedTokens });
+    if (check.action === "block") {
+      this._blocked = check;
+      return "";
+    }
+    this.pending = this.pending.slice(end);
+    this.context = (this.context + raw).slice(-STREAM_OVERLAP);
+    this.releasedTokens += countTokens(raw);
+    return check.text;
+  }
+}
+
+/**
+ * Where held-back text can be cut: {@link STREAM_HOLD} characters from the end,
+ * moved back to a word boundary and out of any PII match.
+ */
+function releasableEnd(text: string): number {
+  let end = text.length - STREAM_HOLD;
+  if (end <= 0) return 0;
+  // Don't cut inside a word (a single over-long word is cut anyway)
+  const wordStart = text.slice(0, end).search(/\S*$/);
+  if (/\S/.test(text[end]) && wordStart > 0) end = wordStart;
+  let moved = true;
+  while (moved) {
+    moved = false;
+    for (const { pattern } of PII_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        if (match.index < end && match.index + match[0].length > end) {
+          end = match.index;
+          moved = true;
+        }
+      }
+    }
+  }
+  return end;
+}
@@ -16,7 +16,17 @@
 // gauss() is re-exported via the Core Agent section below
 
 // ─── Errors ────────────────────────────────────────────────────────
-export { GaussError, DisposedError, ProviderError, ToolExecutionError, ValidationError } from "./errors.js";
+export {
+  GaussError,
+  DisposedError,
+  ProviderError,
+  ToolExecutionError,
+  ValidationError,
+  GuardrailError,
+  AbortError,
+  CapabilityError,
+  FallbackExhaustedError,
+} from "./errors.js";
 
 // ─── Types ─────────────────────────────────────────────────────────
 export type {
@@ -25,6 +35,14 @@ export type {
   ToolDef,
   MessageRole,
   Message,
+  MessageContent,
+  ContentPart,
+  TextPart,
+  ImagePart,
+  AudioPart,
+  DocumentPart,
+  ToolCallPart,
+  ToolResultPart,
   AgentOptions,
   AgentResult,
   Citation,
@@ -42,9 +60,53 @@ export type {
   MemoryEntry,
   RecallOptions,
   MemoryStats,
+  MemoryBackend,
+  MemorySessionInfo,
+  MemoryEntryType,
+  MemoryTier,
+  MemoryRankingOptions,
+  Checkpoint,
+  CheckpointBackend,
+  CheckpointReport,
+  ApprovalRequest,
+  ApprovalDecision,
+  StandardSchemaV1,
+  StandardSchemaResult,
+  StandardSchemaIssue,
+  InferSchemaOutput,
   VectorChunk,
   SearchResult,
+  FilterBound,
+  MetadataFilter,
+  VectorSearchOptions,
+  HybridSearchOptions,
+  VectorDocumentInfo,
+  VectorStoreStats,
+  Embedder,
+  RerankOptions,
+  Reranker,
+  RetrievedChunk,
+  RetrievalContext,
+  AgentRetriever,
+  RetrievalReport,
   PiiAction,
+  GuardrailStage,
+  GuardrailAction,
+  GuardrailViolation,
+  GuardrailCheckResult,
+  GuardrailReport,
+  PartialUsage,
+  MiddlewareEntry,
+  MiddlewareContext,
+  AgentMiddleware,
+  MiddlewareReport,
+  MiddlewareLogEntry,
+  CircuitState,
+  CircuitBreakerOptions,
+  ProviderTarget,
+  ProviderFailure,
+  ResilienceReport,
+  ResilienceEvent,
   CoercionStrategy,
   EvalScorerType,
   Handle,
@@ -52,6 +114,7 @@ export type {
 } from "./types.js";
 
 export { resolveApiKey, detectProvider } from "./types.js";
+export { contentToText, hasContentPart } from "./content.js";
 
 // ─── Model Constants ───────────────────────────────────────────────
 export {
@@ -74,12 +137,17 @@ export {
   DEEPSEEK_DEFAULT,
   DEEPSEEK_REASONING,
   PROVIDER_DEFAULTS,
+  OPENAI_EMBEDDING,
+  GOOGLE_EMBEDDING,
+  MISTRAL_EMBEDDING,
+  OLLAMA_EMBEDDING,
+  EMBEDDING_DEFAULTS,
   defaultModel,
 } from "./models.js";
 
 // ─── Core Agent ────────────────────────────────────────────────────
 export { Agent, gauss } from "./agent.js";
-export type { AgentConfig, AgentTrace, TraceSpan } from "./agent.js";
+export type { AgentCallOptions, AgentConfig, AgentMemoryOptions, AgentTrace, TraceSpan } from "./agent.js";
 export { AgentFactory } from "./agent-factory.js";
 export type { QuickAgentOptions } from "./agent-factory.js";
 export { enterprisePreset, enterpriseRun } from "./enterprise.js";
@@ -129,18 +197,38 @@ export type { BatchItem } from "./batch.js";
 export { executeCode, availableRuntimes, generateImage, version } from "./code-execution.js";
 
 // ─── Memory ────────────────────────────────────────────────────────
-export { Memory } from "./memory.js";
+export { Memory, NativeMemoryBackend } from "./memory.js";
+export type { MemoryOptions, ConsolidationOptions, ConsolidationResult } from "./memory.js";
+export { JsonlMemoryBackend, SqliteMemoryBackend } from "./memory-backends.js";
+export type { SqliteDatabase, SqliteStatement, SqliteMemoryBackendOptions } from "./memory-backends.js";
 
 // ─── RAG / Vector Store ────────────────────────────────────────────
 export { VectorStore } from "./vector-store.js";
-export { TextSplitter, splitText } from "./text-splitter.js";
-export type { TextSplitterOptions, TextChunk } from "./text-splitter.js";
-export { loadText, loadMarkdown, loadJson } from "./document-loader.js";
-export type { DocumentLoaderOptions, LoadedDocument } from "./document-loader.js";
+export type { VectorStoreOptions } from "./vector-store.js";
+export { TextSplitter, TokenTextSplitter, MarkdownSplitter, CodeSplitter, splitText } from "./text-splitter.js";
+export type {
+  TextSplitterOptions, TextChunk, Splitter, TokenTextSplitterOptions, MarkdownSplitterOptions,
+  CodeSplitterOptions, CodeLanguage, Heading,
+} from "./text-splitter.js";
+export {
+  loadText, loadMarkdown, loadJson, loadFile, loadDirectory, loaderForExtension,
+  textLoader, markdownLoader, jsonLoader, htmlLoader, csvLoader, pdfLoader, docxLoader,
+} from "./document-loader.js";
+export type {
+  DocumentLoaderOptions, LoadedDocument, DocumentLoader, TextDocumentLoader, BinaryDocumentLoader,
+  JsonLoaderOptions, HtmlLoaderOptions, CsvLoaderOptions, PdfLoaderOptions, DocxLoaderOptions, DocxParagraph,
+  LoadDirectoryOptions,
+} from "./document-loader.js";
+export { ProviderEmbedder, LocalEmbedder, CachedEmbedder } from "./embeddings.js";
+export type { ProviderEmbedderOptions, LocalEmbedderOptions, EmbeddingCacheOptions, EmbeddingCacheStats, EmbedFn } from "./embeddings.js";
+export { llmReranker, crossEncoderReranker, mmrReranker, rerank } from "./rerank.js";
+export type { LlmRerankerOptions, CrossEncoderRerankerOptions, MmrRerankerOptions, PairScorer } from "./rerank.js";
+export { RagPipeline } from "./rag-pipeline.js";
+export type { RagPipelineOptions, RagRetrieveOptions, RagIngestResult, RagSource } from "./rag-pipeline.js";
 
 // ─── Graph & Workflow ──────────────────────────────────────────────
 export { Graph } from "./graph.js";
-export type { GraphNodeConfig, ForkNodeConfig, ConsensusStrategy, RouterFn } from "./graph.js";
+export type { GraphNodeConfig, ForkNodeConfig, ConsensusStrategy, RouterFn, GraphRunOptions } from "./graph.js";
 export { Workflow } from "./workflow.js";
 export type { WorkflowStepConfig } from "./workflow.js";
 
@@ -159,13 +247,20 @@ export type {
 
 // ─── Middleware ────────────────────────────────────────────────────
 export { MiddlewareChain } from "./middleware.js";
+export type { MiddlewareLogger, ResponseCacheOptions } from "./middleware.js";
 
 // ─── Plugin System ─────────────────────────────────────────────────
 export { PluginRegistry } from "./plugin.js";
 
 // ─── Typed Tools ──────────────────────────────────────────────────
 export { tool, isTypedTool, createToolExecutor } from "./tool.js";
-export type { TypedToolDef } from "./tool.js";
+export type {
+  TypedToolDef,
+  ToolExecutionContext,
+  ToolApprovalOptions,
+  ToolValidationOptions,
+  ToolRunOptions,
+} from "./tool.js";
 
 // ─── MCP ───────────────────────────────────────────────────────────
 export {
@@ -193,10 +288,27 @@ export { GuardrailChain } from "./guardrail.js";
 
 // ─── HITL ──────────────────────────────────────────────────────────
 export { ApprovalManager } from "./approval.js";
-export { CheckpointStore } from "./checkpoint.js";
+export { CheckpointStore, NativeCheckpointBackend } from "./checkpoint.js";
+export type { CheckpointStoreOptions } from "./checkpoint.js";
+export { JsonlCheckpointBackend, SqliteCheckpointBackend } from "./checkpoint-backends.js";
+export type { SqliteCheckpointBackendOptions } from "./checkpoint-backends.js";
 
 // ─── Eval ──────────────────────────────────────────────────────────
 export { EvalRunner } from "./eval.js";
+export type {
+  EvalCase,
+  EvalDataset,
+  EvalTarget,
+  EvalTargetOutput,
+  EvalRunOptions,
+  EvalCaseResult,
+  EvalReport,
+  EvalScorer,
+  EvalScorerContext,
+  EvalScore,
+} from "./eval.js";
+export { judgeScorer } from "./eval-judge.js";
+export type { JudgeCriterion, JudgeScorerOptions, JudgeVerdict } from "./eval-judge.js";
 
 // ─── Telemetry ─────────────────────────────────────────────────────
 export { Telemetry } from "./telemetry.js";
@@ -217,7 +329,9 @@ export {
   createCircuitBreaker,
   createResilientProvider,
   createResilientAgent,
+  CircuitBreaker,
 } from "./resilience.js";
+export type { ResilienceOptions, ResilienceListener } from "./resilience.js";
 
 // ─── Tokens ────────────────────────────────────────────────────────
 export {
@@ -236,7 +350,8 @@ export {
 export { parseAgentConfig, resolveEnv } from "./config.js";
 
 // ─── Tool Validator ────────────────────────────────────────────────
-export { ToolValidator } from "./tool-validator.js";
+export { ToolValidator, validateToolArguments } from "./tool-validator.js";
+export type { ToolArgumentCheck, ToolArgumentIssue } from "./tool-validator.js";
 
 // ─── Stream Utils ──────────────────────────────────────────────────
 export { parsePartialJson } from "./stream.js";
@@ -248,6 +363,7 @@ export type { RetryConfig } from "./retry.js";
 // ─── Structured Output ────────────────────────────────────────────
 export { structured } from "./structured.js";
 export type { JsonSchema, StructuredConfig, StructuredResult } from "./structured.js";
+export { isStandardSchema } from "./standard-schema.js";
 
 // ─── Streaming Structured Output ──────────────────────────────────
 export { StructuredStream, parsePartialJson as parsePartialJsonStream } from "./structured-stream.js";
@@ -313,3 +429,11 @@ export {
   type ToolRegistryEntry,
   type ToolSearchResult,
 } from "./tool-registry.js";
+export {
+  keywordToolSelector,
+  tagToolSelector,
+  embeddingToolSelector,
+  type ToolSelector,
+  type ToolSelectionContext,
+  type ToolSelectionOptions,
+} from "./tool-selection.js";
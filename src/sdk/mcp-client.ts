@@ -16,6 +16,7 @@
 import { spawn, type ChildProcess } from "node:child_process";
 
 import type { ToolDef, Disposable } from "./types.js";
+import { AbortError } from "./errors.js";
 
 // ─── Types ──────────────────────────────────────────────────────────
 
@@ -189,16 +190,22 @@ export class McpClient implements Disposable {
    *
    * @param toolName - Name of the tool to invoke.
    * @param args - Arguments to pass to the tool.
+   * @param options.signal - Cancels the request; the server is sent `notifications/cancelled`.
    * @returns The tool execution result.
    * @throws {Error} If not connected or the tool call fails.
+   * @throws {AbortError} If the signal fires before the server responds.
    */
-  async callTool(toolName: string, args: Record<string, unknown> = {}): Promise<McpToolResult> {
+  async callTool(
+    toolName: string,
+    args: Record<string, unknown> = {},
+    options: { signal?: AbortSignal } = {}
+  ): Promise<McpToolResult> {
     this.assertConnected();
 
     const result = await this.request("tools/call", {
       name: toolName,
       arguments: args,
-    }) as McpToolResult;
+    }, undefined, options.signal) as McpToolResult;
 
     return result;
   }
@@ -213,11 +220,11 @@ export class McpClient implements Disposable {
    */
   async getToolsWithExecutor(): Promise<{
     tools: ToolDef[];
-    executor: (callJson: string) => Promise<string>;
+    executor: (callJson: string, signal?: AbortSignal) => Promise<string>;
   }> {
     const tools = await this.listTools();
 
-    const executor = async (callJson: string): Promise<string> => {
+    const executor = async (callJson: string, signal?: AbortSignal): Promise<string> => {
       let call: { tool?: string; name?: string; args?: unknown; arguments?: unknown };
       try {
         call = JSON.parse(callJson);
@@ -229,7 +236,7 @@ export class McpClient implements Disposable {
       const toolArgs = (call.args ?? call.arguments ?? {}) as Record<string, unknown>;
 
       try {
-        const result = await this.callTool(toolName, toolArgs);
+        const result = await this.callTool(toolName, toolArgs, { signal });
         if (result.isError) {
           const errorText = extractMcpContentText(result.content) || "Tool error";
           return JSON.stringify({ error: errorText });
@@ -237,6 +244,7 @@ export class McpClient implements Disposable {
         const text = extractMcpContentText(result.content);
         return JSON.stringify({ result: text });
       } catch (err: unknown) {
+        if (err instanceof AbortError) throw err;
         const message = err instanceof Error ? err.message : String(err);
         return JSON.stringify({ error: message });
       }
@@ -280,7 +288,13 @@ export class McpClient implements Disposable {
 
   // ─── Internal JSON-RPC ────────────────────────────────────────────
 
-  private async request(method: string, params: Record<string, unknown>, timeoutMs = 30000): Promise<unknown> {
+  private async request(
+    method: string,
+    params: Record<string, unknown>,
+    timeoutMs = 30000,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    if (signal?.aborted) throw new AbortError(`MCP request "${method}" aborted`, undefined, signal.reason);
     const id = this.nextId++;
 
     const message: JsonRpcRequest = {
@@ -293,16 +307,31 @@ export class McpClient implements Disposable {
     return new Promise<unknown>((resolve, reject) => {
       const timer = setTimeout(() => {
         this.pending.delete(id);
+        signal?.removeEventListener("abort", onAbort);
         reject(new Error(`MCP request "${method}" timed out after ${timeoutMs}ms`));
       }, timeoutMs);
 
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        clearTimeout(timer);
+        try {
+          this.notify("notifications/cancelled", { requestId: id, reason: "aborted" });
+        } catch {
+          // Server already gone — nothing to cancel.
+        }
+        reject(new AbortError(`MCP request "${method}" aborted`, undefined, signal?.reason));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
       this.pending.set(id, {
         resolve: (value) => {
           clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
           resolve(value);
         },
         reject: (err) => {
           clearTimeout(timer);
+          signal?.removeEventListener("abort", onAbort);
           reject(err);
         },
       });
@@ -0,0 +1,295 @@
+/**
+ * Persistent {@link MemoryBackend}s — conversation history that survives restarts.
+ *
+ * - `JsonlMemoryBackend` — one JSON Lines file; simple, good for a single worker.
+ * - `SqliteMemoryBackend` — a SQLite table; safe to share between processes on one host.
+ *
+ * Both physically remove erased sessions: the JSONL file is rewritten, and SQLite
+ * runs with `secure_delete` so deleted rows are overwritten on disk.
+ *
+ * @example
+ *   const memory = new Memory({ backend: new JsonlMemoryBackend("data/memory.jsonl") });
+ *   agent.withMemory(memory, "user-42");
+ *
+ * @example
+ *   const backend = await SqliteMemoryBackend.open("data/memory.db");
+ *   console.log(await backend.listSessions());
+ *   await backend.deleteSession("user-42"); // GDPR erasure
+ */
+import { appendFile, mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { MemoryBackend, MemoryEntry, MemorySessionInfo, MemoryStats, RecallOptions } from "./types.js";
+import { ValidationError } from "./errors.js";
+
+/**
+ * Entries matching `options`, oldest first; with `limit`, the most recent ones.
+ * @internal
+ */
+export function selectEntries(entries: Iterable<MemoryEntry>, options: RecallOptions = {}): MemoryEntry[] {
+  const selected = [...entries]
+    .filter((e) => options.sessionId === undefined || e.sessionId === options.sessionId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  return options.limit !== undefined ? selected.slice(Math.max(0, selected.length - options.limit)) : selected;
+}
+
+/**
+ * Group entries into per-session summaries, most recently active first.
+ * @internal
+ */
+export function summarizeSessions(entries: Iterable<MemoryEntry>): MemorySessionInfo[] {
+  const sessions = new Map<string, MemorySessionInfo>();
+  for (const entry of entries) {
+    if (!entry.sessionId) continue;
+    const info = sessions.get(entry.sessionId);
+    if (!info) {
+      sessions.set(entry.sessionId, {
+        sessionId: entry.sessionId,
+        entries: 1,
+        firstTimestamp: entry.timestamp,
+        lastTimestamp: entry.timestamp,
+      });
+      continue;
+    }
+    info.entries++;
+    if (entry.timestamp < info.firstTimestamp) info.firstTimestamp = entry.timestamp;
+    if (entry.timestamp > info.lastTimestamp) info.lastTimestamp = entry.timestamp;
+  }
+  return [...sessions.values()].sort((a, b) => b.lastTimestamp.localeCompare(a.lastTimestamp));
+}
+
+// ─── JSONL ─────────────────────────────────────────────────────────
+
+/**
+ * Memory kept in a JSON Lines file, one entry per line.
+ *
+ * @description Stores append to the file; clearing or deleting a session rewrites it
+ * through a temporary sibling. The file is re-read when another process changed it,
+ * but concurrent writers are not coordinated — use {@link SqliteMemoryBackend} for
+ * several workers. Unparsable lines (e.g. a write cut short by a crash) are skipped.
+ */
+export class JsonlMemoryBackend implements MemoryBackend {
+  private entries = new Map<string, MemoryEntry>();
+  /** Size and mtime of the file as last read or written, to notice outside changes. */
+  private version: string | undefined;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  async store(entry: MemoryEntry): Promise<void> {
+    await this.enqueue(async () => {
+      await this.sync();
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(entry)}\n`, "utf8");
+      this.entries.set(entry.id, entry);
+      this.version = await this.fileVersion();
+    });
+  }
+
+  async recall(options?: RecallOptions): Promise<MemoryEntry[]> {
+    await this.enqueue(() => this.sync());
+    return selectEntries(this.entries.values(), options);
+  }
+
+  async clear(sessionId?: string): Promise<void> {
+    await this.remove((e) => sessionId === undefined || e.sessionId === sessionId);
+  }
+
+  async stats(): Promise<MemoryStats> {
+    await this.enqueue(() => this.sync());
+    const entries = [...this.entries.values()];
+    return { totalEntries: entries.length, sessions: summarizeSessions(entries).length };
+  }
+
+  async listSessions(): Promise<MemorySessionInfo[]> {
+    await this.enqueue(() => this.sync());
+    return summarizeSessions(this.entries.values());
+  }
+
+  async deleteSession(sessionId: string): Promise<number> {
+    return this.remove((e) => e.sessionId === sessionId);
+  }
+
+  /** Drop matching entries and rewrite the file without them. */
+  private async remove(match: (entry: MemoryEntry) => boolean): Promise<number> {
+    return this.enqueue(async () => {
+      await this.sync();
+      const kept = [...this.entries.values()].filter((e) => !match(e));
+      const removed = this.entries.size - kept.length;
+      if (removed === 0) return 0;
+      await mkdir(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.${process.pid}.tmp`;
+      await writeFile(tmp, kept.map((e) => `${JSON.stringify(e)}\n`).join(""), "utf8");
+      await rename(tmp, this.path);
+      this.entries = new Map(kept.map((e) => [e.id, e]));
+      this.version = await this.fileVersion();
+      return removed;
+    });
+  }
+
+  /** Reload the file if it changed since this backend last read or wrote it. */
+  private async sync(): Promise<void> {
+    const version = await this.fileVersion();
+    if (version === this.version) return;
+    const entries = new Map<string, MemoryEntry>();
+    const text = version ? await readFile(this.path, "utf8") : "";
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as MemoryEntry;
+        if (typeof entry?.id === "string") entries.set(entry.id, entry);
+      } catch {
+        // Torn write
+      }
+    }
+    this.entries = entries;
+    this.version = version;
+  }
+
+  private async fileVersion(): Promise<string | undefined> {
+    try {
+      const { size, mtimeMs } = await stat(this.path);
+      return `${size}:${mtimeMs}`;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  private enqueue<T>(work: () => Promise<T>): Promise<T> {
+    const next = this.writes.then(work);
+    this.writes = next.catch(() => {});
+    return next;
+  }
+}
+
+// ─── SQLite ────────────────────────────────────────────────────────
+
+/** A prepared statement, as returned by `node:sqlite` and `better-sqlite3`. */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  all(...params: unknown[]): unknown[];
+}
+
+/** The subset of a synchronous SQLite connection used here (`node:sqlite` `DatabaseSync` or `better-sqlite3`). */
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+export interface SqliteMemoryBackendOptions {
+  /** Table holding the entries (default: `"memory_entries"`). Created if missing. */
+  table?: string;
+}
+
+interface SessionRow {
+  session_id: string;
+  entries: number;
+  first_timestamp: string;
+  last_timestamp: string;
+}
+
+/**
+ * Memory kept in a SQLite table, one row per entry.
+ *
+ * @description Pass an open connection, or use {@link SqliteMemoryBackend.open} to
+ * open a file with `node:sqlite` (Node 22.5+) or the `better-sqlite3` package.
+ * Entries with an existing ID are replaced.
+ */
+export class SqliteMemoryBackend implements MemoryBackend {
+  private readonly table: string;
+
+  constructor(readonly db: SqliteDatabase, options: SqliteMemoryBackendOptions = {}) {
+    this.table = options.table ?? "memory_entries";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.table)) {
+      throw new ValidationError("must be a plain SQL identifier", "table");
+    }
+    db.exec(`PRAGMA secure_delete = ON;
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        session_id TEXT,
+        timestamp TEXT NOT NULL,
+        entry TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS ${this.table}_session ON ${this.table} (session_id, timestamp);`);
+  }
+
+  /**
+   * Open (or create) a database file.
+   *
+   * @throws {ValidationError} If neither `node:sqlite` nor `better-sqlite3` is available.
+   */
+  static async open(path: string, options?: SqliteMemoryBackendOptions): Promise<SqliteMemoryBackend> {
+    return new SqliteMemoryBackend(await openDatabase(path), options);
+  }
+
+  async store(entry: MemoryEntry): Promise<void> {
+    this.db
+      .prepare(`INSERT OR REPLACE INTO ${this.table} (id, session_id, timestamp, entry) VALUES (?, ?, ?, ?)`)
+      .run(entry.id, entry.sessionId ?? null, entry.timestamp, JSON.stringify(entry));
+  }
+
+  async recall(options: RecallOptions = {}): Promise<MemoryEntry[]> {
+    const where = options.sessionId !== undefined ? "WHERE session_id = ?" : "";
+    const limit = options.limit !== undefined ? "LIMIT ?" : "";
+    const params: unknown[] = [
+      ...(options.sessionId !== undefined ? [options.sessionId] : []),
+      ...(options.limit !== undefined ? [options.limit] : []),
+    ];
+    const rows = this.db
+      .prepare(`SELECT entry FROM ${this.table} ${where} ORDER BY timestamp DESC, rowid DESC ${limit}`)
+      .all(...params) as Array<{ entry: string }>;
+    return rows.reverse().map((row) => JSON.parse(row.entry) as MemoryEntry);
+  }
+
+  async clear(sessionId?: string): Promise<void> {
+    if (sessionId === undefined) this.db.prepare(`DELETE FROM ${this.table}`).run();
+    else this.db.prepare(`DELETE FROM ${this.table} WHERE session_id = ?`).run(sessionId);
+  }
+
+  async stats(): Promise<MemoryStats> {
+    const [row] = this.db
+      .prepare(`SELECT COUNT(*) AS total, COUNT(DISTINCT session_id) AS sessions FROM ${this.table}`)
+      .all() as Array<{ total: number; sessions: number }>;
+    return { totalEntries: Number(row.total), sessions: Number(row.sessions) };
+  }
+
+  async listSessions(): Promise<MemorySessionInfo[]> {
+    const rows = this.db.prepare(
+      `SELECT session_id, COUNT(*) AS entries, MIN(timestamp) AS first_timestamp, MAX(timestamp) AS last_timestamp
+       FROM ${this.table} WHERE session_id IS NOT NULL GROUP BY session_id ORDER BY last_timestamp DESC`,
+    ).all() as SessionRow[];
+    return rows.map((row) => ({
+      sessionId: row.session_id,
+      entries: Number(row.entries),
+      firstTimestamp: row.first_timestamp,
+      lastTimestamp: row.last_timestamp,
+    }));
+  }
+
+  async deleteSession(sessionId: string): Promise<number> {
+    const { changes } = this.db.prepare(`DELETE FROM ${this.table} WHERE session_id = ?`).run(sessionId);
+    return Number(changes);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Open a SQLite file with `node:sqlite`, else `better-sqlite3`.
+ * @internal
+ */
+export async function openDatabase(path: string): Promise<SqliteDatabase> {
+  if (path !== ":memory:") await mkdir(dirname(path), { recursive: true });
+  // Module names in variables keep bundlers and type-checkers from requiring either
+  const builtin = "node:sqlite";
+  const packaged = "better-sqlite3";
+  const sqlite = await import(builtin).catch(() => undefined);
+  if (sqlite?.DatabaseSync) return new sqlite.DatabaseSync(path) as SqliteDatabase;
+  const betterSqlite = await import(packaged).catch(() => undefined);
+  if (betterSqlite?.default) return new betterSqlite.default(path) as SqliteDatabase;
+  throw new ValidationError("SQLite needs Node 22.5+ (node:sqlite) or the better-sqlite3 package", "path");
+}
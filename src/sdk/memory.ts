@@ -1,5 +1,13 @@
 /**
- * Memory SDK wrapper — in-memory conversation/session store backed by Rust core.
+ * Memory SDK wrapper — conversation/session store.
+ *
+ * Entries live in the in-process Rust store by default; pass a
+ * {@link MemoryBackend} (e.g. `JsonlMemoryBackend`, `SqliteMemoryBackend`) to
+ * keep history across restarts or share it between workers.
+ *
+ * With an embedder, entries are embedded as they are stored and `recall` can
+ * rank them by similarity to a query, recency and importance, within a token budget.
+ * `consolidate` folds older turns of a session into a summary.
  */
 import { randomUUID } from "node:crypto";
 import {
@@ -14,39 +22,157 @@ import {
 import type {
   Handle,
   Disposable,
+  Embedder,
+  MemoryBackend,
   MemoryEntry,
   MemoryEntryType,
+  MemoryRankingOptions,
+  MemorySessionInfo,
+  MemoryStats,
+  MessageContent,
   RecallOptions,
 } from "./types.js";
-import { DisposedError } from "./errors.js";
+import type { Agent } from "./agent.js";
+import { DisposedError, ValidationError } from "./errors.js";
+import { contentToText } from "./content.js";
+import { summarizeSessions } from "./memory-backends.js";
+import { toEmbedder, type EmbedFn } from "./embeddings.js";
+import { countTokens } from "./tokens.js";
+import { cosine } from "./vector-store.js";
+import { structured, type JsonSchema } from "./structured.js";
+
+export interface MemoryOptions {
+  /**
+   * Where entries are kept (default: a {@link NativeMemoryBackend}). A backend
+   * passed in is not closed by `destroy`; close it when you are done with it.
+   */
+  backend?: MemoryBackend;
+  /**
+   * Embeds entries without an `embedding` as they are stored, and the `query`
+   * of a recall, for semantic ranking.
+   */
+  embed?: Embedder | EmbedFn;
+  /** How ranked recalls weigh similarity, recency and importance. */
+  ranking?: MemoryRankingOptions;
+  /** Defaults for {@link Memory.consolidate}. */
+  consolidation?: ConsolidationOptions;
+}
+
+export interface ConsolidationOptions {
+  /** Writes the summary and extracts facts; a small model without memory or tools is enough. */
+  agent: Agent;
+  /** Only consolidate once the session's unarchived conversation exceeds this many tokens (default: 0). */
+  thresholdTokens?: number;
+  /** Most recent conversation entries left as they are (default: 4). */
+  keepRecent?: number;
+  /** Also extract durable `fact` and `preference` entries (default: true). */
+  extract?: boolean;
+  /** Parse retries passed to `structured` (default: 2). */
+  maxParseRetries?: number;
+  /** Cancels the summarizer's run. */
+  signal?: AbortSignal;
+}
+
+export interface ConsolidationResult {
+  /** The new summary entry; undefined when there was nothing to consolidate. */
+  summary?: MemoryEntry;
+  /** Fact and preference entries extracted from the consolidated turns. */
+  extracted: MemoryEntry[];
+  /** Entries moved to the `archive` tier. */
+  archived: number;
+}
+
+const SUMMARY_PROPERTIES = {
+  summary: {
+    type: "string",
+    description: "Summary of the conversation: topics, decisions, names, open questions and commitments",
+  },
+};
+
+const CONSOLIDATION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    ...SUMMARY_PROPERTIES,
+    facts: {
+      type: "array",
+      items: { type: "string" },
+      description: "New durable facts about the user or their situation, one short standalone sentence each",
+    },
+    preferences: {
+      type: "array",
+      items: { type: "string" },
+      description: "New preferences the user stated, one short standalone sentence each",
+    },
+  },
+  required: ["summary", "facts", "preferences"],
+};
+
+const SUMMARY_SCHEMA: JsonSchema = { type: "object", properties: SUMMARY_PROPERTIES, required: ["summary"] };
+
+interface ConsolidationOutput {
+  summary?: unknown;
+  facts?: unknown;
+  preferences?: unknown;
+}
 
 /**
- * In-memory conversation store backed by Rust core.
+ * In-memory conversation store, by default backed by Rust core.
  *
  * @example
  *   const mem = new Memory();
  *   await mem.store({ id: "m1", content: "Hello", entryType: "message", timestamp: new Date().toISOString() });
  *   const entries = await mem.recall();
  *   mem.destroy();
+ *
+ * @example
+ *   // Survives restarts; erase a user's history on request
+ *   const mem = new Memory({ backend: await SqliteMemoryBackend.open("data/memory.db") });
+ *   await mem.deleteSession("user-42");
+ *
+ * @example
+ *   // Semantic recall: the most relevant facts that fit in 500 tokens
+ *   const mem = new Memory({ embed: new LocalEmbedder() });
+ *   const facts = await mem.recall({ query: "Where does the user live?", entryTypes: ["fact"], maxTokens: 500 });
  */
 export class Memory implements Disposable {
-  private readonly _handle: Handle;
+  readonly backend: MemoryBackend;
+  private readonly ownsBackend: boolean;
+  private readonly embedder: Embedder | undefined;
+  private readonly ranking: MemoryRankingOptions;
+  private readonly consolidation: ConsolidationOptions | undefined;
   private disposed = false;
 
-  constructor() {
-    this._handle = create_memory();
+  constructor(options: MemoryOptions = {}) {
+    this.ownsBackend = !options.backend;
+    this.backend = options.backend ?? new NativeMemoryBackend();
+    this.embedder = options.embed ? toEmbedder(options.embed) : undefined;
+    this.ranking = options.ranking ?? {};
+    this.consolidation = options.consolidation;
   }
 
+  /**
+   * Native handle of the default backend.
+   *
+   * @throws {ValidationError} If the memory uses another backend.
+   */
   get handle(): Handle {
-    return this._handle;
+    if (!(this.backend instanceof NativeMemoryBackend)) {
+      throw new ValidationError("memory with a custom backend has no native handle", "backend");
+    }
+    return this.backend.handle;
   }
 
-  /** Store a memory entry. Accepts a full entry or role+content shorthand. */
+  /**
+   * Store a memory entry. Accepts a full entry or role+content shorthand.
+   *
+   * Content parts are stored as their text, with the original parts kept on
+   * `entry.parts` and restored by {@link Memory.recall}.
+   */
   async store(entry: MemoryEntry): Promise<void>;
-  async store(role: string, content: string, sessionId?: string): Promise<void>;
+  async store(role: string, content: MessageContent, sessionId?: string): Promise<void>;
   async store(
     entryOrRole: MemoryEntry | string,
-    content?: string,
+    content?: MessageContent,
     sessionId?: string
   ): Promise<void> {
     this.assertNotDisposed();
@@ -54,51 +180,161 @@ export class Memory implements Disposable {
       typeof entryOrRole === "string"
         ? {
             id: randomUUID(),
-            content: content!,
+            content: contentToText(content!),
+            parts: typeof content === "string" ? undefined : content,
             entryType: (entryOrRole as MemoryEntryType) || "conversation",
             timestamp: new Date().toISOString(),
             sessionId,
           }
         : entryOrRole;
-    // Convert to snake_case for Rust serde
-    const rustEntry = {
-      id: entry.id,
-      content: entry.content,
-      entry_type: entry.entryType,
-      timestamp: entry.timestamp,
-      tier: entry.tier,
-      metadata: entry.metadata,
-      importance: entry.importance,
-      session_id: entry.sessionId,
-      embedding: entry.embedding,
-    };
-    return memory_store(this._handle, JSON.stringify(rustEntry));
+    if (this.embedder && !entry.embedding && entry.content) {
+      const [embedding] = await this.embedder.embed([entry.content]);
+      return this.backend.store({ ...entry, embedding });
+    }
+    return this.backend.store(entry);
   }
 
+  /**
+   * Recall entries, oldest first.
+   *
+   * @description With `entryTypes` or `tiers`, entries are filtered. With `query`
+   * or `maxTokens`, they are ranked by a weighted sum of query similarity,
+   * recency (halving every `ranking.halfLifeHours`) and importance, and the
+   * best ones within `limit` and the token budget are returned — still in
+   * chronological order.
+   */
   async recall(options?: RecallOptions): Promise<MemoryEntry[]> {
     this.assertNotDisposed();
-    const json = options ? JSON.stringify(options) : undefined;
-    return memory_recall(this._handle, json) as Promise<MemoryEntry[]>;
+    const { sessionId, limit, query, entryTypes, tiers, maxTokens } = options ?? {};
+    if (!entryTypes && !tiers && query === undefined && maxTokens === undefined) {
+      return this.backend.recall(options);
+    }
+
+    const entries = (await this.backend.recall(sessionId !== undefined ? { sessionId } : undefined))
+      .filter((e) => !entryTypes || entryTypes.includes(e.entryType))
+      .filter((e) => !tiers || tiers.includes(e.tier ?? "active"));
+    if (query === undefined && maxTokens === undefined) {
+      return limit !== undefined ? entries.slice(Math.max(0, entries.length - limit)) : entries;
+    }
+
+    const queryEmbedding = query && this.embedder ? (await this.embedder.embed([query]))[0] : undefined;
+    const ranked = entries
+      .map((entry) => ({ entry, score: this.score(entry, queryEmbedding) }))
+      .sort((a, b) => Number(b.entry.tier === "core") - Number(a.entry.tier === "core") || b.score - a.score);
+
+    const picked = new Set<MemoryEntry>();
+    let budget = maxTokens ?? Infinity;
+    for (const { entry } of ranked) {
+      if (limit !== undefined && picked.size >= limit) break;
+      const tokens = maxTokens !== undefined ? countTokens(entry.content) : 0;
+      if (tokens > budget) continue;
+      budget -= tokens;
+      picked.add(entry);
+    }
+    return entries.filter((e) => picked.has(e));
+  }
+
+  /**
+   * Fold the older conversation of a session into a `summary` entry.
+   *
+   * @description All but the `keepRecent` latest `conversation` entries — and any
+   * earlier summary — are summarized by `options.agent`, which also extracts
+   * durable facts and preferences. The new entries are stored first, then the
+   * originals move to the `archive` tier, where plain `recall` still returns
+   * them but agents no longer do.
+   *
+   * @param sessionId - Session to consolidate; entries without a session when omitted.
+   * @param options - Overrides `MemoryOptions.consolidation`.
+   * @throws {ValidationError} If no agent is configured or it returns an empty summary.
+   */
+  async consolidate(sessionId?: string, options?: ConsolidationOptions): Promise<ConsolidationResult> {
+    this.assertNotDisposed();
+    const config = options ?? this.consolidation;
+    if (!config) throw new ValidationError("pass consolidation options with an agent", "consolidation");
+    const { agent, thresholdTokens = 0, keepRecent = 4, extract = true } = config;
+
+    const entries = (await this.backend.recall(sessionId !== undefined ? { sessionId } : undefined))
+      .filter((e) => e.sessionId === sessionId && e.tier !== "archive");
+    const turns = entries.filter((e) => e.entryType === "conversation");
+    const older = turns.slice(0, Math.max(0, turns.length - keepRecent));
+    const tokens = turns.reduce((n, e) => n + countTokens(e.content), 0);
+    if (older.length === 0 || tokens <= thresholdTokens) return { extracted: [], archived: 0 };
+
+    const summaries = entries.filter((e) => e.entryType === "summary");
+    const known = entries.filter((e) => e.entryType === "fact" || e.entryType === "preference");
+    const sections = ["Summarize this conversation so the summary can replace it in long-term memory."];
+    if (summaries.length > 0) {
+      sections.push(`Summary of the conversation before it:\n${summaries.map((e) => e.content).join("\n")}`);
+    }
+    if (extract && known.length > 0) {
+      sections.push(`Already known (do not repeat):\n${known.map((e) => `- ${e.content}`).join("\n")}`);
+    }
+    sections.push(`Conversation:\n${older.map((e) => `${e.metadata?.role ?? "message"}: ${e.content}`).join("\n")}`);
+    const { data } = await structured<ConsolidationOutput>(agent, sections.join("\n\n"), {
+      schema: extract ? CONSOLIDATION_SCHEMA : SUMMARY_SCHEMA,
+      maxParseRetries: config.maxParseRetries,
+      signal: config.signal,
+    });
+    const content = typeof data.summary === "string" ? data.summary.trim() : "";
+    if (!content) throw new ValidationError("consolidation agent returned an empty summary", "agent");
+
+    const replaced = [...summaries, ...older];
+    const timestamp = older[older.length - 1].timestamp;
+    const summary: MemoryEntry = {
+      id: randomUUID(),
+      content,
+      entryType: "summary",
+      timestamp,
+      tier: "active",
+      importance: 0.6,
+      sessionId,
+      metadata: { consolidated: replaced.map((e) => e.id) },
+    };
+    const extracted: MemoryEntry[] = [];
+    for (const [field, entryType] of [["facts", "fact"], ["preferences", "preference"]] as const) {
+      const items = extract && Array.isArray(data[field]) ? data[field] as unknown[] : [];
+      for (const item of items) {
+        if (typeof item !== "string" || !item.trim()) continue;
+        extracted.push({ id: randomUUID(), content: item.trim(), entryType, timestamp, tier: "active", importance: 0.8, sessionId });
+      }
+    }
+
+    // New entries first: a crash in between leaves duplicates rather than a gap
+    for (const entry of [summary, ...extracted]) await this.store(entry);
+    for (const entry of replaced) await this.backend.store({ ...entry, tier: "archive" });
+    return { summary, extracted, archived: replaced.length };
   }
 
   async clear(sessionId?: string): Promise<void> {
     this.assertNotDisposed();
-    return memory_clear(this._handle, sessionId);
+    return this.backend.clear(sessionId);
+  }
+
+  async stats(): Promise<MemoryStats> {
+    this.assertNotDisposed();
+    return this.backend.stats();
+  }
+
+  /** Sessions with stored entries, most recently active first. */
+  async listSessions(): Promise<MemorySessionInfo[]> {
+    this.assertNotDisposed();
+    return this.backend.listSessions();
   }
 
-  async stats(): Promise<Record<string, unknown>> {
+  /**
+   * Erase every entry of a session, e.g. for a GDPR erasure request.
+   *
+   * @returns The number of entries removed.
+   */
+  async deleteSession(sessionId: string): Promise<number> {
     this.assertNotDisposed();
-    return memory_stats(this._handle) as Promise<Record<string, unknown>>;
+    return this.backend.deleteSession(sessionId);
   }
 
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
-      try {
-        destroy_memory(this._handle);
-      } catch {
-        // Already destroyed.
-      }
+      if (this.ownsBackend) this.backend.close?.();
     }
   }
 
@@ -106,9 +342,90 @@ export class Memory implements Disposable {
     this.destroy();
   }
 
+  private score(entry: MemoryEntry, queryEmbedding: number[] | undefined): number {
+    const {
+      halfLifeHours = 24,
+      relevanceWeight = 1,
+      recencyWeight = 1,
+      importanceWeight = 1,
+    } = this.ranking;
+    const relevance = queryEmbedding && entry.embedding ? Math.max(0, cosine(queryEmbedding, entry.embedding)) : 0;
+    const ageHours = Math.max(0, Date.now() - Date.parse(entry.timestamp)) / 3_600_000;
+    const recency = Number.isFinite(ageHours) ? 0.5 ** (ageHours / halfLifeHours) : 0;
+    return relevanceWeight * relevance + recencyWeight * recency + importanceWeight * (entry.importance ?? 0.5);
+  }
+
   private assertNotDisposed(): void {
     if (this.disposed) {
       throw new DisposedError("Memory", "memory");
     }
   }
 }
+
+/**
+ * The in-process Rust store. Entries are lost when the process exits.
+ */
+export class NativeMemoryBackend implements MemoryBackend {
+  readonly handle: Handle;
+  private closed = false;
+
+  constructor() {
+    this.handle = create_memory();
+  }
+
+  async store(entry: MemoryEntry): Promise<void> {
+    // Convert to snake_case for Rust serde
+    const rustEntry = {
+      id: entry.id,
+      content: entry.content,
+      entry_type: entry.entryType,
+      timestamp: entry.timestamp,
+      tier: entry.tier,
+      metadata: entry.parts ? { ...entry.metadata, parts: entry.parts } : entry.metadata,
+      importance: entry.importance,
+      session_id: entry.sessionId,
+      embedding: entry.embedding,
+    };
+    return memory_store(this.handle, JSON.stringify(rustEntry));
+  }
+
+  async recall(options?: RecallOptions): Promise<MemoryEntry[]> {
+    const json = options ? JSON.stringify(options) : undefined;
+    const entries = await (memory_recall(this.handle, json) as Promise<MemoryEntry[]>);
+    return entries.map((e) => {
+      const parts = e.metadata?.parts;
+      if (!Array.isArray(parts)) return e;
+      const { parts: _parts, ...metadata } = e.metadata!;
+      return { ...e, parts, metadata } as MemoryEntry;
+    });
+  }
+
+  async clear(sessionId?: string): Promise<void> {
+    return memory_clear(this.handle, sessionId);
+  }
+
+  async stats(): Promise<MemoryStats> {
+    const stats = await (memory_stats(this.handle) as Promise<Record<string, unknown>>);
+    return { ...stats, totalEntries: Number(stats.total_entries ?? stats.totalEntries ?? 0) };
+  }
+
+  async listSessions(): Promise<MemorySessionInfo[]> {
+    return summarizeSessions(await this.recall());
+  }
+
+  async deleteSession(sessionId: string): Promise<number> {
+    const entries = await this.recall({ sessionId });
+    await memory_clear(this.handle, sessionId);
+    return entries.length;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    try {
+      destroy_memory(this.handle);
+    } catch {
+      // Already destroyed.
+    }
+  }
+}
@@ -1,5 +1,9 @@
 /**
  * Middleware SDK wrapper — request/response chain backed by Rust core.
+ *
+ * The native chain is configured alongside a local mirror so the Agent can
+ * apply logging, caching, rate limiting and user-defined hooks around every
+ * provider request.
  */
 import {
   create_middleware_chain,
@@ -9,11 +13,73 @@ import {
   destroy_middleware_chain,
 } from "gauss-napi";
 
-import type { Handle, Disposable } from "./types.js";
+import type {
+  Handle,
+  Disposable,
+  Message,
+  AgentResult,
+  AgentMiddleware,
+  MiddlewareContext,
+  MiddlewareReport,
+  MiddlewareLogEntry,
+} from "./types.js";
 import { DisposedError } from "./errors.js";
+import { Telemetry } from "./telemetry.js";
+
+/** Receives one {@link MiddlewareLogEntry} per request. */
+export type MiddlewareLogger = (entry: MiddlewareLogEntry) => void;
+
+export interface ResponseCacheOptions {
+  /** Responses kept before the least recently used are evicted (default: 1000). */
+  maxEntries?: number;
+}
+
+/** Record each entry as a `gauss.<entry>` span. */
+function telemetryLogger(telemetry: Telemetry): MiddlewareLogger {
+  return ({ entry, durationMs, ...attributes }) => telemetry.recordSpan(`gauss.${entry}`, durationMs, attributes);
+}
+
+// ─── Rate limiting ─────────────────────────────────────────────────
+
+/**
+ * Token bucket that refills at `requestsPerMinute` up to `burst` tokens.
+ *
+ * Tokens may go negative: each caller reserves a slot synchronously and
+ * waits until it matures, so concurrent requests queue fairly.
+ */
+class TokenBucket {
+  private tokens: number;
+  private last = Date.now();
+  private readonly msPerToken: number;
+
+  constructor(requestsPerMinute: number, private readonly burst: number) {
+    this.msPerToken = 60_000 / requestsPerMinute;
+    this.tokens = burst;
+  }
+
+  /** Reserve a request slot; resolves with the time waited in milliseconds. */
+  async acquire(): Promise<number> {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.last) / this.msPerToken);
+    this.last = now;
+    this.tokens -= 1;
+    if (this.tokens >= 0) return 0;
+    const waitMs = Math.ceil(-this.tokens * this.msPerToken);
+    await new Promise((r) => setTimeout(r, waitMs));
+    return waitMs;
+  }
+}
+
+// ─── MiddlewareChain ───────────────────────────────────────────────
 
 export class MiddlewareChain implements Disposable {
   private readonly _handle: Handle;
+  private readonly _hooks: AgentMiddleware[] = [];
+  private readonly _cache = new Map<string, { value: unknown; expiresAt: number }>();
+  private _logger: MiddlewareLogger | null = null;
+  private _cacheTtlMs: number | null = null;
+  private _cacheMaxEntries = 1000;
+  private _rateLimit: TokenBucket | null = null;
   private disposed = false;
 
   constructor() {
@@ -24,27 +90,122 @@ export class MiddlewareChain implements Disposable {
     return this._handle;
   }
 
-  useLogging(): this {
+  /**
+   * Log every request made through the chain.
+   *
+   * @param sink - Receives a {@link MiddlewareLogEntry} per request, or a {@link Telemetry}
+   *   that records each as a span. Without one, only the core's logging middleware is enabled.
+   */
+  useLogging(sink?: MiddlewareLogger | Telemetry): this {
     this.assertNotDisposed();
     middleware_use_logging(this._handle);
+    this._logger = sink instanceof Telemetry ? telemetryLogger(sink) : sink ?? null;
     return this;
   }
 
-  useCaching(ttlMs: number): this {
+  /**
+   * Serve identical requests (same agent, model, messages and options) from cache for `ttlMs`.
+   * Agent-loop requests that offer tools are never cached: a hit would skip the tool calls.
+   * Expired responses are dropped, and past `options.maxEntries` the least recently used go.
+   */
+  useCaching(ttlMs: number, options: ResponseCacheOptions = {}): this {
     this.assertNotDisposed();
     middleware_use_caching(this._handle, ttlMs);
+    this._cacheTtlMs = ttlMs;
+    this._cacheMaxEntries = Math.max(1, options.maxEntries ?? 1000);
     return this;
   }
 
+  /** Throttle provider requests to `requestsPerMinute`, allowing bursts of up to `burst` (default: `requestsPerMinute`). */
   useRateLimit(requestsPerMinute: number, burst?: number): this {
     this.assertNotDisposed();
     middleware_use_rate_limit(this._handle, requestsPerMinute, burst);
+    this._rateLimit = new TokenBucket(requestsPerMinute, burst ?? requestsPerMinute);
+    return this;
+  }
+
+  /**
+   * Register user-defined middleware with `before` / `after` hooks.
+   *
+   * @example
+   * ```ts
+   * chain.use({
+   *   name: "audit",
+   *   before: (ctx) => audit.log(ctx.messages),
+   *   after: (ctx, result) => ({ ...result, text: result.text.trim() }),
+   * });
+   * ```
+   */
+  use(middleware: AgentMiddleware): this {
+    this.assertNotDisposed();
+    this._hooks.push(middleware);
     return this;
   }
 
+  /** Drop all cached responses. */
+  clearCache(): void {
+    this._cache.clear();
+  }
+
+  /**
+   * Run a provider request through the chain.
+   *
+   * @description Applies `before` hooks, serves cache hits, waits on the rate
+   * limiter, invokes the request, stores it in cache, applies `after` hooks and
+   * logs the outcome.
+   *
+   * @param ctx - Request context; `ctx.messages` may be replaced by `before` hooks.
+   * @param invoke - Performs the provider request with the final messages.
+   * @param onCacheHit - Called with the cached value when the request is not sent.
+   * @internal
+   */
+  async execute<T>(
+    ctx: MiddlewareContext,
+    invoke: (messages: Message[]) => Promise<T>,
+    onCacheHit?: (value: T) => void
+  ): Promise<{ value: T; report: MiddlewareReport }> {
+    this.assertNotDisposed();
+    const start = Date.now();
+    const report: MiddlewareReport = { cacheHit: false, rateLimitWaitMs: 0 };
+
+    try {
+      for (const hook of this._hooks) {
+        const replaced = await hook.before?.(ctx);
+        if (replaced) ctx.messages = replaced;
+      }
+
+      const key = this._cacheTtlMs !== null && !ctx.tools?.length ? this.cacheKey(ctx) : null;
+      let value: T;
+      const cached = key !== null ? this.cached(key) : undefined;
+      if (cached) {
+        report.cacheHit = true;
+        value = structuredClone(cached.value) as T;
+        onCacheHit?.(value);
+      } else {
+        if (this._rateLimit) report.rateLimitWaitMs = await this._rateLimit.acquire();
+        value = await invoke(ctx.messages);
+        if (key !== null) this.cache(key, value);
+      }
+
+      if (ctx.entry !== "generate" && ctx.entry !== "generateWithTools") {
+        for (const hook of [...this._hooks].reverse()) {
+          const replaced = await hook.after?.(ctx, value as AgentResult);
+          if (replaced) value = replaced as T;
+        }
+      }
+
+      this.log(ctx, report, start, value);
+      return { value, report };
+    } catch (err) {
+      this.log(ctx, report, start, undefined, err);
+      throw err;
+    }
+  }
+
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
+      this._cache.clear();
       try {
         destroy_middleware_chain(this._handle);
       } catch {
@@ -57,6 +218,50 @@ export class MiddlewareChain implements Disposable {
     this.destroy();
   }
 
+  /** A live cache entry, marked as recently used; expired entries are deleted. */
+  private cached(key: string): { value: unknown; expiresAt: number } | undefined {
+    const entry = this._cache.get(key);
+    if (!entry) return undefined;
+    this._cache.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+    this._cache.set(key, entry);
+    return entry;
+  }
+
+  private cache(key: string, value: unknown): void {
+    this._cache.delete(key);
+    this._cache.set(key, { value: structuredClone(value), expiresAt: Date.now() + this._cacheTtlMs! });
+    if (this._cache.size > this._cacheMaxEntries) {
+      this._cache.delete(this._cache.keys().next().value!);
+    }
+  }
+
+  private cacheKey(ctx: MiddlewareContext): string {
+    const kind = ctx.entry.startsWith("generate") ? ctx.entry : "agent";
+    return JSON.stringify([kind, ctx.agent, ctx.model, ctx.messages, ctx.options]);
+  }
+
+  private log(
+    ctx: MiddlewareContext,
+    report: MiddlewareReport,
+    start: number,
+    value?: unknown,
+    err?: unknown
+  ): void {
+    if (!this._logger) return;
+    const usage = value as Partial<AgentResult> | undefined;
+    this._logger({
+      entry: ctx.entry,
+      agent: ctx.agent,
+      model: ctx.model,
+      durationMs: Date.now() - start,
+      ...report,
+      inputTokens: typeof usage?.inputTokens === "number" ? usage.inputTokens : undefined,
+      outputTokens: typeof usage?.outputTokens === "number" ? usage.outputTokens : undefined,
+      error: err === undefined ? undefined : err instanceof Error ? err.message : String(err),
+    });
+  }
+
   private assertNotDisposed(): void {
     if (this.disposed) {
       throw new DisposedError("MiddlewareChain", "middlewareChain");
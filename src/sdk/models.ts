@@ -51,6 +51,22 @@ export const PROVIDER_DEFAULTS: Record<string, string> = {
   xai: XAI_DEFAULT,
 };
 
+// ─── Embeddings ──────────────────────────────────────
+export const OPENAI_EMBEDDING = "text-embedding-3-small";
+export const GOOGLE_EMBEDDING = "text-embedding-004";
+export const MISTRAL_EMBEDDING = "mistral-embed";
+export const OLLAMA_EMBEDDING = "nomic-embed-text";
+
+/** Default embedding model per provider, for providers with an embeddings API. */
+export const EMBEDDING_DEFAULTS: Record<string, string> = {
+  openai: OPENAI_EMBEDDING,
+  google: GOOGLE_EMBEDDING,
+  mistral: MISTRAL_EMBEDDING,
+  ollama: OLLAMA_EMBEDDING,
+  together: "BAAI/bge-base-en-v1.5",
+  fireworks: "nomic-ai/nomic-embed-text-v1.5",
+};
+
 /** Get the default model for a provider */
 export function defaultModel(provider: string): string {
   return PROVIDER_DEFAULTS[provider] ?? OPENAI_DEFAULT;
@@ -0,0 +1,483 @@
+/**
+ * Minimal PDF text extraction for `pdfLoader`.
+ *
+ * Walks the page tree, inflates content streams (including compressed object
+ * streams) and reads the text-showing operators, decoding through the fonts'
+ * ToUnicode CMaps when present.
+ *
+ * Known limits — pass `extractPages` to `pdfLoader` for anything beyond them:
+ * - Objects are found by scanning for `N G obj` headers, not through the xref
+ *   table; the last definition of an object wins.
+ * - Only FlateDecode streams are decoded. Streams with other filters, and
+ *   corrupt ones, yield no text rather than an error.
+ * - Encryption is detected by an `/Encrypt` entry and rejected, not decrypted.
+ * - Scanned (image-only) pages yield no text, and text order follows the
+ *   content stream rather than the visual layout.
+ *
+ * @internal
+ */
+import { inflateSync } from "node:zlib";
+
+import { ValidationError } from "./errors.js";
+
+// ─── Object model ──────────────────────────────────────────────────
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+/** A literal or hex string, as raw bytes in a latin1 string. */
+class PdfString {
+  constructor(readonly bytes: string) {}
+}
+
+class PdfRef {
+  constructor(readonly id: number) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+class PdfDict {
+  stream?: Buffer;
+  constructor(readonly entries: Map<string, PdfObject>) {}
+  get(key: string): PdfObject | undefined {
+    return this.entries.get(key);
+  }
+}
+
+type PdfObject = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfObject[];
+type Token = PdfObject | PdfOperator;
+
+// ─── Lexer ─────────────────────────────────────────────────────────
+
+const DELIMITERS = new Set(["(", ")", "<", ">", "[", "]", "{", "}", "/", "%"]);
+const isWhite = (c: string) => c === " " || c === "\n" || c === "\r" || c === "\t" || c === "\f" || c === "\0";
+
+class Lexer {
+  constructor(readonly src: string, public pos = 0) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos];
+      if (isWhite(c)) this.pos++;
+      else if (c === "%") while (this.pos < this.src.length && this.src[this.pos] !== "\n" && this.src[this.pos] !== "\r") this.pos++;
+      else break;
+    }
+  }
+
+  /** Next object or operator; `undefined` at end of input or at a closing delimiter. */
+  next(): Token | undefined {
+    this.skipWhitespace();
+    const c = this.src[this.pos];
+    if (c === undefined) return undefined;
+    if (c === "<" && this.src[this.pos + 1] === "<") return this.dict();
+    if (c === "<") return this.hexString();
+    if (c === "(") return this.literalString();
+    if (c === "[") return this.array();
+    if (c === "/") return new PdfName(this.word(1));
+    if (c === "]" || c === ">" || c === ")") return undefined;
+    if (/[0-9+\-.]/.test(c)) return this.number();
+    const word = this.word(0);
+    if (word === "") {
+      this.pos++; // stray delimiter such as "{"
+      return this.next();
+    }
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    return new PdfOperator(word);
+  }
+
+  private word(skip: number): string {
+    this.pos += skip;
+    const start = this.pos;
+    while (this.pos < this.src.length && !isWhite(this.src[this.pos]) && !DELIMITERS.has(this.src[this.pos])) this.pos++;
+    return this.src.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, h) => String.fromCharCode(parseInt(h, 16)));
+  }
+
+  private number(): number | PdfRef {
+    const match = /^[+-]?(\d+\.?\d*|\.\d+)/.exec(this.src.slice(this.pos, this.pos + 32));
+    if (!match) {
+      this.pos++;
+      return 0;
+    }
+    this.pos += match[0].length;
+    const value = Number(match[0]);
+    // "12 0 R" is an indirect reference
+    const ref = /^\s+\d+\s+R(?![^\s/<>[\]()%])/.exec(this.src.slice(this.pos, this.pos + 24));
+    if (ref && Number.isInteger(value)) {
+      this.pos += ref[0].length;
+      return new PdfRef(value);
+    }
+    return value;
+  }
+
+  private dict(): PdfDict {
+    this.pos += 2;
+    const entries = new Map<string, PdfObject>();
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.src.length) break;
+      if (this.src.startsWith(">>", this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.next();
+      const value = this.next();
+      if (!(key instanceof PdfName)) continue;
+      if (!(value instanceof PdfOperator) && value !== undefined) entries.set(key.name, value);
+    }
+    return new PdfDict(entries);
+  }
+
+  private array(): PdfObject[] {
+    this.pos++;
+    const items: PdfObject[] = [];
+    for (;;) {
+      const token = this.next();
+      if (token === undefined) {
+        if (this.src[this.pos] === "]") this.pos++;
+        else if (this.pos < this.src.length) this.pos++;
+        if (this.pos >= this.src.length || this.src[this.pos - 1] === "]") break;
+        continue;
+      }
+      if (!(token instanceof PdfOperator)) items.push(token);
+    }
+    return items;
+  }
+
+  private hexString(): PdfString {
+    const end = this.src.indexOf(">", this.pos);
+    const hex = this.src.slice(this.pos + 1, end < 0 ? undefined : end).replace(/[^0-9a-fA-F]/g, "");
+    this.pos = end < 0 ? this.src.length : end + 1;
+    let bytes = "";
+    for (let i = 0; i < hex.length; i += 2) bytes += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, "0"), 16));
+    return new PdfString(bytes);
+  }
+
+  private literalString(): PdfString {
+    this.pos++;
+    let depth = 1;
+    let out = "";
+    while (this.pos < this.src.length) {
+      const c = this.src[this.pos++];
+      if (c === "\\") {
+        const e = this.src[this.pos++];
+        if (/[0-7]/.test(e)) {
+          let oct = e;
+          while (oct.length < 3 && /[0-7]/.test(this.src[this.pos])) oct += this.src[this.pos++];
+          out += String.fromCharCode(parseInt(oct, 8) & 0xff);
+        } else if (e === "\r") {
+          if (this.src[this.pos] === "\n") this.pos++;
+        } else if (e !== "\n") {
+          out += ({ n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" } as Record<string, string>)[e] ?? e;
+        }
+      } else if (c === "(") {
+        depth++;
+        out += c;
+      } else if (c === ")") {
+        if (--depth === 0) break;
+        out += c;
+      } else {
+        out += c;
+      }
+    }
+    return new PdfString(out);
+  }
+}
+
+// ─── Document ──────────────────────────────────────────────────────
+
+interface Font {
+  codeLength: number;
+  toUnicode?: Map<number, string>;
+}
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly fonts = new Map<number, Font>();
+
+  constructor(private readonly src: string) {
+    this.readObjects();
+    this.readObjectStreams();
+  }
+
+  pages(): string[] {
+    const catalog = [...this.objects.values()].find((o) => o instanceof PdfDict && nameOf(o.get("Type")) === "Catalog");
+    const root = catalog instanceof PdfDict ? this.resolve(catalog.get("Pages")) : undefined;
+    const pages: string[] = [];
+    if (root instanceof PdfDict) this.walkPages(root, undefined, pages, new Set());
+    return pages;
+  }
+
+  isEncrypted(): boolean {
+    return /\/Encrypt\s*\d+\s+\d+\s+R/.test(this.src) || /trailer[\s\S]{0,400}\/Encrypt\b/.test(this.src);
+  }
+
+  private readObjects(): void {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.src))) {
+      const lexer = new Lexer(this.src, match.index + match[0].length);
+      const value = lexer.next();
+      if (value === undefined || value instanceof PdfOperator) continue;
+      if (value instanceof PdfDict) {
+        lexer.skipWhitespace();
+        if (this.src.startsWith("stream", lexer.pos)) lexer.pos = this.readStream(value, lexer.pos + 6);
+      }
+      this.objects.set(Number(match[1]), value);
+      header.lastIndex = Math.max(header.lastIndex, lexer.pos);
+    }
+  }
+
+  /** Attach the raw stream bytes to `dict`; returns the position after `endstream`. */
+  private readStream(dict: PdfDict, pos: number): number {
+    if (this.src[pos] === "\r") pos++;
+    if (this.src[pos] === "\n") pos++;
+    const length = dict.get("Length");
+    let end = typeof length === "number" && this.src.startsWith("endstream", skipEol(this.src, pos + length))
+      ? pos + length
+      : this.src.indexOf("endstream", pos);
+    if (end < 0) end = this.src.length;
+    dict.stream = Buffer.from(this.src.slice(pos, end), "latin1");
+    return end + "endstream".length;
+  }
+
+  private readObjectStreams(): void {
+    for (const value of [...this.objects.values()]) {
+      if (!(value instanceof PdfDict) || nameOf(value.get("Type")) !== "ObjStm") continue;
+      const data = this.decode(value);
+      const first = this.resolve(value.get("First"));
+      const count = this.resolve(value.get("N"));
+      if (data === null || typeof first !== "number" || typeof count !== "number") continue;
+      const text = data.toString("latin1");
+      const offsets = text.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i + 1 < offsets.length && i / 2 < count; i += 2) {
+        if (this.objects.has(offsets[i])) continue;
+        const parsed = new Lexer(text, first + offsets[i + 1]).next();
+        if (parsed !== undefined && !(parsed instanceof PdfOperator)) this.objects.set(offsets[i], parsed);
+      }
+    }
+  }
+
+  private resolve(value: PdfObject | undefined, depth = 0): PdfObject | undefined {
+    if (value instanceof PdfRef && depth < 32) return this.resolve(this.objects.get(value.id), depth + 1);
+    return value;
+  }
+
+  /** Decoded stream bytes, or null for unsupported filters. */
+  private decode(dict: PdfDict): Buffer | null {
+    if (!dict.stream) return null;
+    const filter = this.resolve(dict.get("Filter"));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((f) => nameOf(this.resolve(f)));
+    let data = dict.stream;
+    for (const name of filters) {
+      if (name !== "FlateDecode") return null;
+      try {
+        data = inflateSync(data, { finishFlush: 2 /* Z_SYNC_FLUSH: tolerate truncated streams */ });
+      } catch {
+        return null;
+      }
+    }
+    return data;
+  }
+
+  private walkPages(node: PdfDict, inherited: PdfObject | undefined, out: string[], seen: Set<PdfDict>): void {
+    if (seen.has(node)) return;
+    seen.add(node);
+    const resources = node.get("Resources") ?? inherited;
+    if (nameOf(node.get("Type")) === "Page" || !node.get("Kids")) {
+      out.push(this.pageText(node, this.resolve(resources)));
+      return;
+    }
+    const kids = this.resolve(node.get("Kids"));
+    for (const kid of Array.isArray(kids) ? kids : []) {
+      const child = this.resolve(kid);
+      if (child instanceof PdfDict) this.walkPages(child, resources, out, seen);
+    }
+  }
+
+  private pageText(page: PdfDict, resources: PdfObject | undefined): string {
+    const contents = this.resolve(page.get("Contents"));
+    const streams = (Array.isArray(contents) ? contents : contents ? [contents] : [])
+      .map((c) => this.resolve(c))
+      .filter((c): c is PdfDict => c instanceof PdfDict)
+      .map((c) => this.decode(c)?.toString("latin1") ?? "");
+    const fonts = new Map<string, Font>();
+    const fontDict = resources instanceof PdfDict ? this.resolve(resources.get("Font")) : undefined;
+    if (fontDict instanceof PdfDict) {
+      for (const [name, ref] of fontDict.entries) fonts.set(name, this.font(ref));
+    }
+    return extractText(streams.join("\n"), fonts);
+  }
+
+  private font(ref: PdfObject): Font {
+    const key = ref instanceof PdfRef ? ref.id : -1;
+    const cached = this.fonts.get(key);
+    if (cached) return cached;
+    const dict = this.resolve(ref);
+    let font: Font = { codeLength: 1 };
+    if (dict instanceof PdfDict) {
+      font = { codeLength: nameOf(dict.get("Subtype")) === "Type0" ? 2 : 1 };
+      const cmap = this.resolve(dict.get("ToUnicode"));
+      const data = cmap instanceof PdfDict ? this.decode(cmap) : null;
+      if (data) Object.assign(font, parseCMap(data.toString("latin1"), font.codeLength));
+    }
+    if (key >= 0) this.fonts.set(key, font);
+    return font;
+  }
+}
+
+function nameOf(value: PdfObject | undefined): string | undefined {
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+function skipEol(src: string, pos: number): number {
+  while (src[pos] === "\r" || src[pos] === "\n" || src[pos] === " ") pos++;
+  return pos;
+}
+
+// ─── Fonts ─────────────────────────────────────────────────────────
+
+function hexCode(hex: string): number {
+  return parseInt(hex || "0", 16);
+}
+
+function utf16(hex: string): string {
+  let out = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  if (hex.length === 2) out += String.fromCharCode(parseInt(hex, 16));
+  return out;
+}
+
+function parseCMap(text: string, defaultLength: number): Font {
+  const toUnicode = new Map<number, string>();
+  const space = /begincodespacerange\s*<([0-9a-fA-F]+)>/.exec(text);
+  const codeLength = space ? Math.max(1, space[1].length / 2) : defaultLength;
+  for (const block of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) toUnicode.set(hexCode(m[1]), utf16(m[2]));
+  }
+  for (const block of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const lo = hexCode(m[1]);
+      const hi = Math.min(hexCode(m[2]), lo + 0xffff);
+      if (m[3].startsWith("[")) {
+        const targets = [...m[3].matchAll(/<([0-9a-fA-F]*)>/g)].map((t) => utf16(t[1]));
+        targets.forEach((t, i) => { if (lo + i <= hi) toUnicode.set(lo + i, t); });
+      } else {
+        const base = m[3].slice(1, -1);
+        const prefix = utf16(base.slice(0, -4));
+        const last = parseInt(base.slice(-4) || "0", 16);
+        for (let code = lo; code <= hi; code++) toUnicode.set(code, prefix + String.fromCharCode(last + code - lo));
+      }
+    }
+  }
+  return { codeLength, toUnicode };
+}
+
+function decodeString(bytes: string, font: Font | undefined): string {
+  // Multi-byte codes without a ToUnicode map are glyph IDs, not text
+  if (!font?.toUnicode) return font && font.codeLength > 1 ? "" : bytes;
+  let out = "";
+  for (let i = 0; i < bytes.length; i += font.codeLength) {
+    let code = 0;
+    for (let j = 0; j < font.codeLength; j++) code = code * 256 + (bytes.charCodeAt(i + j) || 0);
+    out += font.toUnicode.get(code) ?? (font.codeLength === 1 ? bytes[i] : "");
+  }
+  return out;
+}
+
+// ─── Content streams ───────────────────────────────────────────────
+
+/** A TJ kerning adjustment this negative (thousandths of an em) is read as a word gap. */
+const TJ_SPACE_THRESHOLD = -200;
+
+function extractText(content: string, fonts: Map<string, Font>): string {
+  const lexer = new Lexer(content);
+  let out = "";
+  let font: Font | undefined;
+  let operands: PdfObject[] = [];
+  let lastY: number | undefined;
+  const newline = () => { if (out && !out.endsWith("\n")) out += "\n"; };
+
+  for (;;) {
+    const token = lexer.next();
+    if (token === undefined) {
+      if (lexer.pos >= content.length) break;
+      lexer.pos++;
+      continue;
+    }
+    if (!(token instanceof PdfOperator)) {
+      operands.push(token);
+      continue;
+    }
+    const last = operands[operands.length - 1];
+    switch (token.op) {
+      case "Tf":
+        font = operands[0] instanceof PdfName ? fonts.get(operands[0].name) : undefined;
+        break;
+      case "Tj":
+        if (last instanceof PdfString) out += decodeString(last.bytes, font);
+        break;
+      case "'":
+      case "\"":
+        newline();
+        if (last instanceof PdfString) out += decodeString(last.bytes, font);
+        break;
+      case "TJ":
+        for (const part of Array.isArray(last) ? last : []) {
+          if (part instanceof PdfString) out += decodeString(part.bytes, font);
+          else if (typeof part === "number" && part < TJ_SPACE_THRESHOLD && !out.endsWith(" ")) out += " ";
+        }
+        break;
+      case "Td":
+      case "TD":
+        if (typeof operands[1] === "number" && operands[1] !== 0) newline();
+        else if (out && !/\s$/.test(out)) out += " ";
+        break;
+      case "T*":
+        newline();
+        break;
+      case "Tm":
+        if (typeof operands[5] === "number") {
+          if (lastY !== undefined && operands[5] !== lastY) newline();
+          lastY = operands[5];
+        }
+        break;
+      case "ET":
+        if (out && !/\s$/.test(out)) out += " ";
+        break;
+      case "ID": {
+        // Inline image data runs until "EI"
+        const end = content.indexOf("EI", lexer.pos);
+        lexer.pos = end < 0 ? content.length : end + 2;
+        break;
+      }
+    }
+    operands = [];
+  }
+  return out
+    .replace(/[\u0000-\u0008\u000b-\u001f]/g, "") // undecodable control bytes
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// ─── Entry point ───────────────────────────────────────────────────
+
+/**
+ * Extract the text of each page, in page order.
+ *
+ * @throws {ValidationError} If the data is not a PDF or the PDF is encrypted.
+ */
+export function extractPdfText(data: Uint8Array): string[] {
+  const src = Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("latin1");
+  if (!src.startsWith("%PDF-")) throw new ValidationError("not a PDF file", "data");
+  const doc = new PdfDocument(src);
+  if (doc.isEncrypted()) throw new ValidationError("encrypted PDFs are not supported", "data");
+  return doc.pages();
+}
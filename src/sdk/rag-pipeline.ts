@@ -0,0 +1,259 @@
+/**
+ * RAG pipeline — loads, splits, embeds and indexes documents into a
+ * {@link VectorStore}, then retrieves attributed context for agents.
+ *
+ * Retrieved chunks are presented to the model as numbered sources it is asked
+ * to cite as `[n]`; the citations are mapped back to chunk IDs on
+ * `result.retrieval.usedChunkIds`.
+ *
+ * @example
+ *   const rag = new RagPipeline({ embed: new ProviderEmbedder({ provider: "openai" }), topK: 4 });
+ *   await rag.ingest(["./docs/faq.md", "./docs/pricing.json"]);
+ *   const result = await rag.attachTo(agent).run("What does the Pro plan cost?");
+ *   console.log(result.text, result.retrieval?.usedChunkIds);
+ *
+ * @example
+ *   // Let the agent decide when to search instead
+ *   agent.addTool(rag.asTool());
+ */
+import { createHash } from "node:crypto";
+import { stat } from "node:fs/promises";
+
+import type {
+  Disposable,
+  AgentRetriever,
+  Embedder,
+  HybridSearchOptions,
+  Reranker,
+  MetadataFilter,
+  RetrievalContext,
+  RetrievedChunk,
+  SearchResult,
+  VectorChunk,
+} from "./types.js";
+import type { Agent } from "./agent.js";
+import { DisposedError, ValidationError } from "./errors.js";
+import { VectorStore } from "./vector-store.js";
+import {
+  isPathShaped,
+  loadFile,
+  textLoader,
+  type DocumentLoaderOptions,
+  type LoadedDocument,
+} from "./document-loader.js";
+import type { Splitter, TextSplitterOptions } from "./text-splitter.js";
+import { tool, type TypedToolDef } from "./tool.js";
+import { toEmbedder, type EmbedFn } from "./embeddings.js";
+import { rerank } from "./rerank.js";
+
+const DEFAULT_TOP_K = 4;
+const DEFAULT_CANDIDATES = 50;
+
+/** A file path, inline text, or an already loaded document. */
+export type RagSource = string | LoadedDocument;
+
+export interface RagPipelineOptions extends TextSplitterOptions {
+  /** Embeds chunks and queries: an {@link Embedder} or a single-text callback. */
+  embed: Embedder | EmbedFn;
+  /** Store to index into (default: a new in-memory store, destroyed with the pipeline). */
+  store?: VectorStore;
+  /** Chunks retrieved per query (default: 4). */
+  topK?: number;
+  /** Rank with {@link VectorStore.hybridSearch} (BM25 + vectors); `true` uses its defaults. */
+  hybrid?: boolean | Omit<HybridSearchOptions, "topK" | "filter">;
+  /** Metadata filter applied to every retrieval. */
+  filter?: MetadataFilter;
+  /** Rerankers applied in order to the retrieved candidates; the last one keeps `topK`. */
+  rerank?: Reranker | Reranker[];
+  /** Candidates retrieved for reranking (default: 50). Ignored without `rerank`. */
+  candidates?: number;
+  /** Splitter for ingested text, e.g. a `TokenTextSplitter` sized to the embedding model. */
+  splitter?: Splitter;
+}
+
+export interface RagRetrieveOptions {
+  /** Overrides the pipeline's `topK`. */
+  topK?: number;
+  /** Overrides the pipeline's `filter`. */
+  filter?: MetadataFilter;
+  /** Aborts query embedding and reranking. */
+  signal?: AbortSignal;
+}
+
+export interface RagIngestResult {
+  /** IDs of the documents (re)indexed, in input order. */
+  documentIds: string[];
+  /** Chunks written to the store. */
+  chunks: number;
+}
+
+export class RagPipeline implements AgentRetriever, Disposable {
+  readonly store: VectorStore;
+  private readonly ownsStore: boolean;
+  private readonly options: RagPipelineOptions;
+  private readonly embedder: Embedder;
+  private readonly rerankers: Reranker[];
+  private disposed = false;
+
+  constructor(options: RagPipelineOptions) {
+    if (!options?.embed) {
+      throw new ValidationError("RagPipeline requires an embedder", "embed");
+    }
+    this.options = options;
+    this.embedder = toEmbedder(options.embed);
+    this.rerankers = options.rerank ? [options.rerank].flat() : [];
+    this.ownsStore = !options.store;
+    this.store = options.store ?? new VectorStore();
+  }
+
+  /**
+   * Load, split, embed and index documents.
+   *
+   * @description Strings naming an existing file are loaded by extension (Markdown, JSON,
+   * HTML, CSV, PDF, DOCX, anything else as text) with the path as document ID and
+   * `metadata.source`. Other strings
+   * are indexed as inline text under a content-hash ID, except those shaped like a path
+   * (such as `./docs/faq.md`), which are rejected so a mistyped path is not indexed as text. A document that is already indexed is
+   * replaced, so re-ingesting a changed file does not leave stale chunks behind. Chunks that
+   * already carry an embedding are not embedded again.
+   *
+   * @throws {ValidationError} If a path-shaped string names no file.
+   */
+  async ingest(sources: RagSource | RagSource[]): Promise<RagIngestResult> {
+    this.assertNotDisposed();
+    const documentIds: string[] = [];
+    let chunks = 0;
+    for (const source of Array.isArray(sources) ? sources : [sources]) {
+      const doc = typeof source === "string" ? await this.load(source) : source;
+      const pending = doc.chunks.filter((chunk) => !chunk.embedding);
+      const vectors = await this.embedder.embed(pending.map((chunk) => chunk.content));
+      const fresh = new Map(pending.map((chunk, i) => [chunk, vectors[i]]));
+      const embedded = doc.chunks.map((chunk): VectorChunk => ({
+        ...chunk,
+        embedding: chunk.embedding ?? fresh.get(chunk),
+      }));
+      await this.store.deleteDocument(doc.documentId);
+      await this.store.upsert(embedded);
+      documentIds.push(doc.documentId);
+      chunks += embedded.length;
+    }
+    return { documentIds, chunks };
+  }
+
+  /**
+   * Retrieve the chunks most relevant to `query`, best first.
+   *
+   * With rerankers configured, `candidates` chunks are retrieved and reranked down to `topK`.
+   */
+  async retrieve(query: string, options: RagRetrieveOptions = {}): Promise<RetrievedChunk[]> {
+    this.assertNotDisposed();
+    const topK = options.topK ?? this.options.topK ?? DEFAULT_TOP_K;
+    const filter = options.filter ?? this.options.filter;
+    const signal = options.signal;
+    const reranking = this.rerankers.length > 0;
+    const fetchK = reranking ? Math.max(this.options.candidates ?? DEFAULT_CANDIDATES, topK) : topK;
+    const [embedding] = await this.embedder.embed([query], { signal });
+    const hybrid = this.options.hybrid;
+    let results = hybrid
+      ? await this.store.hybridSearch(query, embedding, {
+          ...(hybrid === true ? {} : hybrid), topK: fetchK, filter, includeEmbeddings: reranking })
+      : await this.store.search(embedding, fetchK, { filter, includeEmbeddings: reranking });
+    if (reranking) results = await rerank(query, results, this.rerankers, { topK, queryEmbedding: embedding, signal });
+    return results.map((result) => this.attribute(result));
+  }
+
+  /** Retrieve context for `query` as numbered sources the model is asked to cite. */
+  async augment(query: string, options: { signal?: AbortSignal } = {}): Promise<RetrievalContext> {
+    const chunks = await this.retrieve(query, { signal: options.signal });
+    const sources = chunks.map((c, i) => `[${i + 1}] ${c.source} (chunk ${c.id})\n${c.text}`);
+    const prompt = "Answer using the numbered sources below when they are relevant. " +
+      "Cite each source you use as [n], e.g. [1] or [2][3].\n\n" + sources.join("\n\n");
+    return { prompt, chunks };
+  }
+
+  /** Map `[n]` / `[n, m]` citations in `answer` to chunk IDs, in order of first citation. */
+  usedChunkIds(answer: string, context: RetrievalContext): string[] {
+    const used = new Set<string>();
+    for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+      for (const n of match[1].split(",")) {
+        const chunk = context.chunks[Number(n) - 1];
+        if (chunk) used.add(chunk.id);
+      }
+    }
+    return [...used];
+  }
+
+  /**
+   * Expose retrieval as a tool the agent can call with its own queries.
+   *
+   * @param options.name - Tool name (default: `"search_knowledge_base"`).
+   */
+  asTool(options: { name?: string; description?: string } = {}): TypedToolDef<{ query: string; topK?: number }> {
+    return tool({
+      name: options.name ?? "search_knowledge_base",
+      description: options.description
+        ?? "Search the knowledge base. Returns relevant passages with their source and chunk ID.",
+      parameters: {
+        query: { type: "string", description: "What to search for" },
+        topK: { type: "number", description: "Maximum passages to return" },
+      },
+      execute: async ({ query, topK }, { signal }) => {
+        const chunks = await this.retrieve(query, { topK, signal });
+        return { results: chunks.map(({ id, source, text, score }) => ({ id, source, text, score })) };
+      },
+    });
+  }
+
+  /**
+   * Inject retrieved context into every `run` of `agent`.
+   *
+   * @returns The same agent, for chaining. See {@link Agent.withRetriever}.
+   */
+  attachTo(agent: Agent): Agent {
+    this.assertNotDisposed();
+    return agent.withRetriever(this);
+  }
+
+  destroy(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    if (this.ownsStore) this.store.destroy();
+  }
+
+  [Symbol.dispose](): void {
+    this.destroy();
+  }
+
+  private async load(source: string): Promise<LoadedDocument> {
+    const splitter: DocumentLoaderOptions = {
+      chunkSize: this.options.chunkSize,
+      chunkOverlap: this.options.chunkOverlap,
+      separators: this.options.separators,
+      splitter: this.options.splitter,
+    };
+    const isFile = await stat(source).then((s) => s.isFile(), () => false);
+    if (!isFile && isPathShaped(source)) {
+      throw new ValidationError(`no such file: ${source}`, "sources");
+    }
+    if (!isFile) {
+      const documentId = `text-${createHash("sha256").update(source).digest("hex").slice(0, 12)}`;
+      return textLoader.fromString(source, { ...splitter, documentId });
+    }
+    return loadFile(source, { ...splitter, documentId: source });
+  }
+
+  private attribute(result: SearchResult): RetrievedChunk {
+    const chunk = this.store.getChunk(result.id);
+    const documentId = chunk?.documentId ?? result.id;
+    const metadata = result.metadata ?? chunk?.metadata;
+    const source = typeof metadata?.source === "string" ? metadata.source : documentId;
+    const { embedding: _embedding, ...rest } = result;
+    return { ...rest, text: result.text || chunk?.content || "", metadata, documentId, source };
+  }
+
+  private assertNotDisposed(): void {
+    if (this.disposed) {
+      throw new DisposedError("RagPipeline", "ragPipeline");
+    }
+  }
+}
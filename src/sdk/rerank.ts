@@ -0,0 +1,209 @@
+/**
+ * Rerankers — reorder retrieval candidates before they reach the model.
+ *
+ * Retrieval is cheap but coarse: over-fetch candidates (say 50), rerank them
+ * with something slower and sharper, and keep the best few. Rerankers can be
+ * chained in `RagPipeline`, e.g. a cross-encoder for relevance followed by MMR
+ * for diversity.
+ *
+ * @example
+ *   const rag = new RagPipeline({
+ *     embed: embedder,
+ *     topK: 5,
+ *     candidates: 50,
+ *     rerank: [llmReranker(judge), mmrReranker({ lambda: 0.7 })],
+ *   });
+ *
+ * @example
+ *   const top = await mmrReranker().rerank(query, await store.search(q, 50, { includeEmbeddings: true }), {
+ *     topK: 5,
+ *     queryEmbedding: q,
+ *   });
+ */
+import type { Reranker, RerankOptions, SearchResult } from "./types.js";
+import type { Agent } from "./agent.js";
+import { ValidationError } from "./errors.js";
+import { structured, type JsonSchema } from "./structured.js";
+import { cosine } from "./vector-store.js";
+
+// ─── LLM listwise ──────────────────────────────────────────────────
+
+export interface LlmRerankerOptions {
+  /** Candidates shown to the model, in retrieval order (default: 20). The rest keep their order after them. */
+  maxCandidates?: number;
+  /** Characters of each passage shown to the model (default: 1000). */
+  maxPassageChars?: number;
+  /** Parse retries passed to {@link structured} (default: 2). */
+  maxParseRetries?: number;
+}
+
+const RANKING_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    ranking: {
+      type: "array",
+      items: { type: "integer" },
+      description: "Passage numbers, most relevant first. Omit passages that do not help answer the query.",
+    },
+  },
+  required: ["ranking"],
+};
+
+/**
+ * Listwise reranker: `agent` sees the query and numbered passages and returns
+ * them in order of relevance.
+ *
+ * Passages it ranks get `rerankScore` from 1 down towards 0 by position; passages
+ * it omits score 0 and follow in their original order.
+ */
+export function llmReranker(agent: Agent, options: LlmRerankerOptions = {}): Reranker {
+  const maxCandidates = options.maxCandidates ?? 20;
+  const maxChars = options.maxPassageChars ?? 1000;
+
+  return {
+    name: "llm",
+    async rerank(query, results, { topK, signal }): Promise<SearchResult[]> {
+      const shown = results.slice(0, maxCandidates);
+      if (shown.length === 0) return [];
+      const passages = shown.map((r, i) => `[${i + 1}] ${r.text.slice(0, maxChars)}`);
+      const prompt = "Rank the passages by how well they answer the query.\n\n" +
+        `Query:\n${query}\n\nPassages:\n${passages.join("\n\n")}`;
+      const { data } = await structured<{ ranking: unknown[] }>(agent, prompt, {
+        schema: RANKING_SCHEMA,
+        maxParseRetries: options.maxParseRetries,
+        signal,
+      });
+
+      const order: number[] = [];
+      for (const n of Array.isArray(data.ranking) ? data.ranking : []) {
+        const index = Number(n) - 1;
+        if (Number.isInteger(index) && index >= 0 && index < shown.length && !order.includes(index)) order.push(index);
+      }
+      const ranked = order.map((index, rank) => scored(shown[index], 1 - rank / order.length));
+      const rest = results.filter((_, i) => !order.includes(i)).map((r) => scored(r, 0));
+      return [...ranked, ...rest].slice(0, topK);
+    },
+  };
+}
+
+// ─── Cross-encoder hook ────────────────────────────────────────────
+
+/**
+ * Scores each passage jointly with the query — e.g. a cross-encoder model
+ * served over HTTP. Returns one score per passage, higher is better.
+ */
+export type PairScorer = (query: string, passages: string[], options?: { signal?: AbortSignal }) => Promise<number[]>;
+
+export interface CrossEncoderRerankerOptions {
+  /** Passages per scorer call (default: 32). */
+  batchSize?: number;
+  /** Reranker name (default: `"cross-encoder"`). */
+  name?: string;
+}
+
+/**
+ * Reranker that sorts candidates by `score(query, passages)`.
+ *
+ * @throws {ValidationError} From `rerank` if the scorer returns the wrong number of scores.
+ */
+export function crossEncoderReranker(score: PairScorer, options: CrossEncoderRerankerOptions = {}): Reranker {
+  const batchSize = Math.max(1, options.batchSize ?? 32);
+
+  return {
+    name: options.name ?? "cross-encoder",
+    async rerank(query, results, { topK, signal }): Promise<SearchResult[]> {
+      const scores: number[] = [];
+      for (let i = 0; i < results.length; i += batchSize) {
+        const batch = results.slice(i, i + batchSize).map((r) => r.text);
+        const batchScores = await score(query, batch, { signal });
+        if (batchScores.length !== batch.length) {
+          throw new ValidationError(`scorer returned ${batchScores.length} scores for ${batch.length} passages`, "score");
+        }
+        scores.push(...batchScores);
+      }
+      return results
+        .map((r, i) => scored(r, scores[i]))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+  };
+}
+
+// ─── MMR ───────────────────────────────────────────────────────────
+
+export interface MmrRerankerOptions {
+  /** Trade-off between relevance (1) and diversity (0) (default: 0.5). */
+  lambda?: number;
+}
+
+/**
+ * Maximal marginal relevance: greedily picks the candidate most similar to the
+ * query and least similar to those already picked.
+ *
+ * Needs `queryEmbedding` and candidate embeddings (search with `includeEmbeddings`).
+ * Each pick's `rerankScore` is its MMR score when selected.
+ *
+ * @throws {ValidationError} If `lambda` is outside [0, 1], or from `rerank` when embeddings are missing.
+ */
+export function mmrReranker(options: MmrRerankerOptions = {}): Reranker {
+  const lambda = options.lambda ?? 0.5;
+  if (!(lambda >= 0 && lambda <= 1)) {
+    throw new ValidationError("must be between 0 and 1", "lambda");
+  }
+
+  return {
+    name: "mmr",
+    async rerank(_query, results, { topK, queryEmbedding }: RerankOptions): Promise<SearchResult[]> {
+      if (!queryEmbedding) throw new ValidationError("MMR needs the query embedding", "queryEmbedding");
+      const missing = results.find((r) => !r.embedding);
+      if (missing) {
+        throw new ValidationError(`result "${missing.id}" has no embedding; search with includeEmbeddings`, "embedding");
+      }
+
+      const relevance = results.map((r) => cosine(queryEmbedding, r.embedding!));
+      const remaining = results.map((_, i) => i);
+      const picked: SearchResult[] = [];
+      while (picked.length < topK && remaining.length > 0) {
+        let best = 0;
+        let bestScore = -Infinity;
+        remaining.forEach((index, slot) => {
+          const redundancy = picked.length === 0
+            ? 0
+            : Math.max(...picked.map((p) => cosine(results[index].embedding!, p.embedding!)));
+          const mmr = lambda * relevance[index] - (1 - lambda) * redundancy;
+          if (mmr > bestScore) {
+            bestScore = mmr;
+            best = slot;
+          }
+        });
+        const [index] = remaining.splice(best, 1);
+        picked.push(scored(results[index], bestScore));
+      }
+      return picked;
+    },
+  };
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────
+
+function scored(result: SearchResult, score: number): SearchResult {
+  return { ...result, score, rerankScore: score };
+}
+
+/**
+ * Apply `rerankers` in order. Each keeps every candidate except the last, which
+ * cuts the list to `options.topK`.
+ */
+export async function rerank(
+  query: string,
+  results: SearchResult[],
+  rerankers: Reranker[],
+  options: RerankOptions,
+): Promise<SearchResult[]> {
+  let current = results;
+  for (let i = 0; i < rerankers.length; i++) {
+    const last = i === rerankers.length - 1;
+    current = await rerankers[i].rerank(query, current, { ...options, topK: last ? options.topK : current.length });
+  }
+  return rerankers.length === 0 ? current.slice(0, options.topK) : current;
+}
@@ -1,5 +1,15 @@
 /**
  * Resilience SDK — fallback providers, circuit breakers, backed by Rust core.
+ *
+ * The `Agent` overloads return agents whose runs fail over between providers
+ * in TypeScript, so each result reports which provider served it
+ * (`result.resilience`) and circuit transitions can be observed:
+ *
+ * @example
+ *   const agent = createResilientAgent(primary, [backup]);
+ *   const stop = agent.onResilienceEvent((e) => console.log(e));
+ *   const result = await agent.run("Hello");
+ *   console.log(result.resilience?.provider, result.resilience?.fallbacks);
  */
 import {
   create_fallback_provider,
@@ -7,33 +17,259 @@ import {
   create_resilient_provider,
 } from "gauss-napi";
 
-import type { Handle } from "./types.js";
+import type {
+  Handle,
+  CircuitBreakerOptions,
+  CircuitState,
+  ProviderFailure,
+  ProviderTarget,
+  ResilienceEvent,
+  ResilienceReport,
+} from "./types.js";
 import type { Agent } from "./agent.js";
+import { AbortError, FallbackExhaustedError } from "./errors.js";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** Provider fallback and circuit breaker settings for an agent. */
+export interface ResilienceOptions {
+  /**
+   * Agents whose providers are tried, in order, when the primary fails. Only their
+   * provider/model is used — tools, instructions and options come from the primary.
+   */
+  fallbacks?: Agent[];
+  /** Guard each provider with a circuit breaker (`true` uses the defaults). */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+}
+
+/** Listener for {@link ResilienceEvent}s. */
+export type ResilienceListener = (event: ResilienceEvent) => void;
+
+/** A provider in a fallback chain: where to send requests and how to label them. @internal */
+export interface FailoverCandidate extends ProviderTarget {
+  handle: Handle;
+}
+
+// ─── Circuit Breaker ───────────────────────────────────────────────
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RECOVERY_TIMEOUT_MS = 30_000;
+
+/**
+ * Consecutive-failure circuit breaker for a single provider.
+ *
+ * closed → open after `failureThreshold` consecutive failures; open → half-open once
+ * `recoveryTimeoutMs` has elapsed; half-open → closed on success, back to open on failure.
+ */
+export class CircuitBreaker {
+  private _state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+  private readonly failureThreshold: number;
+  private readonly recoveryTimeoutMs: number;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly onTransition?: (from: CircuitState, to: CircuitState) => void,
+  ) {
+    this.failureThreshold = Math.max(1, options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD);
+    this.recoveryTimeoutMs = Math.max(0, options.recoveryTimeoutMs ?? DEFAULT_RECOVERY_TIMEOUT_MS);
+  }
+
+  get state(): CircuitState { return this._state; }
+
+  /** Whether a request may be sent now. Moves an expired open circuit to half-open. */
+  allow(): boolean {
+    if (this._state === "open" && Date.now() - this.openedAt >= this.recoveryTimeoutMs) {
+      this.transition("half-open");
+    }
+    return this._state !== "open";
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    if (this._state !== "closed") this.transition("closed");
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this._state === "half-open" || (this._state === "closed" && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this._state;
+    this._state = to;
+    this.onTransition?.(from, to);
+  }
+}
+
+// ─── Failover ──────────────────────────────────────────────────────
+
+/**
+ * Sends a request to the first healthy provider of a chain, reporting what happened.
+ *
+ * Aborts are never retried on another provider and do not count as failures.
+ * @internal
+ */
+export class ProviderFailover {
+  private readonly fallbacks: Agent[];
+  private readonly breakerOptions: CircuitBreakerOptions | null;
+  private readonly breakers = new Map<number, CircuitBreaker>();
+  private readonly listeners = new Set<ResilienceListener>();
+  private nativeHandle: Handle | null = null;
+
+  constructor(private readonly agentName: string, options: ResilienceOptions) {
+    this.fallbacks = [...(options.fallbacks ?? [])];
+    const cb = options.circuitBreaker;
+    this.breakerOptions = cb === true ? {} : cb || null;
+  }
+
+  /** The options this failover was built from, for cloning agents. */
+  get options(): ResilienceOptions {
+    return {
+      fallbacks: [...this.fallbacks],
+      circuitBreaker: this.breakerOptions ? { ...this.breakerOptions } : false,
+    };
+  }
+
+  on(listener: ResilienceListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Native provider handle with the same chain, for subsystems that call the
+   * provider directly (Team, Graph, Network). Created on first use; with no
+   * fallbacks and no circuit breaker there is nothing to wrap, so `primary` is returned.
+   */
+  resolveNativeHandle(primary: Handle): Handle {
+    if (this.fallbacks.length === 0 && this.breakerOptions === null) return primary;
+    if (this.nativeHandle === null) {
+      this.nativeHandle = this.fallbacks.length === 0
+        ? create_circuit_breaker(primary, this.breakerOptions?.failureThreshold, this.breakerOptions?.recoveryTimeoutMs)
+        : create_resilient_provider(primary, this.fallbacks.map((a) => a.handle), this.breakerOptions !== null);
+    }
+    return this.nativeHandle;
+  }
+
+  /** The native handle created by {@link resolveNativeHandle}, if any. */
+  get createdHandle(): Handle | null { return this.nativeHandle; }
+
+  /**
+   * Call `invoke` with each candidate's handle until one succeeds.
+   *
+   * @throws {AbortError} As soon as the request is aborted.
+   * @throws {FallbackExhaustedError} When every provider failed or was skipped.
+   */
+  async execute<T>(
+    primary: FailoverCandidate,
+    invoke: (handle: Handle) => Promise<T>,
+  ): Promise<{ value: T; report: ResilienceReport }> {
+    const candidates: FailoverCandidate[] = [
+      primary,
+      ...this.fallbacks.map((a) => ({ provider: a.provider, model: a.model, handle: a.handle })),
+    ];
+    const failures: ProviderFailure[] = [];
+    let attempts = 0;
+    let fallbacks = 0;
+    let lastError: Error | undefined;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const { handle, ...target } = candidates[i];
+      const breaker = this.breaker(i, target);
+      if (breaker && !breaker.allow()) {
+        failures.push({ ...target, error: "circuit open" });
+        continue;
+      }
+      attempts++;
+      if (i > 0) fallbacks++;
+      try {
+        const value = await invoke(handle);
+        breaker?.recordSuccess();
+        return { value, report: { ...target, attempts, fallbacks, failures } };
+      } catch (err) {
+        if (err instanceof AbortError) throw err;
+        breaker?.recordFailure();
+        lastError = err instanceof Error ? err : new Error(String(err));
+        failures.push({ ...target, error: lastError.message });
+        const next = candidates.slice(i + 1).find((_, j) => this.breakers.get(i + 1 + j)?.state !== "open");
+        if (next) {
+          this.emit({
+            type: "fallback",
+            agent: this.agentName,
+            from: target,
+            to: { provider: next.provider, model: next.model },
+            error: lastError.message,
+          });
+        }
+      }
+    }
+    throw new FallbackExhaustedError(failures, lastError);
+  }
+
+  private breaker(index: number, target: ProviderTarget): CircuitBreaker | undefined {
+    if (!this.breakerOptions) return undefined;
+    let breaker = this.breakers.get(index);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.breakerOptions, (from, to) =>
+        this.emit({ type: "circuit", agent: this.agentName, target, from, to }));
+      this.breakers.set(index, breaker);
+    }
+    return breaker;
+  }
+
+  private emit(event: ResilienceEvent): void {
+    for (const listener of this.listeners) {
+      try { listener(event); } catch { /* listeners must not break a run */ }
+    }
+  }
+}
+
+// ─── Factories ─────────────────────────────────────────────────────
 
 /**
  * Create a fallback provider that tries providers in order.
- * Returns a provider handle usable with Agent constructor.
+ *
+ * Given provider handles, returns a native provider handle usable with the
+ * Agent constructor. Given agents, returns a copy of the first agent that falls
+ * back to the others' providers and reports which one served each run.
  */
-export function createFallbackProvider(
-  providerHandles: Handle[]
-): Handle {
-  return create_fallback_provider(providerHandles);
+export function createFallbackProvider(providerHandles: Handle[]): Handle;
+export function createFallbackProvider(agents: Agent[]): Agent;
+export function createFallbackProvider(providers: Handle[] | Agent[]): Handle | Agent {
+  if (isHandleList(providers)) return create_fallback_provider(providers);
+  const [primary, ...fallbacks] = providers;
+  return primary.withResilience({ fallbacks, circuitBreaker: false });
 }
 
 /**
  * Wrap a provider with a circuit breaker.
- * Returns a provider handle usable with Agent constructor.
+ *
+ * Given a provider handle, returns a native provider handle. Given an agent,
+ * returns a copy of it whose circuit transitions are emitted as events.
  */
 export function createCircuitBreaker(
   providerHandle: Handle,
   failureThreshold?: number,
   recoveryTimeoutMs?: number
-): Handle {
-  return create_circuit_breaker(
-    providerHandle,
-    failureThreshold,
-    recoveryTimeoutMs
-  );
+): Handle;
+export function createCircuitBreaker(
+  agent: Agent,
+  failureThreshold?: number,
+  recoveryTimeoutMs?: number
+): Agent;
+export function createCircuitBreaker(
+  provider: Handle | Agent,
+  failureThreshold?: number,
+  recoveryTimeoutMs?: number
+): Handle | Agent {
+  if (typeof provider === "number") {
+    return create_circuit_breaker(provider, failureThreshold, recoveryTimeoutMs);
+  }
+  return provider.withResilience({ circuitBreaker: { failureThreshold, recoveryTimeoutMs } });
 }
 
 /**
@@ -53,16 +289,19 @@ export function createResilientProvider(
 }
 
 /**
- * Convenience: create a resilient agent by wrapping its provider.
+ * Convenience: create a resilient agent from a primary and fallback agents.
+ *
+ * Returns a copy of `primary` usable anywhere an `Agent` is (`run`, Team, Graph,
+ * Network). The source agents stay owned by the caller and must outlive it.
  */
 export function createResilientAgent(
   primary: Agent,
   fallbacks: Agent[],
   enableCircuitBreaker = true
-): Handle {
-  return createResilientProvider(
-    primary.handle,
-    fallbacks.map((a) => a.handle),
-    enableCircuitBreaker
-  );
+): Agent {
+  return primary.withResilience({ fallbacks, circuitBreaker: enableCircuitBreaker });
+}
+
+function isHandleList(providers: Handle[] | Agent[]): providers is Handle[] {
+  return providers.every((p) => typeof p === "number");
 }
@@ -0,0 +1,55 @@
+/**
+ * Standard Schema support — use Zod, Valibot, ArkType or any other
+ * Standard Schema library for tool parameters and structured output.
+ *
+ * @example
+ *   const weather = tool({
+ *     name: "get_weather",
+ *     description: "Current weather",
+ *     parameters: z.object({ city: z.string() }),
+ *     execute: async ({ city }) => fetchWeather(city), // city: string
+ *   });
+ */
+import type { StandardSchemaV1 } from "./types.js";
+import type { ToolArgumentCheck } from "./tool-validator.js";
+import { ValidationError } from "./errors.js";
+
+/** Whether `value` is a Standard Schema (e.g. a Zod schema). */
+export function isStandardSchema(value: unknown): value is StandardSchemaV1 {
+  const props = (value as Partial<StandardSchemaV1> | null)?.["~standard"];
+  return typeof props === "object" && props !== null && typeof props.validate === "function";
+}
+
+/**
+ * The JSON Schema of a Standard Schema's input, for providers and prompts.
+ *
+ * @param field - Option name reported when the schema cannot be converted.
+ * @throws {ValidationError} If the library does not implement Standard JSON Schema.
+ */
+export function standardJsonSchema(schema: StandardSchemaV1, field: string): Record<string, unknown> {
+  const converter = schema["~standard"].jsonSchema;
+  if (!converter) {
+    throw new ValidationError(
+      `${schema["~standard"].vendor} schema cannot produce JSON Schema; pass a JSON Schema alongside it`,
+      field
+    );
+  }
+  const { $schema: _dialect, ...jsonSchema } = converter.input({ target: "draft-07" });
+  return jsonSchema;
+}
+
+/** Validate `value` with a Standard Schema, reporting issues like {@link validateToolArguments}. */
+export async function validateStandardSchema(schema: StandardSchemaV1, value: unknown): Promise<ToolArgumentCheck> {
+  const result = await schema["~standard"].validate(value);
+  if (!result.issues) return { ok: true, value: result.value as Record<string, unknown> };
+  return {
+    ok: false,
+    issues: result.issues.map((issue) => ({
+      path: (issue.path ?? []).reduce<string>((path, segment) => {
+        const key = typeof segment === "object" ? segment.key : segment;
+        return typeof key === "number" ? `${path}[${key}]` : `${path}.${String(key)}`;
+      }, "$"),
+      message: issue.message,
+    })),
+  };
+}
@@ -18,6 +18,9 @@ import type {
   ToolExecutor,
   Handle,
 } from "./types.js";
+import { GuardrailStreamFilter, type GuardrailChain } from "./guardrail.js";
+import type { AbortScope } from "./abort.js";
+import { toNativeMessages } from "./content.js";
 
 /** Raw result shape returned by the NAPI layer. @internal */
 interface NapiAgentResult {
@@ -78,7 +81,7 @@ function toSdkResult(raw: NapiAgentResult): AgentResult {
  * @since 1.0.0
  */
 export interface StreamEvent {
-  /** The event type discriminator (e.g. `"text_delta"`, `"tool_call"`, `"raw"`). */
+  /** The event type discriminator (e.g. `"text_delta"`, `"tool_call"`, `"approval_required"`, `"raw"`). */
   type: string;
   /** Text content for text-delta events. */
   text?: string;
@@ -88,6 +91,70 @@ export interface StreamEvent {
   [key: string]: unknown;
 }
 
+/**
+ * Optional integrations applied to a stream by {@link Agent.streamIter}.
+ *
+ * @internal
+ */
+export interface AgentStreamHooks {
+  /** Guardrail chain applied to streamed text deltas. */
+  guardrails?: GuardrailChain;
+  /** Post-process the final result before it is exposed (e.g. output guardrails). */
+  onResult?: (result: AgentResult) => AgentResult;
+  /** Runs once the final result is set, before iteration ends (e.g. storing memory). Errors end iteration. */
+  onComplete?: (result: AgentResult) => Promise<void>;
+  /**
+   * Wrap the native call (e.g. with middleware or provider fallbacks). `invoke` performs
+   * the request with the given messages against the given provider handle; `onEvent`
+   * feeds synthetic events into the stream.
+   */
+  wrap?: (
+    invoke: (messages: Message[], providerHandle: Handle) => Promise<AgentResult>,
+    onEvent: (json: string) => void
+  ) => Promise<AgentResult>;
+  /** Cancellation scope; events are dropped and iteration rejects once it aborts. */
+  abort?: AbortScope;
+  /** Receives the stream's event sink before the run starts (e.g. for approval requests). */
+  bindEvents?: (onEvent: (json: string) => void) => void;
+  /** Picks the tools offered for the request's messages (e.g. tool selection) instead of the constructor's. */
+  selectTools?: (messages: Message[]) => Promise<ToolDef[]>;
+}
+
+/**
+ * Create an event transformer that runs text deltas through a guardrail filter.
+ *
+ * @description Returns `null` for events that must be dropped. Emits a single
+ * `guardrail` event when a block rule first fires, and exposes `flush()` to
+ * release held-back text once the stream ends.
+ *
+ * @internal
+ */
+export function createGuardrailEventFilter(chain: GuardrailChain): {
+  apply: (event: StreamEvent) => StreamEvent | null;
+  flush: () => StreamEvent | null;
+} {
+  const filter = new GuardrailStreamFilter(chain);
+  let notified = false;
+  return {
+    apply(event) {
+      if (event.type !== "text_delta") return event;
+      const delta = typeof event.text === "string"
+        ? event.text
+        : (typeof event.delta === "string" ? event.delta : "");
+      const safe = filter.push(delta);
+      if (filter.blocked && !notified) {
+        notified = true;
+        return { type: "guardrail", action: "block", violations: filter.blocked.violations };
+      }
+      return safe ? { ...event, text: safe, delta: safe } : null;
+    },
+    flush() {
+      const rest = filter.flush();
+      return rest ? { type: "text_delta", text: rest, delta: rest } : null;
+    },
+  };
+}
+
 /**
  * Async iterable wrapper over the native agent streaming callback.
  *
@@ -120,6 +187,7 @@ export class AgentStream implements AsyncIterable<StreamEvent> {
    * @param messages - Conversation messages to send.
    * @param options - Agent options for the agentic loop.
    * @param toolExecutor - Async callback for executing tool calls.
+   * @param hooks - Optional integrations (guardrails, middleware, cancellation, result post-processing).
    *
    * @since 1.0.0
    */
@@ -130,6 +198,7 @@ export class AgentStream implements AsyncIterable<StreamEvent> {
     private readonly messages: Message[],
     private readonly options: AgentOptions,
     private readonly toolExecutor: ToolExecutor,
+    private readonly hooks: AgentStreamHooks = {},
   ) {}
 
   /**
@@ -166,28 +235,52 @@ export class AgentStream implements AsyncIterable<StreamEvent> {
     const buffer: StreamEvent[] = [];
     let resolve: (() => void) | undefined;
     let done = false;
+    const guard = this.hooks.guardrails
+      ? createGuardrailEventFilter(this.hooks.guardrails)
+      : null;
+
+    const abort = this.hooks.abort;
 
     const onEvent = (json: string) => {
+      if (abort?.aborted) return;
+      let event: StreamEvent;
       try {
-        buffer.push(JSON.parse(json) as StreamEvent);
+        event = JSON.parse(json) as StreamEvent;
       } catch {
-        buffer.push({ type: "raw", text: json });
+        event = { type: "raw", text: json };
       }
+      abort?.observe(event);
+      const out = guard ? guard.apply(event) : event;
+      if (out) buffer.push(out);
       resolve?.();
     };
 
+    this.hooks.bindEvents?.(onEvent);
     let streamError: unknown;
 
-    const runPromise = agent_stream_with_tool_executor(
-      this.agentName,
-      this.providerHandle,
-      this.tools,
-      this.messages,
-      this.options,
-      onEvent,
-      this.toolExecutor
-    ).then((r: NapiAgentResult) => {
-      this._result = toSdkResult(r);
+    const invoke = async (messages: Message[], providerHandle: Handle = this.providerHandle) => {
+      abort?.begin(messages);
+      const tools = this.hooks.selectTools ? await this.hooks.selectTools(messages) : this.tools;
+      return toSdkResult(await agent_stream_with_tool_executor(
+        this.agentName,
+        providerHandle,
+        tools,
+        toNativeMessages(messages),
+        this.options,
+        onEvent,
+        this.toolExecutor
+      ) as NapiAgentResult);
+    };
+
+    const call = this.hooks.wrap
+      ? this.hooks.wrap(invoke, onEvent)
+      : invoke(this.messages);
+
+    const runPromise = (abort ? abort.race(call) : call).then(async (result: AgentResult) => {
+      const tail = guard?.flush();
+      if (tail) buffer.push(tail);
+      this._result = this.hooks.onResult ? this.hooks.onResult(result) : result;
+      await this.hooks.onComplete?.(this._result);
       done = true;
       resolve?.();
     }).catch((err: unknown) => {
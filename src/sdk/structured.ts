@@ -2,16 +2,21 @@
  * Structured Output — validate and extract typed JSON from LLM responses.
  *
  * @example
- *   import { structured, zodSchema } from "gauss-ts";
+ *   import { structured } from "gauss-ts";
  *
  *   const result = await structured(agent, "List 3 fruits", {
  *     schema: { type: "object", properties: { fruits: { type: "array", items: { type: "string" } } } },
  *   });
  *   console.log(result.data.fruits); // ["apple", "banana", "cherry"]
+ *
+ * @example
+ *   // Zod (or any Standard Schema): `data` is typed and validated
+ *   const { data } = await structured(agent, "List 3 fruits", { schema: z.object({ fruits: z.array(z.string()) }) });
  */
 
 import type { Agent } from "./agent.js";
-import type { AgentResult, Message } from "./types.js";
+import type { AgentResult, InferSchemaOutput, Message, StandardSchemaV1 } from "./types.js";
+import { isStandardSchema, standardJsonSchema, validateStandardSchema } from "./standard-schema.js";
 
 // ─── Types ─────────────────────────────────────────────────────────
 
@@ -27,12 +32,17 @@ export interface JsonSchema {
 }
 
 export interface StructuredConfig {
-  /** JSON schema the output must conform to. */
-  schema: JsonSchema;
-  /** Maximum parse retries if the model returns invalid JSON (default: 2). */
+  /**
+   * Schema the output must conform to: a JSON schema, or a Standard Schema
+   * (e.g. Zod) that the output is also validated with.
+   */
+  schema: JsonSchema | StandardSchemaV1;
+  /** Maximum parse retries if the model returns invalid JSON or fails validation (default: 2). */
   maxParseRetries?: number;
   /** If true, include the raw AgentResult alongside parsed data. */
   includeRaw?: boolean;
+  /** Aborts the agent runs, including retries. */
+  signal?: AbortSignal;
 }
 
 export interface StructuredResult<T = unknown> {
@@ -44,7 +54,7 @@ export interface StructuredResult<T = unknown> {
 
 // ─── Implementation ────────────────────────────────────────────────
 
-function buildStructuredPrompt(userPrompt: string, schema: JsonSchema): string {
+function buildStructuredPrompt(userPrompt: string, schema: Record<string, unknown>): string {
   const schemaStr = JSON.stringify(schema, null, 2);
   return `${userPrompt}\n\nRespond ONLY with valid JSON matching this schema:\n${schemaStr}\n\nDo not include any text outside the JSON object.`;
 }
@@ -104,6 +114,8 @@ function extractJson(text: string): string {
  *
  * Automatically instructs the model to output JSON matching the schema,
  * extracts and parses the JSON from the response, and retries on parse failure.
+ * With a Standard Schema the data is validated too, and validation failures are
+ * retried like parse failures.
  *
  * @example
  *   const { data } = await structured(agent, "List 3 programming languages", {
@@ -116,15 +128,28 @@ function extractJson(text: string): string {
  *     }
  *   });
  *   console.log(data.languages);
+ *
+ * @throws {ValidationError} If a Standard Schema cannot produce JSON Schema.
  */
+export async function structured<S extends StandardSchemaV1>(
+  agent: Agent,
+  prompt: string | Message[],
+  config: StructuredConfig & { schema: S }
+): Promise<StructuredResult<InferSchemaOutput<S>>>;
 export async function structured<T = unknown>(
   agent: Agent,
   prompt: string | Message[],
   config: StructuredConfig
-): Promise<StructuredResult<T>> {
+): Promise<StructuredResult<T>>;
+export async function structured(
+  agent: Agent,
+  prompt: string | Message[],
+  config: StructuredConfig
+): Promise<StructuredResult<unknown>> {
   const maxParseRetries = config.maxParseRetries ?? 2;
+  const validator = isStandardSchema(config.schema) ? config.schema : undefined;
   const schemaPrompt = typeof prompt === "string"
-    ? buildStructuredPrompt(prompt, config.schema)
+    ? buildStructuredPrompt(prompt, validator ? standardJsonSchema(validator, "schema") : config.schema as JsonSchema)
     : prompt;
 
   let lastError: Error | undefined;
@@ -136,11 +161,18 @@ export async function structured<T = unknown>(
         ? `${schemaPrompt}\n\nPrevious attempt failed: ${lastError?.message}. Please output ONLY valid JSON.`
         : schemaPrompt;
 
-    const result = await agent.run(input);
+    const result = await agent.run(input, { signal: config.signal });
 
     try {
       const jsonStr = extractJson(result.text);
-      const data = JSON.parse(jsonStr) as T;
+      let data: unknown = JSON.parse(jsonStr);
+      if (validator) {
+        const checked = await validateStandardSchema(validator, data);
+        if (!checked.ok) {
+          throw new Error(`output does not match the schema: ${checked.issues.map((i) => `${i.path} ${i.message}`).join("; ")}`);
+        }
+        data = checked.value;
+      }
       return {
         data,
         raw: config.includeRaw ? result : undefined,
@@ -1,6 +1,14 @@
 /**
  * Text splitting utilities for RAG document chunking.
+ *
+ * - `TextSplitter` — recursive character splitting on a separator list.
+ * - `TokenTextSplitter` — the same, measured in model tokens, so chunks fit embedding limits.
+ * - `MarkdownSplitter` — splits by heading and records the heading path on each chunk.
+ * - `CodeSplitter` — keeps TypeScript/JavaScript and Python declarations together.
+ *
+ * Every chunk records `start`/`end` character offsets into the source text.
  */
+import { countTokensForModel } from "./tokens.js";
 
 export interface TextSplitterOptions {
   /** Target chunk size in characters (default: 1000). */
@@ -14,15 +22,49 @@ export interface TextSplitterOptions {
 export interface TextChunk {
   content: string;
   index: number;
+  /** Offset of the first character in the source text. */
+  start: number;
+  /** Offset just past the last character in the source text. */
+  end: number;
   metadata?: Record<string, unknown>;
 }
 
+/** Anything that turns text into chunks — pass one to the document loaders. */
+export interface Splitter {
+  split(text: string): TextChunk[];
+}
+
 const DEFAULT_SEPARATORS = ["\n\n", "\n", ". ", " ", ""];
 
-export class TextSplitter {
-  private readonly chunkSize: number;
-  private readonly chunkOverlap: number;
-  private readonly separators: string[];
+/** Attach source offsets to chunk contents, which are substrings of `text` in order. */
+function locate(text: string, contents: string[]): TextChunk[] {
+  let cursor = 0;
+  return contents.map((content, index) => {
+    const found = text.indexOf(content, cursor);
+    const start = found < 0 ? cursor : found;
+    cursor = start + 1;
+    return { content, index, start, end: start + content.length };
+  });
+}
+
+/** Shift chunks found in a slice of the source so their offsets point into the source. */
+function shift(chunks: TextChunk[], offset: number, metadata?: Record<string, unknown>): TextChunk[] {
+  return chunks.map((chunk) => ({
+    ...chunk,
+    start: chunk.start + offset,
+    end: chunk.end + offset,
+    ...(metadata || chunk.metadata ? { metadata: { ...metadata, ...chunk.metadata } } : {}),
+  }));
+}
+
+function reindex(chunks: TextChunk[]): TextChunk[] {
+  return chunks.map((chunk, index) => ({ ...chunk, index }));
+}
+
+export class TextSplitter implements Splitter {
+  protected readonly chunkSize: number;
+  protected readonly chunkOverlap: number;
+  protected readonly separators: string[];
 
   constructor(options: TextSplitterOptions = {}) {
     this.chunkSize = options.chunkSize ?? 1000;
@@ -31,37 +73,50 @@ export class TextSplitter {
   }
 
   split(text: string): TextChunk[] {
-    const chunks = this._splitRecursive(text, this.separators);
-    return chunks.map((content, index) => ({ content, index }));
+    return locate(text, this._splitRecursive(text, this.separators));
+  }
+
+  /** Size of `text` in the unit of `chunkSize` — characters here. */
+  protected measure(text: string): number {
+    return text.length;
+  }
+
+  /** The end of a finished chunk that is repeated at the start of the next one. */
+  protected overlapOf(chunk: string): string {
+    return chunk.slice(Math.max(0, chunk.length - this.chunkOverlap));
   }
 
   private _splitRecursive(text: string, separators: string[]): string[] {
-    if (text.length <= this.chunkSize) return [text];
-    
+    if (this.measure(text) <= this.chunkSize) return [text];
+
     const separator = separators[0] ?? "";
     const remainingSeparators = separators.slice(1);
-    
+
     const parts = separator ? text.split(separator) : [...text];
     const result: string[] = [];
     let current = "";
-    
+
     for (const part of parts) {
       const candidate = current ? current + separator + part : part;
-      if (candidate.length > this.chunkSize && current) {
+      if (this.measure(candidate) <= this.chunkSize) {
+        current = candidate;
+        continue;
+      }
+      if (current) {
         result.push(current);
         // Apply overlap
-        const overlapStart = Math.max(0, current.length - this.chunkOverlap);
-        current = current.slice(overlapStart) + separator + part;
-        if (current.length > this.chunkSize && remainingSeparators.length > 0) {
-          const subChunks = this._splitRecursive(current, remainingSeparators);
-          current = subChunks.pop() ?? "";
-          result.push(...subChunks);
-        }
+        current = this.overlapOf(current) + separator + part;
       } else {
-        current = candidate;
+        current = part;
+      }
+      // A part too large on its own is split on the finer separators
+      if (this.measure(current) > this.chunkSize && remainingSeparators.length > 0) {
+        const subChunks = this._splitRecursive(current, remainingSeparators);
+        current = subChunks.pop() ?? "";
+        result.push(...subChunks);
       }
     }
-    
+
     if (current) result.push(current);
     return result;
   }
@@ -73,3 +128,257 @@ export class TextSplitter {
 export function splitText(text: string, options?: TextSplitterOptions): TextChunk[] {
   return new TextSplitter(options).split(text);
 }
+
+// ─── Tokens ────────────────────────────────────────────────────────
+
+export interface TokenTextSplitterOptions extends TextSplitterOptions {
+  /** Model whose tokenizer measures chunks, e.g. `"text-embedding-3-small"`. */
+  model: string;
+  /** Target chunk size in tokens (default: 512). */
+  chunkSize?: number;
+  /** Overlap between chunks in tokens (default: 64). */
+  chunkOverlap?: number;
+}
+
+/**
+ * Recursive splitter that measures chunks in tokens with {@link countTokensForModel},
+ * so chunks stay under an embedding model's input limit.
+ *
+ * @example
+ *   const splitter = new TokenTextSplitter({ model: "text-embedding-3-small", chunkSize: 8000 });
+ */
+export class TokenTextSplitter extends TextSplitter {
+  private readonly model: string;
+
+  constructor(options: TokenTextSplitterOptions) {
+    super({ ...options, chunkSize: options.chunkSize ?? 512, chunkOverlap: options.chunkOverlap ?? 64 });
+    this.model = options.model;
+  }
+
+  protected override measure(text: string): number {
+    return countTokensForModel(text, this.model);
+  }
+
+  /** The longest suffix within `chunkOverlap` tokens, starting at a word boundary. */
+  protected override overlapOf(chunk: string): string {
+    if (this.chunkOverlap <= 0) return "";
+    let lo = 0;
+    let hi = chunk.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.measure(chunk.slice(mid)) <= this.chunkOverlap) hi = mid;
+      else lo = mid + 1;
+    }
+    const boundary = chunk.slice(lo).search(/(?<=\s)\S/);
+    return boundary > 0 ? chunk.slice(lo + boundary) : chunk.slice(lo);
+  }
+}
+
+// ─── Markdown ──────────────────────────────────────────────────────
+
+export interface MarkdownSplitterOptions extends TextSplitterOptions {
+  /** Splits sections longer than `chunkSize` (default: a TextSplitter with these options). */
+  splitter?: Splitter;
+}
+
+/** One heading on a heading path. */
+export interface Heading {
+  level: number;
+  text: string;
+}
+
+/**
+ * Format a heading path as `# A > ## B`.
+ * @internal
+ */
+export function formatHeadingPath(path: Heading[]): string {
+  return path.map((h) => `${"#".repeat(h.level)} ${h.text}`).join(" > ");
+}
+
+/**
+ * Splits Markdown into heading sections, then splits long sections further.
+ *
+ * @description Each chunk carries its heading path as `metadata.headings` (`["A", "B"]`)
+ * and `metadata.headingPath` (`"# A > ## B"`). Headings inside fenced code blocks are
+ * ignored, and a heading directly followed by a subheading gets no chunk of its own.
+ */
+export class MarkdownSplitter implements Splitter {
+  private readonly inner: Splitter;
+
+  constructor(options: MarkdownSplitterOptions = {}) {
+    this.inner = options.splitter ?? new TextSplitter({
+      ...options,
+      separators: options.separators ?? ["\n\n", "\n", ". ", " ", ""],
+    });
+  }
+
+  split(text: string): TextChunk[] {
+    const sections: Array<{ start: number; end: number; path: Heading[]; headingOnly: boolean }> = [];
+    const path: Heading[] = [];
+    let start = 0;
+    let headingOnly = false;
+    let fence: string | undefined;
+    const lines = /[^\n]*\n?/g;
+    let match: RegExpExecArray | null;
+    while ((match = lines.exec(text)) && match[0]) {
+      const line = match[0].trimEnd();
+      const fenceMarker = /^\s{0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+      if (fenceMarker) {
+        if (!fence) fence = fenceMarker;
+        else if (fenceMarker.startsWith(fence)) fence = undefined;
+      }
+      const heading = fence ? null : /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+      if (heading) {
+        if (match.index > start) sections.push({ start, end: match.index, path: [...path], headingOnly });
+        while (path.length && path[path.length - 1].level >= heading[1].length) path.pop();
+        path.push({ level: heading[1].length, text: heading[2] });
+        start = match.index;
+        headingOnly = true;
+      } else if (line.trim()) {
+        headingOnly = false;
+      }
+    }
+    if (text.length > start) sections.push({ start, end: text.length, path: [...path], headingOnly });
+
+    const chunks: TextChunk[] = [];
+    for (const section of sections) {
+      const body = text.slice(section.start, section.end);
+      if (!body.trim() || (section.headingOnly && sections.length > 1)) continue;
+      const metadata = section.path.length
+        ? { headings: section.path.map((h) => h.text), headingPath: formatHeadingPath(section.path) }
+        : undefined;
+      chunks.push(...shift(this.inner.split(body.trimEnd()), section.start, metadata));
+    }
+    return reindex(chunks);
+  }
+}
+
+// ─── Code ──────────────────────────────────────────────────────────
+
+export type CodeLanguage = "typescript" | "javascript" | "python";
+
+export interface CodeSplitterOptions extends TextSplitterOptions {
+  language: CodeLanguage;
+}
+
+/** Declaration starts, outermost first; the first group captures the symbol name. */
+const DECLARATIONS: Record<CodeLanguage, RegExp[]> = {
+  typescript: [
+    /^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|namespace|const|let|var)\s+([\w$]+)/,
+    /^\s+(?:(?:public|private|protected|static|readonly|abstract|override|async|get|set)\s+)*(?:\*\s*)?(#?[\w$]+)\s*(?:<[^>]*>)?\s*\(.*\)\s*(?::[^{;]+)?\{\s*$/,
+  ],
+  javascript: [
+    /^(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var)\s+([\w$]+)/,
+    /^\s+(?:(?:static|async|get|set)\s+)*(?:\*\s*)?(#?[\w$]+)\s*\(.*\)\s*\{\s*$/,
+  ],
+  python: [
+    /^(?:async\s+def|def|class)\s+(\w+)/,
+    /^\s+(?:async\s+def|def)\s+(\w+)/,
+  ],
+};
+
+/** Lines that belong to the declaration below them: comments, docstrings openers and decorators. */
+const PREAMBLE: Record<CodeLanguage, RegExp> = {
+  typescript: /^\s*(?:\/\/|\/\*|\*|@)/,
+  javascript: /^\s*(?:\/\/|\/\*|\*|@)/,
+  python: /^\s*(?:#|@)/,
+};
+
+const CONTROL_KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "return", "function", "await", "new"]);
+
+/**
+ * Splits source code at function and class boundaries.
+ *
+ * @description Top-level declarations (with their leading comments and decorators)
+ * are kept whole and packed together up to `chunkSize` characters. A declaration
+ * that is still too long is split at its methods, then by lines. Chunks record the
+ * declared names they contain as `metadata.symbols`.
+ */
+export class CodeSplitter implements Splitter {
+  private readonly language: CodeLanguage;
+  private readonly chunkSize: number;
+  private readonly fallback: TextSplitter;
+
+  constructor(options: CodeSplitterOptions) {
+    this.language = options.language;
+    this.chunkSize = options.chunkSize ?? 1000;
+    this.fallback = new TextSplitter({ ...options, separators: options.separators ?? ["\n\n", "\n", " ", ""] });
+  }
+
+  split(text: string): TextChunk[] {
+    return reindex(this.splitLevel(text, 0, 0));
+  }
+
+  private splitLevel(text: string, offset: number, level: number): TextChunk[] {
+    const pattern = DECLARATIONS[this.language][level];
+    if (!pattern) return shift(this.fallback.split(text), offset);
+
+    const units = this.units(text, pattern);
+    const chunks: TextChunk[] = [];
+    let packed: typeof units = [];
+    const flush = () => {
+      if (!packed.length) return;
+      const start = packed[0].start;
+      const end = packed[packed.length - 1].end;
+      const symbols = packed.flatMap((u) => u.symbols);
+      chunks.push({
+        content: text.slice(start, end),
+        index: 0,
+        start: offset + start,
+        end: offset + end,
+        ...(symbols.length ? { metadata: { symbols } } : {}),
+      });
+      packed = [];
+    };
+    for (const unit of units) {
+      if (unit.end - unit.start > this.chunkSize) {
+        flush();
+        const parts = this.splitLevel(text.slice(unit.start, unit.end), offset + unit.start, level + 1);
+        // The declaration's own name goes with its first part
+        if (unit.symbols.length && parts[0]) {
+          const symbols = [...unit.symbols, ...(parts[0].metadata?.symbols as string[] ?? [])];
+          parts[0] = { ...parts[0], metadata: { ...parts[0].metadata, symbols } };
+        }
+        chunks.push(...parts);
+      } else {
+        if (packed.length && unit.end - packed[0].start > this.chunkSize) flush();
+        packed.push(unit);
+      }
+    }
+    flush();
+    return chunks.filter((chunk) => chunk.content.trim());
+  }
+
+  /** Cut `text` before every declaration matched by `pattern` (and its preamble). */
+  private units(text: string, pattern: RegExp): Array<{ start: number; end: number; symbols: string[] }> {
+    const lineStarts = [0];
+    for (let i = text.indexOf("\n"); i >= 0; i = text.indexOf("\n", i + 1)) lineStarts.push(i + 1);
+    const line = (n: number) => text.slice(lineStarts[n], (lineStarts[n + 1] ?? text.length + 1) - 1);
+
+    const matches: Array<{ line: number; symbol: string; indent: number }> = [];
+    for (let n = 0; n < lineStarts.length; n++) {
+      const symbol = pattern.exec(line(n))?.[1];
+      if (!symbol || CONTROL_KEYWORDS.has(symbol)) continue;
+      matches.push({ line: n, symbol, indent: line(n).length - line(n).trimStart().length });
+    }
+    // Only the outermost matches: methods, not functions nested inside them
+    const indent = Math.min(...matches.map((m) => m.indent));
+
+    const cuts: Array<{ line: number; symbol: string }> = [];
+    for (const { line: n, symbol } of matches.filter((m) => m.indent === indent)) {
+      let first = n;
+      while (first > 0 && PREAMBLE[this.language].test(line(first - 1))) first--;
+      if (!cuts.length || first > cuts[cuts.length - 1].line) cuts.push({ line: first, symbol });
+    }
+
+    const units: Array<{ start: number; end: number; symbols: string[] }> = [];
+    const starts = [0, ...cuts.map((c) => lineStarts[c.line]).filter((s) => s > 0)];
+    const symbolAt = new Map(cuts.map((c) => [lineStarts[c.line], c.symbol]));
+    starts.forEach((start, i) => {
+      const end = starts[i + 1] ?? text.length;
+      const symbol = symbolAt.get(start);
+      if (end > start) units.push({ start, end, symbols: symbol ? [symbol] : [] });
+    });
+    return units;
+  }
+}
@@ -10,6 +10,7 @@ import {
 } from "gauss-napi";
 
 import type { CostEstimate, Message } from "./types.js";
+import { contentToText } from "./content.js";
 
 // ─── Runtime Pricing Override ────────────────────────────────────────
 
@@ -66,8 +67,11 @@ export function countTokensForModel(text: string, model: string): number {
   return count_tokens_for_model(text, model);
 }
 
+/** Count tokens across messages. Only text content is counted; media parts are ignored. */
 export function countMessageTokens(messages: Message[]): number {
-  return count_message_tokens(messages);
+  return count_message_tokens(
+    messages.map((m) => ({ role: m.role, content: contentToText(m.content) }))
+  );
 }
 
 export function getContextWindowSize(model: string): number {
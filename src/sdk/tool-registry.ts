@@ -11,6 +11,7 @@ import {
 } from "gauss-napi";
 
 import type { Handle, Disposable } from "./types.js";
+import type { TypedToolDef } from "./tool.js";
 import { DisposedError } from "./errors.js";
 
 // ── Types ───────────────────────────────────────────────────────
@@ -38,6 +39,7 @@ export interface ToolSearchResult {
 
 export class ToolRegistry implements Disposable {
   private readonly _handle: Handle;
+  private readonly tools = new Map<string, TypedToolDef>();
   private disposed = false;
 
   constructor() {
@@ -55,6 +57,23 @@ export class ToolRegistry implements Disposable {
     return this;
   }
 
+  /**
+   * Register an executable tool under its name and description, so agents
+   * selecting tools from this registry can run it (see `Agent.withToolSelection`).
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  addTool(tool: TypedToolDef<any, any>, meta: { tags?: string[]; examples?: ToolExample[] } = {}): this {
+    this.add({ name: tool.name, description: tool.description, ...meta });
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  /** The executable tool registered with {@link addTool}, if any. */
+  getTool(name: string): TypedToolDef | undefined {
+    this.assertNotDisposed();
+    return this.tools.get(name);
+  }
+
   /** Search tools by query (matches name, description, tags). */
   search(query: string): ToolSearchResult[] {
     this.assertNotDisposed();
@@ -76,6 +95,7 @@ export class ToolRegistry implements Disposable {
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
+      this.tools.clear();
       try {
         destroyToolRegistry(this._handle);
       } catch {
@@ -0,0 +1,160 @@
+/**
+ * Tool selection — expose only the registry tools relevant to the current
+ * request instead of every tool.
+ *
+ * Tools are selected once per call, from its latest user message: the native
+ * agent loop takes one tool list for all of its steps. Tools a later step needs
+ * are found through `search_tools` and run through `call_tool`.
+ *
+ * @example
+ *   const registry = new ToolRegistry();
+ *   for (const t of crmTools) registry.addTool(t, { tags: ["crm"] });
+ *
+ *   const agent = new Agent({ model: "gpt-4o" }).withToolSelection({
+ *     registry,
+ *     selector: embeddingToolSelector(new ProviderEmbedder({ provider: "openai" })),
+ *     topK: 6,
+ *   });
+ */
+import type { Embedder, ToolDef, ToolExecutor } from "./types.js";
+import type { ToolRegistry, ToolRegistryEntry } from "./tool-registry.js";
+import type { TypedToolDef } from "./tool.js";
+import { toEmbedder, type EmbedFn } from "./embeddings.js";
+import { cosine } from "./vector-store.js";
+import { Bm25Index } from "./bm25.js";
+
+/** What a {@link ToolSelector} picks from. */
+export interface ToolSelectionContext {
+  registry: ToolRegistry;
+  /** Maximum number of tools to return. */
+  topK: number;
+  signal?: AbortSignal;
+}
+
+/** Ranks registry tools for a query (usually the latest user message), best first. */
+export type ToolSelector = (query: string, context: ToolSelectionContext) => string[] | Promise<string[]>;
+
+/** How an agent picks its tools from a {@link ToolRegistry} (see `Agent.withToolSelection`). */
+export interface ToolSelectionOptions {
+  registry: ToolRegistry;
+  /** Ranking strategy (default: {@link keywordToolSelector}). */
+  selector?: ToolSelector;
+  /** Registry tools exposed per call, for all of its steps (default: 5). */
+  topK?: number;
+  /**
+   * Also expose `search_tools` and `call_tool`, so the model can find and
+   * call registry tools the selector left out, e.g. when a later step needs
+   * other tools than the request suggested (default: true).
+   */
+  searchTool?: boolean;
+}
+
+/** Text a tool is matched on: name, description and tags. */
+function entryText(entry: ToolRegistryEntry): string {
+  return [entry.name, entry.description, ...(entry.tags ?? [])].join(" ");
+}
+
+/** Ranks tools by BM25 keyword overlap with their name, description and tags. */
+export function keywordToolSelector(): ToolSelector {
+  return (query, { registry, topK }) => {
+    const index = new Bm25Index();
+    for (const entry of registry.list()) index.add(entry.name, entryText(entry));
+    return index.search(query, topK).map((hit) => hit.id);
+  };
+}
+
+/**
+ * Selects tools carrying any of `tags`, in tag order. Pass a function to
+ * derive the tags from the query.
+ */
+export function tagToolSelector(tags: string[] | ((query: string) => string[])): ToolSelector {
+  return (query, { registry, topK }) => {
+    const names = new Set<string>();
+    for (const tag of typeof tags === "function" ? tags(query) : tags) {
+      for (const hit of registry.byTag(tag)) names.add(hit.name);
+    }
+    return [...names].slice(0, topK);
+  };
+}
+
+/**
+ * Ranks tools by embedding similarity between the query and each tool's name,
+ * description and tags. Tool embeddings are computed once and reused.
+ */
+export function embeddingToolSelector(embed: Embedder | EmbedFn): ToolSelector {
+  const embedder = toEmbedder(embed);
+  const vectors = new Map<string, number[]>();
+  return async (query, { registry, topK, signal }) => {
+    const texts = registry.list().map((entry) => ({ name: entry.name, text: entryText(entry) }));
+    const missing = texts.filter((t) => !vectors.has(t.text));
+    const embedded = await embedder.embed([query, ...missing.map((t) => t.text)], { signal });
+    missing.forEach((t, i) => vectors.set(t.text, embedded[i + 1]));
+    return texts
+      .map((t) => ({ name: t.name, score: cosine(embedded[0], vectors.get(t.text)!) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map((hit) => hit.name);
+  };
+}
+
+/**
+ * Run the configured selector for `query`.
+ * @internal
+ */
+export async function selectTools(
+  query: string,
+  options: ToolSelectionOptions,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const selector = options.selector ?? keywordToolSelector();
+  return selector(query, { registry: options.registry, topK: options.topK ?? 5, signal });
+}
+
+/**
+ * The `search_tools` and `call_tool` meta-tools. `lookup` resolves a tool's
+ * definition for search results; `execute` runs the calls.
+ * @internal
+ */
+export function toolSearchTools(
+  options: ToolSelectionOptions,
+  lookup: (name: string) => ToolDef | undefined,
+  execute: ToolExecutor
+): TypedToolDef[] {
+  const search: TypedToolDef<{ query: string }> = {
+    name: "search_tools",
+    description: "Search for more tools by what they do. Returns matching tools; run one with call_tool.",
+    parameters: {
+      type: "object",
+      properties: { query: { type: "string", description: "What the tool should do" } },
+      required: ["query"],
+    },
+    execute: async ({ query }, { signal }) => (await selectTools(query, options, signal))
+      .map(lookup)
+      .filter((def): def is ToolDef => def !== undefined)
+      .map(({ name, description, parameters }) => ({ name, description, parameters })),
+  };
+  const call: TypedToolDef<{ name: string; arguments?: Record<string, unknown> }> = {
+    name: "call_tool",
+    description: "Call a tool found with search_tools.",
+    parameters: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Tool name from search_tools" },
+        arguments: { type: "object", description: "Arguments matching the tool's parameters" },
+      },
+      required: ["name"],
+    },
+    execute: async ({ name, arguments: args }) => {
+      if (name === search.name || name === call.name || !lookup(name)) {
+        return { error: `Unknown tool: ${name}. Use search_tools to find one.` };
+      }
+      const result = await execute(JSON.stringify({ tool: name, args: args ?? {} }));
+      try {
+        return JSON.parse(result) as unknown;
+      } catch {
+        return result;
+      }
+    },
+  };
+  return [search as TypedToolDef, call as TypedToolDef];
+}
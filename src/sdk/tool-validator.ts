@@ -1,5 +1,6 @@
 /**
- * Tool Validator SDK wrapper, backed by Rust core.
+ * Tool Validator SDK wrapper, backed by Rust core, and the argument checks
+ * `createToolExecutor` runs before every tool call.
  */
 import {
   create_tool_validator,
@@ -57,3 +58,220 @@ export class ToolValidator implements Disposable {
     }
   }
 }
+
+// ─── Argument Validation ───────────────────────────────────────────
+
+/** One problem with a tool call's arguments. */
+export interface ToolArgumentIssue {
+  /** Where the problem is, e.g. `"$.items[0].qty"`. */
+  path: string;
+  message: string;
+}
+
+/** Result of {@link validateToolArguments}: the coerced arguments, or what is wrong with them. */
+export type ToolArgumentCheck =
+  | { ok: true; value: Record<string, unknown> }
+  | { ok: false; issues: ToolArgumentIssue[] };
+
+type Schema = Record<string, unknown>;
+
+/**
+ * The JSON Schema of a tool's `parameters`. Tools may declare just the
+ * properties (`{ city: { type: "string" } }`); those become an object schema
+ * with no required properties.
+ */
+export function toolParametersSchema(parameters: Record<string, unknown>): Schema {
+  return parameters.type === "object" || "properties" in parameters
+    ? parameters
+    : { type: "object", properties: parameters };
+}
+
+/**
+ * Check tool call arguments against the tool's `parameters`, applying coercion first.
+ *
+ * @description Supports `type` (including type arrays), `enum`, `const`, `properties`,
+ * `required`, `additionalProperties: false`, `items`, `minimum`/`maximum`,
+ * `minLength`/`maxLength`, `pattern` and `minItems`/`maxItems`; other keywords are
+ * ignored. Coercion follows the {@link ToolValidator} strategies:
+ * `null_to_default` fills null or missing values that have a `default`,
+ * `strip_null` drops null optional properties, `json_parse` parses strings where
+ * an object or array is expected, and `type_cast` converts strings, numbers and
+ * booleans to the expected scalar type.
+ *
+ * @param args - The arguments from the model's tool call.
+ * @param parameters - The tool's `parameters` (a JSON Schema or a properties map).
+ * @param strategies - Coercion strategies to apply (default: none).
+ */
+export function validateToolArguments(
+  args: unknown,
+  parameters: Record<string, unknown>,
+  strategies: CoercionStrategy[] = []
+): ToolArgumentCheck {
+  const issues: ToolArgumentIssue[] = [];
+  const value = checkValue(args, toolParametersSchema(parameters), "$", new Set(strategies), issues);
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: value as Record<string, unknown> };
+}
+
+function checkValue(
+  input: unknown,
+  schema: Schema,
+  path: string,
+  strategies: Set<CoercionStrategy>,
+  issues: ToolArgumentIssue[]
+): unknown {
+  let value = coerce(input, schema, strategies);
+  const types = expectedTypes(schema);
+  if (types && !types.some((t) => hasType(value, t))) {
+    issues.push({ path, message: `expected ${types.join(" or ")}, got ${typeName(value)}` });
+    return value;
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((v) => sameJson(v, value))) {
+    issues.push({ path, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}` });
+  }
+  if ("const" in schema && !sameJson(schema.const, value)) {
+    issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  } else if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (typeof schema.pattern === "string" && !matches(schema.pattern, value)) {
+      issues.push({ path, message: `must match /${schema.pattern}/` });
+    }
+  } else if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    const items = schema.items as Schema | undefined;
+    if (items && typeof items === "object") {
+      value = value.map((item, i) => checkValue(item, items, `${path}[${i}]`, strategies, issues));
+    }
+  } else if (isRecord(value)) {
+    value = checkObject(value, schema, path, strategies, issues);
+  }
+  return value;
+}
+
+function checkObject(
+  input: Record<string, unknown>,
+  schema: Schema,
+  path: string,
+  strategies: Set<CoercionStrategy>,
+  issues: ToolArgumentIssue[]
+): Record<string, unknown> {
+  const properties = (isRecord(schema.properties) ? schema.properties : {}) as Record<string, Schema>;
+  const required = new Set(Array.isArray(schema.required) ? schema.required as string[] : []);
+  const out: Record<string, unknown> = { ...input };
+
+  for (const [key, propSchema] of Object.entries(properties)) {
+    if (!isRecord(propSchema)) continue;
+    if (strategies.has("null_to_default") && out[key] == null && "default" in propSchema) {
+      out[key] = propSchema.default;
+    }
+    if (strategies.has("strip_null") && out[key] === null && !required.has(key)) {
+      delete out[key];
+    }
+    if (key in out) out[key] = checkValue(out[key], propSchema, `${path}.${key}`, strategies, issues);
+  }
+  for (const key of required) {
+    if (!(key in out)) issues.push({ path: `${path}.${key}`, message: "is required" });
+  }
+  if (schema.additionalProperties === false) {
+    for (const key of Object.keys(out)) {
+      if (!(key in properties)) issues.push({ path: `${path}.${key}`, message: "is not an allowed property" });
+    }
+  }
+  return out;
+}
+
+/** Apply the value-level coercion strategies toward the schema's type. */
+function coerce(value: unknown, schema: Schema, strategies: Set<CoercionStrategy>): unknown {
+  const types = expectedTypes(schema);
+  if (!types || types.some((t) => hasType(value, t))) return value;
+
+  if (strategies.has("json_parse") && typeof value === "string" && (types.includes("object") || types.includes("array"))) {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      if (types.some((t) => hasType(parsed, t))) return parsed;
+    } catch {
+      // Not JSON; reported as a type mismatch
+    }
+  }
+  if (strategies.has("type_cast")) {
+    for (const type of types) {
+      const cast = castScalar(value, type);
+      if (cast !== undefined) return cast;
+    }
+  }
+  return value;
+}
+
+function castScalar(value: unknown, type: string): unknown {
+  if ((type === "number" || type === "integer") && typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    if (Number.isFinite(n) && (type === "number" || Number.isInteger(n))) return n;
+  }
+  if (type === "boolean" && typeof value === "string") {
+    if (value === "true") return true;
+    if (value === "false") return false;
+  }
+  if (type === "string" && (typeof value === "number" || typeof value === "boolean")) return String(value);
+  return undefined;
+}
+
+function expectedTypes(schema: Schema): string[] | undefined {
+  if (typeof schema.type === "string") return [schema.type];
+  if (Array.isArray(schema.type)) return schema.type as string[];
+  return undefined;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "object": return isRecord(value);
+    case "array": return Array.isArray(value);
+    case "string": return typeof value === "string";
+    case "number": return typeof value === "number" && Number.isFinite(value);
+    case "integer": return Number.isInteger(value);
+    case "boolean": return typeof value === "boolean";
+    case "null": return value === null;
+    default: return true;
+  }
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value === undefined) return "nothing";
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Test a schema `pattern`; patterns JavaScript cannot compile are ignored. */
+function matches(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, "u").test(value);
+  } catch {
+    return true;
+  }
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -16,19 +16,86 @@
  * @since 1.2.0
  */
 
-import type { ToolDef, ToolExecutor } from "./types.js";
+import type {
+  ApprovalRequest,
+  CoercionStrategy,
+  InferSchemaOutput,
+  StandardSchemaV1,
+  ToolDef,
+  ToolExecutor,
+} from "./types.js";
+import type { ApprovalManager } from "./approval.js";
+import { validateToolArguments, type ToolArgumentCheck } from "./tool-validator.js";
+import { isStandardSchema, standardJsonSchema, validateStandardSchema } from "./standard-schema.js";
+import { withRetry, type RetryConfig } from "./retry.js";
+import { ToolExecutionError } from "./errors.js";
 
 // ─── Typed Tool Interface ────────────────────────────────────────────
 
+/** Per-call context passed as the second argument to a tool's execute callback. */
+export interface ToolExecutionContext {
+  /** Name of the tool being invoked. */
+  toolName: string;
+  /** Fires when the surrounding agent run is cancelled. Forward it to fetch, MCP calls, etc. */
+  signal?: AbortSignal;
+}
+
+/** Limits on how a typed tool's `execute` runs. */
+export interface ToolRunOptions {
+  /**
+   * Time a call may take, per attempt. Its `context.signal` then aborts and the
+   * model is told the call timed out.
+   */
+  timeoutMs?: number;
+  /**
+   * Retries of a failed call: a count, or a {@link RetryConfig} for the backoff
+   * (default: none). Timed-out calls are only retried for `idempotent` tools.
+   */
+  retries?: number | RetryConfig;
+  /** Calls of this tool running at once, across all agents using it; others wait (default: unlimited). */
+  maxConcurrency?: number;
+  /** Whether repeating a call is harmless, e.g. after a timeout whose call may still complete. */
+  idempotent?: boolean;
+}
+
 /**
  * A tool definition with a typed execute callback.
  *
  * @typeParam TParams - The shape of the tool's input parameters.
  * @typeParam TResult - The shape of the tool's return value.
  */
-export interface TypedToolDef<TParams = Record<string, unknown>, TResult = unknown> extends ToolDef {
+export interface TypedToolDef<TParams = Record<string, unknown>, TResult = unknown> extends ToolDef, ToolRunOptions {
   /** The function to execute when the LLM invokes this tool. */
-  execute: (params: TParams) => Promise<TResult> | TResult;
+  execute: (params: TParams, context: ToolExecutionContext) => Promise<TResult> | TResult;
+  /**
+   * Hold calls until a human approves them (see {@link ToolApprovalOptions}).
+   * A function decides per call from the model's arguments.
+   */
+  requiresApproval?: boolean | ((params: TParams) => boolean | Promise<boolean>);
+  /**
+   * Standard Schema (e.g. Zod) the arguments are validated with instead of
+   * `parameters`; `parameters` then holds its JSON Schema.
+   */
+  schema?: StandardSchemaV1;
+}
+
+/** How {@link createToolExecutor} checks arguments against a tool's `parameters`. */
+export interface ToolValidationOptions {
+  /**
+   * Coercions applied before checking, e.g. `["type_cast"]` to accept `"42"` as a number
+   * (default: none). Tools with a Standard Schema use the library's own coercion instead.
+   */
+  coerce?: CoercionStrategy[];
+}
+
+/** How {@link createToolExecutor} handles tools with `requiresApproval`. */
+export interface ToolApprovalOptions {
+  /** Manager that receives the requests; approve or deny through it. */
+  manager: ApprovalManager;
+  /** Session the requests belong to. */
+  sessionId: string;
+  /** Called once a request is created, e.g. to emit a stream event. */
+  onRequest?: (request: ApprovalRequest) => void;
 }
 
 // ─── tool() Helper ──────────────────────────────────────────────────
@@ -40,6 +107,11 @@ export interface TypedToolDef<TParams = Record<string, unknown>, TResult = unkno
  * When the LLM calls this tool, the `execute` callback is automatically invoked
  * with the parsed parameters and the return value is sent back to the model.
  *
+ * `parameters` may be a Standard Schema such as a Zod object: `execute` then gets
+ * its inferred (and validated) output type, and the provider gets its JSON Schema.
+ * Libraries without Standard JSON Schema support need the JSON Schema passed as
+ * `jsonSchema`.
+ *
  * @param config - Tool configuration with name, description, parameters schema, and execute callback.
  * @returns A {@link TypedToolDef} that can be passed to `agent.addTool()` or `agent.addTools()`.
  *
@@ -61,21 +133,51 @@ export interface TypedToolDef<TParams = Record<string, unknown>, TResult = unkno
  * const agent = new Agent({ instructions: "You can do math." });
  * agent.addTools([calculator]);
  * const result = await agent.run("What is 2+2?");
+ *
+ * // With Zod: `city` is inferred as string
+ * const weather = tool({
+ *   name: "get_weather",
+ *   description: "Current weather",
+ *   parameters: z.object({ city: z.string() }),
+ *   execute: async ({ city }) => ({ city, temp: 21 }),
+ * });
  * ```
  *
+ * @throws {ValidationError} If `parameters` is a Standard Schema without JSON Schema support and no `jsonSchema` is given.
  * @since 1.2.0
  */
-export function tool<TParams = Record<string, unknown>, TResult = unknown>(config: {
+export function tool<S extends StandardSchemaV1, TResult = unknown>(config: ToolRunOptions & {
+  name: string;
+  description: string;
+  parameters: S;
+  /** JSON Schema sent to the provider, for schema libraries that cannot produce one. */
+  jsonSchema?: Record<string, unknown>;
+  execute: (params: InferSchemaOutput<S>, context: ToolExecutionContext) => Promise<TResult> | TResult;
+  requiresApproval?: boolean | ((params: InferSchemaOutput<S>) => boolean | Promise<boolean>);
+}): TypedToolDef<InferSchemaOutput<S>, TResult>;
+export function tool<TParams = Record<string, unknown>, TResult = unknown>(config: ToolRunOptions & {
   name: string;
   description: string;
   parameters?: Record<string, unknown>;
-  execute: (params: TParams) => Promise<TResult> | TResult;
-}): TypedToolDef<TParams, TResult> {
+  execute: (params: TParams, context: ToolExecutionContext) => Promise<TResult> | TResult;
+  requiresApproval?: boolean | ((params: TParams) => boolean | Promise<boolean>);
+}): TypedToolDef<TParams, TResult>;
+export function tool(config: ToolRunOptions & {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown> | StandardSchemaV1;
+  jsonSchema?: Record<string, unknown>;
+  execute: (params: never, context: ToolExecutionContext) => unknown;
+  requiresApproval?: boolean | ((params: never) => boolean | Promise<boolean>);
+}): TypedToolDef<never, unknown> {
+  const { parameters, jsonSchema, ...rest } = config;
+  const schema = isStandardSchema(parameters) ? parameters : undefined;
   return {
-    name: config.name,
-    description: config.description,
-    parameters: config.parameters,
-    execute: config.execute,
+    ...rest,
+    parameters: schema
+      ? jsonSchema ?? standardJsonSchema(schema, "parameters")
+      : parameters as Record<string, unknown> | undefined,
+    ...(schema ? { schema } : {}),
   };
 }
 
@@ -96,6 +198,22 @@ export function isTypedTool(t: ToolDef): t is TypedToolDef {
  *
  * @param tools - Array of typed tool definitions with execute callbacks.
  * @param fallback - Optional fallback executor for tools without execute callbacks.
+ * Arguments are checked against each tool's `parameters` (see
+ * `validateToolArguments`), or its Standard Schema, before it runs; invalid calls are answered with an
+ * error listing every issue, so the model can correct itself and call again.
+ *
+ * Calls to tools with `requiresApproval` wait for a decision from
+ * `options.approvals.manager` and run with the approved (or modified) arguments;
+ * a denial is returned to the model as an error with the reason. Without
+ * `options.approvals` such calls are refused.
+ *
+ * `execute` runs within the tool's {@link ToolRunOptions} (timeout, retries,
+ * concurrency). The executor takes one call per invocation and may be called
+ * concurrently.
+ *
+ * @param options.signal - Abort signal forwarded to each execute callback and approval wait.
+ * @param options.approvals - Where approval requests go.
+ * @param options.validation - Argument coercion, or `false` to pass arguments through unchecked.
  * @returns A {@link ToolExecutor} that can be passed to `agent.runWithTools()`.
  *
  * @since 1.2.0
@@ -103,12 +221,34 @@ export function isTypedTool(t: ToolDef): t is TypedToolDef {
 export function createToolExecutor(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   tools: TypedToolDef<any, any>[],
-  fallback?: ToolExecutor
+  fallback?: ToolExecutor,
+  options: { signal?: AbortSignal; approvals?: ToolApprovalOptions; validation?: ToolValidationOptions | false } = {}
 ): ToolExecutor {
   const toolMap = new Map(tools.map(t => [t.name, t]));
 
+  /** Coerced arguments, or the error sent back to the model. */
+  const check = async (
+    toolDef: TypedToolDef,
+    args: unknown
+  ): Promise<{ params: Record<string, unknown> } | { error: string }> => {
+    if (options.validation === false || (!toolDef.schema && !toolDef.parameters)) {
+      return { params: (args ?? {}) as Record<string, unknown> };
+    }
+    const checked: ToolArgumentCheck = toolDef.schema
+      ? await validateStandardSchema(toolDef.schema, args ?? {})
+      : validateToolArguments(args ?? {}, toolDef.parameters!, options.validation?.coerce);
+    if (checked.ok) return { params: checked.value };
+    const summary = checked.issues.map((issue) => `${issue.path} ${issue.message}`).join("; ");
+    return {
+      error: JSON.stringify({
+        error: `Invalid arguments for tool "${toolDef.name}": ${summary}. Call it again with corrected arguments.`,
+        issues: checked.issues,
+      }),
+    };
+  };
+
   return async (callJson: string): Promise<string> => {
-    let call: { tool?: string; name?: string; args?: unknown; arguments?: unknown };
+    let call: { tool?: string; name?: string; id?: string; args?: unknown; arguments?: unknown };
     try {
       call = JSON.parse(callJson);
     } catch {
@@ -124,12 +264,131 @@ export function createToolExecutor(
     }
 
     try {
-      const params = (call.args ?? call.arguments ?? {}) as Record<string, unknown>;
-      const result = await toolDef.execute(params);
+      const checked = await check(toolDef, call.args ?? call.arguments);
+      if ("error" in checked) return checked.error;
+      let params = checked.params;
+      const gated = typeof toolDef.requiresApproval === "function"
+        ? await toolDef.requiresApproval(params)
+        : toolDef.requiresApproval === true;
+      if (gated) {
+        const { approvals } = options;
+        if (!approvals) {
+          return JSON.stringify({ error: `Tool "${toolName}" requires approval, but no approval manager is configured` });
+        }
+        const requestId = approvals.manager.request(toolName, params, approvals.sessionId, call.id);
+        // Wait before notifying: a listener may decide synchronously
+        const waiting = approvals.manager.waitForDecision(requestId, { signal: options.signal });
+        approvals.onRequest?.({ requestId, toolName, args: params, sessionId: approvals.sessionId, toolCallId: call.id });
+        const decision = await waiting;
+        if (!decision.approved) {
+          return JSON.stringify({
+            error: `Tool "${toolName}" was denied${decision.reason ? `: ${decision.reason}` : ""}`,
+          });
+        }
+        if (decision.modifiedArgs) {
+          const modified = await check(toolDef, decision.modifiedArgs);
+          if ("error" in modified) return modified.error;
+          params = modified.params;
+        }
+      }
+      const result = await runTool(toolDef, params, toolName, options.signal);
       return typeof result === "string" ? result : JSON.stringify(result);
     } catch (err: unknown) {
+      if (err instanceof ToolExecutionError) return JSON.stringify({ error: err.message });
       const message = err instanceof Error ? err.message : String(err);
       return JSON.stringify({ error: `Tool "${toolName}" failed: ${message}` });
     }
   };
 }
+
+// ─── Tool Run Limits ────────────────────────────────────────────────
+
+/** A call that ran past its tool's `timeoutMs`. */
+class ToolTimeoutError extends ToolExecutionError {}
+
+/** Counts the running calls of one tool; later calls queue. */
+class ToolSlots {
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(private readonly max: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.max) {
+      this.active++;
+      return;
+    }
+    // The releasing call hands its slot over
+    await new Promise<void>((resolve) => this.queue.push(resolve));
+  }
+
+  release(): void {
+    const next = this.queue.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+/** Concurrency limits by tool, shared by every executor the tool is used in. */
+const toolSlots = new WeakMap<TypedToolDef, ToolSlots>();
+
+/** Run `execute` within the tool's concurrency limit, timeout and retries. */
+async function runTool(
+  toolDef: TypedToolDef,
+  params: Record<string, unknown>,
+  toolName: string,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const attempt = () => runAttempt(toolDef, params, toolName, signal);
+  if (!toolDef.maxConcurrency && !toolDef.retries) return attempt();
+  let slots: ToolSlots | undefined;
+  if (toolDef.maxConcurrency) {
+    slots = toolSlots.get(toolDef);
+    if (!slots) toolSlots.set(toolDef, slots = new ToolSlots(toolDef.maxConcurrency));
+    await slots.acquire();
+  }
+  try {
+    if (!toolDef.retries) return await attempt();
+    const retry = typeof toolDef.retries === "number" ? { maxRetries: toolDef.retries } : toolDef.retries;
+    return await withRetry(attempt, {
+      baseDelayMs: 200,
+      ...retry,
+      retryIf: (err, n) => !signal?.aborted
+        && (toolDef.idempotent === true || !(err instanceof ToolTimeoutError))
+        && (retry.retryIf?.(err, n) ?? true),
+    });
+  } finally {
+    slots?.release();
+  }
+}
+
+/** One call of `execute`, failed with a {@link ToolTimeoutError} after `timeoutMs`. */
+async function runAttempt(
+  toolDef: TypedToolDef,
+  params: Record<string, unknown>,
+  toolName: string,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const { timeoutMs } = toolDef;
+  if (!timeoutMs) return toolDef.execute(params, { toolName, signal });
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  if (signal?.aborted) onAbort();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new ToolTimeoutError(toolName, `timed out after ${timeoutMs}ms`);
+      controller.abort(err);
+      reject(err);
+    }, timeoutMs);
+  });
+  try {
+    // execute may ignore the signal: stop waiting for it at the timeout
+    return await Promise.race([toolDef.execute(params, { toolName, signal: controller.signal }), timedOut]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
@@ -37,9 +37,78 @@ export interface ProviderOptions {
 
 export type MessageRole = "system" | "user" | "assistant" | "tool";
 
+/** Plain text content. */
+export interface TextPart {
+  type: "text";
+  text: string;
+}
+
+/**
+ * An image, referenced by URL or inlined as base64 `data`. Kept in `Memory` and
+ * message history; `Agent` cannot send it yet and throws a `CapabilityError`.
+ */
+export interface ImagePart {
+  type: "image";
+  url?: string;
+  /** Base64-encoded image bytes (without the `data:` prefix). */
+  data?: string;
+  /** MIME type (e.g. `"image/png"`). Required with `data`. */
+  mimeType?: string;
+  /** Resolution hint for providers that support it. */
+  detail?: "auto" | "low" | "high";
+}
+
+/** An audio clip, referenced by URL or inlined as base64 `data`. Not sendable by `Agent` yet, like {@link ImagePart}. */
+export interface AudioPart {
+  type: "audio";
+  url?: string;
+  data?: string;
+  /** MIME type (e.g. `"audio/wav"`, `"audio/mpeg"`). */
+  mimeType?: string;
+}
+
+/** A document such as a PDF, referenced by URL or inlined as base64 `data`. Not sendable by `Agent` yet, like {@link ImagePart}. */
+export interface DocumentPart {
+  type: "document";
+  url?: string;
+  data?: string;
+  /** MIME type (e.g. `"application/pdf"`). */
+  mimeType?: string;
+  /** Title shown to the model and used in citations. */
+  title?: string;
+}
+
+/** A tool invocation requested by the assistant. */
+export interface ToolCallPart {
+  type: "tool_call";
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/** The result of a tool invocation, sent back to the model. */
+export interface ToolResultPart {
+  type: "tool_result";
+  toolCallId: string;
+  /** Tool output. Non-string values are JSON-encoded. */
+  content: unknown;
+  isError?: boolean;
+}
+
+export type ContentPart =
+  | TextPart
+  | ImagePart
+  | AudioPart
+  | DocumentPart
+  | ToolCallPart
+  | ToolResultPart;
+
+/** Message content: plain text or an ordered list of multimodal parts. */
+export type MessageContent = string | ContentPart[];
+
 export interface Message {
   role: MessageRole;
-  content: string;
+  content: MessageContent;
 }
 
 // ─── Tools ─────────────────────────────────────────────────────────
@@ -103,6 +172,31 @@ export interface AgentResult {
   citations?: Citation[];
   /** Grounding metadata from Google Search grounding. */
   groundingMetadata?: GroundingMetadata[];
+  /** Guardrail outcomes for this run (only set when a guardrail chain is attached). */
+  guardrailReport?: GuardrailReport;
+  /** Middleware outcomes for this run (only set when a middleware chain is attached). */
+  middleware?: MiddlewareReport;
+  /** Which provider served the run (only set when fallbacks or a circuit breaker are configured). */
+  resilience?: ResilienceReport;
+  /** Retrieved context and the chunks the answer cited (only set when a retriever is attached). */
+  retrieval?: RetrievalReport;
+  /** Where the run was checkpointed (only set when a checkpoint store is attached). */
+  checkpoint?: CheckpointReport;
+}
+
+/**
+ * Usage consumed by a run that was aborted before completion.
+ *
+ * Token counts are provider-reported when streaming events carry usage, and
+ * estimated with the local tokenizer otherwise.
+ */
+export interface PartialUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Tool calls that completed before cancellation. */
+  toolCalls: number;
+  /** Whether the token counts are local estimates rather than provider-reported. */
+  estimated: boolean;
 }
 
 // ─── Grounding ──────────────────────────────────────────────────────
@@ -236,7 +330,10 @@ export type MemoryTier = "core" | "active" | "background" | "archive";
 
 export interface MemoryEntry {
   id: string;
+  /** Textual content (text parts joined when the entry was stored from content parts). */
   content: string;
+  /** Original multimodal content parts, when the entry was stored from them. */
+  parts?: ContentPart[];
   entryType: MemoryEntryType;
   timestamp: string;
   tier?: MemoryTier;
@@ -248,7 +345,35 @@ export interface MemoryEntry {
 
 export interface RecallOptions {
   sessionId?: string;
+  /** At most this many entries: the most recent, or the best ranked when ranking. */
   limit?: number;
+  /**
+   * Rank entries by similarity to this text, combined with recency and importance.
+   * Similarity needs an embedder on the `Memory`; without one, ranking uses
+   * recency and importance alone.
+   */
+  query?: string;
+  /** Only entries of these types. */
+  entryTypes?: MemoryEntryType[];
+  /** Only entries in these tiers. Entries without a tier count as `"active"`. */
+  tiers?: MemoryTier[];
+  /**
+   * Token budget for the recalled content. Entries are ranked (as with `query`)
+   * and taken best first while they fit; `core` entries are taken first.
+   */
+  maxTokens?: number;
+}
+
+/** How `Memory` ranks entries when recalling with `query` or `maxTokens`. */
+export interface MemoryRankingOptions {
+  /** Hours after which an entry's recency score halves (default: 24). */
+  halfLifeHours?: number;
+  /** Weight of query similarity (default: 1). */
+  relevanceWeight?: number;
+  /** Weight of recency decay (default: 1). */
+  recencyWeight?: number;
+  /** Weight of `entry.importance`, 0–1, 0.5 when unset (default: 1). */
+  importanceWeight?: number;
 }
 
 export interface MemoryStats {
@@ -256,6 +381,97 @@ export interface MemoryStats {
   [key: string]: unknown;
 }
 
+/** One session held by a memory backend. */
+export interface MemorySessionInfo {
+  sessionId: string;
+  entries: number;
+  /** Timestamp of the oldest entry. */
+  firstTimestamp: string;
+  /** Timestamp of the newest entry. */
+  lastTimestamp: string;
+}
+
+/**
+ * Storage behind `Memory`. Implement it to keep conversation history in a
+ * database shared between workers.
+ *
+ * `recall` returns entries oldest first; with `limit`, the most recent `limit`.
+ */
+export interface MemoryBackend {
+  store(entry: MemoryEntry): Promise<void>;
+  recall(options?: RecallOptions): Promise<MemoryEntry[]>;
+  /** Remove every entry, or only those of `sessionId`. */
+  clear(sessionId?: string): Promise<void>;
+  stats(): Promise<MemoryStats>;
+  /** Sessions with at least one entry, most recently active first. */
+  listSessions(): Promise<MemorySessionInfo[]>;
+  /**
+   * Erase a session so that no copy remains in the backend's storage.
+   * Resolves to the number of entries removed.
+   */
+  deleteSession(sessionId: string): Promise<number>;
+  /** Release connections or handles. */
+  close?(): void;
+}
+
+// ─── Checkpoints ───────────────────────────────────────────────────
+
+/** A saved state of a run, e.g. after an agent tool call or a graph node. */
+export interface Checkpoint {
+  id: string;
+  /** Groups the checkpoints of one run; `loadLatest` looks up by it. */
+  sessionId: string;
+  data: Record<string, unknown>;
+  timestamp: string;
+}
+
+/** Where a checkpointed run's state was saved. */
+export interface CheckpointReport {
+  /** Session ID of the run's checkpoints; pass it to `CheckpointStore.loadLatest`. */
+  runId: string;
+  /** The last checkpoint saved, which `resume` accepts. */
+  checkpointId: string;
+}
+
+/**
+ * Storage behind `CheckpointStore`. Implement it to keep checkpoints in a
+ * database shared between workers.
+ */
+export interface CheckpointBackend {
+  /** Save a checkpoint, replacing one with the same ID. */
+  save(checkpoint: Checkpoint): Promise<void>;
+  load(checkpointId: string): Promise<Checkpoint | null>;
+  /** The most recent checkpoint of a session. */
+  loadLatest(sessionId: string): Promise<Checkpoint | null>;
+  /** Checkpoints of a session, oldest first. */
+  list?(sessionId: string): Promise<Checkpoint[]>;
+  /** Remove a session's checkpoints. Resolves to the number removed. */
+  deleteSession?(sessionId: string): Promise<number>;
+  /** Release connections or handles. */
+  close?(): void;
+}
+
+// ─── Approvals ─────────────────────────────────────────────────────
+
+/** A tool call waiting for a human decision. */
+export interface ApprovalRequest {
+  requestId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  sessionId: string;
+  /** ID of the model's tool call, when the request comes from an agent run. */
+  toolCallId?: string;
+}
+
+/** The outcome of an {@link ApprovalRequest}. */
+export interface ApprovalDecision {
+  approved: boolean;
+  /** Arguments to run the tool with instead of the requested ones. */
+  modifiedArgs?: Record<string, unknown>;
+  /** Why the call was denied; sent back to the model. */
+  reason?: string;
+}
+
 // ─── RAG / Vector Store ────────────────────────────────────────────
 
 export interface VectorChunk {
@@ -272,12 +488,305 @@ export interface SearchResult {
   text: string;
   score: number;
   metadata?: Record<string, unknown>;
+  /** BM25 score, for lexical and hybrid searches when the chunk matched the query terms. */
+  lexicalScore?: number;
+  /** Cosine similarity, for hybrid searches when the chunk was among the vector candidates. */
+  semanticScore?: number;
+  /** Score from the last reranker applied (also copied to `score`). */
+  rerankScore?: number;
+  /** Stored embedding, when searched with `includeEmbeddings`. */
+  embedding?: number[];
+}
+
+/** Comparable metadata value for range filters (numbers, or ISO date strings). */
+export type FilterBound = number | string;
+
+/**
+ * Metadata filter expression for vector search. `field` is a key of the chunk's
+ * `metadata` (dotted paths reach nested objects).
+ *
+ * @example
+ *   { op: "and", filters: [
+ *     { op: "eq", field: "tenant", value: "acme" },
+ *     { op: "range", field: "date", gte: "2024-01-01" },
+ *   ] }
+ */
+export type MetadataFilter =
+  | { op: "eq"; field: string; value: unknown }
+  | { op: "in"; field: string; values: unknown[] }
+  | { op: "range"; field: string; gt?: FilterBound; gte?: FilterBound; lt?: FilterBound; lte?: FilterBound }
+  | { op: "and"; filters: MetadataFilter[] }
+  | { op: "or"; filters: MetadataFilter[] };
+
+/** Options for {@link VectorStore} searches. */
+export interface VectorSearchOptions {
+  /** Only consider chunks whose metadata matches. */
+  filter?: MetadataFilter;
+  /** Attach each chunk's stored embedding to its result (e.g. for MMR reranking). */
+  includeEmbeddings?: boolean;
+}
+
+/** Options for {@link VectorStore.hybridSearch}. */
+export interface HybridSearchOptions extends VectorSearchOptions {
+  /** Results to return (default: 5). */
+  topK?: number;
+  /** Results taken from each ranking before fusion (default: 4 × topK). */
+  candidates?: number;
+  /** Weighted fusion: share of the semantic score, 0–1. Replaces reciprocal-rank fusion. */
+  alpha?: number;
+  /** Reciprocal-rank fusion constant (default: 60). */
+  rrfK?: number;
+}
+
+/** A document held by a vector store. */
+export interface VectorDocumentInfo {
+  documentId: string;
+  chunks: number;
+}
+
+export interface VectorStoreStats {
+  chunks: number;
+  documents: number;
+  /** Embedding dimensions, once configured or inferred from the first embedding. */
+  dimensions?: number;
+}
+
+/**
+ * Turns texts into embedding vectors. See `ProviderEmbedder`, `LocalEmbedder`
+ * and `CachedEmbedder`.
+ */
+export interface Embedder {
+  /** Identifies the embedding space (e.g. `"openai/text-embedding-3-small"`); used as cache namespace. */
+  readonly id: string;
+  /** Vector size, when known up front. */
+  readonly dimensions?: number;
+  /** Embed `texts`, returning one vector per text in the same order. */
+  embed(texts: string[], options?: { signal?: AbortSignal }): Promise<number[][]>;
+}
+
+/** Options passed to {@link Reranker.rerank}. */
+export interface RerankOptions {
+  /** Results to return. */
+  topK: number;
+  /** Query embedding, for rerankers that compare embeddings (e.g. MMR). */
+  queryEmbedding?: number[];
+  signal?: AbortSignal;
+}
+
+/**
+ * Reorders search candidates, e.g. over-fetch 50 and keep the best 5. See
+ * `llmReranker`, `crossEncoderReranker` and `mmrReranker`.
+ */
+export interface Reranker {
+  readonly name: string;
+  /** Return up to `options.topK` of `results`, best first. */
+  rerank(query: string, results: SearchResult[], options: RerankOptions): Promise<SearchResult[]>;
+}
+
+/** A search result with the document it came from. */
+export interface RetrievedChunk extends SearchResult {
+  documentId: string;
+  /** Where the document was loaded from (file path or document ID). */
+  source: string;
+}
+
+/** Context retrieved for a single run. */
+export interface RetrievalContext {
+  /** System message content presenting the chunks to the model. */
+  prompt: string;
+  chunks: RetrievedChunk[];
+}
+
+/**
+ * Supplies retrieved context to {@link Agent.run}, e.g. a `RagPipeline`
+ * attached with `attachTo(agent)`.
+ */
+export interface AgentRetriever {
+  /** Retrieve context for the latest user message. */
+  augment(query: string, options?: { signal?: AbortSignal }): Promise<RetrievalContext>;
+  /** IDs of the chunks in `context` that `answer` draws on. */
+  usedChunkIds(answer: string, context: RetrievalContext): string[];
+}
+
+export interface RetrievalReport {
+  /** Chunks injected into the run, best first. */
+  chunks: RetrievedChunk[];
+  /** Chunks the answer cited, in order of first citation. */
+  usedChunkIds: string[];
 }
 
 // ─── Guardrails ────────────────────────────────────────────────────
 
 export type PiiAction = "block" | "warn" | "redact";
 
+/** Where in the request lifecycle a guardrail check ran. */
+export type GuardrailStage = "input" | "output";
+
+/** Outcome of a guardrail check, ordered from least to most severe. */
+export type GuardrailAction = "allow" | "warn" | "redact" | "block";
+
+/** A single rule violation detected by a guardrail. */
+export interface GuardrailViolation {
+  /** Guardrail that fired (e.g. `"pii_detection"`, `"regex_filter"`). */
+  guardrail: string;
+  /** Action taken for this violation. */
+  action: Exclude<GuardrailAction, "allow">;
+  /** Human-readable description of the violation. */
+  message: string;
+  /** The offending pattern, PII kind or rule, when applicable. */
+  rule?: string;
+}
+
+/** Result of evaluating a guardrail chain against one piece of text. */
+export interface GuardrailCheckResult {
+  stage: GuardrailStage;
+  /** Most severe action across all violations. */
+  action: GuardrailAction;
+  /** The checked text, with redactions applied. */
+  text: string;
+  violations: GuardrailViolation[];
+}
+
+/** Guardrail annotations attached to an {@link AgentResult}. */
+export interface GuardrailReport {
+  /** Most severe action across input and output checks. */
+  action: GuardrailAction;
+  input?: GuardrailCheckResult;
+  output?: GuardrailCheckResult;
+}
+
+// ─── Middleware ────────────────────────────────────────────────────
+
+/** Agent entry point a middleware invocation originates from. */
+export type MiddlewareEntry =
+  | "run"
+  | "runWithTools"
+  | "stream"
+  | "streamIter"
+  | "streamText"
+  | "generate"
+  | "generateWithTools";
+
+/** Request context passed to middleware hooks. */
+export interface MiddlewareContext {
+  entry: MiddlewareEntry;
+  /** Name of the agent making the request. */
+  agent: string;
+  model: string;
+  /** Messages about to be sent. `before` hooks may return a replacement array. */
+  messages: Message[];
+  /** Request options that take part in the cache key. */
+  options: Record<string, unknown>;
+  /** Tools the agent loop may call; such requests are never served from cache. */
+  tools?: string[];
+}
+
+/**
+ * User-defined middleware with optional hooks around each provider request.
+ *
+ * `before` hooks run in registration order and may return replacement messages;
+ * `after` hooks run in reverse order and may return a replacement result. `after`
+ * is only invoked for entry points that produce an {@link AgentResult} (not `generate`).
+ */
+export interface AgentMiddleware {
+  name?: string;
+  before?: (ctx: MiddlewareContext) => void | Message[] | Promise<void | Message[]>;
+  after?: (
+    ctx: MiddlewareContext,
+    result: AgentResult
+  ) => void | AgentResult | Promise<void | AgentResult>;
+}
+
+/** Middleware annotations attached to an {@link AgentResult}. */
+export interface MiddlewareReport {
+  /** Whether the result was served from the caching middleware. */
+  cacheHit: boolean;
+  /** Time spent waiting on the rate limiter, in milliseconds. */
+  rateLimitWaitMs: number;
+}
+
+/** A single record emitted by the logging middleware. */
+export interface MiddlewareLogEntry extends MiddlewareReport {
+  entry: MiddlewareEntry;
+  agent: string;
+  model: string;
+  durationMs: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  error?: string;
+}
+
+// ─── Resilience ────────────────────────────────────────────────────
+
+/** Circuit breaker state for one provider. */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Circuit breaker tuning. */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5). */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial request is allowed (default: 30000). */
+  recoveryTimeoutMs?: number;
+}
+
+/** A provider/model pair in a fallback chain. */
+export interface ProviderTarget {
+  provider: ProviderType;
+  model: string;
+}
+
+/** A provider that failed, or was skipped because its circuit was open. */
+export interface ProviderFailure extends ProviderTarget {
+  error: string;
+}
+
+/** Resilience annotations attached to an {@link AgentResult}. */
+export interface ResilienceReport extends ProviderTarget {
+  /** Providers actually called, including the one that served the request. */
+  attempts: number;
+  /** Fallback providers tried after the primary (0 when the primary served). */
+  fallbacks: number;
+  /** Providers that failed or were skipped before the request was served. */
+  failures: ProviderFailure[];
+}
+
+/** Events emitted by an agent's fallback chain. */
+export type ResilienceEvent =
+  | { type: "fallback"; agent: string; from: ProviderTarget; to: ProviderTarget; error: string }
+  | { type: "circuit"; agent: string; target: ProviderTarget; from: CircuitState; to: CircuitState };
+
+// ─── Standard Schema ───────────────────────────────────────────────
+
+/**
+ * A schema from any library implementing Standard Schema (https://standardschema.dev),
+ * e.g. Zod, Valibot or ArkType. Libraries that also implement Standard JSON Schema
+ * (`jsonSchema`, e.g. Zod 4.2+ and ArkType) can describe themselves to providers.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+    readonly jsonSchema?: {
+      readonly input: (options: { target: string }) => Record<string, unknown>;
+      readonly output: (options: { target: string }) => Record<string, unknown>;
+    };
+  };
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/** The type a {@link StandardSchemaV1} validates to. */
+export type InferSchemaOutput<S extends StandardSchemaV1> = NonNullable<S["~standard"]["types"]>["output"];
+
 // ─── Tool Validator ────────────────────────────────────────────────
 
 export type CoercionStrategy =
@@ -1,6 +1,32 @@
 /**
  * VectorStore SDK wrapper — in-memory RAG vector store backed by Rust core.
+ *
+ * Chunks are mirrored on the TypeScript side so they can be deleted, listed,
+ * filtered by metadata and persisted, and are indexed with BM25 for keyword and
+ * hybrid search. Unfiltered vector searches run in the native store; filtered
+ * searches score only the matching chunks.
+ *
+ * @example
+ *   await store.deleteDocument("handbook.md");
+ *   await store.upsert(reindexedChunks);
+ *   const hits = await store.search(embedding, 5, {
+ *     filter: { op: "eq", field: "tenant", value: "acme" },
+ *   });
+ *
+ * @example
+ *   // Survive restarts: load the index and keep appending changes to it
+ *   const store = await VectorStore.load("index.jsonl", { persist: true });
+ *   await store.upsert(newChunks); // appended to index.jsonl
+ *   await store.save("index.jsonl"); // compact the log into a snapshot
+ *
+ * @example
+ *   // Exact identifiers (SKUs, error codes) plus semantic matches
+ *   const hits = await store.hybridSearch("E_CONN_RESET on checkout", embedding, { topK: 5 });
+ *   hits[0].lexicalScore; hits[0].semanticScore;
  */
+import { appendFile, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
 import {
   create_vector_store,
   vector_store_upsert,
@@ -14,60 +40,320 @@ import type {
   Disposable,
   VectorChunk,
   SearchResult,
+  MetadataFilter,
+  FilterBound,
+  VectorSearchOptions,
+  VectorDocumentInfo,
+  VectorStoreStats,
+  HybridSearchOptions,
+  Embedder,
 } from "./types.js";
-import { DisposedError } from "./errors.js";
+import { DisposedError, ValidationError } from "./errors.js";
+import { Bm25Index } from "./bm25.js";
+import { toEmbedder, type EmbedFn } from "./embeddings.js";
+
+const DEFAULT_RRF_K = 60;
+
+/** On-disk format identifier and version written in the snapshot header. */
+const SNAPSHOT_FORMAT = "gauss-vector-store";
+const SNAPSHOT_VERSION = 1;
+
+export interface VectorStoreOptions {
+  /** Embedding size. Inferred from the first stored embedding when omitted. */
+  dimensions?: number;
+  /** JSONL file every upsert and delete is appended to (see {@link VectorStore.load}). */
+  persistPath?: string;
+}
+
+/** One line of a snapshot file after the header. */
+type SnapshotRecord =
+  | { op: "upsert"; chunk: VectorChunk }
+  | { op: "delete"; ids: string[] };
+
+interface SnapshotHeader {
+  format: string;
+  version: number;
+  dimensions: number | null;
+}
 
 export class VectorStore implements Disposable {
-  private readonly _handle: Handle;
+  private _handle: Handle;
   private disposed = false;
+  private readonly chunks = new Map<string, VectorChunk>();
+  private readonly lexical = new Bm25Index();
+  private _dimensions: number | undefined;
+  private persistPath: string | undefined;
+  /** Serializes native and file writes so a rebuild never races an upsert. */
+  private writes: Promise<void> = Promise.resolve();
 
-  constructor(_options?: { dimensions?: number }) {
+  constructor(options?: VectorStoreOptions) {
     this._handle = create_vector_store();
+    this._dimensions = options?.dimensions;
+    this.persistPath = options?.persistPath;
+  }
+
+  /**
+   * Load a store saved with {@link VectorStore.save}, replaying any changes appended after it.
+   *
+   * @param options.persist - Keep appending changes to `path` (default: false).
+   * @throws {ValidationError} If the file is not a supported snapshot or its chunks do not
+   * match the expected dimensions. A truncated last line (e.g. from a crash mid-append) is
+   * ignored, and dropped from the file when persisting.
+   */
+  static async load(path: string, options?: { dimensions?: number; persist?: boolean }): Promise<VectorStore> {
+    const lines = (await readFile(path, "utf8")).split("\n").filter((line) => line.trim() !== "");
+    const header = parseHeader(lines[0], path);
+    const dimensions = options?.dimensions ?? header.dimensions ?? undefined;
+    if (options?.dimensions !== undefined && header.dimensions !== null && header.dimensions !== options.dimensions) {
+      throw new ValidationError(
+        `${path} holds ${header.dimensions}-dimensional embeddings, expected ${options.dimensions}`, "dimensions");
+    }
+
+    const chunks = new Map<string, VectorChunk>();
+    let tornTail = false;
+    for (let i = 1; i < lines.length; i++) {
+      let record: SnapshotRecord;
+      try {
+        record = JSON.parse(lines[i]) as SnapshotRecord;
+      } catch {
+        if (i === lines.length - 1) {
+          tornTail = true;
+          break;
+        }
+        throw new ValidationError(`corrupt record on line ${i + 1} of ${path}`, "path");
+      }
+      if (record.op === "upsert") chunks.set(record.chunk.id, record.chunk);
+      else if (record.op === "delete") record.ids.forEach((id) => chunks.delete(id));
+    }
+
+    const store = new VectorStore({ dimensions });
+    try {
+      if (chunks.size > 0) await store.upsert([...chunks.values()]);
+    } catch (err) {
+      store.destroy();
+      throw err;
+    }
+    if (options?.persist) {
+      // Rewrite a torn log so later appends do not land on the partial line
+      if (tornTail) await store.save(path);
+      store.persistPath = path;
+    }
+    return store;
   }
 
+  /** Native store handle. Replaced when chunks are deleted. */
   get handle(): Handle {
     return this._handle;
   }
 
+  /** Embedding size, once configured or inferred. */
+  get dimensions(): number | undefined {
+    return this._dimensions;
+  }
+
+  /**
+   * Insert or replace chunks (by id).
+   *
+   * @throws {ValidationError} If an embedding does not match the store's dimensions;
+   * nothing is stored in that case.
+   */
   async upsert(chunks: VectorChunk[]): Promise<void> {
     this.assertNotDisposed();
-    // Convert camelCase to snake_case for Rust serde
-    const rustChunks = chunks.map((c) => ({
-      id: c.id,
-      document_id: c.documentId,
-      content: c.content,
-      index: c.index,
-      metadata: c.metadata ?? {},
-      embedding: c.embedding,
-    }));
-    return vector_store_upsert(this._handle, JSON.stringify(rustChunks));
-  }
-
-  async search(embedding: number[], topK: number): Promise<SearchResult[]> {
+    let dimensions = this._dimensions;
+    for (const chunk of chunks) {
+      if (!chunk.embedding) continue;
+      dimensions ??= chunk.embedding.length;
+      if (chunk.embedding.length !== dimensions) {
+        throw new ValidationError(
+          `chunk "${chunk.id}" has ${chunk.embedding.length} dimensions, expected ${dimensions}`, "embedding");
+      }
+    }
+    this._dimensions = dimensions;
+    for (const chunk of chunks) {
+      this.chunks.set(chunk.id, { ...chunk });
+      this.lexical.add(chunk.id, chunk.content);
+    }
+    return this.enqueue(async () => {
+      await vector_store_upsert(this._handle, JSON.stringify(toRustChunks(chunks)));
+      await this.append(chunks.map((chunk) => ({ op: "upsert", chunk })));
+    });
+  }
+
+  /**
+   * Find the `topK` chunks most similar to `embedding`. Unfiltered searches
+   * wait for pending writes, so they see every upsert and delete issued before them.
+   *
+   * @throws {ValidationError} If `options.filter` is malformed.
+   */
+  async search(embedding: number[], topK: number, options?: VectorSearchOptions): Promise<SearchResult[]> {
+    this.assertNotDisposed();
+    if (options?.filter) return this.withEmbeddings(this.searchFiltered(embedding, topK, options.filter), options);
+    await this.writes;
     this.assertNotDisposed();
-    return vector_store_search(
-      this._handle,
-      JSON.stringify(embedding),
-      topK
-    ) as Promise<SearchResult[]>;
+    const results = await vector_store_search(this._handle, JSON.stringify(embedding), topK) as SearchResult[];
+    return this.withEmbeddings(results, options);
   }
 
   /**
-   * Search by text query with auto-embedding via a provider.
+   * Search by text query, embedding it with `embedder` (an {@link Embedder} or a single-text callback).
    */
   async searchByText(
     query: string,
     topK: number,
-    embedFn: (text: string) => Promise<number[]>
+    embedder: Embedder | EmbedFn,
+    options?: VectorSearchOptions
   ): Promise<SearchResult[]> {
     this.assertNotDisposed();
-    const embedding = await embedFn(query);
-    return this.search(embedding, topK);
+    const [embedding] = await toEmbedder(embedder).embed([query]);
+    return this.search(embedding, topK, options);
+  }
+
+  /**
+   * Rank chunks by BM25 keyword relevance to `query`.
+   *
+   * @returns Matches with `score` and `lexicalScore` set to the BM25 score.
+   * @throws {ValidationError} If `options.filter` is malformed.
+   */
+  async lexicalSearch(query: string, topK: number, options?: VectorSearchOptions): Promise<SearchResult[]> {
+    this.assertNotDisposed();
+    const filter = options?.filter;
+    if (filter) assertValidFilter(filter);
+    const results = this.lexical
+      .search(query, topK, filter ? (id) => matchesFilter(this.chunks.get(id)?.metadata ?? {}, filter) : undefined)
+      .map(({ id, score }) => ({ ...this.toResult(id, score), lexicalScore: score }));
+    return this.withEmbeddings(results, options);
+  }
+
+  /**
+   * Fuse BM25 keyword search over `query` with vector search over `embedding`.
+   *
+   * @description Both rankings are computed over `options.candidates` results each and merged with
+   * reciprocal-rank fusion (`score = Σ 1 / (rrfK + rank)`), or — when `alpha` is set — with a
+   * weighted sum of min-max normalized scores (`alpha · semantic + (1 − alpha) · lexical`).
+   * Each result carries its `lexicalScore` and `semanticScore` when it appeared in that ranking.
+   *
+   * @throws {ValidationError} If both `alpha` and `rrfK` are given, `alpha` is outside [0, 1],
+   * or `options.filter` is malformed.
+   */
+  async hybridSearch(query: string, embedding: number[], options: HybridSearchOptions = {}): Promise<SearchResult[]> {
+    this.assertNotDisposed();
+    const { alpha, rrfK, filter } = options;
+    if (alpha !== undefined && rrfK !== undefined) {
+      throw new ValidationError("use either alpha (weighted fusion) or rrfK (reciprocal-rank fusion)", "alpha");
+    }
+    if (alpha !== undefined && !(alpha >= 0 && alpha <= 1)) {
+      throw new ValidationError("must be between 0 and 1", "alpha");
+    }
+    const topK = options.topK ?? 5;
+    const candidates = Math.max(options.candidates ?? topK * 4, topK);
+
+    const [lexical, semantic] = await Promise.all([
+      this.lexicalSearch(query, candidates, { filter }),
+      this.search(embedding, candidates, { filter }),
+    ]);
+
+    const fused = new Map<string, SearchResult>();
+    const entry = (hit: SearchResult) => {
+      let result = fused.get(hit.id);
+      if (!result) {
+        result = { id: hit.id, text: hit.text, score: 0, metadata: hit.metadata };
+        fused.set(hit.id, result);
+      }
+      return result;
+    };
+    const lexicalNorm = normalizer(lexical);
+    const semanticNorm = normalizer(semantic);
+    lexical.forEach((hit, rank) => {
+      const result = entry(hit);
+      result.lexicalScore = hit.score;
+      result.score += alpha === undefined ? 1 / ((rrfK ?? DEFAULT_RRF_K) + rank + 1) : (1 - alpha) * lexicalNorm(hit.score);
+    });
+    semantic.forEach((hit, rank) => {
+      const result = entry(hit);
+      result.semanticScore = hit.score;
+      result.score += alpha === undefined ? 1 / ((rrfK ?? DEFAULT_RRF_K) + rank + 1) : alpha * semanticNorm(hit.score);
+    });
+    return this.withEmbeddings([...fused.values()].sort((a, b) => b.score - a.score).slice(0, topK), options);
+  }
+
+  /**
+   * Delete chunks by id. Unknown ids are ignored.
+   *
+   * @returns The number of chunks removed.
+   */
+  async delete(ids: string[]): Promise<number> {
+    this.assertNotDisposed();
+    let removed = 0;
+    for (const id of ids) {
+      if (this.chunks.delete(id)) removed++;
+      this.lexical.remove(id);
+    }
+    if (removed > 0) {
+      await this.enqueue(async () => {
+        await this.rebuild();
+        await this.append([{ op: "delete", ids }]);
+      });
+    }
+    return removed;
+  }
+
+  /**
+   * Delete every chunk of a document, e.g. before re-indexing it.
+   *
+   * @returns The number of chunks removed.
+   */
+  async deleteDocument(documentId: string): Promise<number> {
+    this.assertNotDisposed();
+    const ids = [...this.chunks.values()].filter((c) => c.documentId === documentId).map((c) => c.id);
+    return this.delete(ids);
+  }
+
+  /** The stored chunk with `id`, if any. */
+  getChunk(id: string): VectorChunk | undefined {
+    this.assertNotDisposed();
+    return this.chunks.get(id);
+  }
+
+  /** Documents in the store with their chunk counts, in insertion order. */
+  listDocuments(): VectorDocumentInfo[] {
+    this.assertNotDisposed();
+    const counts = new Map<string, number>();
+    for (const chunk of this.chunks.values()) {
+      counts.set(chunk.documentId, (counts.get(chunk.documentId) ?? 0) + 1);
+    }
+    return [...counts].map(([documentId, chunks]) => ({ documentId, chunks }));
+  }
+
+  /**
+   * Write a compact snapshot of every chunk to `path` (JSON Lines, versioned header).
+   *
+   * @description The file is written to a temporary sibling and renamed into place. Saving
+   * to the store's `persistPath` compacts its change log.
+   */
+  async save(path: string): Promise<void> {
+    this.assertNotDisposed();
+    await this.enqueue(async () => {
+      const records: SnapshotRecord[] = [...this.chunks.values()].map((chunk) => ({ op: "upsert", chunk }));
+      const body = [this.header(), ...records].map((line) => JSON.stringify(line)).join("\n") + "\n";
+      await mkdir(dirname(path), { recursive: true });
+      const tmp = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp, body, "utf8");
+      await rename(tmp, path);
+    });
+  }
+
+  stats(): VectorStoreStats {
+    this.assertNotDisposed();
+    const documents = new Set<string>();
+    for (const chunk of this.chunks.values()) documents.add(chunk.documentId);
+    return { chunks: this.chunks.size, documents: documents.size, dimensions: this._dimensions };
   }
 
   destroy(): void {
     if (!this.disposed) {
       this.disposed = true;
+      this.chunks.clear();
+      this.lexical.clear();
       try {
         destroy_vector_store(this._handle);
       } catch {
@@ -86,7 +372,174 @@ export class VectorStore implements Disposable {
     }
   }
 
+  private searchFiltered(embedding: number[], topK: number, filter: MetadataFilter): SearchResult[] {
+    assertValidFilter(filter);
+    const scored: SearchResult[] = [];
+    for (const chunk of this.chunks.values()) {
+      if (!chunk.embedding || !matchesFilter(chunk.metadata ?? {}, filter)) continue;
+      scored.push(this.toResult(chunk.id, cosine(embedding, chunk.embedding)));
+    }
+    return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  private toResult(id: string, score: number): SearchResult {
+    const chunk = this.chunks.get(id);
+    return { id, text: chunk?.content ?? "", score, metadata: chunk?.metadata };
+  }
+
+  /** Attach stored embeddings when `options.includeEmbeddings` is set. */
+  private withEmbeddings(results: SearchResult[], options?: VectorSearchOptions): SearchResult[] {
+    if (!options?.includeEmbeddings) return results;
+    return results.map((result) => ({ ...result, embedding: this.chunks.get(result.id)?.embedding }));
+  }
+
+  private header(): SnapshotHeader {
+    return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, dimensions: this._dimensions ?? null };
+  }
+
+  /** Append change records to `persistPath`, starting the file with a header if needed. */
+  private async append(records: SnapshotRecord[]): Promise<void> {
+    const path = this.persistPath;
+    if (!path || records.length === 0) return;
+    await mkdir(dirname(path), { recursive: true });
+    const lines = records.map((record) => JSON.stringify(record));
+    try {
+      await writeFile(path, `${JSON.stringify(this.header())}\n${lines.join("\n")}\n`, { encoding: "utf8", flag: "wx" });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      await appendFile(path, `${lines.join("\n")}\n`, "utf8");
+    }
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writes.then(write);
+    this.writes = next.catch(() => {});
+    return next;
+  }
+
+  /** The native store has no delete: replace it with one holding the remaining chunks. */
+  private async rebuild(): Promise<void> {
+    const next = create_vector_store();
+    try {
+      if (this.chunks.size > 0) {
+        await vector_store_upsert(next, JSON.stringify(toRustChunks([...this.chunks.values()])));
+      }
+    } catch (err) {
+      destroy_vector_store(next);
+      throw err;
+    }
+    const previous = this._handle;
+    this._handle = next;
+    try {
+      destroy_vector_store(previous);
+    } catch {
+      // Already destroyed.
+    }
+  }
+
   static cosineSimilarity(a: number[], b: number[]): number {
     return cosine_similarity(a, b);
   }
 }
+
+// ─── Helpers ───────────────────────────────────────────────────────
+
+function parseHeader(line: string | undefined, path: string): SnapshotHeader {
+  let header: Partial<SnapshotHeader> | undefined;
+  try {
+    header = line ? JSON.parse(line) as Partial<SnapshotHeader> : undefined;
+  } catch {
+    // Reported below
+  }
+  if (header?.format !== SNAPSHOT_FORMAT) {
+    throw new ValidationError(`${path} is not a vector store snapshot`, "path");
+  }
+  if (header.version !== SNAPSHOT_VERSION) {
+    throw new ValidationError(`unsupported snapshot version ${String(header.version)} in ${path}`, "path");
+  }
+  return { format: header.format, version: header.version, dimensions: header.dimensions ?? null };
+}
+
+/** Convert camelCase to snake_case for Rust serde. */
+function toRustChunks(chunks: VectorChunk[]) {
+  return chunks.map((c) => ({
+    id: c.id,
+    document_id: c.documentId,
+    content: c.content,
+    index: c.index,
+    metadata: c.metadata ?? {},
+    embedding: c.embedding,
+  }));
+}
+
+/** Min-max normalize scores of a ranking into [0, 1] (all-equal scores map to 1). */
+function normalizer(results: SearchResult[]): (score: number) => number {
+  const scores = results.map((r) => r.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return (score) => (range > 0 ? (score - min) / range : 1);
+}
+
+/** Cosine similarity computed in TypeScript (0 for zero vectors). @internal */
+export function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function readField(metadata: Record<string, unknown>, field: string): unknown {
+  let value: unknown = metadata;
+  for (const key of field.split(".")) {
+    if (value === null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function inRange(value: unknown, f: Extract<MetadataFilter, { op: "range" }>): boolean {
+  // Bounds only compare against values of the same type (numbers, or strings such as ISO dates)
+  const within = (bound: FilterBound | undefined, ok: (v: FilterBound, b: FilterBound) => boolean) =>
+    bound === undefined || (typeof value === typeof bound && ok(value as FilterBound, bound));
+  return (typeof value === "number" || typeof value === "string")
+    && within(f.gt, (v, b) => v > b)
+    && within(f.gte, (v, b) => v >= b)
+    && within(f.lt, (v, b) => v < b)
+    && within(f.lte, (v, b) => v <= b);
+}
+
+function matchesFilter(metadata: Record<string, unknown>, filter: MetadataFilter): boolean {
+  switch (filter.op) {
+    case "eq": return readField(metadata, filter.field) === filter.value;
+    case "in": return filter.values.includes(readField(metadata, filter.field));
+    case "range": return inRange(readField(metadata, filter.field), filter);
+    case "and": return filter.filters.every((f) => matchesFilter(metadata, f));
+    case "or": return filter.filters.some((f) => matchesFilter(metadata, f));
+  }
+}
+
+function assertValidFilter(filter: MetadataFilter): void {
+  switch (filter?.op) {
+    case "eq":
+    case "range":
+      if (typeof filter.field !== "string") throw new ValidationError(`"${filter.op}" needs a field`, "filter");
+      return;
+    case "in":
+      if (typeof filter.field !== "string" || !Array.isArray(filter.values)) {
+        throw new ValidationError(`"in" needs a field and a values array`, "filter");
+      }
+      return;
+    case "and":
+    case "or":
+      if (!Array.isArray(filter.filters)) throw new ValidationError(`"${filter.op}" needs a filters array`, "filter");
+      filter.filters.forEach(assertValidFilter);
+      return;
+    default:
+      throw new ValidationError(`unknown operator ${JSON.stringify((filter as { op?: unknown })?.op)}`, "filter");
+  }
+}